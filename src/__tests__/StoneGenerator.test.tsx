@@ -158,7 +158,7 @@ describe('StoneGenerator Component', () => {
         specs: expect.objectContaining({
           width: expect.any(Number),
           height: expect.any(Number),
-          polishedEdges: expect.any(Array),
+          edgeProfiles: expect.any(Object),
           materialType: expect.any(String),
           thickness: expect.any(String),
           quantity: expect.any(Number)
@@ -254,7 +254,7 @@ describe('StoneGenerator Component', () => {
       specs: {
         width: 24 + i,
         height: 4,
-        polishedEdges: ['top'],
+        edgeProfiles: { top: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -284,7 +284,7 @@ describe('StoneGenerator Component', () => {
       specs: {
         width: 24,
         height: 4,
-        polishedEdges: ['top'],
+        edgeProfiles: { top: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'vitest';
+import { createDrawingBundle, getBundleFileName, getBundleManifest, getBundleZipName } from '@/lib/bundle-export-utils';
+import { DEFAULT_MOCKUP_OPTIONS } from '@/lib/mockup-scene-utils';
+import { MockupOptions, StonePiece } from '@/types/stone';
+
+const pieces: StonePiece[] = [
+  { id: 'a', specs: { width: 96, height: 25.5, edgeProfiles: { top: 'eased' }, materialType: 'granite', thickness: '3cm', quantity: 1 }, notes: 'Sink run' },
+  { id: 'b', specs: { width: 48, height: 25.5, edgeProfiles: {}, materialType: 'granite', thickness: '3cm', quantity: 2 }, notes: '' },
+];
+
+// One character per byte, so positions in the text are offsets in the archive
+const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+describe('Bundle Export Utils', () => {
+  test('names files after the project and piece', () => {
+    expect(getBundleFileName('Smith Kitchen', 'Piece 1', 'png')).toBe('smith-kitchen-piece-1.png');
+    expect(getBundleFileName('  ', 'Piece 12', 'pdf')).toBe('stone-project-piece-12.pdf');
+    expect(getBundleZipName('Smith Kitchen')).toBe('smith-kitchen-drawings.zip');
+    expect(getBundleZipName('')).toBe('stone-project-drawings.zip');
+    expect(getBundleManifest(pieces, 'Smith Kitchen', ['svg', 'dxf']).pieces[1]).toEqual({
+      label: 'Piece 2', width: 48, height: 25.5, material: 'Granite', thickness: '3cm', quantity: 2, notes: '',
+      files: ['smith-kitchen-piece-2.svg', 'smith-kitchen-piece-2.dxf'],
+    });
+  });
+
+  test('zips every piece in each format after a manifest, reporting progress', async () => {
+    const progress: string[] = [];
+    const zip = decode(await createDrawingBundle(pieces, 'Smith Kitchen', ['svg', 'dxf', 'pdf'], undefined, undefined, (done, total) => progress.push(`${done}/${total}`)));
+
+    expect(progress).toEqual(['1/6', '2/6', '3/6', '4/6', '5/6', '6/6']);
+    expect(zip.indexOf('manifest.json')).toBe(30);
+    ['svg', 'dxf', 'pdf'].forEach(format => {
+      expect(zip).toContain(`smith-kitchen-piece-1.${format}`);
+      expect(zip).toContain(`smith-kitchen-piece-2.${format}`);
+    });
+    expect(zip).toContain('<svg');
+    expect(zip).toContain('%PDF-');
+  });
+
+  test('draws with the display options chosen in the editor', async () => {
+    const drawSVG = async (options: MockupOptions) => {
+      const zip = decode(await createDrawingBundle(pieces, 'Job', ['svg'], options));
+      return zip.slice(zip.indexOf('<svg'), zip.indexOf('</svg>'));
+    };
+    const plain = await drawSVG({ ...DEFAULT_MOCKUP_OPTIONS, showGrid: false });
+
+    expect(await drawSVG(DEFAULT_MOCKUP_OPTIONS)).not.toBe(plain);
+    expect(plain).not.toContain('1 of 2');
+    expect(await drawSVG({ ...DEFAULT_MOCKUP_OPTIONS, showGrid: false, showTitleBlock: true })).toContain('1 of 2');
+  });
+
+  test('rejects empty bundles', async () => {
+    await expect(createDrawingBundle([], 'Job', ['svg'])).rejects.toThrow('no saved pieces');
+    await expect(createDrawingBundle(pieces, 'Job', [])).rejects.toThrow('at least one format');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { getDraggedSize, hitTestMockup } from '@/lib/canvas-edit-utils';
+import { getStoneLayout } from '@/lib/mockup-scene-utils';
+import { cycleEdgeProfile } from '@/lib/edge-profile-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const specs: StoneSpecifications = {
+  width: 72,
+  height: 36,
+  edgeProfiles: { top: 'eased' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1
+};
+
+describe('Canvas Edit Utils', () => {
+  test('places the piece where the drawing puts it', () => {
+    // 720 x 520 of room at 10 pixels per inch, centered
+    expect(getStoneLayout(specs, {}, 800, 600)).toEqual({ x: 40, y: 120, scale: 10 });
+  });
+
+  test('finds the edge under the pointer, resizing from the right and bottom sides only', () => {
+    const layout = getStoneLayout(specs, {}, 800, 600);
+
+    expect(hitTestMockup(specs, layout, { x: 762, y: 300 })).toMatchObject({ edge: { id: 'right' }, resize: 'width', inside: false });
+    expect(hitTestMockup(specs, layout, { x: 400, y: 478 })).toMatchObject({ edge: { id: 'bottom' }, resize: 'height', inside: true });
+    expect(hitTestMockup(specs, layout, { x: 400, y: 121 })).toMatchObject({ edge: { id: 'top' }, resize: undefined });
+    expect(hitTestMockup(specs, layout, { x: 400, y: 300 })).toEqual({ edge: undefined, resize: undefined, inside: true });
+  });
+
+  test('does not resize from the inner edges of shaped pieces', () => {
+    const lShape: StoneSpecifications = { ...specs, shape: { type: 'l-shape', runDepth: 12, leftLegWidth: 24 } };
+    const layout = getStoneLayout(lShape, {}, 800, 600);
+
+    // Inner bottom edge, 12" down the right side of the run
+    const hit = hitTestMockup(lShape, layout, { x: layout.x + 48 * layout.scale, y: layout.y + 12 * layout.scale + 2 });
+    expect(hit.edge?.id).toBe('inner-bottom');
+    expect(hit.resize).toBeUndefined();
+  });
+
+  test('snaps dragged sizes to sixteenths of an inch', () => {
+    expect(getDraggedSize(72, 13, 10)).toBe(73.3125);
+    expect(getDraggedSize(4, -100, 10)).toBe(1);
+  });
+
+  test('cycles an edge through every profile and back to unpolished', () => {
+    let edgeProfiles = cycleEdgeProfile({ top: 'eased' }, 'right');
+    expect(edgeProfiles).toEqual({ top: 'eased', right: 'eased' });
+
+    edgeProfiles = cycleEdgeProfile(edgeProfiles, 'right');
+    expect(edgeProfiles.right).toBe('half-bullnose');
+
+    expect(cycleEdgeProfile({ top: 'eased', right: 'mitered' }, 'right')).toEqual({ top: 'eased' });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { FIT_VIEW, MAX_ZOOM, measureBetween, panView, snapMeasurePoint, toDrawingPoint, toPiecePoint, toViewPoint, zoomView } from '@/lib/canvas-view-utils';
+import { getStoneLayout } from '@/lib/mockup-scene-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const specs: StoneSpecifications = {
+  width: 72,
+  height: 36,
+  edgeProfiles: { top: 'eased' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1
+};
+
+describe('Canvas View Utils', () => {
+  test('zooms about the anchor point, keeping it still', () => {
+    const anchor = { x: 200, y: 150 };
+    const view = zoomView(FIT_VIEW, 2, anchor);
+
+    expect(view).toEqual({ zoom: 2, x: -200, y: -150 });
+    expect(toViewPoint(view, anchor)).toEqual(anchor);
+    expect(zoomView(view, 1000, anchor).zoom).toBe(MAX_ZOOM);
+  });
+
+  test('maps canvas points back through a zoomed and panned view', () => {
+    const view = panView(zoomView(FIT_VIEW, 4, { x: 0, y: 0 }), 30, -10);
+    const point = { x: 123, y: 45 };
+
+    expect(toDrawingPoint(view, toViewPoint(view, point))).toEqual(point);
+  });
+
+  test('converts drawing points to inches on the piece', () => {
+    // Piece drawn at (40, 120), 10 pixels per inch
+    const layout = getStoneLayout(specs, {}, 800, 600);
+    expect(toPiecePoint(layout, { x: 280, y: 300 })).toEqual({ x: 24, y: 18 });
+  });
+
+  test('snaps measuring points to nearby corners, or else to sixteenths', () => {
+    expect(snapMeasurePoint(specs, { x: 71.8, y: 35.7 }, 0.5)).toEqual({ x: 72, y: 36 });
+    expect(snapMeasurePoint(specs, { x: 10.04, y: 5.52 }, 0.5)).toEqual({ x: 10.0625, y: 5.5 });
+  });
+
+  test('measures the distance and runs between two points', () => {
+    expect(measureBetween({ x: 30, y: 40 }, { x: 0, y: 0 })).toEqual({ distance: 50, dx: 30, dy: 40 });
+  });
+});
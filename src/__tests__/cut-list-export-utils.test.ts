@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'vitest';
+import { cutListToCSV, cutListToXLSX, getCutListEntries, getCutListSummary } from '@/lib/cut-list-export-utils';
+import { StonePiece } from '@/types/stone';
+
+const pieces: StonePiece[] = [
+  {
+    id: 'island',
+    specs: {
+      width: 96,
+      height: 42.5,
+      edgeProfiles: { top: 'ogee', bottom: 'ogee' },
+      materialType: 'quartz',
+      material: { id: 'quartz-msi-calacatta-laza', brand: 'MSI', color: 'Calacatta Laza' },
+      thickness: '3cm',
+      quantity: 1,
+    },
+    notes: 'Island, waterfall "left"',
+  },
+  {
+    id: 'vanity',
+    specs: { width: 36, height: 22, edgeProfiles: { top: 'eased' }, materialType: 'marble', thickness: '2cm', quantity: 2 },
+    notes: '',
+  },
+];
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('Cut List Export Utils', () => {
+  test('measures each piece, counting every copy', () => {
+    const [island, vanity] = getCutListEntries(pieces);
+
+    expect(island).toMatchObject({ label: 'Piece 1', material: 'Calacatta Laza', sqFt: 28.333333333333332, polishedLinearFt: 16, quantity: 1 });
+    expect(vanity).toMatchObject({ label: 'Piece 2', material: 'Marble', sqFt: 11, polishedLinearFt: 6, quantity: 2 });
+    expect(getCutListSummary([island, vanity, { ...vanity, label: 'Piece 3' }])).toEqual([
+      { material: 'Calacatta Laza', thickness: '3cm', quantity: 1, sqFt: 28.333333333333332, polishedLinearFt: 16 },
+      { material: 'Marble', thickness: '2cm', quantity: 4, sqFt: 22, polishedLinearFt: 12 },
+    ]);
+  });
+
+  test('writes CSV with fractions, decimals and quoted text', () => {
+    const lines = cutListToCSV(pieces).split('\r\n');
+
+    expect(lines[0]).toBe('Label,Width,Width (in),Depth,Depth (in),Area (sq ft),Material,Thickness,Qty,Polished Edge (lin ft),Notes');
+    expect(lines[1]).toBe('Piece 1,"96""",96,"42-1/2""",42.5,28.33,Calacatta Laza,3cm,1,16,"Island, waterfall ""left"""');
+    expect(lines[2]).toBe('Piece 2,"36""",36,"22""",22,11,Marble,2cm,2,6,');
+  });
+
+  test('keeps notes a spreadsheet would run as formulas as text', () => {
+    const formulas = ['=HYPERLINK("http://x")', '+1', '-2 cm', '@SUM(A1)'].map((notes, index) => ({ ...pieces[1], id: `piece-${index}`, notes }));
+    const notes = cutListToCSV(formulas).split('\r\n').slice(1, 5).map(line => line.slice(line.indexOf(',6,') + 3));
+
+    expect(notes).toEqual(['"\'=HYPERLINK(""http://x"")"', "'+1", "'-2 cm", "'@SUM(A1)"]);
+  });
+
+  test('writes a workbook with a totals row and a materials sheet', () => {
+    const xlsx = decode(cutListToXLSX(pieces));
+
+    expect(xlsx.startsWith('PK')).toBe(true);
+    expect(xlsx).toContain('<sheet name="Cut List" sheetId="1" r:id="rId1"/><sheet name="Materials" sheetId="2" r:id="rId2"/>');
+    expect(xlsx).toContain('<t xml:space="preserve">Island, waterfall &quot;left&quot;</t>');
+    expect(xlsx).toContain('<c r="I4" s="2"><f>SUM(I2:I3)</f><v>3</v></c>');
+    expect(xlsx).toContain('<c r="J4" s="2"><f>SUM(J2:J3)</f><v>22</v></c>');
+    expect(xlsx).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">Marble</t></is></c>');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect } from 'vitest';
+import { guessCutListMapping, parseCutList, readCutListRows } from '@/lib/cut-list-utils';
+import { fractionToDecimal } from '@/lib/fraction-utils';
+import { DEFAULT_MATERIAL_CATALOG } from '@/lib/material-catalog-utils';
+
+const defaults = { materialType: 'granite', thickness: '3cm' };
+
+describe('Cut List Utils', () => {
+  test('reads feet and inches, mixed numbers and inch marks', () => {
+    expect(fractionToDecimal('25-1/2')).toBe(25.5);
+    expect(fractionToDecimal('25 1/2"')).toBe(25.5);
+    expect(fractionToDecimal('25.5')).toBe(25.5);
+    expect(fractionToDecimal("8'")).toBe(96);
+    expect(fractionToDecimal("8' 2-1/2\"")).toBe(98.5);
+    expect(fractionToDecimal("8'-2\"")).toBe(98);
+    expect(fractionToDecimal("8' x")).toBeNull();
+  });
+
+  test('splits CSV with quoted cells and TSV pasted from a spreadsheet', () => {
+    expect(parseCutList('Label,Width\r\n"Island, north",96\r\n"6"" splash",4\n')).toEqual([
+      ['Label', 'Width'],
+      ['Island, north', '96'],
+      ['6" splash', '4'],
+    ]);
+    expect(parseCutList('Label\tWidth\nRun, left\t25-1/2')).toEqual([['Label', 'Width'], ['Run, left', '25-1/2']]);
+  });
+
+  test('matches column headings to fields', () => {
+    expect(guessCutListMapping(['Label', 'Width', 'Depth', 'Material', 'Thk', 'Qty', 'Polished Edges'])).toEqual({
+      label: 0, width: 1, depth: 2, material: 3, thickness: 4, quantity: 5, polishedEdges: 6,
+    });
+  });
+
+  test('creates pieces from valid rows and names the problems in the others', () => {
+    const rows = parseCutList([
+      'Label,Width,Depth,Material,Thickness,Qty,Polished Edges',
+      "Island,8' 2\",42,MSI Calacatta Laza,3 cm,1,All Ogee",
+      'Vanity,48-1/2,22,,,2,T L',
+      ',,,,,,',
+      'Desk,wide,24,Unobtainium,4cm,1.5,front',
+    ].join('\n'));
+    const mapping = guessCutListMapping(rows[0]);
+    const [island, vanity, desk] = readCutListRows(rows.slice(1), mapping, DEFAULT_MATERIAL_CATALOG, defaults, 2);
+
+    expect(island.errors).toEqual([]);
+    expect(island.piece?.notes).toBe('Island');
+    expect(island.piece?.specs).toMatchObject({
+      width: 98,
+      height: 42,
+      materialType: 'quartz',
+      material: { brand: 'MSI', color: 'Calacatta Laza' },
+      thickness: '3cm',
+      quantity: 1,
+      edgeProfiles: { top: 'ogee', right: 'ogee', bottom: 'ogee', left: 'ogee' },
+      shape: { type: 'rectangle' },
+    });
+
+    expect(vanity.piece?.specs).toMatchObject({ width: 48.5, materialType: 'granite', thickness: '3cm', quantity: 2, edgeProfiles: { top: 'eased', left: 'eased' } });
+
+    expect(desk.row).toBe(5);
+    expect(desk.piece).toBeUndefined();
+    expect(desk.errors).toEqual([
+      'Width "wide" isn\'t a length',
+      'Qty "1.5" isn\'t a whole number of pieces',
+      'Material "Unobtainium" isn\'t in the catalog',
+      'Polished edge "front" isn\'t top, bottom, left, right or all',
+    ]);
+  });
+});
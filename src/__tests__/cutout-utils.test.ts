@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest';
+import { createCutout, describeCutout, getCutoutArea, getCutoutCenter, getCutoutSize } from '@/lib/cutout-utils';
+import { Cutout, StoneSpecifications } from '@/types/stone';
+
+const specs: StoneSpecifications = {
+  width: 96,
+  height: 25.5,
+  edgeProfiles: { bottom: 'eased' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1
+};
+
+const sink: Cutout = {
+  id: 'sink',
+  type: 'rectangle',
+  label: 'Sink',
+  width: 30,
+  height: 16,
+  cornerRadius: 1,
+  xReference: 'left',
+  xOffset: 18,
+  yReference: 'bottom',
+  yOffset: 8
+};
+
+const faucet: Cutout = {
+  id: 'faucet',
+  type: 'hole',
+  label: 'Faucet',
+  width: 1.375,
+  height: 3, // Ignored: holes are round
+  xReference: 'right',
+  xOffset: 30,
+  yReference: 'top',
+  yOffset: 2
+};
+
+describe('Cutout Utils', () => {
+  test('measures offsets from the edges they are referenced to', () => {
+    expect(getCutoutCenter(specs, sink)).toEqual({ x: 18, y: 17.5 });
+    expect(getCutoutCenter(specs, faucet)).toEqual({ x: 66, y: 2 });
+    expect(getCutoutCenter(specs, { ...sink, xReference: 'right', yReference: 'top' })).toEqual({ x: 78, y: 8 });
+  });
+
+  test('draws holes round at their diameter', () => {
+    expect(getCutoutSize(faucet)).toEqual({ width: 1.375, height: 1.375 });
+    expect(getCutoutSize(sink)).toEqual({ width: 30, height: 16 });
+  });
+
+  test('computes the area removed by each cutout type', () => {
+    expect(getCutoutArea({ ...sink, cornerRadius: 0 })).toBe(480);
+    expect(getCutoutArea(sink)).toBeCloseTo(480 - (4 - Math.PI), 10);
+    expect(getCutoutArea({ ...sink, cornerRadius: 20 })).toBeCloseTo(480 - (4 - Math.PI) * 64, 10);
+    expect(getCutoutArea({ ...sink, type: 'oval', width: 17, height: 14 })).toBeCloseTo(Math.PI * 8.5 * 7, 10);
+    expect(getCutoutArea(faucet)).toBeCloseTo(Math.PI * 0.6875 * 0.6875, 10);
+  });
+
+  test('describes cutouts for spec sheets', () => {
+    expect(describeCutout(sink)).toBe('Sink: 30" × 16" rectangle, R1", center 18" from left, 8" from bottom');
+    expect(describeCutout({ ...sink, cornerRadius: 0 })).toBe('Sink: 30" × 16" rectangle, center 18" from left, 8" from bottom');
+    expect(describeCutout({ ...sink, type: 'oval', label: 'Vanity Sink' })).toBe('Vanity Sink: 30" × 16" oval, center 18" from left, 8" from bottom');
+    expect(describeCutout(faucet)).toBe('Faucet: 1-3/8" dia. hole, center 30" from right, 2" from top');
+  });
+
+  test('creates presets centered across the piece', () => {
+    expect(createCutout('sink', specs)).toMatchObject({ xReference: 'left', xOffset: 48, yReference: 'bottom', yOffset: 12.75 });
+    expect(createCutout('faucet-hole', specs)).toMatchObject({ type: 'hole', xOffset: 48, yReference: 'top', yOffset: 2 });
+  });
+});
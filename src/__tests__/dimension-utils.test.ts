@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import { DimensionStyle, getBaselineDimensions, getChainDimensions, staggerDimensions } from '@/lib/dimension-utils';
+import { SceneDimension, ScenePath, getDimensionGeometry, getDimensionItems } from '@/lib/scene-utils';
+
+const style: DimensionStyle = { color: 'black', font: '14px Arial', lineWidth: 1, tickSize: 5, terminator: 'tick' };
+
+describe('Dimension Utils', () => {
+  test('chains points in order along an axis, skipping repeated positions', () => {
+    const dimensions = getChainDimensions(
+      [{ x: 120, y: 0 }, { x: 0, y: 0 }, { x: 48, y: 10 }, { x: 48, y: 0 }],
+      'horizontal', -16, 1, style
+    );
+
+    expect(dimensions.map(dimension => [dimension.start.x, dimension.end.x, dimension.label])).toEqual([
+      [0, 48, '48"'],
+      [48, 120, '72"']
+    ]);
+  });
+
+  test('measures baseline dimensions from the origin, each a level farther out', () => {
+    const dimensions = getBaselineDimensions({ x: 0, y: 0 }, [{ x: 0, y: 90 }, { x: 0, y: 30 }], 'vertical', 16, 20, 10, style);
+
+    expect(dimensions.map(dimension => [dimension.label, dimension.offset])).toEqual([
+      ['3"', 16],
+      ['9"', 36]
+    ]);
+  });
+
+  test('staggers overlapping dimensions onto levels lined up past the farthest point', () => {
+    const dimensions = staggerDimensions([
+      { type: 'dimension', start: { x: 0, y: 100 }, end: { x: 300, y: 100 }, offset: 16, label: '300"', ...style },
+      { type: 'dimension', start: { x: 0, y: 100 }, end: { x: 100, y: 100 }, offset: 16, label: '100"', ...style },
+      { type: 'dimension', start: { x: 100, y: 120 }, end: { x: 300, y: 120 }, offset: 16, label: '200"', ...style },
+    ], 20);
+
+    // Chained dimensions share the first level below y = 120, the overall one goes on the next
+    expect(dimensions.map(dimension => getDimensionGeometry(dimension)!.lineStart.y)).toEqual([156, 136, 136]);
+  });
+
+  test('draws extension lines, ticks and a label in a break in the line', () => {
+    const dimension: SceneDimension = {
+      type: 'dimension', start: { x: 0, y: 0 }, end: { x: 200, y: 0 }, offset: -20, label: '10"', ...style
+    };
+    const [line, ticks, label] = getDimensionItems(dimension);
+
+    // Two extension lines and the two halves of the dimension line
+    expect((line as ScenePath).commands.filter(command => command.type === 'move')).toHaveLength(4);
+    expect((line as ScenePath).commands[0]).toEqual({ type: 'move', x: 0, y: -3 });
+    expect((ticks as ScenePath).lineWidth).toBe(2);
+    expect(label).toMatchObject({ type: 'text', text: '10"', x: 100, y: -20 + 14 * 0.35, rotation: undefined });
+  });
+
+  test('puts arrowheads outside short dimensions with the label beside the line', () => {
+    const [line, arrows, label] = getDimensionItems({
+      type: 'dimension', start: { x: 0, y: 0 }, end: { x: 10, y: 0 }, label: '1/2"', ...style, terminator: 'arrow'
+    });
+
+    expect((arrows as ScenePath).fill).toBe('black');
+    expect((line as ScenePath).commands[0]).toEqual({ type: 'move', x: -25, y: 0 });
+    expect(label).toMatchObject({ x: 5, y: -4 });
+  });
+});
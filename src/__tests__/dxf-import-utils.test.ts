@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'vitest';
+import { readDXF, toStonePieces } from '@/lib/dxf-import-utils';
+import { piecesToDXF } from '@/lib/dxf-utils';
+import { getPieceOutline } from '@/lib/shape-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const material = { materialType: 'granite', thickness: '3cm' };
+
+// Writes entities into a minimal DXF file, with an optional $INSUNITS header
+function createDXF(entities: (string | number)[][], insunits?: number): string {
+  const header = insunits === undefined ? [] : ['0', 'SECTION', '2', 'HEADER', '9', '$INSUNITS', '70', String(insunits), '0', 'ENDSEC'];
+  return [...header, '0', 'SECTION', '2', 'ENTITIES', ...entities.flat().map(String), '0', 'ENDSEC', '0', 'EOF'].join('\n');
+}
+
+const line = (x1: number, y1: number, x2: number, y2: number) => [0, 'LINE', 8, '0', 10, x1, 20, y1, 11, x2, 21, y2];
+
+describe('DXF Import Utils', () => {
+  test('joins loose lines into a rectangular piece, with its cutouts', () => {
+    const dxf = readDXF(createDXF([
+      line(0, 0, 96, 0), line(96, 25.5, 96, 0), line(96, 25.5, 0, 25.5), line(0, 25.5, 0, 0),
+      [0, 'CIRCLE', 8, '0', 10, 40, 20, 23, 40, 0.6875],
+      [0, 'LWPOLYLINE', 8, '0', 90, 4, 70, 1, 10, 25, 20, 4, 10, 55, 20, 4, 10, 55, 20, 20, 10, 25, 20, 20],
+    ], 1));
+
+    expect(dxf.unit).toBe('in');
+    expect(dxf.skipped).toBe(0);
+
+    const [piece] = toStonePieces(dxf, 'in', material).pieces;
+    expect(piece.specs).toMatchObject({ width: 96, height: 25.5, materialType: 'granite', thickness: '3cm', shape: { type: 'rectangle' } });
+    expect(piece.specs.cutouts).toEqual([
+      expect.objectContaining({ type: 'rectangle', width: 30, height: 16, cornerRadius: 0, xOffset: 40, yOffset: 13.5 }),
+      expect.objectContaining({ type: 'hole', width: 1.375, xOffset: 40, yOffset: 2.5 }),
+    ]);
+  });
+
+  test('converts millimeters and keeps arcs as clockwise outline arcs', () => {
+    // 1000 x 600 mm with the top-right corner rounded to 100 mm, drawn counterclockwise
+    const bulge = Math.tan(Math.PI / 8);
+    const dxf = readDXF(createDXF([
+      [0, 'LWPOLYLINE', 8, '0', 90, 5, 70, 1,
+        10, 0, 20, 0, 10, 1000, 20, 0, 10, 1000, 20, 500, 42, bulge, 10, 900, 20, 600, 10, 0, 20, 600],
+    ], 4));
+
+    const { pieces } = toStonePieces(dxf, dxf.unit!, material);
+    const outline = getPieceOutline(pieces[0].specs);
+    const arc = outline.find(segment => segment.arc);
+
+    expect(pieces[0].specs.width).toBeCloseTo(39.3701, 4);
+    expect(pieces[0].specs.shape?.type).toBe('custom');
+    expect(outline[0]).toMatchObject({ id: 'edge-1', start: { x: 0, y: 0 } });
+    expect(arc?.arc?.radius).toBeCloseTo(3.937, 3);
+    expect(arc?.start).toEqual({ x: 35.4331, y: 0 });
+  });
+
+  test('splits a file into pieces and counts loose ends', () => {
+    const dxf = readDXF(createDXF([
+      [0, 'LWPOLYLINE', 8, '0', 90, 4, 70, 1, 10, 0, 20, 0, 10, 10, 20, 0, 10, 10, 20, 10, 10, 0, 20, 10],
+      [0, 'LWPOLYLINE', 8, '0', 90, 4, 70, 1, 10, 20, 20, 0, 10, 30, 20, 0, 10, 30, 20, 5, 10, 20, 20, 5],
+      line(50, 50, 60, 60),
+    ]));
+
+    expect(dxf.unit).toBeUndefined();
+    expect(dxf.shapes).toHaveLength(2);
+    expect(dxf.skipped).toBe(1);
+    expect(toStonePieces(dxf, 'ft', material).pieces.map(piece => [piece.specs.width, piece.specs.height])).toEqual([[120, 120], [120, 60]]);
+  });
+
+  test('reads back its own DXF exports', () => {
+    const specs: StoneSpecifications = {
+      width: 72,
+      height: 36,
+      edgeProfiles: { top: 'eased', right: 'eased', bottom: 'eased', left: 'eased' },
+      materialType: 'quartz',
+      thickness: '3cm',
+      quantity: 1,
+      shape: { type: 'l-shape', runDepth: 12, leftLegWidth: 24 },
+      cutouts: [{ id: 'sink', type: 'oval', label: 'Vanity Sink', width: 17, height: 14, xReference: 'left', xOffset: 12, yReference: 'top', yOffset: 20 }],
+    };
+
+    const dxf = readDXF(piecesToDXF([{ specs }]));
+    const { pieces, approximated } = toStonePieces(dxf, 'in', material);
+
+    expect(pieces).toHaveLength(1);
+    expect(approximated).toBe(0);
+    expect(pieces[0].specs.shape?.outline).toHaveLength(6);
+    expect(pieces[0].specs.cutouts).toEqual([expect.objectContaining({ type: 'oval', width: 17, height: 14, xOffset: 12, yOffset: 20 })]);
+  });
+
+  test('rejects files without closed outlines', () => {
+    expect(() => readDXF(createDXF([line(0, 0, 10, 0)]))).toThrow('No closed outlines');
+  });
+});
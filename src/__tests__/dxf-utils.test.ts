@@ -0,0 +1,97 @@
+import { describe, test, expect } from 'vitest';
+import { pieceToDXF, piecesToDXF } from '@/lib/dxf-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const specs: StoneSpecifications = {
+  width: 72,
+  height: 36,
+  edgeProfiles: { top: 'eased' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1
+};
+
+// Pairs up the group codes and values of a DXF file
+function parseGroups(dxf: string): [number, string][] {
+  const lines = dxf.split('\r\n');
+  const groups: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    groups.push([Number(lines[i]), lines[i + 1]]);
+  }
+  return groups;
+}
+
+// Entities of a given type with their group values, from the ENTITIES section
+function getEntities(dxf: string, type: string): Map<number, string[]>[] {
+  const groups = parseGroups(dxf);
+  const start = groups.findIndex(([code, value]) => code === 2 && value === 'ENTITIES');
+  const entities: Map<number, string[]>[] = [];
+  let current: Map<number, string[]> | null = null;
+
+  groups.slice(start + 1).forEach(([code, value]) => {
+    if (code === 0) {
+      current = value === type ? new Map() : null;
+      if (current) entities.push(current);
+    } else if (current) {
+      current.set(code, [...(current.get(code) ?? []), value]);
+    }
+  });
+  return entities;
+}
+
+describe('DXF Utils', () => {
+  test('writes an R12 file with a layer for each kind of geometry', () => {
+    const dxf = pieceToDXF(specs);
+    const groups = parseGroups(dxf);
+
+    expect(groups[0]).toEqual([0, 'SECTION']);
+    expect(groups).toContainEqual([1, 'AC1009']);
+    expect(groups).not.toContainEqual([9, '$INSUNITS']);
+    expect(groups[groups.length - 1]).toEqual([0, 'EOF']);
+    ['OUTLINE', 'CUTOUTS', 'SEAMS', 'POLISHED_EDGES', 'DIMENSIONS'].forEach(layer => {
+      expect(groups).toContainEqual([2, layer]);
+    });
+  });
+
+  test('writes the outline in inches with Y up, arcs as bulges', () => {
+    const rounded: StoneSpecifications = { ...specs, corners: { 'top-right': { type: 'radius', radius: 2 } } };
+    const vertices = getEntities(pieceToDXF(rounded), 'VERTEX').filter(vertex => vertex.get(8)?.[0] === 'OUTLINE');
+
+    expect(vertices[0].get(10)).toEqual(['0']);
+    expect(vertices[0].get(20)).toEqual(['36']);
+    expect(vertices.flatMap(vertex => vertex.get(42) ?? [])).toEqual([String(Math.round(-Math.tan(Math.PI / 8) * 1e6) / 1e6)]);
+  });
+
+  test('writes cutouts, and seams cut to the outline', () => {
+    const dxf = pieceToDXF({
+      ...specs,
+      width: 120,
+      cutouts: [{ id: 'hole', type: 'hole', label: 'Faucet', width: 1.5, height: 1.5, xReference: 'left', xOffset: 30, yReference: 'top', yOffset: 3 }],
+      seams: [{ id: 'seam', orientation: 'vertical', position: 60 }],
+    });
+
+    const hole = getEntities(dxf, 'CIRCLE')[0];
+    expect([hole.get(8), hole.get(10), hole.get(20), hole.get(40)]).toEqual([['CUTOUTS'], ['30'], ['33'], ['0.75']]);
+    const seam = getEntities(dxf, 'LINE').find(line => line.get(8)?.[0] === 'SEAMS');
+    expect([seam?.get(10), seam?.get(20), seam?.get(11), seam?.get(21)]).toEqual([['60'], ['36'], ['60'], ['0']]);
+  });
+
+  test('writes polished edges with their profile and dimensions with their blocks', () => {
+    const dxf = pieceToDXF(specs);
+    const edge = getEntities(dxf, 'LINE').find(line => line.get(8)?.[0] === 'POLISHED_EDGES');
+    const labels = getEntities(dxf, 'TEXT').map(text => text.get(1)?.[0]);
+    const dimensions = getEntities(dxf, 'DIMENSION');
+
+    expect([edge?.get(10), edge?.get(20), edge?.get(11), edge?.get(21)]).toEqual([['0'], ['36'], ['72'], ['36']]);
+    expect(labels).toContain('Eased');
+    expect(dimensions.map(dimension => dimension.get(1)?.[0])).toEqual(expect.arrayContaining(['72"', '36"']));
+    dimensions.forEach(dimension => expect(parseGroups(dxf)).toContainEqual([2, dimension.get(2)![0]]));
+  });
+
+  test('lays project pieces out side by side with their names', () => {
+    const dxf = piecesToDXF([{ specs, label: 'Piece 1' }, { specs: { ...specs, width: 30 }, label: 'Piece 2' }]);
+    const labels = getEntities(dxf, 'TEXT').filter(text => text.get(8)?.[0] === 'LABELS');
+
+    expect(labels.map(label => [label.get(1)?.[0], label.get(10)?.[0]])).toEqual([['Piece 1', '0'], ['Piece 2', '96']]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest';
+import { getEdgeProfiles, getProfiledEdges, getUsedEdgeProfiles } from '@/lib/edge-profile-utils';
+import { getSpecificationLines } from '@/lib/spec-summary-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const baseSpecs: StoneSpecifications = {
+  width: 96,
+  height: 25.5,
+  edgeProfiles: { left: 'ogee', top: 'eased', right: 'ogee' },
+  materialType: 'granite',
+  thickness: '3cm',
+  quantity: 1
+};
+
+describe('Edge Profile Utils', () => {
+  test('reads legacy polished edges as eased', () => {
+    const legacySpecs = { ...baseSpecs, edgeProfiles: undefined, polishedEdges: ['top', 'left'] };
+
+    expect(getEdgeProfiles(legacySpecs as unknown as StoneSpecifications)).toEqual({ top: 'eased', left: 'eased' });
+  });
+
+  test('lists profiled edges in outline order', () => {
+    expect(getProfiledEdges(baseSpecs)).toEqual([['top', 'eased'], ['right', 'ogee'], ['left', 'ogee']]);
+    expect(getUsedEdgeProfiles(baseSpecs)).toEqual(['eased', 'ogee']);
+  });
+
+  test('prints the profile of each edge in the specification lines', () => {
+    const lines = getSpecificationLines(baseSpecs);
+
+    expect(lines).toContain('Edge Profiles:');
+    expect(lines).toContain('  Right: Ogee');
+    expect(getSpecificationLines({ ...baseSpecs, edgeProfiles: {} })).toContain('Edge Profiles: None');
+  });
+});
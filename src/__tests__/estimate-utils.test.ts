@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest';
+import { DEFAULT_PRICE_LIST, createEstimate, getJobTakeoff } from '@/lib/estimate-utils';
+import { nestPieces } from '@/lib/nesting-utils';
+import { StonePiece } from '@/types/stone';
+
+const counter: StonePiece = {
+  id: 'p1',
+  specs: {
+    width: 96,
+    height: 25.5,
+    edgeProfiles: { bottom: 'ogee', left: 'eased' },
+    materialType: 'quartz',
+    thickness: '3cm',
+    quantity: 2,
+    cutouts: [{
+      id: 'c1', type: 'rectangle', label: 'Sink', width: 30, height: 16,
+      xReference: 'left', xOffset: 48, yReference: 'top', yOffset: 12.75
+    }]
+  },
+  notes: ''
+};
+
+describe('Estimate Utils', () => {
+  test('measures area, edge lengths and cutouts for every copy', () => {
+    const takeoff = getJobTakeoff([counter]);
+
+    expect(takeoff.totalSqFt).toBeCloseTo(2 * (96 * 25.5) / 144, 6);
+    expect(takeoff.edgeLinearFt).toEqual({ ogee: 16, eased: 4.25 });
+    expect(takeoff.cutoutCounts).toEqual({ rectangle: 2 });
+  });
+
+  test('itemizes the job and adds tax and deposit', () => {
+    const estimate = createEstimate([counter], { ...DEFAULT_PRICE_LIST, wasteFactor: 0.1, taxRate: 0.1, depositRate: 0.5 });
+
+    expect(estimate.lines.map(line => line.description)).toEqual([
+      'Quartz, 3cm (34.00 sq ft + 10% waste)',
+      'Fabrication and installation',
+      'Edge: Eased',
+      'Edge: Ogee',
+      'Cutout: Rectangle'
+    ]);
+    expect(estimate.lines[0]).toMatchObject({ quantity: 37.4, amount: 37.4 * 60 });
+    expect(estimate.lines[4]).toMatchObject({ quantity: 2, amount: 500 });
+
+    const subtotal = estimate.lines.reduce((sum, line) => sum + line.amount, 0);
+    expect(estimate.subtotal).toBeCloseTo(subtotal, 2);
+    expect(estimate.total).toBeCloseTo(subtotal * 1.1, 2);
+    expect(estimate.deposit + estimate.balance).toBeCloseTo(estimate.total, 2);
+  });
+
+  test('takes the waste factor from the slab layout when the job is nested', () => {
+    const nesting = nestPieces([counter], { quartz: { width: 100, height: 60 } }, { kerf: 0, lockGrain: false });
+    const estimate = createEstimate([counter], DEFAULT_PRICE_LIST, [], nesting);
+
+    // Two 96" × 25-1/2" tops fill 4896 of the 6000 sq in slab
+    expect(estimate.lines[0].description).toBe('Quartz, 3cm (34.00 sq ft + 23% waste)');
+    expect(estimate.lines[0].quantity).toBeCloseTo(6000 / 144, 2);
+  });
+});
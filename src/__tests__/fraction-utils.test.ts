@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'vitest';
+import { decimalToFraction, formatFractionString, fractionToDecimal, isValidFractionString } from '@/lib/fraction-utils';
+
+describe('Fraction Utils', () => {
+  test('reads whole numbers, fractions and mixed numbers', () => {
+    expect(fractionToDecimal('3')).toBe(3);
+    expect(fractionToDecimal('3/4')).toBe(0.75);
+    expect(fractionToDecimal('2-1/2')).toBe(2.5);
+    expect(fractionToDecimal('1/0')).toBeNull();
+    expect(fractionToDecimal('')).toBeNull();
+  });
+
+  test('reads a space between a whole number and a fraction as a mixed number', () => {
+    expect(fractionToDecimal('2 1/2')).toBe(2.5);
+    expect(fractionToDecimal('  25   3/8 ')).toBe(25.375);
+  });
+
+  test('reads decimals', () => {
+    expect(fractionToDecimal('25.5')).toBe(25.5);
+    expect(fractionToDecimal('.75')).toBe(0.75);
+    expect(fractionToDecimal('25.')).toBeNull();
+    expect(fractionToDecimal('2.5/4')).toBeNull();
+  });
+
+  test('reads inch marks', () => {
+    expect(fractionToDecimal('36"')).toBe(36);
+    expect(fractionToDecimal('2-1/2"')).toBe(2.5);
+    expect(fractionToDecimal('2 1/2 "')).toBe(2.5);
+    expect(fractionToDecimal('1.25"')).toBe(1.25);
+    expect(fractionToDecimal('36""')).toBeNull();
+  });
+
+  test('reads feet, alone or followed by inches', () => {
+    expect(fractionToDecimal("8'")).toBe(96);
+    expect(fractionToDecimal("1.5'")).toBe(18);
+    expect(fractionToDecimal("8' 2\"")).toBe(98);
+    expect(fractionToDecimal("8'-2 1/2\"")).toBe(98.5);
+    expect(fractionToDecimal("8'2.25")).toBe(98.25);
+    expect(fractionToDecimal("8' 2'")).toBeNull();
+    expect(fractionToDecimal("'2")).toBeNull();
+  });
+
+  test('validates and tidies what was typed', () => {
+    expect(isValidFractionString("8' 2-1/2\"")).toBe(true);
+    expect(isValidFractionString('two')).toBe(false);
+    expect(formatFractionString('2 1/2')).toBe(decimalToFraction(2.5));
+    expect(formatFractionString("1'")).toBe('12');
+    expect(formatFractionString('two')).toBe('two');
+  });
+});
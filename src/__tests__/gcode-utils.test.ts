@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import { DEFAULT_GCODE_SETTINGS, getToolpathPlan, pieceToGcode } from '@/lib/gcode-utils';
+import { buildStoneScene } from '@/lib/mockup-scene-utils';
+import { getLayer } from '@/lib/scene-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const specs: StoneSpecifications = {
+  width: 72,
+  height: 36,
+  edgeProfiles: {},
+  materialType: 'granite',
+  thickness: '3cm',
+  quantity: 1
+};
+
+const sink = { id: 'sink', type: 'rectangle' as const, label: 'Sink', width: 30, height: 16, cornerRadius: 1, xReference: 'left' as const, xOffset: 36, yReference: 'top' as const, yOffset: 12 };
+
+describe('G-code Utils', () => {
+  test('runs the perimeter outside the piece, rounding its corners by the tool radius', () => {
+    const { toolpaths } = getToolpathPlan(specs, DEFAULT_GCODE_SETTINGS);
+    const [perimeter] = toolpaths;
+
+    expect(toolpaths).toHaveLength(1);
+    expect(perimeter.reversed).toBe(true);
+    expect(perimeter.loop[0].start).toEqual({ x: 36, y: -0.25 });
+    expect(perimeter.loop.filter(segment => segment.arc).map(segment => segment.arc)).toEqual(
+      [{ x: 72, y: 0 }, { x: 72, y: 36 }, { x: 0, y: 36 }, { x: 0, y: 0 }].map(center => ({ center, radius: 0.25 }))
+    );
+    expect(perimeter.leadIn.y).toBeLessThan(-0.25);
+    expect(perimeter.leadOut.y).toBeLessThan(-0.25);
+  });
+
+  test('trims the perimeter at inside corners', () => {
+    const { toolpaths } = getToolpathPlan({ ...specs, shape: { type: 'l-shape', runDepth: 12, leftLegWidth: 24 } }, DEFAULT_GCODE_SETTINGS);
+    const points = toolpaths[0].loop.map(segment => segment.end);
+
+    expect(points).toContainEqual({ x: 24.25, y: 12.25 });
+  });
+
+  test('cuts inside cutouts first, and leaves out cutouts smaller than the tool', () => {
+    const hole = { ...sink, id: 'hole', type: 'hole' as const, label: 'Faucet', width: 0.5, xOffset: 60 };
+    const { toolpaths, warnings } = getToolpathPlan({ ...specs, cutouts: [sink, hole] }, DEFAULT_GCODE_SETTINGS);
+
+    expect(toolpaths.map(toolpath => toolpath.label)).toEqual(['Sink', 'Perimeter']);
+    expect(toolpaths[0].reversed).toBe(false);
+    expect(toolpaths[0].loop.filter(segment => segment.arc).map(segment => segment.arc!.radius)).toEqual([0.75, 0.75, 0.75, 0.75]);
+    expect(warnings).toEqual(['Faucet is too small for a 1/2" tool and was left out']);
+  });
+
+  test('writes depth passes through the slab for the chosen machine', () => {
+    const gcode = pieceToGcode({ ...specs, cutouts: [sink] }, { ...DEFAULT_GCODE_SETTINGS, dialect: 'fanuc', depthPerPass: 0.5 });
+    const lines = gcode.trim().split('\n');
+    const plunges = lines.filter(line => / G1 Z/.test(line));
+
+    expect(lines[0]).toBe('%');
+    expect(lines[lines.length - 1]).toBe('%');
+    expect(lines[2]).toMatch(/^N10 \(STONE PIECE/);
+    expect(lines).toContain('N90 T1 M06');
+    // 3cm plus a sixteenth is 1.2436", three passes for each of the sink and the perimeter
+    expect(plunges).toHaveLength(6);
+    expect(plunges[2]).toMatch(/G1 Z-1\.2436 F10\.0$/);
+    // Clockwise in the sink, counterclockwise around the piece
+    expect(lines.some(line => / G2 X/.test(line))).toBe(true);
+    expect(lines.some(line => / G3 X/.test(line))).toBe(true);
+  });
+
+  test('plots the toolpath on the preview, and rejects unknown thicknesses', () => {
+    const toolpaths = getToolpathPlan(specs, DEFAULT_GCODE_SETTINGS);
+    const scene = buildStoneScene(specs, { toolpaths });
+
+    expect(getLayer(scene, 'toolpaths').items).toHaveLength(3);
+    expect(getLayer(buildStoneScene(specs), 'toolpaths').items).toEqual([]);
+    expect(() => pieceToGcode({ ...specs, thickness: 'thick' }, DEFAULT_GCODE_SETTINGS)).toThrow('Unknown slab thickness');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import {
+  DEFAULT_MATERIAL_CATALOG,
+  createCatalogMaterial,
+  hasCatalogMaterial,
+  getMaterialName,
+  getPieceSlabSize,
+  getThicknessOptions,
+  syncMaterialReferences,
+  toMaterialReference
+} from '@/lib/material-catalog-utils';
+import { getSpecificationLines } from '@/lib/spec-summary-utils';
+import { StonePiece, StoneSpecifications } from '@/types/stone';
+
+const laza = DEFAULT_MATERIAL_CATALOG.find(entry => entry.id === 'quartz-msi-calacatta-laza')!;
+
+const specs: StoneSpecifications = {
+  width: 60,
+  height: 25.5,
+  edgeProfiles: { bottom: 'eased' },
+  materialType: 'quartz',
+  material: toMaterialReference(laza),
+  thickness: '3cm',
+  quantity: 1
+};
+
+describe('Material Catalog Utils', () => {
+  test('keys entries by material type, brand and color', () => {
+    const entry = createCatalogMaterial({ ...laza, brand: 'Cambria', color: 'Brittanicca Gold' });
+
+    expect(entry.id).toBe('quartz-cambria-brittanicca-gold');
+  });
+
+  test('checks for duplicates by the current names of renamed entries', () => {
+    const catalog = DEFAULT_MATERIAL_CATALOG.map(entry => entry.id === laza.id ? { ...entry, color: 'Calacatta Laza Oro' } : entry);
+
+    expect(hasCatalogMaterial(catalog, laza)).toBe(false);
+    expect(hasCatalogMaterial(catalog, { ...laza, color: 'Calacatta Laza Oro' })).toBe(true);
+    expect(createCatalogMaterial(laza, catalog).id).toBe('quartz-msi-calacatta-laza-2');
+    expect(createCatalogMaterial(laza).id).toBe('quartz-msi-calacatta-laza');
+  });
+
+  test('names the material and slab size from the catalog entry', () => {
+    expect(getMaterialName(specs)).toBe('Calacatta Laza');
+    expect(getMaterialName({ ...specs, material: undefined })).toBe('Quartz');
+    expect(getSpecificationLines(specs)[0]).toBe('Material: Calacatta Laza (MSI quartz)');
+    expect(getPieceSlabSize(specs, DEFAULT_MATERIAL_CATALOG)).toEqual(laza.slabSize);
+    expect(getPieceSlabSize({ ...specs, material: undefined }, DEFAULT_MATERIAL_CATALOG, { quartz: { width: 130, height: 65 } }))
+      .toEqual({ width: 130, height: 65 });
+  });
+
+  test('offers the thicknesses of the chosen color or of every color of the type', () => {
+    expect(getThicknessOptions(DEFAULT_MATERIAL_CATALOG, 'porcelain', 'porcelain-neolith-calacatta')).toEqual(['1.2cm', '2cm']);
+    expect(getThicknessOptions(DEFAULT_MATERIAL_CATALOG, 'quartz')).toEqual(['2cm', '3cm']);
+  });
+
+  test('renames pieces made from an edited entry', () => {
+    const piece: StonePiece = { id: 'p1', specs, notes: '' };
+    const catalog = DEFAULT_MATERIAL_CATALOG.map(entry => entry.id === laza.id ? { ...entry, color: 'Calacatta Laza Oro' } : entry);
+
+    expect(syncMaterialReferences([piece], catalog)[0].specs.material).toEqual({
+      id: laza.id, brand: 'MSI', color: 'Calacatta Laza Oro'
+    });
+  });
+
+  test('moves pieces to the material type and a thickness of an edited entry', () => {
+    const piece: StonePiece = { id: 'p1', specs, notes: '' };
+    const catalog = DEFAULT_MATERIAL_CATALOG.map(entry => entry.id === laza.id
+      ? { ...entry, materialType: 'porcelain', thicknesses: ['1.2cm', '2cm'] }
+      : entry);
+
+    expect(syncMaterialReferences([piece], catalog)[0].specs).toMatchObject({
+      materialType: 'porcelain',
+      material: { id: laza.id, brand: 'MSI', color: 'Calacatta Laza' },
+      thickness: '1.2cm',
+    });
+    expect(syncMaterialReferences([piece], DEFAULT_MATERIAL_CATALOG)[0]).toBe(piece);
+    expect(syncMaterialReferences([{ ...piece, specs: { ...specs, material: undefined } }], catalog)[0].specs.materialType).toBe('quartz');
+  });
+});
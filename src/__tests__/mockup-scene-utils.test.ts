@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest';
+import { buildStoneScene } from '@/lib/mockup-scene-utils';
+import { SceneDimension, getDimensionItems, getLayer } from '@/lib/scene-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const specs: StoneSpecifications = {
+  width: 60,
+  height: 25.5,
+  edgeProfiles: { bottom: 'eased' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1,
+  cutouts: [{
+    id: 'c1', type: 'rectangle', label: 'Sink', width: 30, height: 16,
+    xReference: 'left', xOffset: 30, yReference: 'top', yOffset: 12.75
+  }]
+};
+
+describe('Mockup Scene Utils', () => {
+  test('fits the piece in the drawing and records its position and scale', () => {
+    const scene = buildStoneScene(specs, {}, 800, 600);
+
+    expect(scene.scale).toBeCloseTo(12, 6);
+    expect(scene.origin).toEqual({ x: 40, y: 147 });
+    expect(getLayer(scene, 'stone').items).toEqual([{
+      type: 'path',
+      commands: [{ type: 'rect', x: 40, y: 147, width: 720, height: 306 }],
+      fill: 'white',
+      stroke: 'black',
+      lineWidth: 2
+    }]);
+  });
+
+  test('leaves layers out with their options', () => {
+    const scene = buildStoneScene(specs, { showGrid: false, showPolishedEdges: false });
+
+    expect(getLayer(scene, 'grid').items).toHaveLength(0);
+    expect(getLayer(scene, 'edges').items).toHaveLength(0);
+  });
+
+  test('dimensions cutouts from their reference edges', () => {
+    const scene = buildStoneScene(specs, {}, 800, 600);
+    const dimensions = getLayer(scene, 'dimensions').items.filter(
+      (item): item is SceneDimension => item.type === 'dimension'
+    );
+
+    expect(dimensions.slice(0, 2).map(dimension => [dimension.start, dimension.end, dimension.label])).toEqual([
+      [{ x: 40, y: 300 }, { x: 400, y: 300 }, '30"'],
+      [{ x: 400, y: 147 }, { x: 400, y: 300 }, '12-3/4"']
+    ]);
+
+    // Vertical dimension labels read from the bottom, centered in a break in the line
+    const label = getDimensionItems(dimensions[1]).find(item => item.type === 'text');
+    expect(label).toMatchObject({ y: 223.5, rotation: -Math.PI / 2 });
+    expect(label!.x).toBeCloseTo(403.85);
+  });
+
+  test('dimensions the overall size above and left of the piece, chaining seamed sections', () => {
+    const scene = buildStoneScene(
+      { ...specs, cutouts: [], seams: [{ id: 's1', orientation: 'vertical', position: 24 }] },
+      {},
+      800,
+      600
+    );
+    const dimensions = getLayer(scene, 'dimensions').items.filter(
+      (item): item is SceneDimension => item.type === 'dimension'
+    );
+
+    // Sections sit on the first level and the overall width on the next
+    expect(dimensions.map(dimension => [dimension.label, dimension.offset])).toEqual([
+      ['24"', -16],
+      ['36"', -16],
+      ['25-1/2"', 16],
+      ['60"', -32]
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'vitest';
+import jsPDF from 'jspdf';
+import { getNestParts, getPlacedOutline, nestPieces } from '@/lib/nesting-utils';
+import { addSlabLayoutPages } from '@/lib/pdf-page-utils';
+import { StonePiece, StoneSpecifications } from '@/types/stone';
+
+const baseSpecs: StoneSpecifications = {
+  width: 60,
+  height: 30,
+  edgeProfiles: { top: 'eased' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1
+};
+
+const piece = (id: string, specs: Partial<StoneSpecifications>): StonePiece => ({
+  id,
+  specs: { ...baseSpecs, ...specs },
+  notes: ''
+});
+
+describe('Nesting Utils', () => {
+  test('expands quantities and seam sections into parts', () => {
+    const parts = getNestParts([
+      piece('a', { quantity: 2 }),
+      piece('b', { width: 140, seams: [{ id: 's1', orientation: 'vertical', position: 70 }] })
+    ]);
+
+    expect(parts.map(part => part.label)).toEqual(['P1 #1', 'P1 #2', 'P2-S1', 'P2-S2']);
+    expect(parts[2]).toMatchObject({ width: 70, height: 30 });
+  });
+
+  test('packs parts onto as few slabs as fit, leaving a kerf between them', () => {
+    const result = nestPieces([piece('a', { quantity: 4 })], { quartz: { width: 121, height: 61 } }, { kerf: 1, lockGrain: false });
+
+    expect(result.slabs).toHaveLength(1);
+    expect(result.slabs[0].placements.map(({ x, y }) => [x, y]).sort()).toEqual([[0, 0], [0, 31], [61, 0], [61, 31]]);
+    expect(result.yield).toBeCloseTo((4 * 60 * 30) / (121 * 61), 6);
+
+    // A wider kerf no longer leaves room for two rows
+    expect(nestPieces([piece('a', { quantity: 4 })], { quartz: { width: 121, height: 61 } }, { kerf: 2, lockGrain: false }).slabs).toHaveLength(2);
+  });
+
+  test('rotates parts to fit unless the grain is locked', () => {
+    const tall = [piece('a', { width: 20, height: 50 })];
+    const slabSizes = { quartz: { width: 100, height: 40 } };
+
+    const rotated = nestPieces(tall, slabSizes, { kerf: 0, lockGrain: false });
+    expect(rotated.slabs[0].placements[0].rotated).toBe(true);
+    expect(getPlacedOutline(rotated.slabs[0].placements[0])[0].start).toEqual({ x: 50, y: 0 });
+
+    const locked = nestPieces(tall, slabSizes, { kerf: 0, lockGrain: true });
+    expect(locked.slabs).toHaveLength(0);
+    expect(locked.unplaced.map(part => part.label)).toEqual(['P1']);
+  });
+
+  test('nests each material and thickness on its own slabs', () => {
+    const result = nestPieces([
+      piece('a', {}),
+      piece('b', { materialType: 'granite' }),
+      piece('c', { thickness: '2cm' })
+    ]);
+
+    expect(result.slabs.map(slab => `${slab.materialType} ${slab.thickness}`)).toEqual(['quartz 3cm', 'granite 3cm', 'quartz 2cm']);
+  });
+
+  test('runs a long list of parts too large for their slab onto more pages', () => {
+    const result = nestPieces(Array.from({ length: 30 }, (_, i) => piece(`${i}`, { width: 400 })));
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+    addSlabLayoutPages(pdf, result);
+
+    expect(result.unplaced).toHaveLength(30);
+    // The first page is the document's own; 20 parts fit above the title block on each list page
+    expect(pdf.getNumberOfPages()).toBe(3);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test, expect, vi } from 'vitest';
+import jsPDF from 'jspdf';
+import { drawSceneToPDF } from '@/lib/pdf-vector-utils';
+import { createScene, getLayer } from '@/lib/scene-utils';
+
+function createPdfMock() {
+  const calls: [string, ...unknown[]][] = [];
+  const record = (name: string) => vi.fn((...args: unknown[]) => { calls.push([name, ...args]); });
+  const pdf = {
+    moveTo: record('moveTo'),
+    lineTo: record('lineTo'),
+    curveTo: record('curveTo'),
+    close: record('close'),
+    fill: record('fill'),
+    stroke: record('stroke'),
+    fillStroke: record('fillStroke'),
+    clip: record('clip'),
+    discardPath: record('discardPath'),
+    saveGraphicsState: record('saveGraphicsState'),
+    restoreGraphicsState: record('restoreGraphicsState'),
+    setLineDashPattern: record('setLineDashPattern'),
+    setFillColor: record('setFillColor'),
+    setDrawColor: record('setDrawColor'),
+    setLineWidth: record('setLineWidth'),
+    setFont: record('setFont'),
+    setFontSize: record('setFontSize'),
+    setTextColor: record('setTextColor'),
+    getTextWidth: vi.fn(() => 10),
+    text: record('text'),
+  };
+  return { pdf: pdf as unknown as jsPDF, calls };
+}
+
+describe('PDF Vector Utils', () => {
+  test('fits the scene in the box and draws paths with scaled strokes', () => {
+    const { pdf, calls } = createPdfMock();
+    const scene = createScene(200, 100, { x: 0, y: 0 }, 1);
+    getLayer(scene, 'stone').items.push({
+      type: 'path',
+      commands: [{ type: 'move', x: 0, y: 0 }, { type: 'line', x: 200, y: 100 }],
+      stroke: '#ff0000',
+      lineWidth: 2,
+      dash: [10, 5]
+    });
+
+    // A 100 x 100 box fits the scene at half size, centered vertically
+    const scale = drawSceneToPDF(pdf, scene, 10, 20, 100, 100);
+
+    expect(scale).toBe(0.5);
+    expect(calls).toContainEqual(['moveTo', 10, 45]);
+    expect(calls).toContainEqual(['lineTo', 110, 95]);
+    expect(calls).toContainEqual(['setLineWidth', 1]);
+    expect(calls).toContainEqual(['setLineDashPattern', [5, 2.5], 0]);
+    expect(calls.some(([name]) => name === 'stroke')).toBe(true);
+  });
+
+  test('draws circles as curves and aligns text along its rotation', () => {
+    const { pdf, calls } = createPdfMock();
+    const scene = createScene(100, 100, { x: 0, y: 0 }, 1);
+    getLayer(scene, 'cutouts').items.push({
+      type: 'path',
+      commands: [{ type: 'ellipse', x: 50, y: 50, radiusX: 10, radiusY: 10 }],
+      fill: 'white',
+      stroke: 'black'
+    });
+    getLayer(scene, 'dimensions').items.push({
+      type: 'text', text: '25"', x: 20, y: 50, font: 'bold 12px Arial', color: '#333', align: 'center', rotation: -Math.PI / 2
+    });
+
+    drawSceneToPDF(pdf, scene, 0, 0, 100, 100);
+
+    expect(calls.filter(([name]) => name === 'curveTo')).toHaveLength(4);
+    expect(calls).toContainEqual(['setFillColor', '#ffffff']);
+    expect(calls.some(([name]) => name === 'fillStroke')).toBe(true);
+    expect(calls).toContainEqual(['setFont', 'helvetica', 'bold']);
+
+    const text = calls.find(([name]) => name === 'text')!;
+    expect(text[1]).toBe('25"');
+    expect(text[2]).toBeCloseTo(20);
+    expect(text[3]).toBeCloseTo(55);
+    expect(text[4]).toEqual({ angle: 90 });
+  });
+});
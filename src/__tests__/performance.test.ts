@@ -29,6 +29,7 @@ class MockCanvasRenderingContext2D {
   measureText = vi.fn(() => ({ width: 100 }));
   createPattern = vi.fn(() => ({} as CanvasPattern));
   clip = vi.fn();
+  setLineDash = vi.fn();
   drawImage = vi.fn();
   putImageData = vi.fn();
   getImageData = vi.fn(() => ({
@@ -114,7 +115,7 @@ describe('Performance Tests', () => {
       const specs: StoneSpecifications = {
         width: 24,
         height: 4,
-        polishedEdges: ['top', 'bottom'],
+        edgeProfiles: { top: 'eased', bottom: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -146,7 +147,7 @@ describe('Performance Tests', () => {
       const specs: StoneSpecifications = {
         width: 144, // 12 feet
         height: 96,  // 8 feet
-        polishedEdges: ['top', 'bottom', 'left', 'right'],
+        edgeProfiles: { top: 'eased', bottom: 'eased', left: 'eased', right: 'eased' },
         materialType: 'granite',
         thickness: '3cm',
         quantity: 1
@@ -171,7 +172,7 @@ describe('Performance Tests', () => {
       const specs: StoneSpecifications = {
         width: 24,
         height: 4,
-        polishedEdges: [],
+        edgeProfiles: {},
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -200,7 +201,7 @@ describe('Performance Tests', () => {
       const specs: StoneSpecifications = {
         width: 24,
         height: 4,
-        polishedEdges: ['top', 'bottom', 'left', 'right'],
+        edgeProfiles: { top: 'eased', bottom: 'eased', left: 'eased', right: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -226,7 +227,7 @@ describe('Performance Tests', () => {
       const specs = {
         width: 24,
         height: 4,
-        polishedEdges: ['top'],
+        edgeProfiles: { top: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -260,7 +261,7 @@ describe('Performance Tests', () => {
       const specsArray = Array(10).fill(null).map((_, i) => ({
         width: 24 + i,
         height: 4,
-        polishedEdges: ['top'],
+        edgeProfiles: { top: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -301,7 +302,7 @@ describe('Performance Tests', () => {
       const specs: StoneSpecifications = {
         width: 24,
         height: 4,
-        polishedEdges: ['top'],
+        edgeProfiles: { top: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -333,7 +334,7 @@ describe('Performance Tests', () => {
       const specs = {
         width: 24,
         height: 4,
-        polishedEdges: ['top'],
+        edgeProfiles: { top: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
@@ -363,7 +364,7 @@ describe('Performance Tests', () => {
       const specs: StoneSpecifications = {
         width: 24,
         height: 4,
-        polishedEdges: ['top'],
+        edgeProfiles: { top: 'eased' },
         materialType: 'quartz',
         thickness: '2cm',
         quantity: 1
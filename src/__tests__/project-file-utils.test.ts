@@ -0,0 +1,87 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { PROJECT_FILE_VERSION, createProjectFile, parseProjectFile, restoreProjectFile } from '@/lib/project-file-utils';
+import { DEFAULT_MATERIAL_CATALOG } from '@/lib/material-catalog-utils';
+import { DEFAULT_COMPANY_SETTINGS, DEFAULT_JOB_INFO } from '@/lib/title-block-utils';
+import { StonePiece } from '@/types/stone';
+
+const defaults = { materialCatalog: DEFAULT_MATERIAL_CATALOG, companySettings: DEFAULT_COMPANY_SETTINGS, jobInfo: DEFAULT_JOB_INFO };
+
+const piece: StonePiece = {
+  id: 'piece-1',
+  specs: {
+    width: 96,
+    height: 25.5,
+    edgeProfiles: { top: 'ogee' },
+    materialType: 'quartz',
+    thickness: '3cm',
+    quantity: 1,
+    cutouts: [{ id: 'sink', type: 'rectangle', label: 'Sink', width: 30, height: 16, cornerRadius: 1, xReference: 'left', xOffset: 48, yReference: 'top', yOffset: 12 }],
+  },
+  notes: 'Kitchen run',
+};
+
+const store = (key: string, value: unknown) => localStorage.setItem(`stone-mockup-generator:${key}`, JSON.stringify(value));
+const stored = (key: string) => JSON.parse(localStorage.getItem(`stone-mockup-generator:${key}`) ?? 'null');
+
+describe('Project File Utils', () => {
+  beforeEach(() => localStorage.clear());
+
+  test('saves the stored project and restores it elsewhere', () => {
+    store('savedPieces', [piece]);
+    store('currentNotes', 'Draft');
+    store('currentSpecs', piece.specs);
+    store('jobInfo', { ...DEFAULT_JOB_INFO, jobName: 'Smith Kitchen' });
+    store('nestingOptions', { kerf: 0.125, lockGrain: true });
+
+    const text = JSON.stringify(createProjectFile(defaults));
+    localStorage.clear();
+    const file = parseProjectFile(text);
+    restoreProjectFile(file);
+
+    expect(file.version).toBe(PROJECT_FILE_VERSION);
+    expect(file.project).toEqual({ name: 'Smith Kitchen', pieces: [piece] });
+    expect(stored('savedPieces')).toEqual([piece]);
+    expect(stored('currentNotes')).toBe('Draft');
+    expect(stored('nestingOptions')).toEqual({ kerf: 0.125, lockGrain: true });
+    expect(stored('materialCatalog')).toEqual(DEFAULT_MATERIAL_CATALOG);
+  });
+
+  test('clears settings the opened file leaves out', () => {
+    const file = parseProjectFile(JSON.stringify(createProjectFile(defaults)));
+    store('priceList', { taxRate: 0.08 });
+    restoreProjectFile(file);
+
+    expect(localStorage.getItem('stone-mockup-generator:priceList')).toBeNull();
+    expect(stored('savedPieces')).toEqual([]);
+  });
+
+  test('gives pieces saved before edge profiles the profiles of their polished edges', () => {
+    const legacyPiece = {
+      id: 'piece-2',
+      specs: { width: 48, height: 22, polishedEdges: ['top', 'left'], materialType: 'granite', thickness: '3cm', quantity: 2 },
+      notes: 'Vanity',
+    };
+    store('savedPieces', [legacyPiece]);
+    store('currentSpecs', legacyPiece.specs);
+
+    const saved = createProjectFile(defaults);
+    expect(saved.project.pieces[0].specs.edgeProfiles).toEqual({ top: 'eased', left: 'eased' });
+    expect(saved.currentPiece?.specs.edgeProfiles).toEqual({ top: 'eased', left: 'eased' });
+
+    const file = parseProjectFile(JSON.stringify({ ...saved, project: { ...saved.project, pieces: [legacyPiece] } }));
+    expect(file.project.pieces[0].specs).toMatchObject({ width: 48, edgeProfiles: { top: 'eased', left: 'eased' } });
+  });
+
+  test('rejects other files and files from newer releases', () => {
+    expect(() => parseProjectFile('not json')).toThrow('not a project file');
+    expect(() => parseProjectFile(JSON.stringify({ pieces: [] }))).toThrow('not a project file');
+    expect(() => parseProjectFile(JSON.stringify({ ...createProjectFile(defaults), version: PROJECT_FILE_VERSION + 1 }))).toThrow('newer version');
+  });
+
+  test('names the damaged part of a file', () => {
+    const file = createProjectFile(defaults);
+    const damaged = { ...file, project: { ...file.project, pieces: [{ ...piece, specs: { ...piece.specs, width: '96' } }] } };
+
+    expect(() => parseProjectFile(JSON.stringify(damaged))).toThrow('project.pieces.0.specs.width expected number, received string');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import { findRemnantMatches, fitsRemnant, reserveRemnant } from '@/lib/remnant-utils';
+import { getSpecificationLines } from '@/lib/spec-summary-utils';
+import { getNestParts } from '@/lib/nesting-utils';
+import { Remnant, StonePiece } from '@/types/stone';
+
+const vanity: StonePiece = {
+  id: 'p1',
+  specs: {
+    width: 31,
+    height: 22,
+    edgeProfiles: { bottom: 'eased' },
+    materialType: 'quartz',
+    thickness: '3cm',
+    quantity: 1
+  },
+  notes: ''
+};
+
+const remnant = (id: string, width: number, height: number, fields: Partial<Remnant> = {}): Remnant => ({
+  id,
+  materialType: 'quartz',
+  color: 'Calacatta',
+  thickness: '3cm',
+  width,
+  height,
+  location: 'Rack B3',
+  ...fields
+});
+
+describe('Remnant Utils', () => {
+  test('fits pieces of the same material and thickness either way round', () => {
+    expect(fitsRemnant(vanity.specs, remnant('r1', 24, 36))).toBe(true);
+    expect(fitsRemnant(vanity.specs, remnant('r1', 30, 30))).toBe(false);
+    expect(fitsRemnant(vanity.specs, remnant('r1', 40, 30, { thickness: '2cm' }))).toBe(false);
+    expect(fitsRemnant({ ...vanity.specs, quantity: 2 }, remnant('r1', 40, 45))).toBe(true);
+  });
+
+  test('suggests the smallest free remnants first', () => {
+    const remnants = [remnant('big', 60, 40), remnant('small', 32, 23), remnant('taken', 35, 25)];
+    const other = { ...vanity, id: 'p2', specs: { ...vanity.specs, remnant: remnants[2] } };
+
+    expect(findRemnantMatches(vanity, remnants, [vanity, other]).map(match => match.id)).toEqual(['small', 'big']);
+  });
+
+  test('records the reservation in the spec block and leaves the piece out of nesting', () => {
+    const [reserved] = reserveRemnant([vanity], 'p1', remnant('r1', 32, 23));
+
+    expect(getSpecificationLines(reserved.specs)).toContain('Cut From Remnant: Calacatta quartz, 3cm, 32" × 23" (Rack B3)');
+    expect(getNestParts([reserved])).toEqual([]);
+    expect(reserveRemnant([reserved], 'p1', null)[0].specs.remnant).toBeUndefined();
+  });
+});
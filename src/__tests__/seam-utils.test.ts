@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import { getSeamSections, suggestSeams } from '@/lib/seam-utils';
+import { getPieceArea } from '@/lib/shape-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const island: StoneSpecifications = {
+  width: 140,
+  height: 42,
+  edgeProfiles: { top: 'eased', bottom: 'eased', left: 'ogee' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1
+};
+
+describe('Seam Utils', () => {
+  test('suggests the fewest evenly spaced seams that fit the slab', () => {
+    const seams = suggestSeams(island, { width: 126, height: 63 });
+
+    expect(seams).toHaveLength(1);
+    expect(seams[0]).toMatchObject({ orientation: 'vertical', position: 70 });
+    expect(suggestSeams({ ...island, width: 100 }, { width: 126, height: 63 })).toEqual([]);
+  });
+
+  test('splits a piece into sections with unfinished seam edges', () => {
+    const specs = { ...island, seams: [{ id: 's1', orientation: 'vertical' as const, position: 60 }] };
+    const sections = getSeamSections(specs);
+
+    expect(sections.map(section => [section.specs.width, section.specs.height])).toEqual([[60, 42], [80, 42]]);
+    expect(sections[1].offset).toEqual({ x: 60, y: 0 });
+    expect(sections[0].specs.edgeProfiles).toEqual({ top: 'eased', bottom: 'eased', left: 'ogee' });
+    expect(sections[1].specs.edgeProfiles).toEqual({ top: 'eased', bottom: 'eased' });
+    expect(sections[1].specs.shape!.outline!.map(segment => segment.id)).toContain('seam-1');
+  });
+
+  test('keeps the area of shaped pieces with radiused corners', () => {
+    const specs: StoneSpecifications = {
+      ...island,
+      height: 80,
+      shape: { type: 'l-shape', runDepth: 25, leftLegWidth: 30 },
+      corners: { 'top-right': { type: 'radius', radius: 3 } },
+      seams: [{ id: 's1', orientation: 'vertical', position: 90 }, { id: 's2', orientation: 'horizontal', position: 50 }]
+    };
+    const sections = getSeamSections(specs);
+    const total = sections.reduce((sum, section) => sum + getPieceArea(section.specs), 0);
+
+    // The cell right of the leg and below the run is empty
+    expect(sections).toHaveLength(3);
+    expect(total).toBeCloseTo(getPieceArea(specs), 6);
+  });
+
+  test('splits a concave outline into separate sections on each side of a seam', () => {
+    const specs: StoneSpecifications = {
+      ...island,
+      width: 120,
+      height: 80,
+      edgeProfiles: { 'inner-bottom': 'ogee' },
+      shape: { type: 'u-shape', runDepth: 50, leftLegWidth: 25, rightLegWidth: 25 },
+      seams: [{ id: 's1', orientation: 'horizontal', position: 50 }]
+    };
+    const sections = getSeamSections(specs);
+
+    expect(sections.map(section => [section.specs.width, section.specs.height])).toEqual([[120, 50], [25, 30], [25, 30]]);
+    expect(sections.map(section => section.offset)).toEqual([{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 95, y: 50 }]);
+    expect(sections.reduce((sum, section) => sum + getPieceArea(section.specs), 0)).toBeCloseTo(getPieceArea(specs), 6);
+
+    // The run keeps its finished inside edge between the legs; the legs meet it only at the seam
+    const runEdges = sections[0].specs.shape!.outline!.map(segment => segment.id);
+    expect(runEdges.filter(id => id === 'seam-1')).toHaveLength(2);
+    expect(sections[0].specs.edgeProfiles).toEqual({ 'inner-bottom': 'ogee' });
+    sections.slice(1).forEach(leg => {
+      expect(leg.specs.shape!.outline!.map(segment => segment.id).filter(id => id === 'seam-1')).toHaveLength(1);
+      expect(leg.specs.shape!.outline).toHaveLength(4);
+    });
+  });
+
+  test('moves cutouts into the section that contains them', () => {
+    const specs: StoneSpecifications = {
+      ...island,
+      seams: [{ id: 's1', orientation: 'vertical', position: 70 }],
+      cutouts: [{
+        id: 'c1', type: 'rectangle', label: 'Sink', width: 30, height: 16,
+        xReference: 'right', xOffset: 30, yReference: 'top', yOffset: 21
+      }]
+    };
+    const [left, right] = getSeamSections(specs);
+
+    expect(left.specs.cutouts).toEqual([]);
+    expect(right.specs.cutouts![0]).toMatchObject({ xReference: 'left', xOffset: 40, yReference: 'top', yOffset: 21 });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createShapePreset,
+  filterEdgesForShape,
+  getPieceArea,
+  getPieceOutline,
+  resolveShape,
+} from '@/lib/shape-utils';
+import { describeCornerTreatment, getDrawnCornerTreatments } from '@/lib/corner-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+const baseSpecs: StoneSpecifications = {
+  width: 120,
+  height: 80,
+  edgeProfiles: { top: 'eased' },
+  materialType: 'quartz',
+  thickness: '3cm',
+  quantity: 1
+};
+
+describe('Shape Utils', () => {
+  test('treats pieces without a shape as rectangles', () => {
+    const outline = getPieceOutline(baseSpecs);
+
+    expect(outline.map(segment => segment.id)).toEqual(['top', 'right', 'bottom', 'left']);
+    expect(getPieceArea(baseSpecs)).toBe(120 * 80);
+  });
+
+  test('builds a closed L-shaped outline', () => {
+    const specs = { ...baseSpecs, shape: { type: 'l-shape' as const, runDepth: 25, leftLegWidth: 30 } };
+    const outline = getPieceOutline(specs);
+
+    expect(outline).toHaveLength(6);
+    outline.forEach((segment, i) => {
+      expect(segment.end).toEqual(outline[(i + 1) % outline.length].start);
+    });
+
+    // Top run plus the leg below it
+    expect(getPieceArea(specs)).toBe(120 * 25 + 30 * (80 - 25));
+  });
+
+  test('computes U-shape area from the outline', () => {
+    const specs = {
+      ...baseSpecs,
+      shape: { type: 'u-shape' as const, runDepth: 25, leftLegWidth: 20, rightLegWidth: 30 }
+    };
+
+    expect(getPieceOutline(specs)).toHaveLength(8);
+    expect(getPieceArea(specs)).toBe(120 * 25 + (20 + 30) * (80 - 25));
+  });
+
+  test('clamps preset parameters to the overall size', () => {
+    const specs = {
+      ...baseSpecs,
+      shape: { type: 'u-shape' as const, runDepth: 200, leftLegWidth: 100, rightLegWidth: 100 }
+    };
+    const shape = resolveShape(specs);
+
+    expect(shape.runDepth).toBe(80);
+    expect(shape.leftLegWidth).toBe(100);
+    expect(shape.rightLegWidth).toBe(20);
+  });
+
+  test('creates presets that fit inside the piece', () => {
+    const shape = createShapePreset('l-shape', 40, 30);
+
+    expect(shape.runDepth).toBe(15);
+    expect(shape.leftLegWidth).toBe(20);
+  });
+
+  test('drops edge profiles missing from the outline', () => {
+    const edgeProfiles = { top: 'eased' as const, 'inner-left': 'ogee' as const, left: 'bevel' as const };
+
+    expect(filterEdgesForShape(baseSpecs, edgeProfiles)).toEqual({ top: 'eased', left: 'bevel' });
+  });
+
+  test('rounds radiused corners out of the area', () => {
+    const specs = { ...baseSpecs, corners: { 'top-left': { type: 'radius' as const, radius: 3 } } };
+    const outline = getPieceOutline(specs);
+
+    expect(outline.map(segment => segment.id)).toEqual(['top', 'right', 'bottom', 'left', 'top-left-radius']);
+    expect(outline[4].arc).toEqual({ center: { x: 3, y: 3 }, radius: 3 });
+    expect(getPieceArea(specs)).toBeCloseTo(120 * 80 - (9 - Math.PI * 9 / 4), 6);
+  });
+
+  test('shrinks a radius too large for its edges and labels the radius drawn', () => {
+    const specs = { ...baseSpecs, width: 4, corners: { 'top-left': { type: 'radius' as const, radius: 3 } } };
+    const outline = getPieceOutline(specs);
+    const arc = outline.find(segment => segment.id === 'top-left-radius');
+
+    expect(arc?.arc).toEqual({ center: { x: 2, y: 2 }, radius: 2 });
+    expect(arc?.start).toEqual({ x: 0, y: 2 });
+    expect(arc?.end).toEqual({ x: 2, y: 0 });
+    expect(getDrawnCornerTreatments(specs, outline).map(([, treatment]) => describeCornerTreatment(treatment))).toEqual(['R2"']);
+  });
+
+  test('cuts notches into the outline', () => {
+    const specs = {
+      ...baseSpecs,
+      corners: { 'bottom-right': { type: 'notch' as const, notchWidth: 4, notchDepth: 2 } }
+    };
+    const outline = getPieceOutline(specs);
+    const notch = outline.filter(segment => segment.id.startsWith('bottom-right-notch'));
+
+    expect(notch.map(segment => segment.start)).toEqual([{ x: 120, y: 78 }, { x: 116, y: 78 }]);
+    expect(getPieceArea(specs)).toBe(120 * 80 - 4 * 2);
+  });
+
+  test('skips corners that are not on an L-shaped outline', () => {
+    const specs = {
+      ...baseSpecs,
+      shape: { type: 'l-shape' as const, runDepth: 25, leftLegWidth: 30 },
+      corners: { 'bottom-right': { type: 'clip' as const, clip: 2 } }
+    };
+
+    expect(getPieceOutline(specs)).toHaveLength(6);
+  });
+});
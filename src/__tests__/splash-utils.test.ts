@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import { createSplashPieces, replaceSplashPieces, syncSplashPieces } from '@/lib/splash-utils';
+import { StonePiece } from '@/types/stone';
+
+const countertop: StonePiece = {
+  id: 'top-1',
+  specs: {
+    width: 96,
+    height: 25.5,
+    edgeProfiles: { bottom: 'eased' },
+    materialType: 'quartz',
+    thickness: '3cm',
+    quantity: 1
+  },
+  notes: ''
+};
+
+describe('Splash Utils', () => {
+  test('creates splashes matching the chosen wall edges', () => {
+    const splashes = createSplashPieces(countertop, ['top', 'left'], 4);
+
+    expect(splashes.map(piece => [piece.specs.width, piece.specs.height])).toEqual([[96, 4], [25.5, 4]]);
+    expect(splashes[0].specs.edgeProfiles).toEqual({ top: 'eased' });
+    expect(splashes[1].notes).toBe('Side Splash, Left edge');
+  });
+
+  test('follows the parent when its dimensions change', () => {
+    const pieces = replaceSplashPieces([countertop], 'top-1', ['top'], 4);
+    const resized = pieces.map(piece => piece.id === 'top-1'
+      ? { ...piece, specs: { ...piece.specs, width: 110, materialType: 'granite' } }
+      : piece);
+
+    const synced = syncSplashPieces(resized);
+
+    expect(synced[1].specs.width).toBe(110);
+    expect(synced[1].specs.materialType).toBe('granite');
+  });
+
+  test('keeps the catalog material of the parent', () => {
+    const material = { id: 'quartz-msi-calacatta-laza', brand: 'MSI', color: 'Calacatta Laza' };
+    const pieces = replaceSplashPieces([{ ...countertop, specs: { ...countertop.specs, material } }], 'top-1', ['top'], 4);
+
+    expect(pieces[1].specs.material).toEqual(material);
+
+    const recolored = { id: 'quartz-msi-statuary', brand: 'MSI', color: 'Statuary' };
+    const synced = syncSplashPieces(pieces.map(piece => piece.id === 'top-1'
+      ? { ...piece, specs: { ...piece.specs, material: recolored } }
+      : piece));
+
+    expect(synced[1].specs.material).toEqual(recolored);
+  });
+
+  test('drops splashes whose parent or edge is gone', () => {
+    const pieces = replaceSplashPieces([countertop], 'top-1', ['top', 'bottom'], 4);
+    const uShaped = pieces.map(piece => piece.id === 'top-1'
+      ? { ...piece, specs: { ...piece.specs, height: 60, shape: { type: 'u-shape' as const } } }
+      : piece);
+
+    // A U-shape has no single bottom edge, only the ends of its legs
+    expect(syncSplashPieces(uShaped).map(piece => piece.id)).toEqual(['top-1', 'top-1-splash-top']);
+    expect(syncSplashPieces(pieces.slice(1))).toEqual([]);
+  });
+});
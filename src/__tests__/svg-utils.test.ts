@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { sceneToSVG } from '@/lib/svg-utils';
+import { createScene, getLayer } from '@/lib/scene-utils';
+import { renderStoneMockupSVG } from '@/lib/drawing-utils.optimized';
+import { StoneSpecifications } from '@/types/stone';
+
+const specs: StoneSpecifications = {
+  width: 96,
+  height: 25.5,
+  edgeProfiles: { bottom: 'ogee' },
+  materialType: 'granite',
+  thickness: '3cm',
+  quantity: 1
+};
+
+describe('SVG Utils', () => {
+  test('emits paths with their stroke style and rotated text in layer groups', () => {
+    const scene = createScene(200, 100, { x: 0, y: 0 }, 1);
+    getLayer(scene, 'edges').items.push({
+      type: 'path',
+      commands: [{ type: 'move', x: 0, y: 0 }, { type: 'line', x: 50, y: 25 }],
+      stroke: 'red',
+      lineWidth: 2,
+      dash: [10, 5]
+    });
+    getLayer(scene, 'annotations').items.push({
+      type: 'text', text: 'A & B', x: 100, y: 50, font: 'bold 12px Arial', color: 'black', align: 'center', rotation: -Math.PI / 2
+    });
+
+    const svg = sceneToSVG(scene);
+    expect(svg).toContain('<g id="edges">\n<path d="M0 0L50 25" fill="none" stroke="red" stroke-width="2" stroke-dasharray="10 5"/>\n</g>');
+    expect(svg).toContain('font-weight="bold" text-anchor="middle" fill="black" transform="rotate(-90 100 50)">A &amp; B</text>');
+    expect(svg).not.toContain('<g id="grid">');
+  });
+
+  test('draws the outline, dimensions and material label of a piece', () => {
+    const svg = renderStoneMockupSVG(specs);
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600"')).toBe(true);
+    expect(svg).toContain('>96"</text>');
+    expect(svg).toContain('>25-1/2"</text>');
+    expect(svg).toContain('>Granite, 3cm</text>');
+    expect(svg).toContain('>Ogee</text>');
+    expect(svg).toContain('clip-path="url(#clip1)"');
+  });
+});
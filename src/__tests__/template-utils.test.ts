@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { TEMPLATE_OVERLAP, getTemplateLayout, getTileLabel } from '@/lib/template-utils';
+import { buildTemplateScene } from '@/lib/mockup-scene-utils';
+import { StoneSpecifications } from '@/types/stone';
+
+describe('Template Utils', () => {
+  test('tiles a template across overlapping pages, turning the paper to use fewer pages', () => {
+    // Portrait Letter needs 3 pages across and 1 down; landscape would need 2 by 2
+    const layout = getTemplateLayout(400, 200, 'letter');
+
+    expect(layout).toMatchObject({ orientation: 'portrait', rows: 1, columns: 3 });
+    expect(layout.tiles.map(tile => tile.label)).toEqual(['A1', 'A2', 'A3']);
+    expect(layout.tiles[1].x).toBeCloseTo(layout.printWidth - TEMPLATE_OVERLAP);
+
+    const last = layout.tiles[layout.tiles.length - 1];
+    expect(last.x + layout.printWidth).toBeGreaterThanOrEqual(400);
+  });
+
+  test('places each crosshair where neighboring pages overlap', () => {
+    const layout = getTemplateLayout(500, 500, 'a4');
+    expect(layout.tiles.length).toBe(layout.rows * layout.columns);
+    expect(layout.crosshairs.length).toBeGreaterThan(0);
+
+    layout.crosshairs.forEach(point => {
+      const pages = layout.tiles.filter(tile =>
+        point.x >= tile.x && point.x <= tile.x + layout.printWidth &&
+        point.y >= tile.y && point.y <= tile.y + layout.printHeight
+      );
+      expect(pages.length).toBeGreaterThanOrEqual(2);
+    });
+  });
+
+  test('labels rows with letters and columns with numbers', () => {
+    expect(getTileLabel(0, 0)).toBe('A1');
+    expect(getTileLabel(1, 2)).toBe('B3');
+    expect(getTileLabel(26, 0)).toBe('AA1');
+  });
+
+  test('lays out the template scene at full size', () => {
+    const specs: StoneSpecifications = {
+      width: 36,
+      height: 22,
+      edgeProfiles: { bottom: 'eased' },
+      materialType: 'quartz',
+      thickness: '3cm',
+      quantity: 1
+    };
+    const scene = buildTemplateScene(specs);
+
+    expect(scene.scale).toBe(72);
+    expect(scene.width).toBe(36 * 72 + 80);
+    expect(scene.layers.find(layer => layer.name === 'background')!.items).toEqual([]);
+    expect(scene.layers.find(layer => layer.name === 'grid')!.items).toEqual([]);
+  });
+});
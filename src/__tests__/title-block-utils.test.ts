@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'vitest';
+import { TITLE_BLOCK_HEIGHT, TitleBlock, addTitleBlock, createRevision, formatScale } from '@/lib/title-block-utils';
+import { SceneImage, SceneText, createScene, getLayer } from '@/lib/scene-utils';
+import { buildStoneScene } from '@/lib/mockup-scene-utils';
+import { Revision, StoneSpecifications } from '@/types/stone';
+
+// Every character is 5 units wide
+const measureText = (text: string) => text.length * 5;
+
+const block: TitleBlock = {
+  company: { companyName: 'Granite Works', address: '12 Quarry Rd', phone: '555-0100', drawnBy: 'JS', logo: 'data:image/png;base64,AAAA' },
+  job: { jobName: 'Smith Kitchen', jobNumber: 'J-1042', customer: 'Pat Smith', revisions: [] },
+  date: '1/2/2026',
+  sheet: 2,
+  sheetCount: 3,
+  scale: '1:24'
+};
+
+describe('Title Block Utils', () => {
+  test('letters revisions in order, continuing AA after Z', () => {
+    const revisions: Revision[] = [];
+    for (let i = 0; i < 27; i++) {
+      revisions.push(createRevision(revisions, `Change ${i + 1}`, 'JS'));
+    }
+
+    expect(revisions.slice(0, 2).map(revision => revision.revision)).toEqual(['A', 'B']);
+    expect(revisions[25].revision).toBe('Z');
+    expect(revisions[26]).toMatchObject({ revision: 'AA', description: 'Change 27', by: 'JS' });
+  });
+
+  test('lays out the company logo, job details, sheet number and scale', () => {
+    const scene = createScene(1000, 100, { x: 0, y: 0 }, 1);
+    addTitleBlock(scene, block, 10, 20, 980, measureText);
+
+    const items = getLayer(scene, 'titleBlock').items;
+    const texts = items.filter((item): item is SceneText => item.type === 'text').map(item => item.text);
+    const logo = items.find((item): item is SceneImage => item.type === 'image');
+
+    expect(logo).toMatchObject({ href: block.company.logo, x: 15, y: 25 });
+    expect(texts).toEqual(expect.arrayContaining(['Granite Works', 'Smith Kitchen', 'J-1042', 'Pat Smith', 'JS', '1/2/2026', '1:24', '2 of 3']));
+  });
+
+  test('shows the latest revisions and shortens text to fit its cell', () => {
+    const revisions: Revision[] = [];
+    for (let i = 0; i < 6; i++) {
+      revisions.push(createRevision(revisions, `Revised edge profile on island ${i + 1}`, 'JS'));
+    }
+
+    const scene = createScene(1000, 100, { x: 0, y: 0 }, 1);
+    addTitleBlock(scene, { ...block, job: { ...block.job, revisions } }, 0, 0, 1000, measureText);
+    const texts = getLayer(scene, 'titleBlock').items.filter((item): item is SceneText => item.type === 'text').map(item => item.text);
+
+    expect(texts).not.toContain('A');
+    expect(texts).not.toContain('B');
+    expect(texts).toEqual(expect.arrayContaining(['C', 'D', 'E', 'F']));
+    expect(texts.some(text => text.startsWith('Revised') && text.endsWith('...'))).toBe(true);
+  });
+
+  test('fits the piece above a title block along the bottom of the drawing', () => {
+    const specs: StoneSpecifications = {
+      width: 48,
+      height: 48,
+      edgeProfiles: { top: 'eased' },
+      materialType: 'quartz',
+      thickness: '3cm',
+      quantity: 1
+    };
+    const scene = buildStoneScene(specs, { titleBlock: block }, 800, 600, measureText);
+    const blockTop = 600 - 10 - TITLE_BLOCK_HEIGHT;
+
+    expect(scene.origin.y + specs.height * scene.scale).toBeLessThan(blockTop);
+    expect(getLayer(scene, 'titleBlock').items[0]).toMatchObject({ type: 'path', commands: [{ type: 'rect', y: blockTop }] });
+  });
+
+  test('formats drawing scales', () => {
+    expect(formatScale(24.2)).toBe('1:24');
+    expect(formatScale(2.54)).toBe('1:2.5');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, test, expect } from 'vitest';
+import { createZip, getCrc32 } from '@/lib/zip-utils';
+
+describe('Zip Utils', () => {
+  test('checksums bytes with CRC-32', () => {
+    expect(getCrc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+    expect(getCrc32(new Uint8Array())).toBe(0);
+  });
+
+  test('stores entries with a central directory pointing at each one', () => {
+    const zip = createZip([{ name: 'a.txt', data: 'hello' }, { name: 'dir/b.bin', data: new Uint8Array([1, 2, 3]) }]);
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(zip.slice(30, 40))).toBe('a.txthello');
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    // The second directory record points at the second local header
+    const directory = view.getUint32(end + 16, true);
+    const second = directory + 46 + 'a.txt'.length;
+    expect(view.getUint32(second, true)).toBe(0x02014b50);
+    expect(view.getUint32(second + 42, true)).toBe(40);
+    expect(view.getUint32(40, true)).toBe(0x04034b50);
+  });
+});
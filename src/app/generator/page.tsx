@@ -1,23 +1,67 @@
 "use client"
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { StoneGenerator } from '@/components/stone-generator/StoneGenerator'
 import { MultiPieceExport } from '@/components/stone-generator/MultiPieceExport'
-import { StonePiece } from '@/types/stone'
+import { RemnantInventory } from '@/components/stone-generator/RemnantInventory'
+import { MaterialCatalogEditor } from '@/components/stone-generator/MaterialCatalogEditor'
+import { TitleBlockEditor } from '@/components/stone-generator/TitleBlockEditor'
+import { DxfImport } from '@/components/stone-generator/DxfImport'
+import { CutListImport } from '@/components/stone-generator/CutListImport'
+import { CatalogMaterial, CompanySettings, JobInfo, MockupOptions, Remnant, SlabSize, StonePiece } from '@/types/stone'
 import { useLocalStorage, clearAllStoredData } from '@/hooks/useLocalStorage'
 import { ClearDataModal } from '@/components/ui/ClearDataModal'
+import { replaceSplashPieces, syncSplashPieces } from '@/lib/splash-utils'
+import { reserveRemnant } from '@/lib/remnant-utils'
+import { DEFAULT_MATERIAL_CATALOG, syncMaterialReferences } from '@/lib/material-catalog-utils'
+import { DEFAULT_COMPANY_SETTINGS, DEFAULT_JOB_INFO } from '@/lib/title-block-utils'
+import { DEFAULT_MOCKUP_OPTIONS } from '@/lib/mockup-scene-utils'
+import { createProjectFile, downloadProjectFile, parseProjectFile, restoreProjectFile } from '@/lib/project-file-utils'
 
 export default function GeneratorPage() {
   // Use localStorage hook instead of useState
   const [savedPieces, setSavedPieces] = useLocalStorage<StonePiece[]>('stone-mockup-generator:savedPieces', []);
+  const [remnants, setRemnants] = useLocalStorage<Remnant[]>('stone-mockup-generator:remnants', []);
+  const [slabSizes, setSlabSizes] = useLocalStorage<Record<string, SlabSize>>('stone-mockup-generator:slabSizes', {});
+  const [catalog, setCatalog] = useLocalStorage<CatalogMaterial[]>('stone-mockup-generator:materialCatalog', DEFAULT_MATERIAL_CATALOG);
+  const [companySettings, setCompanySettings] = useLocalStorage<CompanySettings>('stone-mockup-generator:companySettings', DEFAULT_COMPANY_SETTINGS);
+  const [jobInfo, setJobInfo] = useLocalStorage<JobInfo>('stone-mockup-generator:jobInfo', DEFAULT_JOB_INFO);
+  const [displayOptions, setDisplayOptions] = useLocalStorage<MockupOptions>('stone-mockup-generator:displayOptions', DEFAULT_MOCKUP_OPTIONS);
   const [showClearDataModal, setShowClearDataModal] = useState(false);
+
+  // Bumped when a project file is opened, so panels that keep their own state reload it from localStorage
+  const [projectRevision, setProjectRevision] = useState(0);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   
   const handleSavePiece = (piece: StonePiece) => {
     setSavedPieces(prev => [...prev, piece]);
   };
+
+  const handleImportPieces = (pieces: StonePiece[]) => {
+    setSavedPieces(prev => [...prev, ...pieces]);
+  };
   
+  // Splashes linked to a removed or updated countertop are brought in line with it
   const handleRemovePiece = (id: string) => {
-    setSavedPieces(prev => prev.filter(piece => piece.id !== id));
+    setSavedPieces(prev => syncSplashPieces(prev.filter(piece => piece.id !== id)));
+  };
+
+  const handleUpdatePiece = (updated: StonePiece) => {
+    setSavedPieces(prev => syncSplashPieces(prev.map(piece => piece.id === updated.id ? updated : piece)));
+  };
+
+  const handleGenerateSplashes = (parentId: string, edges: string[], height: number) => {
+    setSavedPieces(prev => replaceSplashPieces(prev, parentId, edges, height));
+  };
+
+  const handleReserveRemnant = (pieceId: string, remnant: Remnant | null) => {
+    setSavedPieces(prev => reserveRemnant(prev, pieceId, remnant));
+  };
+  
+  // Pieces made from an edited catalog entry pick up its new name
+  const handleCatalogChange = (updated: CatalogMaterial[]) => {
+    setCatalog(updated);
+    setSavedPieces(prev => syncMaterialReferences(prev, updated));
   };
   
   const handleClearAllData = () => {
@@ -32,6 +76,12 @@ export default function GeneratorPage() {
     if (success) {
       // Reset state
       setSavedPieces([]);
+      setRemnants([]);
+      setSlabSizes({});
+      setCatalog(DEFAULT_MATERIAL_CATALOG);
+      setCompanySettings(DEFAULT_COMPANY_SETTINGS);
+      setJobInfo(DEFAULT_JOB_INFO);
+      setDisplayOptions(DEFAULT_MOCKUP_OPTIONS);
       // Close modal
       setShowClearDataModal(false);
     } else {
@@ -43,27 +93,120 @@ export default function GeneratorPage() {
     // Close modal without clearing data
     setShowClearDataModal(false);
   };
+
+  const handleSaveProject = () => {
+    try {
+      downloadProjectFile(createProjectFile({ materialCatalog: catalog, companySettings, jobInfo }));
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert('Failed to save the project. Please try again.');
+    }
+  };
+
+  // The opened project replaces the current one
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const file = parseProjectFile(reader.result as string);
+        restoreProjectFile(file);
+
+        setSavedPieces(file.project.pieces);
+        setRemnants(file.settings.remnants);
+        setSlabSizes(file.settings.slabSizes);
+        setCatalog(file.settings.materialCatalog);
+        setCompanySettings(file.settings.companySettings);
+        setJobInfo(file.settings.jobInfo);
+        setDisplayOptions(file.displayOptions ?? DEFAULT_MOCKUP_OPTIONS);
+        setProjectRevision(prev => prev + 1);
+      } catch (error) {
+        console.error('Error opening project:', error);
+        alert(error instanceof Error ? error.message : 'Failed to open the project.');
+      }
+    };
+    reader.readAsText(selected);
+  };
   
   return (
     <main className="container mx-auto px-4 py-8 bg-gradient-to-b from-gray-50 to-white min-h-screen">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold text-gray-800">Stone Mockup Generator</h1>
         
-        <button
-          className="px-4 py-2 bg-red-100 text-red-800 rounded-md hover:bg-red-200 transition-colors text-sm font-medium"
-          onClick={handleClearAllData}
-        >
-          Clear All Data
-        </button>
+        <div className="flex space-x-2">
+          <button
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm font-medium"
+            onClick={handleSaveProject}
+          >
+            Save Project
+          </button>
+          <button
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm font-medium"
+            onClick={() => projectInputRef.current?.click()}
+          >
+            Open Project
+          </button>
+          <input ref={projectInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleOpenProject} />
+          <button
+            className="px-4 py-2 bg-red-100 text-red-800 rounded-md hover:bg-red-200 transition-colors text-sm font-medium"
+            onClick={handleClearAllData}
+          >
+            Clear All Data
+          </button>
+        </div>
       </div>
       
       <StoneGenerator 
+        key={`generator-${projectRevision}`}
         onSavePiece={handleSavePiece}
         onRemovePiece={handleRemovePiece}
+        onUpdatePiece={handleUpdatePiece}
+        onGenerateSplashes={handleGenerateSplashes}
         savedPieces={savedPieces}
+        slabSizes={slabSizes}
+        onSlabSizesChange={setSlabSizes}
+        catalog={catalog}
+        onCatalogChange={handleCatalogChange}
+        companySettings={companySettings}
+        jobInfo={jobInfo}
+        displayOptions={displayOptions}
+        onDisplayOptionsChange={setDisplayOptions}
+      />
+
+      <DxfImport onImportPieces={handleImportPieces} catalog={catalog} />
+
+      <CutListImport onImportPieces={handleImportPieces} catalog={catalog} />
+
+      <TitleBlockEditor
+        companySettings={companySettings}
+        onCompanySettingsChange={setCompanySettings}
+        jobInfo={jobInfo}
+        onJobInfoChange={setJobInfo}
       />
+
+      <MaterialCatalogEditor catalog={catalog} onCatalogChange={handleCatalogChange} />
       
-      <MultiPieceExport savedPieces={savedPieces} />
+      <RemnantInventory
+        remnants={remnants}
+        onRemnantsChange={setRemnants}
+        savedPieces={savedPieces}
+        onReserveRemnant={handleReserveRemnant}
+        catalog={catalog}
+      />
+
+      <MultiPieceExport
+        key={`export-${projectRevision}`}
+        savedPieces={savedPieces}
+        slabSizes={slabSizes}
+        catalog={catalog}
+        companySettings={companySettings}
+        jobInfo={jobInfo}
+        onJobInfoChange={setJobInfo}
+        displayOptions={displayOptions}
+      />
       
       {/* Clear Data Confirmation Modal */}
       {showClearDataModal && (
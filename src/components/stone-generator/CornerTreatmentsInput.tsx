@@ -0,0 +1,89 @@
+"use client"
+
+import React from 'react'
+import { FractionField } from './FractionField'
+import { CornerPosition, CornerTreatment, CornerTreatmentType, StoneSpecifications } from '@/types/stone'
+import { CORNER_POSITIONS, createCornerTreatment, getCornerLabel, getTreatmentLabel } from '@/lib/corner-utils'
+
+export interface CornerTreatmentsInputProps {
+  corners: StoneSpecifications['corners'];
+  onCornersChange: (corners: Partial<Record<CornerPosition, CornerTreatment>>) => void;
+}
+
+const TREATMENT_TYPES: CornerTreatmentType[] = ['square', 'radius', 'clip', 'notch'];
+
+export function CornerTreatmentsInput({
+  corners = {},
+  onCornersChange
+}: CornerTreatmentsInputProps) {
+  const updateCorner = (position: CornerPosition, treatment: CornerTreatment) => {
+    onCornersChange({ ...corners, [position]: treatment });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium text-gray-700">Corners</h3>
+
+      <div className="space-y-3">
+        {CORNER_POSITIONS.map(position => {
+          const treatment = corners[position] || { type: 'square' as const };
+
+          return (
+            <div key={position} className="space-y-2">
+              <div className="flex items-center gap-3">
+                <label htmlFor={`corner-${position}`} className="w-28 text-sm text-gray-700">
+                  {getCornerLabel(position)}
+                </label>
+                <select
+                  id={`corner-${position}`}
+                  className="block flex-1 rounded-md border-gray-300 py-1 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800"
+                  value={treatment.type}
+                  onChange={(e) => updateCorner(position, createCornerTreatment(e.target.value as CornerTreatmentType))}
+                >
+                  {TREATMENT_TYPES.map(type => (
+                    <option key={type} value={type}>{getTreatmentLabel(type)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {treatment.type === 'radius' && (
+                <FractionField
+                  id={`corner-${position}-radius`}
+                  label="Radius"
+                  value={treatment.radius || 0}
+                  onChange={(radius) => updateCorner(position, { ...treatment, radius })}
+                />
+              )}
+
+              {treatment.type === 'clip' && (
+                <FractionField
+                  id={`corner-${position}-clip`}
+                  label="Clip Size"
+                  value={treatment.clip || 0}
+                  onChange={(clip) => updateCorner(position, { ...treatment, clip })}
+                />
+              )}
+
+              {treatment.type === 'notch' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <FractionField
+                    id={`corner-${position}-notch-width`}
+                    label="Notch Width"
+                    value={treatment.notchWidth || 0}
+                    onChange={(notchWidth) => updateCorner(position, { ...treatment, notchWidth })}
+                  />
+                  <FractionField
+                    id={`corner-${position}-notch-depth`}
+                    label="Notch Depth"
+                    value={treatment.notchDepth || 0}
+                    onChange={(notchDepth) => updateCorner(position, { ...treatment, notchDepth })}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  )
+}
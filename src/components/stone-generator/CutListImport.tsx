@@ -0,0 +1,236 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { CatalogMaterial, StonePiece } from '@/types/stone'
+import { CUT_LIST_FIELDS, CutListField, CutListMapping, guessCutListMapping, parseCutList, readCutListRows } from '@/lib/cut-list-utils'
+import { DEFAULT_MATERIAL_CATALOG, getMaterialName, getMaterialTypes, getThicknessOptions } from '@/lib/material-catalog-utils'
+import { getEdgeProfileLabel } from '@/lib/edge-profile-utils'
+import { decimalToFraction } from '@/lib/fraction-utils'
+
+export interface CutListImportProps {
+  onImportPieces: (pieces: StonePiece[]) => void;
+  catalog?: CatalogMaterial[];
+}
+
+const selectClassName = "block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800";
+
+const format = (inches: number) => `${decimalToFraction(inches)}"`;
+
+export function CutListImport({ onImportPieces, catalog = DEFAULT_MATERIAL_CATALOG }: CutListImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<{ name: string; rows: string[][] } | null>(null);
+  const [hasHeadings, setHasHeadings] = useState(true);
+  const [mapping, setMapping] = useState<CutListMapping>({});
+  const [materialType, setMaterialType] = useState(() => getMaterialTypes(catalog)[0] ?? 'granite');
+  const [thickness, setThickness] = useState('3cm');
+  const [error, setError] = useState<string | null>(null);
+
+  const thicknessOptions = getThicknessOptions(catalog, materialType);
+  const columnCount = file ? Math.max(...file.rows.map(row => row.length)) : 0;
+  const columns = Array.from({ length: columnCount }, (_, index) =>
+    hasHeadings && file?.rows[0][index]?.trim() ? file.rows[0][index].trim() : `Column ${index + 1}`);
+  const missingFields = (Object.keys(CUT_LIST_FIELDS) as CutListField[])
+    .filter(field => CUT_LIST_FIELDS[field].required && mapping[field] === undefined);
+
+  // Rows as they'll be saved, rechecked whenever the mapping or defaults change
+  const results = useMemo(() => {
+    if (!file || missingFields.length > 0) return null;
+    const rows = hasHeadings ? file.rows.slice(1) : file.rows;
+    return readCutListRows(rows, mapping, catalog, { materialType, thickness }, hasHeadings ? 2 : 1);
+  }, [file, hasHeadings, mapping, catalog, materialType, thickness, missingFields.length]);
+  const pieces = results?.flatMap(result => result.piece ? [result.piece] : []) ?? [];
+  const invalidCount = results ? results.length - pieces.length : 0;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const rows = parseCutList(reader.result as string);
+        if (rows.length === 0) throw new Error('The cut list is empty.');
+
+        const guessed = guessCutListMapping(rows[0]);
+        const headed = guessed.width !== undefined || guessed.depth !== undefined;
+        setFile({ name: selected.name, rows });
+        setHasHeadings(headed);
+        setMapping(headed ? guessed : {});
+        setError(null);
+      } catch (readError) {
+        console.error('Error reading cut list:', readError);
+        setFile(null);
+        setError(readError instanceof Error ? readError.message : 'The cut list could not be read.');
+      }
+    };
+    reader.onerror = () => setError('The cut list could not be read.');
+    reader.readAsText(selected);
+  };
+
+  const handleMappingChange = (field: CutListField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = () => {
+    if (!file || pieces.length === 0) return;
+
+    onImportPieces(pieces.map(piece => ({ ...piece, notes: piece.notes || `Imported from ${file.name}` })));
+    setFile(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mt-6 border border-gray-100">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-800">Cut List Import</h2>
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            Create pieces from a spreadsheet saved as CSV or TSV, one piece per row. Sizes can be decimals, fractions or feet and inches.
+          </p>
+          <input type="file" id="cut-list-file" accept=".csv,.tsv,.txt" className="text-sm text-gray-700" onChange={handleFileChange} />
+
+          {file && (
+            <>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={hasHeadings} onChange={(e) => setHasHeadings(e.target.checked)} />
+                First row is column headings
+              </label>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {(Object.keys(CUT_LIST_FIELDS) as CutListField[]).map(field => (
+                  <div key={field}>
+                    <label htmlFor={`cut-list-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                      {CUT_LIST_FIELDS[field].label}{CUT_LIST_FIELDS[field].required && ' *'}
+                    </label>
+                    <select
+                      id={`cut-list-${field}`}
+                      className={selectClassName}
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                    >
+                      <option value="">Not in file</option>
+                      {columns.map((column, index) => (
+                        <option key={index} value={index}>{column}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="cut-list-default-material" className="block text-sm font-medium text-gray-700 mb-1">Material When Blank</label>
+                  <select id="cut-list-default-material" className={selectClassName} value={materialType} onChange={(e) => setMaterialType(e.target.value)}>
+                    {getMaterialTypes(catalog).map(type => (
+                      <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="cut-list-default-thickness" className="block text-sm font-medium text-gray-700 mb-1">Thickness When Blank</label>
+                  <select
+                    id="cut-list-default-thickness"
+                    className={selectClassName}
+                    value={thicknessOptions.includes(thickness) ? thickness : thicknessOptions[0]}
+                    onChange={(e) => setThickness(e.target.value)}
+                  >
+                    {thicknessOptions.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {missingFields.length > 0 && (
+                <p className="text-sm text-amber-700">
+                  Choose the column{missingFields.length === 1 ? '' : 's'} for {missingFields.map(field => CUT_LIST_FIELDS[field].label).join(' and ')}.
+                </p>
+              )}
+
+              {results && (
+                <div>
+                  <h3 className="text-md font-medium mb-2 text-gray-700">
+                    {results.length} row{results.length === 1 ? '' : 's'} in {file.name}
+                  </h3>
+                  <div className="max-h-60 overflow-y-auto border rounded-md shadow-inner">
+                    <table className="min-w-full text-sm text-gray-700">
+                      <thead className="bg-gray-50 text-left">
+                        <tr>
+                          <th className="px-2 py-1 font-medium">Row</th>
+                          <th className="px-2 py-1 font-medium">Piece</th>
+                          <th className="px-2 py-1 font-medium">Qty</th>
+                          <th className="px-2 py-1 font-medium">Polished Edges</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.map(({ row, piece, errors }) => (
+                          <tr key={row} className="border-t border-gray-100 align-top">
+                            <td className="px-2 py-1">{row}</td>
+                            {piece ? (
+                              <>
+                                <td className="px-2 py-1">
+                                  {piece.notes && <span className="font-medium">{piece.notes}: </span>}
+                                  {format(piece.specs.width)} × {format(piece.specs.height)}, {getMaterialName(piece.specs)}, {piece.specs.thickness}
+                                </td>
+                                <td className="px-2 py-1">{piece.specs.quantity}</td>
+                                <td className="px-2 py-1">
+                                  {Object.entries(piece.specs.edgeProfiles)
+                                    .map(([edge, profile]) => `${edge} (${getEdgeProfileLabel(profile)})`)
+                                    .join(', ') || 'None'}
+                                </td>
+                              </>
+                            ) : (
+                              <td colSpan={3} className="px-2 py-1 text-red-600">{errors.join('. ')}</td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {invalidCount > 0 && (
+                    <p className="text-sm text-amber-700 mt-2">
+                      {invalidCount} row{invalidCount === 1 ? ' has' : 's have'} problems and will be left out. Fix the file or the column choices to include {invalidCount === 1 ? 'it' : 'them'}.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  className="px-4 py-2 bg-gradient-to-r from-green-600 to-green-500 text-white rounded-md hover:from-green-700 hover:to-green-600 transition-all shadow-md disabled:opacity-50"
+                  onClick={handleImport}
+                  disabled={pieces.length === 0}
+                >
+                  Add {pieces.length} Piece{pieces.length === 1 ? '' : 's'} to Project
+                </button>
+                <button
+                  className="px-4 py-2 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+                  onClick={() => setFile(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
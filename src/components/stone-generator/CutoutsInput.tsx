@@ -0,0 +1,167 @@
+"use client"
+
+import React from 'react'
+import { FractionField } from './FractionField'
+import { Cutout, CutoutType, StoneSpecifications } from '@/types/stone'
+import { CutoutPreset, createCutout, getCutoutTypeLabel } from '@/lib/cutout-utils'
+
+export interface CutoutsInputProps {
+  specs: StoneSpecifications;
+  onCutoutsChange: (cutouts: Cutout[]) => void;
+}
+
+const CUTOUT_TYPES: CutoutType[] = ['rectangle', 'oval', 'hole'];
+
+const ADD_BUTTONS: { preset: CutoutPreset; label: string }[] = [
+  { preset: 'sink', label: 'Sink' },
+  { preset: 'vanity-sink', label: 'Vanity Sink' },
+  { preset: 'cooktop', label: 'Cooktop' },
+  { preset: 'faucet-hole', label: 'Faucet Hole' },
+];
+
+const selectClassName = "block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800";
+
+export function CutoutsInput({
+  specs,
+  onCutoutsChange
+}: CutoutsInputProps) {
+  const cutouts = specs.cutouts || [];
+
+  const addCutout = (preset: CutoutPreset) => {
+    onCutoutsChange([...cutouts, createCutout(preset, specs)]);
+  };
+
+  const updateCutout = (id: string, updates: Partial<Cutout>) => {
+    onCutoutsChange(cutouts.map(cutout => cutout.id === id ? { ...cutout, ...updates } : cutout));
+  };
+
+  const removeCutout = (id: string) => {
+    onCutoutsChange(cutouts.filter(cutout => cutout.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium text-gray-700">Cutouts</h3>
+
+      {cutouts.map(cutout => (
+        <div key={cutout.id} className="space-y-3 p-3 border rounded-md bg-gray-50">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label htmlFor={`cutout-label-${cutout.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                Label
+              </label>
+              <input
+                type="text"
+                id={`cutout-label-${cutout.id}`}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-gray-800"
+                value={cutout.label}
+                onChange={(e) => updateCutout(cutout.id, { label: e.target.value })}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor={`cutout-type-${cutout.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                id={`cutout-type-${cutout.id}`}
+                className={selectClassName}
+                value={cutout.type}
+                onChange={(e) => updateCutout(cutout.id, { type: e.target.value as CutoutType })}
+              >
+                {CUTOUT_TYPES.map(type => (
+                  <option key={type} value={type}>{getCutoutTypeLabel(type)}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors text-sm"
+              onClick={() => removeCutout(cutout.id)}
+            >
+              Remove
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <FractionField
+              id={`cutout-width-${cutout.id}`}
+              label={cutout.type === 'hole' ? 'Diameter' : 'Width'}
+              value={cutout.width}
+              onChange={(width) => updateCutout(cutout.id, { width })}
+            />
+            {cutout.type !== 'hole' && (
+              <FractionField
+                id={`cutout-height-${cutout.id}`}
+                label="Depth"
+                value={cutout.height}
+                onChange={(height) => updateCutout(cutout.id, { height })}
+              />
+            )}
+            {cutout.type === 'rectangle' && (
+              <FractionField
+                id={`cutout-radius-${cutout.id}`}
+                label="Corner Radius"
+                value={cutout.cornerRadius || 0}
+                onChange={(cornerRadius) => updateCutout(cutout.id, { cornerRadius })}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={`cutout-x-ref-${cutout.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                Centerline From
+              </label>
+              <select
+                id={`cutout-x-ref-${cutout.id}`}
+                className={selectClassName}
+                value={cutout.xReference}
+                onChange={(e) => updateCutout(cutout.id, { xReference: e.target.value as Cutout['xReference'] })}
+              >
+                <option value="left">Left Edge</option>
+                <option value="right">Right Edge</option>
+              </select>
+            </div>
+            <FractionField
+              id={`cutout-x-offset-${cutout.id}`}
+              label="Offset"
+              value={cutout.xOffset}
+              onChange={(xOffset) => updateCutout(cutout.id, { xOffset })}
+            />
+            <div>
+              <label htmlFor={`cutout-y-ref-${cutout.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                Centerline From
+              </label>
+              <select
+                id={`cutout-y-ref-${cutout.id}`}
+                className={selectClassName}
+                value={cutout.yReference}
+                onChange={(e) => updateCutout(cutout.id, { yReference: e.target.value as Cutout['yReference'] })}
+              >
+                <option value="top">Top Edge</option>
+                <option value="bottom">Bottom Edge</option>
+              </select>
+            </div>
+            <FractionField
+              id={`cutout-y-offset-${cutout.id}`}
+              label="Offset"
+              value={cutout.yOffset}
+              onChange={(yOffset) => updateCutout(cutout.id, { yOffset })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {ADD_BUTTONS.map(({ preset, label }) => (
+          <button
+            key={preset}
+            className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+            onClick={() => addCutout(preset)}
+          >
+            + {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
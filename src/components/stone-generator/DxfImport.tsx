@@ -0,0 +1,188 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { CatalogMaterial, StonePiece } from '@/types/stone'
+import { DXF_UNITS, DxfImport as DxfFile, DxfUnit, readDXF, toStonePieces } from '@/lib/dxf-import-utils'
+import { DEFAULT_MATERIAL_CATALOG, getCatalogColors, getMaterialTypes, getThicknessOptions, toMaterialReference } from '@/lib/material-catalog-utils'
+import { getShapeLabel } from '@/lib/shape-utils'
+import { decimalToFraction } from '@/lib/fraction-utils'
+
+export interface DxfImportProps {
+  onImportPieces: (pieces: StonePiece[]) => void;
+  catalog?: CatalogMaterial[];
+}
+
+const selectClassName = "block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800";
+
+const format = (inches: number) => `${decimalToFraction(inches)}"`;
+
+export function DxfImport({ onImportPieces, catalog = DEFAULT_MATERIAL_CATALOG }: DxfImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<{ name: string; dxf: DxfFile } | null>(null);
+  const [unit, setUnit] = useState<DxfUnit>('in');
+  const [materialType, setMaterialType] = useState(() => getMaterialTypes(catalog)[0] ?? 'granite');
+  const [materialId, setMaterialId] = useState('');
+  const [thickness, setThickness] = useState('3cm');
+  const [error, setError] = useState<string | null>(null);
+
+  const colors = getCatalogColors(catalog, materialType);
+  const entry = colors.find(color => color.id === materialId);
+  const thicknessOptions = getThicknessOptions(catalog, materialType, materialId);
+
+  // Pieces as they'll be saved, redone whenever the unit or material changes
+  const imported = useMemo(() => {
+    if (!file) return null;
+    return toStonePieces(file.dxf, unit, {
+      materialType,
+      material: entry ? toMaterialReference(entry) : undefined,
+      thickness: thicknessOptions.includes(thickness) ? thickness : thicknessOptions[0],
+    });
+  }, [file, unit, materialType, entry, thickness, thicknessOptions]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const dxf = readDXF(reader.result as string);
+        setFile({ name: selected.name, dxf });
+        setUnit(dxf.unit ?? 'in');
+        setError(null);
+      } catch (readError) {
+        console.error('Error reading DXF:', readError);
+        setFile(null);
+        setError(readError instanceof Error ? readError.message : 'The DXF file could not be read.');
+      }
+    };
+    reader.onerror = () => setError('The DXF file could not be read.');
+    reader.readAsText(selected);
+  };
+
+  const handleMaterialTypeChange = (type: string) => {
+    setMaterialType(type);
+    setMaterialId('');
+  };
+
+  const handleImport = () => {
+    if (!file || !imported) return;
+
+    onImportPieces(imported.pieces.map(piece => ({ ...piece, notes: `Imported from ${file.name}` })));
+    setFile(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mt-6 border border-gray-100">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-800">DXF Import</h2>
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            Create pieces from a templater&apos;s DXF. Closed outlines become pieces and the loops inside them become cutouts.
+          </p>
+          <input type="file" id="dxf-file" accept=".dxf" className="text-sm text-gray-700" onChange={handleFileChange} />
+
+          {file && imported && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div>
+                  <label htmlFor="dxf-unit" className="block text-sm font-medium text-gray-700 mb-1">Drawing Unit</label>
+                  <select id="dxf-unit" className={selectClassName} value={unit} onChange={(e) => setUnit(e.target.value as DxfUnit)}>
+                    {(Object.keys(DXF_UNITS) as DxfUnit[]).map(option => (
+                      <option key={option} value={option}>{DXF_UNITS[option].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="dxf-material" className="block text-sm font-medium text-gray-700 mb-1">Material Type</label>
+                  <select id="dxf-material" className={selectClassName} value={materialType} onChange={(e) => handleMaterialTypeChange(e.target.value)}>
+                    {getMaterialTypes(catalog).map(type => (
+                      <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="dxf-color" className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+                  <select id="dxf-color" className={selectClassName} value={entry ? entry.id : ''} onChange={(e) => setMaterialId(e.target.value)}>
+                    <option value="">Not specified</option>
+                    {colors.map(color => (
+                      <option key={color.id} value={color.id}>{color.color} ({color.brand})</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="dxf-thickness" className="block text-sm font-medium text-gray-700 mb-1">Thickness</label>
+                  <select
+                    id="dxf-thickness"
+                    className={selectClassName}
+                    value={thicknessOptions.includes(thickness) ? thickness : thicknessOptions[0]}
+                    onChange={(e) => setThickness(e.target.value)}
+                  >
+                    {thicknessOptions.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-md font-medium mb-2 text-gray-700">
+                  {imported.pieces.length} piece{imported.pieces.length === 1 ? '' : 's'} in {file.name}
+                </h3>
+                <ul className="max-h-40 overflow-y-auto border rounded-md p-2 shadow-inner text-sm text-gray-700 space-y-1">
+                  {imported.pieces.map((piece, index) => {
+                    const cutoutCount = piece.specs.cutouts?.length ?? 0;
+                    return (
+                      <li key={piece.id}>
+                        <span className="font-medium">Piece {index + 1}:</span> {format(piece.specs.width)} × {format(piece.specs.height)},{' '}
+                        {getShapeLabel(piece.specs.shape?.type ?? 'rectangle')}
+                        {cutoutCount > 0 && `, ${cutoutCount} cutout${cutoutCount === 1 ? '' : 's'}`}
+                      </li>
+                    );
+                  })}
+                </ul>
+                {file.dxf.skipped > 0 && (
+                  <p className="text-sm text-amber-700 mt-2">
+                    {file.dxf.skipped} open line{file.dxf.skipped === 1 ? '' : 's'} or arc{file.dxf.skipped === 1 ? '' : 's'} didn&apos;t close into an outline and {file.dxf.skipped === 1 ? 'was' : 'were'} left out.
+                  </p>
+                )}
+                {imported.approximated > 0 && (
+                  <p className="text-sm text-amber-700 mt-2">
+                    {imported.approximated} cutout{imported.approximated === 1 ? ' isn’t' : 's aren’t'} round, oval or rectangular and will be imported as the rectangle around {imported.approximated === 1 ? 'it' : 'them'}.
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  className="px-4 py-2 bg-gradient-to-r from-green-600 to-green-500 text-white rounded-md hover:from-green-700 hover:to-green-600 transition-all shadow-md"
+                  onClick={handleImport}
+                >
+                  Add {imported.pieces.length} Piece{imported.pieces.length === 1 ? '' : 's'} to Project
+                </button>
+                <button
+                  className="px-4 py-2 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+                  onClick={() => setFile(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import React, { useState } from 'react'
+import { CutoutType, EdgeProfile } from '@/types/stone'
+import { Estimate, PriceList, formatCurrency, getEstimateTotals } from '@/lib/estimate-utils'
+import { EDGE_PROFILES, getEdgeProfileLabel } from '@/lib/edge-profile-utils'
+import { getCutoutTypeLabel } from '@/lib/cutout-utils'
+
+export interface EstimatePanelProps {
+  estimate: Estimate;
+  priceList: PriceList;
+  onPriceListChange: (priceList: PriceList) => void;
+}
+
+const inputClassName = "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-gray-800";
+
+// Number field for a price or a percentage stored as a fraction
+function PriceField({
+  id,
+  label,
+  value,
+  percent = false,
+  onChange
+}: {
+  id: string;
+  label: string;
+  value: number;
+  percent?: boolean;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        type="number"
+        min="0"
+        step={percent ? '0.25' : '0.01'}
+        id={id}
+        className={inputClassName}
+        value={percent ? Math.round(value * 10000) / 100 : value}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value) || 0;
+          onChange(percent ? parsed / 100 : parsed);
+        }}
+      />
+    </div>
+  );
+}
+
+export function EstimatePanel({ estimate, priceList, onPriceListChange }: EstimatePanelProps) {
+  const [showPriceList, setShowPriceList] = useState(false);
+
+  const setEdgePrice = (profile: EdgeProfile, price: number) => {
+    onPriceListChange({ ...priceList, edgeProfilePerLinearFt: { ...priceList.edgeProfilePerLinearFt, [profile]: price } });
+  };
+
+  const setCutoutPrice = (type: CutoutType, price: number) => {
+    onPriceListChange({ ...priceList, cutoutPrices: { ...priceList.cutoutPrices, [type]: price } });
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-md font-medium text-gray-700">Estimate</h3>
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={() => setShowPriceList(!showPriceList)}
+        >
+          {showPriceList ? 'Hide Price List' : 'Edit Price List'}
+        </button>
+      </div>
+
+      {showPriceList && (
+        <div className="border rounded-md p-3 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <PriceField
+              id="price-material"
+              label="Material ($/sq ft, no catalog color)"
+              value={priceList.defaultMaterialPricePerSqFt}
+              onChange={(defaultMaterialPricePerSqFt) => onPriceListChange({ ...priceList, defaultMaterialPricePerSqFt })}
+            />
+            <PriceField
+              id="price-fabrication"
+              label="Fabrication ($/sq ft)"
+              value={priceList.fabricationPerSqFt}
+              onChange={(fabricationPerSqFt) => onPriceListChange({ ...priceList, fabricationPerSqFt })}
+            />
+            <PriceField
+              id="price-waste"
+              label="Waste Factor (%)"
+              percent
+              value={priceList.wasteFactor}
+              onChange={(wasteFactor) => onPriceListChange({ ...priceList, wasteFactor })}
+            />
+            <PriceField
+              id="price-tax"
+              label="Tax Rate (%)"
+              percent
+              value={priceList.taxRate}
+              onChange={(taxRate) => onPriceListChange({ ...priceList, taxRate })}
+            />
+            <PriceField
+              id="price-deposit"
+              label="Deposit (%)"
+              percent
+              value={priceList.depositRate}
+              onChange={(depositRate) => onPriceListChange({ ...priceList, depositRate })}
+            />
+          </div>
+
+          <h4 className="text-sm font-medium text-gray-700">Edge Profiles ($/lin ft)</h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {EDGE_PROFILES.map(profile => (
+              <PriceField
+                key={profile}
+                id={`price-edge-${profile}`}
+                label={getEdgeProfileLabel(profile)}
+                value={priceList.edgeProfilePerLinearFt[profile]}
+                onChange={(price) => setEdgePrice(profile, price)}
+              />
+            ))}
+          </div>
+
+          <h4 className="text-sm font-medium text-gray-700">Cutouts ($ each)</h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {(Object.keys(priceList.cutoutPrices) as CutoutType[]).map(type => (
+              <PriceField
+                key={type}
+                id={`price-cutout-${type}`}
+                label={getCutoutTypeLabel(type)}
+                value={priceList.cutoutPrices[type]}
+                onChange={(price) => setCutoutPrice(type, price)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <table className="w-full text-sm text-gray-700">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="py-1 font-medium">Item</th>
+            <th className="py-1 font-medium text-right">Qty</th>
+            <th className="py-1 font-medium text-right">Unit Price</th>
+            <th className="py-1 font-medium text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimate.lines.map((line, i) => (
+            <tr key={i} className="border-b border-gray-100">
+              <td className="py-1">{line.description}</td>
+              <td className="py-1 text-right">{line.quantity} {line.unit}</td>
+              <td className="py-1 text-right">{formatCurrency(line.unitPrice)}</td>
+              <td className="py-1 text-right">{formatCurrency(line.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          {getEstimateTotals(estimate).map(([label, amount]) => (
+            <tr key={label} className={label === 'Total' ? 'font-semibold' : undefined}>
+              <td colSpan={3} className="pt-1 text-right">{label}</td>
+              <td className="pt-1 text-right">{amount}</td>
+            </tr>
+          ))}
+        </tfoot>
+      </table>
+    </div>
+  )
+}
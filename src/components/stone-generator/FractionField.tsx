@@ -0,0 +1,72 @@
+"use client"
+
+import React, { useState, useEffect } from 'react'
+import { fractionToDecimal, decimalToFraction, isValidFractionString } from '@/lib/fraction-utils'
+
+export interface FractionFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+// Fraction text field that behaves like the width/height inputs in DimensionsInput
+export function FractionField({ id, label, value, onChange }: FractionFieldProps) {
+  const [valueStr, setValueStr] = useState<string>(decimalToFraction(value));
+  const [isValid, setIsValid] = useState<boolean>(true);
+
+  // Update fraction string when the value changes from outside (e.g., a new preset)
+  useEffect(() => {
+    setValueStr(decimalToFraction(value));
+  }, [value]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newValueStr = e.target.value;
+    setValueStr(newValueStr);
+
+    const valid = isValidFractionString(newValueStr);
+    setIsValid(valid);
+
+    if (valid) {
+      const decimal = fractionToDecimal(newValueStr);
+      if (decimal !== null) {
+        onChange(decimal);
+      }
+    }
+  };
+
+  const handleBlur = () => {
+    if (isValid) {
+      const decimal = fractionToDecimal(valueStr);
+      if (decimal !== null) {
+        setValueStr(decimalToFraction(decimal));
+      }
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <div className="relative rounded-md shadow-sm">
+        <input
+          type="text"
+          id={id}
+          className={`block w-full rounded-md border-gray-300 pl-3 pr-8 py-2 focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-gray-800 ${!isValid ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}`}
+          value={valueStr}
+          onChange={handleChange}
+          onBlur={handleBlur}
+        />
+        <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+          <span className="text-gray-500 sm:text-sm">in</span>
+        </div>
+      </div>
+      {!isValid && (
+        <p className="mt-1 text-sm text-red-600">
+          Please enter a valid fraction
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { StoneSpecifications } from '@/types/stone'
+import { GCODE_DIALECTS, GcodeDialect, GcodeSettings, downloadGcode, getToolpathPlan, pieceToGcode } from '@/lib/gcode-utils'
+import { FractionField } from './FractionField'
+
+export interface GcodeExportProps {
+  specs: StoneSpecifications;
+  settings: GcodeSettings;
+  onSettingsChange: (settings: GcodeSettings) => void;
+  showToolpath: boolean;
+  onShowToolpathChange: (show: boolean) => void;
+}
+
+const inputClassName = "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-gray-800";
+const selectClassName = "block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800";
+
+// Whole-number machine setting, such as a feed rate or spindle speed
+function RateField({ id, label, value, onChange }: { id: string; label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        id={id}
+        className={inputClassName}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      />
+    </div>
+  );
+}
+
+export function GcodeExport({ specs, settings, onSettingsChange, showToolpath, onShowToolpathChange }: GcodeExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { warnings } = useMemo(() => getToolpathPlan(specs, settings), [specs, settings]);
+
+  const update = (changes: Partial<GcodeSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  const handleDownload = () => {
+    try {
+      downloadGcode(pieceToGcode(specs, settings), `stone-piece-${specs.width}x${specs.height}.nc`);
+      setError(null);
+    } catch (gcodeError) {
+      console.error('Error generating G-code:', gcodeError);
+      setError(gcodeError instanceof Error ? gcodeError.message : 'Failed to generate G-code.');
+    }
+  };
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-md p-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-gray-700">CNC Toolpath</h3>
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            Perimeter and cutout toolpaths for a CNC router, in inches from the bottom-left corner of the piece with Z zero on top of the slab.
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label htmlFor="gcode-dialect" className="block text-sm font-medium text-gray-700 mb-1">Machine</label>
+              <select
+                id="gcode-dialect"
+                className={selectClassName}
+                value={settings.dialect}
+                onChange={(e) => update({ dialect: e.target.value as GcodeDialect })}
+              >
+                {(Object.keys(GCODE_DIALECTS) as GcodeDialect[]).map(dialect => (
+                  <option key={dialect} value={dialect}>{GCODE_DIALECTS[dialect].label}</option>
+                ))}
+              </select>
+            </div>
+            <FractionField id="gcode-tool-diameter" label="Tool Diameter (in)" value={settings.toolDiameter} onChange={(toolDiameter) => update({ toolDiameter })} />
+            <FractionField id="gcode-depth-per-pass" label="Depth per Pass (in)" value={settings.depthPerPass} onChange={(depthPerPass) => update({ depthPerPass })} />
+            <FractionField id="gcode-extra-depth" label="Cut Below Slab (in)" value={settings.extraDepth} onChange={(extraDepth) => update({ extraDepth })} />
+            <RateField id="gcode-feed-rate" label="Feed Rate (in/min)" value={settings.feedRate} onChange={(feedRate) => update({ feedRate })} />
+            <RateField id="gcode-plunge-rate" label="Plunge Rate (in/min)" value={settings.plungeRate} onChange={(plungeRate) => update({ plungeRate })} />
+            <RateField id="gcode-spindle-speed" label="Spindle Speed (RPM)" value={settings.spindleSpeed} onChange={(spindleSpeed) => update({ spindleSpeed })} />
+            <FractionField id="gcode-lead-length" label="Lead-In/Out (in)" value={settings.leadLength} onChange={(leadLength) => update({ leadLength })} />
+            <FractionField id="gcode-safe-height" label="Safe Height (in)" value={settings.safeHeight} onChange={(safeHeight) => update({ safeHeight })} />
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div className="flex items-center">
+              <input
+                id="gcode-coolant"
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={settings.coolant}
+                onChange={(e) => update({ coolant: e.target.checked })}
+              />
+              <label htmlFor="gcode-coolant" className="ml-2 block text-sm text-gray-700">
+                Water Feed (M8)
+              </label>
+            </div>
+            <div className="flex items-center">
+              <input
+                id="gcode-show-toolpath"
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={showToolpath}
+                onChange={(e) => onShowToolpathChange(e.target.checked)}
+              />
+              <label htmlFor="gcode-show-toolpath" className="ml-2 block text-sm text-gray-700">
+                Show Toolpath on Preview
+              </label>
+            </div>
+          </div>
+
+          {warnings.map(warning => (
+            <p key={warning} className="text-sm text-amber-700">{warning}</p>
+          ))}
+
+          <button
+            className="px-4 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md"
+            onClick={handleDownload}
+          >
+            Download G-code
+          </button>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
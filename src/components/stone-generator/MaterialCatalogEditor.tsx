@@ -0,0 +1,230 @@
+"use client"
+
+import React, { useState } from 'react'
+import { FractionField } from './FractionField'
+import { CatalogMaterial } from '@/types/stone'
+import { createCatalogMaterial, getMaterialTypes, hasCatalogMaterial } from '@/lib/material-catalog-utils'
+
+export interface MaterialCatalogEditorProps {
+  catalog: CatalogMaterial[];
+  onCatalogChange: (catalog: CatalogMaterial[]) => void;
+}
+
+const inputClassName = "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-gray-800";
+
+const EMPTY_MATERIAL: Omit<CatalogMaterial, 'id'> = {
+  materialType: 'quartz',
+  brand: '',
+  color: '',
+  thicknesses: ['2cm', '3cm'],
+  slabSize: { width: 126, height: 63 },
+  density: 150,
+  pricePerSqFt: 0,
+};
+
+// Thicknesses are edited as a comma separated list, e.g. "2cm, 3cm"
+const parseThicknesses = (value: string) => value.split(',').map(thickness => thickness.trim()).filter(Boolean);
+
+// Fields shared by the new-material form and each catalog entry
+function MaterialFields({
+  idPrefix,
+  material,
+  onChange
+}: {
+  idPrefix: string;
+  material: Omit<CatalogMaterial, 'id'>;
+  onChange: (material: Omit<CatalogMaterial, 'id'>) => void;
+}) {
+  const [thicknessText, setThicknessText] = useState(material.thicknesses.join(', '));
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <div>
+        <label htmlFor={`${idPrefix}-brand`} className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
+        <input
+          type="text"
+          id={`${idPrefix}-brand`}
+          className={inputClassName}
+          value={material.brand}
+          onChange={(e) => onChange({ ...material, brand: e.target.value })}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-color`} className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+        <input
+          type="text"
+          id={`${idPrefix}-color`}
+          className={inputClassName}
+          value={material.color}
+          onChange={(e) => onChange({ ...material, color: e.target.value })}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-thicknesses`} className="block text-sm font-medium text-gray-700 mb-1">Thicknesses</label>
+        <input
+          type="text"
+          id={`${idPrefix}-thicknesses`}
+          className={inputClassName}
+          value={thicknessText}
+          onChange={(e) => {
+            setThicknessText(e.target.value);
+            const thicknesses = parseThicknesses(e.target.value);
+            if (thicknesses.length > 0) {
+              onChange({ ...material, thicknesses });
+            }
+          }}
+        />
+      </div>
+      <FractionField
+        id={`${idPrefix}-slab-width`}
+        label="Slab Length"
+        value={material.slabSize.width}
+        onChange={(width) => onChange({ ...material, slabSize: { ...material.slabSize, width } })}
+      />
+      <FractionField
+        id={`${idPrefix}-slab-height`}
+        label="Slab Width"
+        value={material.slabSize.height}
+        onChange={(height) => onChange({ ...material, slabSize: { ...material.slabSize, height } })}
+      />
+      <div>
+        <label htmlFor={`${idPrefix}-density`} className="block text-sm font-medium text-gray-700 mb-1">Density (lb/ft³)</label>
+        <input
+          type="number"
+          min="0"
+          id={`${idPrefix}-density`}
+          className={inputClassName}
+          value={material.density}
+          onChange={(e) => onChange({ ...material, density: parseFloat(e.target.value) || 0 })}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-price`} className="block text-sm font-medium text-gray-700 mb-1">Price ($/sq ft)</label>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          id={`${idPrefix}-price`}
+          className={inputClassName}
+          value={material.pricePerSqFt}
+          onChange={(e) => onChange({ ...material, pricePerSqFt: parseFloat(e.target.value) || 0 })}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function MaterialCatalogEditor({ catalog, onCatalogChange }: MaterialCatalogEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Omit<CatalogMaterial, 'id'>>(EMPTY_MATERIAL);
+  const [error, setError] = useState<string | null>(null);
+
+  const addMaterial = () => {
+    const material = { ...draft, materialType: draft.materialType.trim().toLowerCase() };
+    if (!material.materialType || !draft.color.trim()) {
+      setError('Enter a material type and color.');
+      return;
+    }
+    if (hasCatalogMaterial(catalog, material)) {
+      setError('This material, brand and color is already in the catalog.');
+      return;
+    }
+
+    onCatalogChange([...catalog, createCatalogMaterial(material, catalog)]);
+    setDraft({ ...EMPTY_MATERIAL, materialType: material.materialType });
+    setError(null);
+  };
+
+  // Entries keep their id when edited so pieces made from them stay linked
+  const updateMaterial = (id: string, material: Omit<CatalogMaterial, 'id'>) => {
+    onCatalogChange(catalog.map(item => item.id === id ? { ...material, id } : item));
+  };
+
+  const removeMaterial = (id: string) => {
+    onCatalogChange(catalog.filter(item => item.id !== id));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mt-6 border border-gray-100">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-800">Material Catalog</h2>
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen ? 'Hide' : `Show (${catalog.length})`}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <ul className="border rounded-md divide-y">
+            {catalog.map(entry => (
+              <li key={entry.id} className="p-2 text-sm text-gray-700">
+                <div className="flex items-center justify-between">
+                  <span>
+                    <span className="font-medium">{entry.color}</span> ({entry.brand} {entry.materialType}), {entry.thicknesses.join(' / ')},
+                    {` ${entry.slabSize.width}" × ${entry.slabSize.height}" slab, $${entry.pricePerSqFt.toFixed(2)}/sq ft`}
+                  </span>
+                  <span className="flex gap-1">
+                    <button
+                      className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50 transition-colors"
+                      onClick={() => setEditingId(editingId === entry.id ? null : entry.id)}
+                    >
+                      {editingId === entry.id ? 'Done' : 'Edit'}
+                    </button>
+                    <button
+                      className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors"
+                      onClick={() => removeMaterial(entry.id)}
+                    >
+                      Remove
+                    </button>
+                  </span>
+                </div>
+                {editingId === entry.id && (
+                  <div className="mt-2">
+                    <MaterialFields
+                      idPrefix={`catalog-${entry.id}`}
+                      material={entry}
+                      onChange={(material) => updateMaterial(entry.id, material)}
+                    />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-3">
+            <h3 className="font-medium text-gray-700">Add Material</h3>
+            <div>
+              <label htmlFor="catalog-new-type" className="block text-sm font-medium text-gray-700 mb-1">Material Type</label>
+              <input
+                type="text"
+                id="catalog-new-type"
+                className={inputClassName}
+                list="catalog-material-types"
+                value={draft.materialType}
+                onChange={(e) => setDraft({ ...draft, materialType: e.target.value })}
+              />
+              <datalist id="catalog-material-types">
+                {getMaterialTypes(catalog).map(type => (
+                  <option key={type} value={type} />
+                ))}
+              </datalist>
+            </div>
+            {/* Remounted after each addition so the thickness text resets with the draft */}
+            <MaterialFields key={catalog.length} idPrefix="catalog-new" material={draft} onChange={setDraft} />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+              onClick={addMaterial}
+            >
+              + Add Material
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,24 +1,39 @@
 "use client"
 
 import React from 'react'
+import { CatalogMaterial } from '@/types/stone'
+import { DEFAULT_MATERIAL_CATALOG, getCatalogColors, getMaterialTypes, getThicknessOptions } from '@/lib/material-catalog-utils'
 
 export interface MaterialPropertiesInputProps {
   materialType: string;
   thickness: string;
   onMaterialTypeChange: (type: string) => void;
   onThicknessChange: (thickness: string) => void;
+  catalog?: CatalogMaterial[];
+  materialId?: string; // Chosen catalog entry, if any
+  onCatalogMaterialChange?: (entry: CatalogMaterial | null) => void;
 }
 
-export function MaterialPropertiesInput({ 
-  materialType, 
-  thickness, 
-  onMaterialTypeChange, 
-  onThicknessChange 
+const selectClassName = "block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800";
+
+export function MaterialPropertiesInput({
+  materialType,
+  thickness,
+  onMaterialTypeChange,
+  onThicknessChange,
+  catalog = DEFAULT_MATERIAL_CATALOG,
+  materialId,
+  onCatalogMaterialChange
 }: MaterialPropertiesInputProps) {
+  const materialTypes = getMaterialTypes(catalog);
+  const colors = getCatalogColors(catalog, materialType);
+  const entry = colors.find(color => color.id === materialId);
+  const thicknessOptions = getThicknessOptions(catalog, materialType, materialId);
+
   return (
     <div className="space-y-4">
       <h3 className="font-medium text-gray-700">Material Properties</h3>
-      
+
       <div className="space-y-4">
         <div>
           <label htmlFor="material-type" className="block text-sm font-medium text-gray-700 mb-1">
@@ -26,33 +41,55 @@ export function MaterialPropertiesInput({
           </label>
           <select
             id="material-type"
-            className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800"
+            className={selectClassName}
             value={materialType}
             onChange={(e) => onMaterialTypeChange(e.target.value)}
           >
-            <option value="quartz">Quartz</option>
-            <option value="marble">Marble</option>
-            <option value="granite">Granite</option>
-            <option value="quartzite">Quartzite</option>
-            <option value="soapstone">Soapstone</option>
-            <option value="porcelain">Porcelain</option>
+            {/* Keep a material that has since been removed from the catalog selectable */}
+            {!materialTypes.includes(materialType) && (
+              <option value={materialType}>{materialType.charAt(0).toUpperCase() + materialType.slice(1)}</option>
+            )}
+            {materialTypes.map(type => (
+              <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+            ))}
           </select>
         </div>
-        
+
+        {onCatalogMaterialChange && (
+          <div>
+            <label htmlFor="material-color" className="block text-sm font-medium text-gray-700 mb-1">
+              Color
+            </label>
+            <select
+              id="material-color"
+              className={selectClassName}
+              value={entry ? entry.id : ''}
+              onChange={(e) => onCatalogMaterialChange(colors.find(color => color.id === e.target.value) || null)}
+            >
+              <option value="">Not specified</option>
+              {colors.map(color => (
+                <option key={color.id} value={color.id}>{color.color} ({color.brand})</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div>
           <label htmlFor="thickness" className="block text-sm font-medium text-gray-700 mb-1">
             Thickness
           </label>
           <select
             id="thickness"
-            className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800"
+            className={selectClassName}
             value={thickness}
             onChange={(e) => onThicknessChange(e.target.value)}
           >
-            <option value="2cm">2cm</option>
-            <option value="3cm">3cm</option>
-            <option value="1.2cm">1.2cm</option>
-            <option value="2.5cm">2.5cm</option>
+            {!thicknessOptions.includes(thickness) && (
+              <option value={thickness}>{thickness}</option>
+            )}
+            {thicknessOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
           </select>
         </div>
       </div>
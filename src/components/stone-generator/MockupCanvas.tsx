@@ -0,0 +1,379 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from 'react'
+import { EdgeProfile, Point, StoneSpecifications } from '@/types/stone'
+import { MockupDrawingOptions, getStoneLayout } from '@/lib/mockup-scene-utils'
+import { MockupHit, ResizeAxis, getDraggedSize, hitTestMockup } from '@/lib/canvas-edit-utils'
+import { FIT_VIEW, ViewTransform, fromPiecePoint, measureBetween, panView, snapMeasurePoint, toDrawingPoint, toPiecePoint, toViewPoint, zoomView } from '@/lib/canvas-view-utils'
+import { cycleEdgeProfile, getEdgeProfileLabel, getEdgeProfiles } from '@/lib/edge-profile-utils'
+import { getEdgeLabel, getSegmentLength } from '@/lib/shape-utils'
+import { decimalToFraction } from '@/lib/fraction-utils'
+
+export interface MockupCanvasProps {
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  specs: StoneSpecifications;
+  options: MockupDrawingOptions; // Options the piece is drawn with, for finding it on the canvas
+  view: ViewTransform; // Zoom and pan the canvas is drawn at
+  onViewChange: (view: ViewTransform) => void;
+  onWidthChange: (width: number) => void;
+  onHeightChange: (height: number) => void;
+  onEdgeProfilesChange: (edgeProfiles: Record<string, EdgeProfile>) => void;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+
+// Pointer travel, in canvas pixels, before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 3;
+
+// Zoom step for the toolbar buttons, and zoom per pixel of mouse wheel travel
+const BUTTON_ZOOM = 1.25;
+const WHEEL_ZOOM = 0.002;
+
+// Distance, in screen pixels, within which a measuring point snaps to a corner of the piece
+const CORNER_SNAP = 8;
+
+// Edge of a press in progress; the drawing scale is held from the start so the size follows the pointer steadily
+interface EdgePress {
+  type: 'edge';
+  pointerId: number;
+  edgeId: string;
+  axis?: ResizeAxis;
+  start: Point;
+  startSize: number;
+  scale: number;
+  size: number;
+  moved: boolean;
+}
+
+// Press on the background, which pans the view once dragged; in measure mode a click places a point
+interface PanPress {
+  type: 'pan';
+  pointerId: number;
+  start: Point;
+  startView: ViewTransform;
+  moved: boolean;
+}
+
+// Two fingers on the canvas, zooming about the point between them and panning as it moves
+interface Pinch {
+  type: 'pinch';
+  startDistance: number;
+  startCenter: Point;
+  startView: ViewTransform;
+}
+
+type Gesture = EdgePress | PanPress | Pinch;
+
+type Tool = 'edit' | 'measure';
+
+const format = (inches: number) => `${decimalToFraction(inches)}"`;
+
+export function MockupCanvas({ canvasRef, specs, options, view, onViewChange, onWidthChange, onHeightChange, onEdgeProfilesChange }: MockupCanvasProps) {
+  const gestureRef = useRef<Gesture | null>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  const [tool, setTool] = useState<Tool>('edit');
+  const [hover, setHover] = useState<{ hit: MockupHit; position: Point } | null>(null);
+  const [dragSize, setDragSize] = useState<{ axis: ResizeAxis; size: number } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+
+  // Measuring points on the piece, in inches, and where the next one would go
+  const [measurePoints, setMeasurePoints] = useState<Point[]>([]);
+  const [measureHover, setMeasureHover] = useState<Point | null>(null);
+
+  const layout = getStoneLayout(specs, options, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  const changeView = (next: ViewTransform) => {
+    viewRef.current = next;
+    onViewChange(next);
+  };
+
+  // Mouse wheel zooms about the pointer. Attached directly so the page does not scroll as well,
+  // which a passive React wheel listener cannot prevent
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const ratio = rect.width > 0 ? canvas.width / rect.width : 1;
+      const anchor = { x: (e.clientX - rect.left) * ratio, y: (e.clientY - rect.top) * ratio };
+      changeView(zoomView(viewRef.current, Math.exp(-e.deltaY * WHEEL_ZOOM), anchor));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  });
+
+  // Pointer position in canvas pixels, and relative to the canvas on screen for the readout
+  const getPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const position = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const ratio = rect.width > 0 ? canvas.width / rect.width : 1;
+    return { point: { x: position.x * ratio, y: position.y * ratio }, position, ratio };
+  };
+
+  const hitTest = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { point, position, ratio } = getPointer(e);
+    const drawingPoint = toDrawingPoint(viewRef.current, point);
+    return { hit: hitTestMockup(specs, layout, drawingPoint, (6 * ratio) / viewRef.current.zoom), point, position };
+  };
+
+  // Point on the piece under the pointer, in inches, snapped for measuring
+  const getMeasurePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { point, ratio } = getPointer(e);
+    const piecePoint = toPiecePoint(layout, toDrawingPoint(viewRef.current, point));
+    return snapMeasurePoint(specs, piecePoint, (CORNER_SNAP * ratio) / (layout.scale * viewRef.current.zoom));
+  };
+
+  const endGesture = () => {
+    gestureRef.current = null;
+    setDragSize(null);
+    setIsPanning(false);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { point } = getPointer(e);
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, point);
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+
+    // A second finger turns whatever the first was doing into a pinch
+    if (pointers.size === 2) {
+      const [a, b] = Array.from(pointers.values());
+      endGesture();
+      gestureRef.current = {
+        type: 'pinch',
+        startDistance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+        startCenter: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+        startView: viewRef.current,
+      };
+      return;
+    }
+    if (pointers.size > 2) return;
+
+    const { hit } = hitTest(e);
+    if (tool === 'edit' && hit.edge) {
+      const startSize = hit.resize === 'height' ? specs.height : specs.width;
+      gestureRef.current = {
+        type: 'edge',
+        pointerId: e.pointerId,
+        edgeId: hit.edge.id,
+        axis: hit.resize,
+        start: point,
+        startSize,
+        scale: layout.scale * viewRef.current.zoom,
+        size: startSize,
+        moved: false,
+      };
+      return;
+    }
+
+    gestureRef.current = { type: 'pan', pointerId: e.pointerId, start: point, startView: viewRef.current, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const pointers = pointersRef.current;
+    const { point, position } = getPointer(e);
+    if (pointers.has(e.pointerId)) pointers.set(e.pointerId, point);
+
+    const gesture = gestureRef.current;
+    if (gesture?.type === 'pinch') {
+      const [a, b] = Array.from(pointers.values());
+      if (!a || !b) return;
+      const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      const zoomed = zoomView(gesture.startView, Math.hypot(b.x - a.x, b.y - a.y) / gesture.startDistance, gesture.startCenter);
+      changeView(panView(zoomed, center.x - gesture.startCenter.x, center.y - gesture.startCenter.y));
+      return;
+    }
+
+    if (!gesture || gesture.pointerId !== e.pointerId) {
+      if (tool === 'measure') {
+        setMeasureHover(getMeasurePoint(e));
+        return;
+      }
+      const { hit } = hitTest(e);
+      setHover(hit.edge || hit.inside ? { hit, position } : null);
+      return;
+    }
+
+    const dx = point.x - gesture.start.x;
+    const dy = point.y - gesture.start.y;
+    gesture.moved = gesture.moved || Math.hypot(dx, dy) > DRAG_THRESHOLD;
+    if (!gesture.moved) return;
+
+    if (gesture.type === 'pan') {
+      setIsPanning(true);
+      setHover(null);
+      changeView(panView(gesture.startView, dx, dy));
+      return;
+    }
+
+    if (!gesture.axis) return;
+
+    const size = getDraggedSize(gesture.startSize, gesture.axis === 'width' ? dx : dy, gesture.scale);
+    setDragSize({ axis: gesture.axis, size });
+    setHover(prev => ({ hit: prev?.hit ?? { inside: false }, position }));
+    if (size === gesture.size) return;
+
+    gesture.size = size;
+    if (gesture.axis === 'width') {
+      onWidthChange(size);
+    } else {
+      onHeightChange(size);
+    }
+  };
+
+  // A press that never moved is a click: an edge moves on to its next finish, and in measure mode
+  // a point is placed, starting over once both ends of a measurement are down
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+
+    const gesture = gestureRef.current;
+    if (gesture?.type === 'pinch') {
+      if (pointersRef.current.size === 0) endGesture();
+      return;
+    }
+    if (!gesture || gesture.pointerId !== e.pointerId) return;
+
+    if (!gesture.moved) {
+      if (gesture.type === 'edge') {
+        onEdgeProfilesChange(cycleEdgeProfile(getEdgeProfiles(specs), gesture.edgeId));
+      } else if (tool === 'measure') {
+        const measurePoint = getMeasurePoint(e);
+        setMeasurePoints(prev => (prev.length === 1 ? [prev[0], measurePoint] : [measurePoint]));
+      }
+    }
+    endGesture();
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    endGesture();
+  };
+
+  const handleToolChange = (next: Tool) => {
+    setTool(next);
+    setHover(null);
+    setMeasurePoints([]);
+    setMeasureHover(null);
+  };
+
+  const zoomFromCenter = (factor: number) => {
+    changeView(zoomView(viewRef.current, factor, { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 }));
+  };
+
+  // Live dimensions: the new size while dragging, an edge's length and finish, or the piece's overall size
+  const getReadout = (): string[] => {
+    if (dragSize) {
+      return [`${dragSize.axis === 'width' ? 'Width' : 'Height'}: ${format(dragSize.size)}`];
+    }
+    if (!hover) return [];
+
+    const { edge, resize } = hover.hit;
+    if (edge) {
+      const profile = getEdgeProfiles(specs)[edge.id];
+      return [
+        `${getEdgeLabel(edge.id)} Edge: ${format(getSegmentLength(edge))}, ${profile ? getEdgeProfileLabel(profile) : 'Unpolished'}`,
+        resize ? 'Drag to resize, click to change finish' : 'Click to change finish',
+      ];
+    }
+    return [`${format(specs.width)} × ${format(specs.height)}`];
+  };
+
+  // Measurement between the placed points, or from the first point to the pointer
+  const measureEnd = measurePoints[1] ?? measureHover;
+  const measurement = measurePoints.length > 0 && measureEnd ? measureBetween(measurePoints[0], measureEnd) : null;
+  const measureLine = [measurePoints[0], measureEnd]
+    .filter((p): p is Point => !!p)
+    .map(p => toViewPoint(view, fromPiecePoint(layout, p)));
+
+  const readout = getReadout();
+  const resizeAxis = dragSize?.axis ?? hover?.hit.resize;
+  const cursor = isPanning ? 'grabbing'
+    : tool === 'measure' ? 'crosshair'
+    : resizeAxis ? (resizeAxis === 'width' ? 'ew-resize' : 'ns-resize')
+    : hover?.hit.edge ? 'pointer' : 'default';
+  const buttonClassName = 'px-2 py-1 text-sm border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-100';
+
+  return (
+    <div className="max-w-full">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <button type="button" className={buttonClassName} onClick={() => zoomFromCenter(1 / BUTTON_ZOOM)} aria-label="Zoom out">−</button>
+        <span className="w-14 text-center text-sm text-gray-600">{Math.round(view.zoom * 100)}%</span>
+        <button type="button" className={buttonClassName} onClick={() => zoomFromCenter(BUTTON_ZOOM)} aria-label="Zoom in">+</button>
+        <button type="button" className={buttonClassName} onClick={() => changeView(FIT_VIEW)}>Fit</button>
+        <button
+          type="button"
+          className={`${buttonClassName} ${tool === 'measure' ? 'bg-blue-50 border-blue-400 text-blue-700' : ''}`}
+          onClick={() => handleToolChange(tool === 'measure' ? 'edit' : 'measure')}
+          aria-pressed={tool === 'measure'}
+        >
+          Measure
+        </button>
+        {tool === 'measure' && (
+          <span className="text-sm text-gray-700">
+            {measurement
+              ? `Distance: ${format(measurement.distance)} (${format(measurement.dx)} across, ${format(measurement.dy)} down)`
+              : 'Click two points to measure between them'}
+          </span>
+        )}
+      </div>
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="block max-w-full h-auto shadow-sm"
+          style={{ cursor, touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onPointerLeave={() => {
+            if (gestureRef.current) return;
+            setHover(null);
+            setMeasureHover(null);
+          }}
+        />
+        {tool === 'measure' && measureLine.length > 0 && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+          >
+            {measureLine.length === 2 && (
+              <line
+                x1={measureLine[0].x}
+                y1={measureLine[0].y}
+                x2={measureLine[1].x}
+                y2={measureLine[1].y}
+                stroke="#2563eb"
+                strokeWidth={2}
+                strokeDasharray={measurePoints.length < 2 ? '6 4' : undefined}
+              />
+            )}
+            {measureLine.map((p, i) => (
+              <circle key={i} cx={p.x} cy={p.y} r={4} fill="#ffffff" stroke="#2563eb" strokeWidth={2} />
+            ))}
+          </svg>
+        )}
+        {hover && readout.length > 0 && (
+          <div
+            className="absolute pointer-events-none bg-white/90 border border-gray-300 rounded px-2 py-1 text-xs text-gray-800 shadow-sm whitespace-nowrap"
+            style={{ left: hover.position.x + 12, top: hover.position.y + 12 }}
+          >
+            {readout.map((line, i) => (
+              <div key={i} className={i > 0 ? 'text-gray-500' : 'font-medium'}>{line}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
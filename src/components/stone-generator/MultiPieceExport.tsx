@@ -1,17 +1,35 @@
 "use client"
 
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { DimensionsInput } from './DimensionsInput'
 import { MaterialPropertiesInput } from './MaterialPropertiesInput'
 import { QuantityInput } from './QuantityInput'
 import { NotesInput } from './NotesInput'
-import { StoneSpecifications, MockupOptions, StonePiece } from '@/types/stone'
-import { drawStoneMockup } from '@/lib/drawing-utils.optimized'
+import { SlabLayouts } from './SlabLayouts'
+import { EstimatePanel } from './EstimatePanel'
+import { StoneSpecifications, MockupOptions, StonePiece, SlabSize, CatalogMaterial, CompanySettings, JobInfo } from '@/types/stone'
+import { drawStoneMockup, renderStoneMockupSVG } from '@/lib/drawing-utils.optimized'
+import { DEFAULT_MOCKUP_OPTIONS } from '@/lib/mockup-scene-utils'
 import { exportToPDF, exportMultipleToPDF } from '@/lib/export-utils.optimized'
+import { downloadSVG } from '@/lib/svg-utils'
+import { downloadDXF, pieceToDXF, piecesToDXF } from '@/lib/dxf-utils'
+import { cutListToCSV, cutListToXLSX, downloadCutListCSV, downloadCutListXLSX } from '@/lib/cut-list-export-utils'
+import { BUNDLE_FORMATS, BundleFormat, createDrawingBundle, downloadBundle, getBundleZipName } from '@/lib/bundle-export-utils'
 import { useLocalStorage } from '@/hooks/useLocalStorage'
+import { getPieceAreaSqFt, getShapeLabel } from '@/lib/shape-utils'
+import { DEFAULT_NESTING_OPTIONS, NestingOptions, nestPieces } from '@/lib/nesting-utils'
+import { DEFAULT_MATERIAL_CATALOG, getMaterialName } from '@/lib/material-catalog-utils'
+import { DEFAULT_PRICE_LIST, PriceList, createEstimate } from '@/lib/estimate-utils'
+import { DEFAULT_COMPANY_SETTINGS, DEFAULT_JOB_INFO, TitleBlockDetails, createTitleBlock } from '@/lib/title-block-utils'
 
 export interface MultiPieceExportProps {
   savedPieces: StonePiece[]
+  slabSizes?: Record<string, SlabSize>
+  catalog?: CatalogMaterial[]
+  companySettings?: CompanySettings
+  jobInfo?: JobInfo
+  onJobInfoChange?: (jobInfo: JobInfo) => void
+  displayOptions?: MockupOptions
 }
 
 // Toast component for notifications - redesigned to be less intrusive
@@ -37,13 +55,50 @@ const Toast = ({ message, type = 'success', onClose }: { message: string, type?:
   );
 };
 
-export function MultiPieceExport({ savedPieces }: MultiPieceExportProps) {
-  const [projectName, setProjectName] = useLocalStorage<string>('stone-mockup-generator:projectName', 'Stone Project')
+// Stable default so the nesting isn't recomputed on every render
+const DEFAULT_SLAB_SIZES: Record<string, SlabSize> = {};
+
+export function MultiPieceExport({
+  savedPieces,
+  slabSizes = DEFAULT_SLAB_SIZES,
+  catalog = DEFAULT_MATERIAL_CATALOG,
+  companySettings: sharedCompanySettings,
+  jobInfo: sharedJobInfo,
+  onJobInfoChange,
+  displayOptions: sharedDisplayOptions
+}: MultiPieceExportProps) {
+  // Company and job details for the title blocks, with localStorage persistence unless the parent shares its own.
+  // The project name is the job name
+  const [storedCompanySettings] = useLocalStorage<CompanySettings>('stone-mockup-generator:companySettings', DEFAULT_COMPANY_SETTINGS)
+  const [storedJobInfo, setStoredJobInfo] = useLocalStorage<JobInfo>('stone-mockup-generator:jobInfo', DEFAULT_JOB_INFO)
+  const jobInfo = sharedJobInfo ?? storedJobInfo
+  const titleBlockDetails: TitleBlockDetails = { company: sharedCompanySettings ?? storedCompanySettings, job: jobInfo }
+  const projectName = jobInfo.jobName
+  const setProjectName = (jobName: string) => (onJobInfoChange ?? setStoredJobInfo)({ ...jobInfo, jobName })
+  // The editor's display options, used for the drawing bundle
+  const [storedDisplayOptions] = useLocalStorage<MockupOptions>('stone-mockup-generator:displayOptions', DEFAULT_MOCKUP_OPTIONS)
+  const displayOptions = sharedDisplayOptions ?? storedDisplayOptions
+  const [nestingOptions, setNestingOptions] = useLocalStorage<NestingOptions>('stone-mockup-generator:nestingOptions', DEFAULT_NESTING_OPTIONS)
+  const [priceList, setPriceList] = useLocalStorage<PriceList>('stone-mockup-generator:priceList', DEFAULT_PRICE_LIST)
   const [isExporting, setIsExporting] = useState(false)
   const [exportProgress, setExportProgress] = useState(0);
+  const [bundleFormats, setBundleFormats] = useState<BundleFormat[]>(['png', 'pdf']);
+  const [isBundling, setIsBundling] = useState(false);
   const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([])
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'warning' } | null>(null);
 
+  // Slabs needed for all saved pieces
+  const nesting = useMemo(
+    () => nestPieces(savedPieces, slabSizes, nestingOptions, catalog),
+    [savedPieces, slabSizes, nestingOptions, catalog]
+  );
+
+  // Itemized price for the job, with material waste taken from the slab layout
+  const estimate = useMemo(
+    () => createEstimate(savedPieces, priceList, catalog, nesting),
+    [savedPieces, priceList, catalog, nesting]
+  );
+
   // Initialize canvas refs array - improved to handle piece reordering better
   useEffect(() => {
     // Create a new array with the correct length
@@ -109,6 +164,129 @@ export function MultiPieceExport({ savedPieces }: MultiPieceExportProps) {
     }
   }, []);
 
+  // Handle download of a single piece as SVG
+  const handleDownloadSVG = (piece: StonePiece, index: number) => {
+    try {
+      downloadSVG(
+        renderStoneMockupSVG(piece.specs, {
+          showGrid: true,
+          showPolishedEdges: true,
+          useXMarks: true,
+          scale: 1,
+          titleBlock: createTitleBlock(titleBlockDetails, index + 1, savedPieces.length)
+        }),
+        `${projectName.replace(/\s+/g, '-').toLowerCase()}-piece-${index + 1}.svg`
+      );
+    } catch (error) {
+      console.error('Error generating SVG:', error);
+
+      setToast({
+        message: 'Failed to generate SVG. Please try again.',
+        type: 'error'
+      });
+    }
+  };
+
+  // Handle download of a single piece as DXF
+  const handleDownloadDXF = (piece: StonePiece, index: number) => {
+    try {
+      downloadDXF(pieceToDXF(piece.specs), `${projectName.replace(/\s+/g, '-').toLowerCase()}-piece-${index + 1}.dxf`);
+    } catch (error) {
+      console.error('Error generating DXF:', error);
+
+      setToast({
+        message: 'Failed to generate DXF. Please try again.',
+        type: 'error'
+      });
+    }
+  };
+
+  // Handle export of every piece to one DXF, side by side and named by their place in the list
+  const handleExportDXF = () => {
+    try {
+      downloadDXF(
+        piecesToDXF(savedPieces.map((piece, index) => ({
+          specs: piece.specs,
+          label: piece.specs.quantity > 1 ? `Piece ${index + 1} (Qty ${piece.specs.quantity})` : `Piece ${index + 1}`
+        }))),
+        `${projectName.replace(/\s+/g, '-').toLowerCase()}.dxf`
+      );
+
+      setToast({
+        message: 'DXF exported successfully',
+        type: 'success'
+      });
+    } catch (error) {
+      console.error('Error exporting to DXF:', error);
+
+      setToast({
+        message: 'Failed to export DXF. Please try again.',
+        type: 'error'
+      });
+    }
+  };
+
+  // Handle export of the cut list as a spreadsheet, one row per piece
+  const handleExportCutList = (format: 'csv' | 'xlsx') => {
+    try {
+      const filename = `${projectName.replace(/\s+/g, '-').toLowerCase()}-cut-list.${format}`;
+      if (format === 'csv') {
+        downloadCutListCSV(cutListToCSV(savedPieces), filename);
+      } else {
+        downloadCutListXLSX(cutListToXLSX(savedPieces), filename);
+      }
+
+      setToast({
+        message: 'Cut list exported successfully',
+        type: 'success'
+      });
+    } catch (error) {
+      console.error('Error exporting cut list:', error);
+
+      setToast({
+        message: 'Failed to export cut list. Please try again.',
+        type: 'error'
+      });
+    }
+  };
+
+  // Handle export of each piece as its own files in the chosen formats, zipped with a manifest
+  const handleExportBundle = async () => {
+    setIsExporting(true);
+    setIsBundling(true);
+    setExportProgress(0);
+
+    try {
+      const zip = await createDrawingBundle(savedPieces, projectName, bundleFormats, displayOptions, titleBlockDetails, (done, total) => {
+        setExportProgress(Math.floor((done / total) * 100));
+      });
+      downloadBundle(zip, getBundleZipName(projectName));
+
+      setToast({
+        message: 'Drawing bundle exported successfully',
+        type: 'success'
+      });
+    } catch (error) {
+      console.error('Error exporting drawing bundle:', error);
+
+      setToast({
+        message: 'Error exporting drawing bundle: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        type: 'error'
+      });
+    } finally {
+      setIsExporting(false);
+      setIsBundling(false);
+      // Reset progress after a brief delay to show 100%
+      setTimeout(() => setExportProgress(0), 1000);
+    }
+  };
+
+  const toggleBundleFormat = (format: BundleFormat) => {
+    setBundleFormats(bundleFormats.includes(format)
+      ? bundleFormats.filter(selected => selected !== format)
+      : (Object.keys(BUNDLE_FORMATS) as BundleFormat[]).filter(option => option === format || bundleFormats.includes(option)));
+  };
+
   // Handle export to PDF
   const handleExportPDF = async () => {
     if (savedPieces.length === 0) {
@@ -152,7 +330,10 @@ export function MultiPieceExport({ savedPieces }: MultiPieceExportProps) {
           validCanvases,
           savedPieces,
           projectName,
-          isMobile
+          isMobile,
+          nesting,
+          estimate,
+          titleBlockDetails
         );
 
         setExportProgress(100);
@@ -215,10 +396,27 @@ export function MultiPieceExport({ savedPieces }: MultiPieceExportProps) {
         <div className="max-h-40 overflow-y-auto border rounded-md p-2 shadow-inner">
           {savedPieces.map((piece, index) => (
             <div key={piece.id} className="mb-2 last:mb-0 p-2 hover:bg-gray-50 transition-colors rounded">
-              <p className="text-sm text-gray-700">
-                <span className="font-medium">Piece {index + 1}:</span> {piece.specs.width}" × {piece.specs.height}", 
-                {piece.specs.materialType}, {piece.specs.thickness}
-              </p>
+              <div className="flex justify-between items-start">
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">Piece {index + 1}:</span> {piece.specs.width}" × {piece.specs.height}", 
+                  {piece.specs.shape && piece.specs.shape.type !== 'rectangle' && ` ${getShapeLabel(piece.specs.shape.type)},`}
+                  {getMaterialName(piece.specs)}, {piece.specs.thickness}, {getPieceAreaSqFt(piece.specs).toFixed(2)} sq ft
+                </p>
+                <div className="flex">
+                  <button
+                    className="text-blue-600 hover:text-blue-800 text-sm px-2 rounded hover:bg-blue-50 transition-colors"
+                    onClick={() => handleDownloadSVG(piece, index)}
+                  >
+                    SVG
+                  </button>
+                  <button
+                    className="text-blue-600 hover:text-blue-800 text-sm px-2 rounded hover:bg-blue-50 transition-colors"
+                    onClick={() => handleDownloadDXF(piece, index)}
+                  >
+                    DXF
+                  </button>
+                </div>
+              </div>
               {piece.notes && (
                 <p className="text-sm text-gray-600 ml-4 mt-1 bg-gray-50 p-1 rounded border border-gray-100">
                   <span className="font-medium">Notes:</span> {piece.notes}
@@ -229,15 +427,68 @@ export function MultiPieceExport({ savedPieces }: MultiPieceExportProps) {
         </div>
       </div>
       
+      <SlabLayouts nesting={nesting} options={nestingOptions} onOptionsChange={setNestingOptions} />
+
+      <EstimatePanel estimate={estimate} priceList={priceList} onPriceListChange={setPriceList} />
+
       <div className="space-y-2">
         <button
           className="w-full px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-md hover:from-blue-700 hover:to-blue-600 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 disabled:opacity-70 disabled:transform-none disabled:shadow-none"
           onClick={handleExportPDF}
           disabled={isExporting || savedPieces.length === 0}
         >
-          {isExporting ? `Generating PDF... ${exportProgress}%` : 'Export All Pieces to PDF'}
+          {isExporting && !isBundling ? `Generating PDF... ${exportProgress}%` : 'Export All Pieces to PDF'}
+        </button>
+
+        <button
+          className="w-full px-4 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 disabled:opacity-70 disabled:transform-none disabled:shadow-none"
+          onClick={handleExportDXF}
+          disabled={isExporting}
+        >
+          Export All Pieces to DXF
         </button>
 
+        <div className="flex gap-2">
+          <button
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 disabled:opacity-70 disabled:transform-none disabled:shadow-none"
+            onClick={() => handleExportCutList('csv')}
+            disabled={isExporting}
+          >
+            Export Cut List to CSV
+          </button>
+          <button
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 disabled:opacity-70 disabled:transform-none disabled:shadow-none"
+            onClick={() => handleExportCutList('xlsx')}
+            disabled={isExporting}
+          >
+            Export Cut List to XLSX
+          </button>
+        </div>
+
+        <div className="border border-gray-200 rounded-md p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <span className="font-medium">Drawing Bundle:</span>
+            {(Object.keys(BUNDLE_FORMATS) as BundleFormat[]).map(format => (
+              <label key={format} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={bundleFormats.includes(format)}
+                  onChange={() => toggleBundleFormat(format)}
+                  disabled={isExporting}
+                />
+                {BUNDLE_FORMATS[format].label}
+              </label>
+            ))}
+          </div>
+          <button
+            className="w-full px-4 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 disabled:opacity-70 disabled:transform-none disabled:shadow-none"
+            onClick={handleExportBundle}
+            disabled={isExporting || savedPieces.length === 0 || bundleFormats.length === 0}
+          >
+            {isBundling ? `Bundling Drawings... ${exportProgress}%` : 'Export Each Piece as ZIP'}
+          </button>
+        </div>
+
         {/* Progress bar */}
         {isExporting && (
           <div className="w-full bg-gray-200 rounded-full h-2.5">
@@ -1,79 +1,79 @@
 import React from 'react'
+import { EdgeProfile, StoneSpecifications } from '@/types/stone'
+import { getPieceEdges, isRectangular } from '@/lib/shape-utils'
+import { hasCornerTreatments } from '@/lib/corner-utils'
+import { DEFAULT_EDGE_PROFILE, EDGE_PROFILES, getEdgeProfileLabel, getEdgeProfiles } from '@/lib/edge-profile-utils'
+import { decimalToFraction } from '@/lib/fraction-utils'
 
 export interface PolishedEdgesInputProps {
-  polishedEdges: string[];
-  onPolishedEdgesChange: (edges: string[]) => void;
+  specs: StoneSpecifications;
+  onEdgeProfilesChange: (edgeProfiles: Record<string, EdgeProfile>) => void;
 }
 
-export function PolishedEdgesInput({ 
-  polishedEdges, 
-  onPolishedEdgesChange 
+export function PolishedEdgesInput({
+  specs,
+  onEdgeProfilesChange
 }: PolishedEdgesInputProps) {
-  
+  const edgeProfiles = getEdgeProfiles(specs);
+
+  // Plain rectangles list their long sides first; other outlines are listed edge by edge with lengths
+  const plainRectangle = isRectangular(specs) && !hasCornerTreatments(specs);
+  const longSides = specs.width >= specs.height ? ['top', 'bottom'] : ['left', 'right'];
+  const edges = getPieceEdges(specs).map(edge => ({
+    ...edge,
+    description: plainRectangle
+      ? (longSides.includes(edge.id) ? 'Long Side' : 'Short Side')
+      : `${decimalToFraction(edge.length)}"`,
+  }));
+  if (plainRectangle) {
+    edges.sort((a, b) => Number(longSides.includes(b.id)) - Number(longSides.includes(a.id)));
+  }
+
   const toggleEdge = (edge: string) => {
-    if (polishedEdges.includes(edge)) {
-      onPolishedEdgesChange(polishedEdges.filter(e => e !== edge));
+    if (edgeProfiles[edge]) {
+      onEdgeProfilesChange(Object.fromEntries(Object.entries(edgeProfiles).filter(([id]) => id !== edge)));
     } else {
-      onPolishedEdgesChange([...polishedEdges, edge]);
+      onEdgeProfilesChange({ ...edgeProfiles, [edge]: DEFAULT_EDGE_PROFILE });
     }
   };
 
+  const setProfile = (edge: string, profile: EdgeProfile) => {
+    onEdgeProfilesChange({ ...edgeProfiles, [edge]: profile });
+  };
+
   return (
     <div className="space-y-4">
       <h3 className="font-medium text-gray-700">Polished Edges</h3>
-      
+
       <div className="space-y-2">
-        <div className="flex items-center">
-          <input
-            id="top-edge"
-            type="checkbox"
-            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-            checked={polishedEdges.includes('top')}
-            onChange={() => toggleEdge('top')}
-          />
-          <label htmlFor="top-edge" className="ml-2 block text-sm text-gray-700">
-            Top Edge (Long Side)
-          </label>
-        </div>
-        
-        <div className="flex items-center">
-          <input
-            id="bottom-edge"
-            type="checkbox"
-            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-            checked={polishedEdges.includes('bottom')}
-            onChange={() => toggleEdge('bottom')}
-          />
-          <label htmlFor="bottom-edge" className="ml-2 block text-sm text-gray-700">
-            Bottom Edge (Long Side)
-          </label>
-        </div>
-        
-        <div className="flex items-center">
-          <input
-            id="left-edge"
-            type="checkbox"
-            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-            checked={polishedEdges.includes('left')}
-            onChange={() => toggleEdge('left')}
-          />
-          <label htmlFor="left-edge" className="ml-2 block text-sm text-gray-700">
-            Left Edge (Short Side)
-          </label>
-        </div>
-        
-        <div className="flex items-center">
-          <input
-            id="right-edge"
-            type="checkbox"
-            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-            checked={polishedEdges.includes('right')}
-            onChange={() => toggleEdge('right')}
-          />
-          <label htmlFor="right-edge" className="ml-2 block text-sm text-gray-700">
-            Right Edge (Short Side)
-          </label>
-        </div>
+        {edges.map(edge => (
+          <div key={edge.id} className="flex items-center gap-2">
+            <div className="flex flex-1 items-center">
+              <input
+                id={`${edge.id}-edge`}
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={!!edgeProfiles[edge.id]}
+                onChange={() => toggleEdge(edge.id)}
+              />
+              <label htmlFor={`${edge.id}-edge`} className="ml-2 block text-sm text-gray-700">
+                {edge.label} Edge ({edge.description})
+              </label>
+            </div>
+            {edgeProfiles[edge.id] && (
+              <select
+                aria-label={`${edge.label} profile`}
+                className="block w-40 rounded-md border-gray-300 py-1 pl-2 pr-8 text-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500 text-gray-800"
+                value={edgeProfiles[edge.id]}
+                onChange={(e) => setProfile(edge.id, e.target.value as EdgeProfile)}
+              >
+                {EDGE_PROFILES.map(profile => (
+                  <option key={profile} value={profile}>{getEdgeProfileLabel(profile)}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        ))}
       </div>
     </div>
   )
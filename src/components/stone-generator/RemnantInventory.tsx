@@ -0,0 +1,228 @@
+"use client"
+
+import React, { useState } from 'react'
+import { FractionField } from './FractionField'
+import { CatalogMaterial, Remnant, StonePiece } from '@/types/stone'
+import { createRemnant, describeRemnant, findRemnantMatches, fitsRemnant, getReservedRemnantIds } from '@/lib/remnant-utils'
+import { DEFAULT_MATERIAL_CATALOG, getCatalogColors, getMaterialTypes, getThicknessOptions } from '@/lib/material-catalog-utils'
+
+export interface RemnantInventoryProps {
+  remnants: Remnant[];
+  onRemnantsChange: (remnants: Remnant[]) => void;
+  savedPieces: StonePiece[];
+  onReserveRemnant: (pieceId: string, remnant: Remnant | null) => void;
+  catalog?: CatalogMaterial[];
+}
+
+const selectClassName = "block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800";
+const inputClassName = "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-gray-800";
+
+const EMPTY_REMNANT: Omit<Remnant, 'id'> = {
+  materialType: 'quartz',
+  color: '',
+  thickness: '3cm',
+  width: 48,
+  height: 24,
+  location: '',
+};
+
+export function RemnantInventory({
+  remnants,
+  onRemnantsChange,
+  savedPieces,
+  onReserveRemnant,
+  catalog = DEFAULT_MATERIAL_CATALOG
+}: RemnantInventoryProps) {
+  const [draft, setDraft] = useState<Omit<Remnant, 'id'>>(EMPTY_REMNANT);
+  const reserved = getReservedRemnantIds(savedPieces);
+  const thicknessOptions = getThicknessOptions(catalog, draft.materialType);
+
+  const handleMaterialTypeChange = (materialType: string) => {
+    const thicknesses = getThicknessOptions(catalog, materialType);
+    setDraft({
+      ...draft,
+      materialType,
+      thickness: thicknesses.includes(draft.thickness) ? draft.thickness : thicknesses[0],
+    });
+  };
+
+  const addRemnant = () => {
+    onRemnantsChange([...remnants, createRemnant(draft)]);
+    setDraft({ ...EMPTY_REMNANT, materialType: draft.materialType, thickness: draft.thickness });
+  };
+
+  const removeRemnant = (id: string) => {
+    onRemnantsChange(remnants.filter(remnant => remnant.id !== id));
+  };
+
+  const getReservingPiece = (id: string) => {
+    const index = savedPieces.findIndex(piece => piece.specs.remnant?.id === id);
+    return index >= 0 ? `Piece ${index + 1}` : null;
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mt-6 border border-gray-100">
+      <h2 className="text-xl font-semibold mb-4 text-gray-800">Remnant Inventory</h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+        <div>
+          <label htmlFor="remnant-material" className="block text-sm font-medium text-gray-700 mb-1">
+            Material Type
+          </label>
+          <select
+            id="remnant-material"
+            className={selectClassName}
+            value={draft.materialType}
+            onChange={(e) => handleMaterialTypeChange(e.target.value)}
+          >
+            {getMaterialTypes(catalog).map(type => (
+              <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="remnant-color" className="block text-sm font-medium text-gray-700 mb-1">
+            Color
+          </label>
+          <input
+            type="text"
+            id="remnant-color"
+            className={inputClassName}
+            value={draft.color}
+            list="remnant-color-options"
+            onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+          />
+          <datalist id="remnant-color-options">
+            {getCatalogColors(catalog, draft.materialType).map(entry => (
+              <option key={entry.id} value={entry.color} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label htmlFor="remnant-thickness" className="block text-sm font-medium text-gray-700 mb-1">
+            Thickness
+          </label>
+          <select
+            id="remnant-thickness"
+            className={selectClassName}
+            value={draft.thickness}
+            onChange={(e) => setDraft({ ...draft, thickness: e.target.value })}
+          >
+            {thicknessOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <FractionField
+          id="remnant-width"
+          label="Length"
+          value={draft.width}
+          onChange={(width) => setDraft({ ...draft, width })}
+        />
+        <FractionField
+          id="remnant-height"
+          label="Width"
+          value={draft.height}
+          onChange={(height) => setDraft({ ...draft, height })}
+        />
+        <div>
+          <label htmlFor="remnant-location" className="block text-sm font-medium text-gray-700 mb-1">
+            Location
+          </label>
+          <input
+            type="text"
+            id="remnant-location"
+            className={inputClassName}
+            value={draft.location}
+            onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <button
+        className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm mb-4"
+        onClick={addRemnant}
+      >
+        + Add Remnant
+      </button>
+
+      {remnants.length === 0 ? (
+        <p className="text-gray-600 text-sm">No remnants in the inventory yet.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto border rounded-md p-2 shadow-inner mb-4 space-y-1">
+          {remnants.map(remnant => (
+            <li key={remnant.id} className="flex items-center justify-between text-sm text-gray-700 p-1 hover:bg-gray-50 rounded">
+              <span>{describeRemnant(remnant)}</span>
+              {reserved.has(remnant.id) ? (
+                <span className="text-xs text-teal-800 bg-teal-50 border border-teal-200 rounded px-1">
+                  Reserved for {getReservingPiece(remnant.id)}
+                </span>
+              ) : (
+                <button
+                  className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors"
+                  onClick={() => removeRemnant(remnant.id)}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {savedPieces.length > 0 && remnants.length > 0 && (
+        <div>
+          <h3 className="text-md font-medium mb-2 text-gray-700">Remnant Matches</h3>
+          <div className="space-y-2">
+            {savedPieces.map((piece, index) => {
+              const remnant = piece.specs.remnant;
+
+              if (remnant) {
+                return (
+                  <div key={piece.id} className="text-sm text-gray-700 p-2 border rounded-md">
+                    <div className="flex items-center justify-between">
+                      <span>
+                        <span className="font-medium">Piece {index + 1}:</span> cut from {describeRemnant(remnant)}
+                      </span>
+                      <button
+                        className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50 transition-colors"
+                        onClick={() => onReserveRemnant(piece.id, null)}
+                      >
+                        Release
+                      </button>
+                    </div>
+                    {!fitsRemnant(piece.specs, remnant) && (
+                      <p className="text-amber-800 mt-1">The piece no longer fits this remnant.</p>
+                    )}
+                  </div>
+                );
+              }
+
+              const matches = findRemnantMatches(piece, remnants, savedPieces);
+              if (matches.length === 0) return null;
+
+              return (
+                <div key={piece.id} className="text-sm text-gray-700 p-2 border rounded-md">
+                  <span className="font-medium">Piece {index + 1}</span> fits {matches.length} remnant{matches.length === 1 ? '' : 's'}:
+                  <ul className="mt-1 space-y-1">
+                    {matches.map(match => (
+                      <li key={match.id} className="flex items-center justify-between ml-4">
+                        <span>{describeRemnant(match)}</span>
+                        <button
+                          className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50 transition-colors"
+                          onClick={() => onReserveRemnant(piece.id, match)}
+                        >
+                          Reserve
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import React, { useEffect, useRef } from 'react'
+import { MockupOptions, StoneSpecifications } from '@/types/stone'
+import { SeamSection, getSeamSections } from '@/lib/seam-utils'
+import { drawStoneMockup } from '@/lib/drawing-utils.optimized'
+import { decimalToFraction } from '@/lib/fraction-utils'
+
+export interface SeamSectionsPreviewProps {
+  specs: StoneSpecifications;
+  options: MockupOptions;
+}
+
+// Drawing of a single section, with its seam edges marked
+function SectionCanvas({ section, options }: { section: SeamSection; options: MockupOptions }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    drawStoneMockup(ctx, section.specs, { ...options, scale: 1 });
+  }, [section, options]);
+
+  return (
+    <div className="border border-gray-200 rounded-md bg-gray-50 p-2">
+      <div className="text-sm font-medium text-gray-700 mb-1">
+        Section {section.index + 1}: {`${decimalToFraction(section.specs.width)}" × ${decimalToFraction(section.specs.height)}"`}
+      </div>
+      <canvas ref={canvasRef} width={400} height={300} className="max-w-full h-auto" />
+    </div>
+  );
+}
+
+export function SeamSectionsPreview({ specs, options }: SeamSectionsPreviewProps) {
+  const sections = getSeamSections(specs);
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <h3 className="font-medium text-gray-700 mb-2">Sections</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {sections.map(section => (
+          <SectionCanvas key={section.index} section={section} options={options} />
+        ))}
+      </div>
+    </div>
+  )
+}
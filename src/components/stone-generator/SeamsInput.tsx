@@ -0,0 +1,139 @@
+"use client"
+
+import React from 'react'
+import { FractionField } from './FractionField'
+import { Seam, SeamOrientation, SlabSize, StoneSpecifications } from '@/types/stone'
+import { createSeam, getSeamSections, suggestSeams } from '@/lib/seam-utils'
+import { fitsOnSlab } from '@/lib/slab-utils'
+import { decimalToFraction } from '@/lib/fraction-utils'
+import { getMaterialName } from '@/lib/material-catalog-utils'
+
+export interface SeamsInputProps {
+  specs: StoneSpecifications;
+  slabSize: SlabSize;
+  onSlabSizeChange: (slabSize: SlabSize) => void;
+  onSeamsChange: (seams: Seam[]) => void;
+}
+
+const selectClassName = "block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800";
+
+export function SeamsInput({
+  specs,
+  slabSize,
+  onSlabSizeChange,
+  onSeamsChange
+}: SeamsInputProps) {
+  const seams = specs.seams || [];
+  const sections = getSeamSections(specs);
+  const pieceFits = fitsOnSlab(specs.width, specs.height, slabSize);
+  const oversizeSections = sections.filter(section => !fitsOnSlab(section.specs.width, section.specs.height, slabSize));
+
+  const addSeam = () => {
+    onSeamsChange([...seams, createSeam('vertical', specs.width / 2)]);
+  };
+
+  const updateSeam = (id: string, updates: Partial<Seam>) => {
+    onSeamsChange(seams.map(seam => seam.id === id ? { ...seam, ...updates } : seam));
+  };
+
+  const removeSeam = (id: string) => {
+    onSeamsChange(seams.filter(seam => seam.id !== id));
+  };
+
+  const materialName = getMaterialName(specs);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium text-gray-700">Seams</h3>
+
+      <div className="grid grid-cols-2 gap-3">
+        <FractionField
+          id="slab-width"
+          label={`${materialName} Slab Length`}
+          value={slabSize.width}
+          onChange={(width) => onSlabSizeChange({ ...slabSize, width })}
+        />
+        <FractionField
+          id="slab-height"
+          label={`${materialName} Slab Width`}
+          value={slabSize.height}
+          onChange={(height) => onSlabSizeChange({ ...slabSize, height })}
+        />
+      </div>
+
+      {!pieceFits && sections.length === 0 && (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+          {`This piece doesn't fit on a ${decimalToFraction(slabSize.width)}" × ${decimalToFraction(slabSize.height)}" slab. Add a seam to split it.`}
+        </div>
+      )}
+
+      {oversizeSections.length > 0 && (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+          {oversizeSections.length === 1
+            ? `Section ${oversizeSections[0].index + 1} still doesn't fit on the slab.`
+            : `Sections ${oversizeSections.map(section => section.index + 1).join(', ')} still don't fit on the slab.`}
+        </div>
+      )}
+
+      {seams.map(seam => (
+        <div key={seam.id} className="flex items-end gap-2">
+          <div className="flex-1">
+            <label htmlFor={`seam-orientation-${seam.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+              Direction
+            </label>
+            <select
+              id={`seam-orientation-${seam.id}`}
+              className={selectClassName}
+              value={seam.orientation}
+              onChange={(e) => updateSeam(seam.id, { orientation: e.target.value as SeamOrientation })}
+            >
+              <option value="vertical">Vertical</option>
+              <option value="horizontal">Horizontal</option>
+            </select>
+          </div>
+          <div className="flex-1">
+            <FractionField
+              id={`seam-position-${seam.id}`}
+              label={seam.orientation === 'vertical' ? 'From Left' : 'From Top'}
+              value={seam.position}
+              onChange={(position) => updateSeam(seam.id, { position })}
+            />
+          </div>
+          <button
+            className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors text-sm"
+            onClick={() => removeSeam(seam.id)}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {sections.length > 0 && (
+        <ul className="text-sm text-gray-600 space-y-1">
+          {sections.map(section => (
+            <li key={section.index}>
+              Section {section.index + 1}: {`${decimalToFraction(section.specs.width)}" × ${decimalToFraction(section.specs.height)}"`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={addSeam}
+        >
+          + Seam
+        </button>
+        {!pieceFits && (
+          <button
+            className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+            onClick={() => onSeamsChange(suggestSeams(specs, slabSize))}
+          >
+            Suggest Seams
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
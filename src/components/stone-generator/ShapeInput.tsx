@@ -0,0 +1,89 @@
+"use client"
+
+import React from 'react'
+import { FractionField } from './FractionField'
+import { ShapeType, StoneShape } from '@/types/stone'
+import { createShapePreset, getShapeLabel } from '@/lib/shape-utils'
+
+export interface ShapeInputProps {
+  shape: StoneShape;
+  width: number;
+  height: number;
+  onShapeChange: (shape: StoneShape) => void;
+}
+
+const SHAPE_TYPES: ShapeType[] = ['rectangle', 'l-shape', 'u-shape'];
+
+export function ShapeInput({
+  shape,
+  width,
+  height,
+  onShapeChange
+}: ShapeInputProps) {
+  // Switching shape type starts from a fresh preset sized to the current piece
+  const handleTypeChange = (type: ShapeType) => {
+    onShapeChange(createShapePreset(type, width, height));
+  };
+
+  const updateShape = (updates: Partial<StoneShape>) => {
+    onShapeChange({ ...shape, ...updates });
+  };
+
+  const preset = createShapePreset(shape.type, width, height);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium text-gray-700">Shape</h3>
+
+      <div>
+        <label htmlFor="shape-type" className="block text-sm font-medium text-gray-700 mb-1">
+          Outline
+        </label>
+        <select
+          id="shape-type"
+          className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800"
+          value={shape.type}
+          onChange={(e) => handleTypeChange(e.target.value as ShapeType)}
+        >
+          {SHAPE_TYPES.map(type => (
+            <option key={type} value={type}>{getShapeLabel(type)}</option>
+          ))}
+          {shape.type === 'custom' && (
+            <option value="custom" disabled>{getShapeLabel('custom')}</option>
+          )}
+        </select>
+      </div>
+
+      {(shape.type === 'l-shape' || shape.type === 'u-shape') && (
+        <div className="grid grid-cols-2 gap-4">
+          <FractionField
+            id="run-depth"
+            label="Run Depth"
+            value={shape.runDepth ?? preset.runDepth!}
+            onChange={(runDepth) => updateShape({ runDepth })}
+          />
+          <FractionField
+            id="left-leg-width"
+            label={shape.type === 'u-shape' ? 'Left Leg Width' : 'Leg Width'}
+            value={shape.leftLegWidth ?? preset.leftLegWidth!}
+            onChange={(leftLegWidth) => updateShape({ leftLegWidth })}
+          />
+          {shape.type === 'u-shape' && (
+            <FractionField
+              id="right-leg-width"
+              label="Right Leg Width"
+              value={shape.rightLegWidth ?? preset.rightLegWidth!}
+              onChange={(rightLegWidth) => updateShape({ rightLegWidth })}
+            />
+          )}
+        </div>
+      )}
+
+      {shape.type !== 'rectangle' && (
+        <div className="text-sm text-gray-500 mt-1">
+          <p>Width and height above are the overall size of the piece.</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import React, { useEffect, useRef } from 'react'
+import { FractionField } from './FractionField'
+import { NestedSlab, NestingOptions, NestingResult } from '@/lib/nesting-utils'
+import { drawSlabLayout } from '@/lib/drawing-utils.optimized'
+import { decimalToFraction } from '@/lib/fraction-utils'
+
+export interface SlabLayoutsProps {
+  nesting: NestingResult;
+  options: NestingOptions;
+  onOptionsChange: (options: NestingOptions) => void;
+}
+
+// Drawing of a single slab with its nested parts
+function SlabCanvas({ slab, total }: { slab: NestedSlab; total: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    drawSlabLayout(ctx, slab);
+  }, [slab]);
+
+  return (
+    <div className="border border-gray-200 rounded-md bg-gray-50 p-2">
+      <div className="text-sm font-medium text-gray-700 mb-1">
+        Slab {slab.index + 1} of {total}: {slab.materialName}, {slab.thickness}
+      </div>
+      <canvas ref={canvasRef} width={600} height={360} className="max-w-full h-auto" />
+    </div>
+  );
+}
+
+export function SlabLayouts({ nesting, options, onOptionsChange }: SlabLayoutsProps) {
+  return (
+    <div className="mb-4 space-y-3">
+      <h3 className="text-md font-medium text-gray-700">Slab Layout</h3>
+
+      <div className="grid grid-cols-2 gap-3 items-end">
+        <FractionField
+          id="nesting-kerf"
+          label="Kerf (Saw Cut Width)"
+          value={options.kerf}
+          onChange={(kerf) => onOptionsChange({ ...options, kerf })}
+        />
+        <div className="flex items-center pb-2">
+          <input
+            type="checkbox"
+            id="nesting-lock-grain"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={options.lockGrain}
+            onChange={(e) => onOptionsChange({ ...options, lockGrain: e.target.checked })}
+          />
+          <label htmlFor="nesting-lock-grain" className="ml-2 block text-sm text-gray-700">
+            Lock grain direction (no rotation)
+          </label>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-700">
+        <span className="font-medium">{nesting.slabs.length} slab{nesting.slabs.length === 1 ? '' : 's'}</span>
+        {nesting.slabs.length > 0 && `, ${Math.round(nesting.yield * 100)}% yield`}
+      </p>
+
+      {nesting.unplaced.length > 0 && (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+          {`Too large for the slab: ${nesting.unplaced
+            .map(part => `${part.label} (${decimalToFraction(part.width)}" × ${decimalToFraction(part.height)}")`)
+            .join(', ')}. Add seams to split these pieces.`}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {nesting.slabs.map(slab => (
+          <SlabCanvas key={slab.index} slab={slab} total={nesting.slabs.length} />
+        ))}
+      </div>
+    </div>
+  )
+}
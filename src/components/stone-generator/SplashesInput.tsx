@@ -0,0 +1,75 @@
+"use client"
+
+import React, { useState } from 'react'
+import { FractionField } from './FractionField'
+import { StonePiece } from '@/types/stone'
+import { DEFAULT_SPLASH_HEIGHT, getSplashKind, getSplashLabel, getWallEdges } from '@/lib/splash-utils'
+import { decimalToFraction } from '@/lib/fraction-utils'
+
+export interface SplashesInputProps {
+  piece: StonePiece;
+  savedPieces: StonePiece[];
+  onGenerate: (edges: string[], height: number) => void;
+  onCancel: () => void;
+}
+
+export function SplashesInput({
+  piece,
+  savedPieces,
+  onGenerate,
+  onCancel
+}: SplashesInputProps) {
+  // Start from the splashes the piece already has, so generating again edits them
+  const existing = savedPieces.filter(saved => saved.splash?.parentId === piece.id);
+  const [edges, setEdges] = useState<string[]>(existing.map(saved => saved.splash!.edge));
+  const [height, setHeight] = useState<number>(existing[0]?.splash!.height ?? DEFAULT_SPLASH_HEIGHT);
+
+  const toggleEdge = (edge: string) => {
+    setEdges(prev => prev.includes(edge) ? prev.filter(e => e !== edge) : [...prev, edge]);
+  };
+
+  return (
+    <div className="mt-2 space-y-3 p-3 border rounded-md bg-gray-50">
+      <h4 className="text-sm font-medium text-gray-700">Wall Edges</h4>
+
+      <div className="space-y-1">
+        {getWallEdges(piece.specs).map(edge => (
+          <div key={edge.id} className="flex items-center">
+            <input
+              id={`splash-${piece.id}-${edge.id}`}
+              type="checkbox"
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={edges.includes(edge.id)}
+              onChange={() => toggleEdge(edge.id)}
+            />
+            <label htmlFor={`splash-${piece.id}-${edge.id}`} className="ml-2 block text-sm text-gray-700">
+              {edge.label} ({`${decimalToFraction(edge.length)}"`}) - {getSplashLabel(getSplashKind(edge.id))}
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <FractionField
+        id={`splash-${piece.id}-height`}
+        label="Splash Height"
+        value={height}
+        onChange={setHeight}
+      />
+
+      <div className="flex justify-end gap-2">
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+        <button
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+          onClick={() => onGenerate(edges, height)}
+        >
+          Generate Splashes
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -5,7 +5,8 @@ import { DimensionsInput } from './DimensionsInput'
 import { MaterialPropertiesInput } from './MaterialPropertiesInput'
 import { QuantityInput } from './QuantityInput'
 import { NotesInput } from './NotesInput'
-import { StoneSpecifications, MockupOptions, StonePiece } from '@/types/stone'
+import { PolishedEdgesInput } from './PolishedEdgesInput'
+import { StoneSpecifications, MockupOptions, StonePiece, EdgeProfile } from '@/types/stone'
 import { drawStoneMockup } from '@/lib/drawing-utils.optimized'
 import { exportToPDF } from '@/lib/export-utils.optimized'
 import { useLocalStorage } from '@/hooks/useLocalStorage'
@@ -42,7 +43,7 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
   const [specs, setSpecs] = useLocalStorage<StoneSpecifications>('stone-mockup-generator:currentSpecs', {
     width: 24,
     height: 4,
-    polishedEdges: ['top'],
+    edgeProfiles: { top: 'eased' },
     materialType: 'quartz',
     thickness: '2cm',
     quantity: 1
@@ -156,9 +157,9 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
     updateSpecs({ height });
   }, [updateSpecs]);
 
-  // Handle polished edges changes
-  const handlePolishedEdgesChange = useCallback((polishedEdges: string[]) => {
-    updateSpecs({ polishedEdges });
+  // Handle edge profile changes
+  const handleEdgeProfilesChange = useCallback((edgeProfiles: Record<string, EdgeProfile>) => {
+    updateSpecs({ edgeProfiles });
   }, [updateSpecs]);
 
   // Handle material properties changes
@@ -272,21 +273,6 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
     }
   }, [specs, notes, isMobileDevice]);
 
-  // Determine if the long sides are top/bottom or left/right based on dimensions
-  const { longSides, shortSides } = useMemo(() => {
-    if (specs.width >= specs.height) {
-      return {
-        longSides: ['top', 'bottom'],
-        shortSides: ['left', 'right']
-      };
-    } else {
-      return {
-        longSides: ['left', 'right'],
-        shortSides: ['top', 'bottom']
-      };
-    }
-  }, [specs.width, specs.height]);
-
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
       {/* Input Panel - Takes 4 columns on large screens */}
@@ -300,53 +286,10 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
             onHeightChange={handleHeightChange} 
           />
           
-          <div className="space-y-4">
-            <h3 className="font-medium text-gray-700">Polished Edges</h3>
-            
-            <div className="space-y-2">
-              {longSides.map(side => (
-                <div key={side} className="flex items-center">
-                  <input
-                    id={`${side}-edge`}
-                    type="checkbox"
-                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    checked={specs.polishedEdges.includes(side)}
-                    onChange={() => {
-                      if (specs.polishedEdges.includes(side)) {
-                        handlePolishedEdgesChange(specs.polishedEdges.filter(e => e !== side));
-                      } else {
-                        handlePolishedEdgesChange([...specs.polishedEdges, side]);
-                      }
-                    }}
-                  />
-                  <label htmlFor={`${side}-edge`} className="ml-2 block text-sm text-gray-700">
-                    {side.charAt(0).toUpperCase() + side.slice(1)} Edge (Long Side)
-                  </label>
-                </div>
-              ))}
-              
-              {shortSides.map(side => (
-                <div key={side} className="flex items-center">
-                  <input
-                    id={`${side}-edge`}
-                    type="checkbox"
-                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    checked={specs.polishedEdges.includes(side)}
-                    onChange={() => {
-                      if (specs.polishedEdges.includes(side)) {
-                        handlePolishedEdgesChange(specs.polishedEdges.filter(e => e !== side));
-                      } else {
-                        handlePolishedEdgesChange([...specs.polishedEdges, side]);
-                      }
-                    }}
-                  />
-                  <label htmlFor={`${side}-edge`} className="ml-2 block text-sm text-gray-700">
-                    {side.charAt(0).toUpperCase() + side.slice(1)} Edge (Short Side)
-                  </label>
-                </div>
-              ))}
-            </div>
-          </div>
+          <PolishedEdgesInput
+            specs={specs}
+            onEdgeProfilesChange={handleEdgeProfilesChange}
+          />
           
           <MaterialPropertiesInput 
             materialType={specs.materialType} 
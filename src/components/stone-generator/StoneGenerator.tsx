@@ -1,19 +1,48 @@
 "use client"
 
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { DimensionsInput } from './DimensionsInput'
 import { MaterialPropertiesInput } from './MaterialPropertiesInput'
 import { QuantityInput } from './QuantityInput'
 import { NotesInput } from './NotesInput'
-import { StoneSpecifications, MockupOptions, StonePiece } from '@/types/stone'
-import { drawStoneMockup } from '@/lib/drawing-utils.optimized'
-import { exportToPDF } from '@/lib/export-utils.optimized'
+import { ShapeInput } from './ShapeInput'
+import { CutoutsInput } from './CutoutsInput'
+import { CornerTreatmentsInput } from './CornerTreatmentsInput'
+import { PolishedEdgesInput } from './PolishedEdgesInput'
+import { SplashesInput } from './SplashesInput'
+import { SeamsInput } from './SeamsInput'
+import { SeamSectionsPreview } from './SeamSectionsPreview'
+import { GcodeExport } from './GcodeExport'
+import { MockupCanvas } from './MockupCanvas'
+import { StoneSpecifications, MockupOptions, StonePiece, StoneShape, Cutout, CornerPosition, CornerTreatment, EdgeProfile, Seam, SlabSize, CatalogMaterial, DimensionTerminator, CompanySettings, JobInfo } from '@/types/stone'
+import { drawStoneMockup, renderStoneMockupSVG } from '@/lib/drawing-utils.optimized'
+import { DEFAULT_MOCKUP_OPTIONS } from '@/lib/mockup-scene-utils'
+import { filterEdgesForShape, getPieceAreaSqFt, getShapeLabel, resolveShape } from '@/lib/shape-utils'
+import { exportTemplatePDF, exportToPDF } from '@/lib/export-utils.optimized'
+import { PAPER_SIZES, PaperSize } from '@/lib/template-utils'
+import { downloadSVG } from '@/lib/svg-utils'
+import { downloadDXF, pieceToDXF } from '@/lib/dxf-utils'
+import { DEFAULT_GCODE_SETTINGS, GcodeSettings, getToolpathPlan } from '@/lib/gcode-utils'
+import { getEdgeProfiles } from '@/lib/edge-profile-utils'
+import { FIT_VIEW, ViewTransform } from '@/lib/canvas-view-utils'
+import { DEFAULT_COMPANY_SETTINGS, DEFAULT_JOB_INFO, createTitleBlock } from '@/lib/title-block-utils'
+import { DEFAULT_MATERIAL_CATALOG, getCatalogMaterial, getMaterialName, getPieceSlabSize, getThicknessOptions, toMaterialReference } from '@/lib/material-catalog-utils'
 import { useLocalStorage } from '@/hooks/useLocalStorage'
 
 export interface StoneGeneratorProps {
   onSavePiece: (piece: StonePiece) => void;
   onRemovePiece: (id: string) => void;
+  onUpdatePiece?: (piece: StonePiece) => void;
+  onGenerateSplashes?: (parentId: string, edges: string[], height: number) => void;
   savedPieces: StonePiece[];
+  slabSizes?: Record<string, SlabSize>;
+  onSlabSizesChange?: (slabSizes: Record<string, SlabSize>) => void;
+  catalog?: CatalogMaterial[];
+  onCatalogChange?: (catalog: CatalogMaterial[]) => void;
+  companySettings?: CompanySettings;
+  jobInfo?: JobInfo;
+  displayOptions?: MockupOptions;
+  onDisplayOptionsChange?: (options: MockupOptions) => void;
 }
 
 // Toast component for notifications - redesigned to be less intrusive
@@ -39,12 +68,26 @@ const Toast = ({ message, type = 'success', onClose }: { message: string, type?:
   );
 };
 
-export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: StoneGeneratorProps) {
+export function StoneGenerator({
+  onSavePiece,
+  onRemovePiece,
+  onUpdatePiece,
+  onGenerateSplashes,
+  savedPieces,
+  slabSizes: sharedSlabSizes,
+  onSlabSizesChange,
+  catalog: sharedCatalog,
+  onCatalogChange,
+  companySettings: sharedCompanySettings,
+  jobInfo: sharedJobInfo,
+  displayOptions: sharedOptions,
+  onDisplayOptionsChange
+}: StoneGeneratorProps) {
   // Stone specifications state with localStorage persistence
   const [specs, setSpecs] = useLocalStorage<StoneSpecifications>('stone-mockup-generator:currentSpecs', {
     width: 24,
     height: 4,
-    polishedEdges: ['top'],
+    edgeProfiles: { top: 'eased' },
     materialType: 'quartz',
     thickness: '2cm',
     quantity: 1
@@ -53,23 +96,62 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
   // Notes state with localStorage persistence
   const [notes, setNotes] = useLocalStorage<string>('stone-mockup-generator:currentNotes', '');
 
-  // Mockup display options with localStorage persistence
-  const [options, setOptions] = useLocalStorage<MockupOptions>('stone-mockup-generator:displayOptions', {
-    showGrid: true,
-    showPolishedEdges: true,
-    useXMarks: true,
-    scale: 1
-  });
+  // Mockup display options with localStorage persistence, unless the parent shares its own
+  const [storedOptions, setStoredOptions] = useLocalStorage<MockupOptions>('stone-mockup-generator:displayOptions', DEFAULT_MOCKUP_OPTIONS);
+  const options = sharedOptions ?? storedOptions;
   
+  // Per-material slab size overrides with localStorage persistence, unless the parent shares its own
+  const [storedSlabSizes, setStoredSlabSizes] = useLocalStorage<Record<string, SlabSize>>('stone-mockup-generator:slabSizes', {});
+  const slabSizes = sharedSlabSizes ?? storedSlabSizes;
+
+  // Material catalog with localStorage persistence, unless the parent shares its own
+  const [storedCatalog, setStoredCatalog] = useLocalStorage<CatalogMaterial[]>('stone-mockup-generator:materialCatalog', DEFAULT_MATERIAL_CATALOG);
+  const catalog = sharedCatalog ?? storedCatalog;
+
+  // Company and job details for the title block, from localStorage unless the parent shares its own
+  const [storedCompanySettings] = useLocalStorage<CompanySettings>('stone-mockup-generator:companySettings', DEFAULT_COMPANY_SETTINGS);
+  const [storedJobInfo] = useLocalStorage<JobInfo>('stone-mockup-generator:jobInfo', DEFAULT_JOB_INFO);
+  const titleBlockDetails = useMemo(() => ({
+    company: sharedCompanySettings ?? storedCompanySettings,
+    job: sharedJobInfo ?? storedJobInfo,
+  }), [sharedCompanySettings, storedCompanySettings, sharedJobInfo, storedJobInfo]);
+
+  // Preview, PNG and SVG drawings carry the title block when it is shown; PDFs add their own to every sheet
+  const drawingOptions = useMemo(
+    () => options.showTitleBlock ? { ...options, titleBlock: createTitleBlock(titleBlockDetails) } : options,
+    [options, titleBlockDetails]
+  );
+
+  // CNC settings, and the toolpath plotted on the preview (but not on exported drawings) when shown
+  const [gcodeSettings, setGcodeSettings] = useLocalStorage<GcodeSettings>('stone-mockup-generator:gcodeSettings', DEFAULT_GCODE_SETTINGS);
+  const [showToolpath, setShowToolpath] = useState(false);
+  const previewOptions = useMemo(
+    () => showToolpath ? { ...drawingOptions, toolpaths: getToolpathPlan(specs, gcodeSettings) } : drawingOptions,
+    [drawingOptions, showToolpath, specs, gcodeSettings]
+  );
+
+  // Saved piece currently loaded into the form for editing
+  const [editingPieceId, setEditingPieceId] = useState<string | null>(null);
+
+  // Saved piece whose splash options are open
+  const [splashPieceId, setSplashPieceId] = useState<string | null>(null);
+
   // Loading state for PDF generation
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
 
+  // Paper for full-size template printing
+  const [templatePaper, setTemplatePaper] = useLocalStorage<PaperSize>('stone-mockup-generator:templatePaper', 'letter');
+  const [isGeneratingTemplate, setIsGeneratingTemplate] = useState(false);
+
   // Toast notification state
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'warning' } | null>(null);
 
   // Canvas reference
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
+  // Zoom and pan of the preview, fitted to the canvas until the user zooms
+  const [view, setView] = useState<ViewTransform>(FIT_VIEW);
+
   // Debounced redraw function to prevent excessive canvas updates
   const redrawCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -79,8 +161,8 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
     if (!ctx) return;
 
     // Draw the mockup
-    drawStoneMockup(ctx, specs, options);
-  }, [specs, options]);
+    drawStoneMockup(ctx, specs, previewOptions, view);
+  }, [specs, previewOptions, view]);
 
   // Use a debounced effect for redrawing the canvas
   useEffect(() => {
@@ -105,14 +187,77 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
     setSpecs(prev => ({ ...prev, height }));
   };
 
-  // Handle polished edges changes
-  const handlePolishedEdgesChange = (polishedEdges: string[]) => {
-    setSpecs(prev => ({ ...prev, polishedEdges }));
+  // Handle shape changes - drop edge profiles for edges that no longer exist on the new outline
+  const handleShapeChange = (shape: StoneShape) => {
+    setSpecs(prev => {
+      const next = { ...prev, shape };
+      return { ...next, edgeProfiles: filterEdgesForShape(next, getEdgeProfiles(prev)) };
+    });
+  };
+
+  // Handle edge profile changes
+  const handleEdgeProfilesChange = (edgeProfiles: Record<string, EdgeProfile>) => {
+    setSpecs(prev => ({ ...prev, edgeProfiles }));
+  };
+
+  // Handle corner treatment changes - corner segments come and go with their treatments
+  const handleCornersChange = (corners: Partial<Record<CornerPosition, CornerTreatment>>) => {
+    setSpecs(prev => {
+      const next = { ...prev, corners };
+      return { ...next, edgeProfiles: filterEdgesForShape(next, getEdgeProfiles(prev)) };
+    });
+  };
+
+  // Handle cutout changes
+  const handleCutoutsChange = (cutouts: Cutout[]) => {
+    setSpecs(prev => ({ ...prev, cutouts }));
+  };
+
+  // Handle seam changes
+  const handleSeamsChange = (seams: Seam[]) => {
+    setSpecs(prev => ({ ...prev, seams }));
   };
 
-  // Handle material properties changes
+  // Handle slab size changes for the current material - a catalog color keeps its slab size in the catalog
+  const handleSlabSizeChange = (slabSize: SlabSize) => {
+    const entry = getCatalogMaterial(catalog, specs);
+    if (entry) {
+      const updatedCatalog = catalog.map(item => item.id === entry.id ? { ...item, slabSize } : item);
+      if (onCatalogChange) {
+        onCatalogChange(updatedCatalog);
+      } else {
+        setStoredCatalog(updatedCatalog);
+      }
+      return;
+    }
+
+    const updated = { ...slabSizes, [specs.materialType]: slabSize };
+    if (onSlabSizesChange) {
+      onSlabSizesChange(updated);
+    } else {
+      setStoredSlabSizes(updated);
+    }
+  };
+
+  // Handle material properties changes - the thickness falls back to the first one the material comes in
   const handleMaterialTypeChange = (materialType: string) => {
-    setSpecs(prev => ({ ...prev, materialType }));
+    setSpecs(prev => {
+      const thicknesses = getThicknessOptions(catalog, materialType);
+      return {
+        ...prev,
+        materialType,
+        material: undefined,
+        thickness: thicknesses.includes(prev.thickness) ? prev.thickness : thicknesses[0],
+      };
+    });
+  };
+
+  const handleCatalogMaterialChange = (entry: CatalogMaterial | null) => {
+    setSpecs(prev => ({
+      ...prev,
+      material: entry ? toMaterialReference(entry) : undefined,
+      thickness: entry && !entry.thicknesses.includes(prev.thickness) ? entry.thicknesses[0] : prev.thickness,
+    }));
   };
 
   const handleThicknessChange = (thickness: string) => {
@@ -130,28 +275,73 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
   };
 
   // Handle display options changes
-  const handleOptionChange = (option: keyof MockupOptions, value: boolean | number) => {
-    setOptions(prev => ({ ...prev, [option]: value }));
+  const handleOptionChange = <K extends keyof MockupOptions>(option: K, value: MockupOptions[K]) => {
+    (onDisplayOptionsChange ?? setStoredOptions)({ ...options, [option]: value });
   };
 
-  // Handle save piece
+  // Handle save piece - a piece loaded for editing is updated in place.
+  // Remnant reservations are made from the inventory, so the form never changes them
   const handleSavePiece = () => {
-    const newPiece: StonePiece = {
-      id: Date.now().toString(),
-      specs: { ...specs },
-      notes: notes
-    };
-    
-    onSavePiece(newPiece);
+    const editingPiece = editingPieceId ? savedPieces.find(piece => piece.id === editingPieceId) : undefined;
+
+    if (editingPiece && onUpdatePiece) {
+      onUpdatePiece({ ...editingPiece, specs: { ...specs, remnant: editingPiece.specs.remnant }, notes });
+      setEditingPieceId(null);
+
+      setToast({
+        message: `Piece updated: ${specs.width}" × ${specs.height}"`,
+        type: 'success'
+      });
+    } else {
+      const newPiece: StonePiece = {
+        id: Date.now().toString(),
+        specs: { ...specs, remnant: undefined },
+        notes: notes
+      };
+      
+      onSavePiece(newPiece);
+      
+      // Show toast notification
+      setToast({
+        message: `Piece saved: ${specs.width}" × ${specs.height}"`,
+        type: 'success'
+      });
+    }
     
-    // Show toast notification
+    // Clear notes field after saving
+    setNotes('');
+  };
+
+  // Handle loading a saved piece into the form for editing
+  const handleEditPiece = (piece: StonePiece) => {
+    setSpecs({ ...piece.specs });
+    setNotes(piece.notes);
+    setEditingPieceId(piece.id);
+  };
+
+  // Handle generating splashes for a saved piece
+  const handleGenerateSplashes = (parentId: string, edges: string[], height: number) => {
+    onGenerateSplashes?.(parentId, edges, height);
+    setSplashPieceId(null);
+
     setToast({
-      message: `Piece saved: ${specs.width}" × ${specs.height}"`,
+      message: edges.length > 0 ? `${edges.length} splash piece${edges.length === 1 ? '' : 's'} generated` : 'Splashes removed',
       type: 'success'
     });
-    
-    // Clear notes field after saving
-    setNotes('');
+  };
+
+  // The whole piece as drawn on the preview, whatever part of it the preview is zoomed to
+  const getFittedCanvas = (canvas: HTMLCanvasElement): HTMLCanvasElement => {
+    if (view === FIT_VIEW) return canvas;
+
+    const fitted = document.createElement('canvas');
+    fitted.width = canvas.width;
+    fitted.height = canvas.height;
+    const ctx = fitted.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    drawStoneMockup(ctx, specs, drawingOptions);
+    return fitted;
   };
 
   // Handle download as PNG
@@ -163,7 +353,7 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
       // Create a temporary link element
       const link = document.createElement('a');
       link.download = `stone-mockup-${specs.width}x${specs.height}.png`;
-      link.href = canvas.toDataURL('image/png');
+      link.href = getFittedCanvas(canvas).toDataURL('image/png');
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -184,6 +374,53 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
     }
   };
 
+  // Handle download as SVG - drawn as vectors at the preview canvas size
+  const handleDownloadSVG = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    try {
+      downloadSVG(
+        renderStoneMockupSVG(specs, drawingOptions, canvas.width, canvas.height),
+        `stone-mockup-${specs.width}x${specs.height}.svg`
+      );
+
+      setToast({
+        message: 'SVG downloaded successfully',
+        type: 'success'
+      });
+    } catch (error) {
+      console.error('Error generating SVG:', error);
+
+      setToast({
+        message: 'Failed to generate SVG. Please try again.',
+        type: 'error'
+      });
+    }
+  };
+
+  // Handle download as DXF - full size in inches, for CNC saws and CAD
+  const handleDownloadDXF = () => {
+    try {
+      downloadDXF(
+        pieceToDXF(specs, options.dimensionTerminator),
+        `stone-mockup-${specs.width}x${specs.height}.dxf`
+      );
+
+      setToast({
+        message: 'DXF downloaded successfully',
+        type: 'success'
+      });
+    } catch (error) {
+      console.error('Error generating DXF:', error);
+
+      setToast({
+        message: 'Failed to generate DXF. Please try again.',
+        type: 'error'
+      });
+    }
+  };
+
   // Handle download as PDF - improved for performance
   const handleDownloadPDF = async () => {
     const canvas = canvasRef.current;
@@ -196,7 +433,7 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
       const isMobile = isMobileDevice();
 
       // Call the improved exportToPDF with proper error handling
-      await exportToPDF(canvas, specs, notes, isMobile);
+      await exportToPDF(canvas, specs, notes, isMobile, options, titleBlockDetails);
 
       // Show success toast
       setToast({
@@ -216,22 +453,30 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
     }
   };
 
-  // Determine if the long sides are top/bottom or left/right based on dimensions
-  const getLongSides = (): { long: string[], short: string[] } => {
-    if (specs.width >= specs.height) {
-      return {
-        long: ['top', 'bottom'],
-        short: ['left', 'right']
-      };
-    } else {
-      return {
-        long: ['left', 'right'],
-        short: ['top', 'bottom']
-      };
+  // Handle full-size template printing, tiled across pages of the chosen paper
+  const handleDownloadTemplate = async () => {
+    setIsGeneratingTemplate(true);
+
+    try {
+      await exportTemplatePDF(specs, templatePaper, isMobileDevice(), options);
+
+      setToast({
+        message: 'Template exported successfully',
+        type: 'success'
+      });
+    } catch (error) {
+      console.error('Error generating template:', error);
+
+      setToast({
+        message: 'Error exporting template: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        type: 'error'
+      });
+    } finally {
+      setIsGeneratingTemplate(false);
     }
   };
 
-  const { long: longSides, short: shortSides } = getLongSides();
+  const shape = resolveShape(specs);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
@@ -245,60 +490,44 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
             onWidthChange={handleWidthChange} 
             onHeightChange={handleHeightChange} 
           />
+
+          <ShapeInput
+            shape={shape}
+            width={specs.width}
+            height={specs.height}
+            onShapeChange={handleShapeChange}
+          />
           
-          <div className="space-y-4">
-            <h3 className="font-medium text-gray-700">Polished Edges</h3>
-            
-            <div className="space-y-2">
-              {longSides.map(side => (
-                <div key={side} className="flex items-center">
-                  <input
-                    id={`${side}-edge`}
-                    type="checkbox"
-                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    checked={specs.polishedEdges.includes(side)}
-                    onChange={() => {
-                      if (specs.polishedEdges.includes(side)) {
-                        handlePolishedEdgesChange(specs.polishedEdges.filter(e => e !== side));
-                      } else {
-                        handlePolishedEdgesChange([...specs.polishedEdges, side]);
-                      }
-                    }}
-                  />
-                  <label htmlFor={`${side}-edge`} className="ml-2 block text-sm text-gray-700">
-                    {side.charAt(0).toUpperCase() + side.slice(1)} Edge (Long Side)
-                  </label>
-                </div>
-              ))}
-              
-              {shortSides.map(side => (
-                <div key={side} className="flex items-center">
-                  <input
-                    id={`${side}-edge`}
-                    type="checkbox"
-                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    checked={specs.polishedEdges.includes(side)}
-                    onChange={() => {
-                      if (specs.polishedEdges.includes(side)) {
-                        handlePolishedEdgesChange(specs.polishedEdges.filter(e => e !== side));
-                      } else {
-                        handlePolishedEdgesChange([...specs.polishedEdges, side]);
-                      }
-                    }}
-                  />
-                  <label htmlFor={`${side}-edge`} className="ml-2 block text-sm text-gray-700">
-                    {side.charAt(0).toUpperCase() + side.slice(1)} Edge (Short Side)
-                  </label>
-                </div>
-              ))}
-            </div>
-          </div>
+          <PolishedEdgesInput
+            specs={specs}
+            onEdgeProfilesChange={handleEdgeProfilesChange}
+          />
+          
+          <CornerTreatmentsInput
+            corners={specs.corners}
+            onCornersChange={handleCornersChange}
+          />
+
+          <CutoutsInput
+            specs={specs}
+            onCutoutsChange={handleCutoutsChange}
+          />
           
           <MaterialPropertiesInput 
             materialType={specs.materialType} 
             thickness={specs.thickness} 
             onMaterialTypeChange={handleMaterialTypeChange} 
             onThicknessChange={handleThicknessChange} 
+            catalog={catalog}
+            materialId={specs.material?.id}
+            onCatalogMaterialChange={handleCatalogMaterialChange}
+          />
+
+          <SeamsInput
+            specs={specs}
+            slabSize={getPieceSlabSize(specs, catalog, slabSizes)}
+            onSlabSizeChange={handleSlabSizeChange}
+            onSeamsChange={handleSeamsChange}
           />
           
           <QuantityInput 
@@ -354,6 +583,34 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
                   Use X Marks
                 </label>
               </div>
+
+              <div className="flex items-center">
+                <input
+                  id="show-title-block"
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={options.showTitleBlock ?? false}
+                  onChange={(e) => handleOptionChange('showTitleBlock', e.target.checked)}
+                />
+                <label htmlFor="show-title-block" className="ml-2 block text-sm text-gray-700">
+                  Show Title Block
+                </label>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="dimension-terminator" className="block text-sm font-medium text-gray-700 mb-1">
+                Dimension Line Ends
+              </label>
+              <select
+                id="dimension-terminator"
+                className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm text-gray-800"
+                value={options.dimensionTerminator ?? 'tick'}
+                onChange={(e) => handleOptionChange('dimensionTerminator', e.target.value as DimensionTerminator)}
+              >
+                <option value="tick">Architectural Ticks</option>
+                <option value="arrow">Arrowheads</option>
+              </select>
             </div>
 
             <div>
@@ -378,8 +635,16 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
               className="w-full px-4 py-2 bg-gradient-to-r from-green-600 to-green-500 text-white rounded-md hover:from-green-700 hover:to-green-600 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
               onClick={handleSavePiece}
             >
-              Save This Piece
+              {editingPieceId ? 'Update Piece' : 'Save This Piece'}
             </button>
+            {editingPieceId && (
+              <button
+                className="w-full mt-2 text-sm text-gray-600 hover:text-gray-800"
+                onClick={() => setEditingPieceId(null)}
+              >
+                Cancel Editing
+              </button>
+            )}
           </div>
           
           {savedPieces.length > 0 && (
@@ -391,8 +656,15 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
                     <div className="flex justify-between items-start">
                       <div>
                         <span className="font-medium text-gray-800">{piece.specs.width}" × {piece.specs.height}"</span>
+                        {piece.splash && (
+                          <span className="ml-2 text-xs text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded">
+                            Linked splash
+                          </span>
+                        )}
                         <span className="text-sm text-gray-500 block">
-                          {piece.specs.materialType}, {piece.specs.thickness}
+                          {piece.specs.shape && piece.specs.shape.type !== 'rectangle' && `${getShapeLabel(piece.specs.shape.type)}, `}
+                          {getMaterialName(piece.specs)}, {piece.specs.thickness}, {getPieceAreaSqFt(piece.specs).toFixed(2)} sq ft
+                          {piece.specs.cutouts && piece.specs.cutouts.length > 0 && `, ${piece.specs.cutouts.length} cutout${piece.specs.cutouts.length === 1 ? '' : 's'}`}
                         </span>
                         {piece.notes && (
                           <div className="mt-1 text-sm text-gray-600 bg-gray-50 p-2 rounded border border-gray-100">
@@ -400,13 +672,40 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
                           </div>
                         )}
                       </div>
-                      <button
-                        className="text-red-600 hover:text-red-800 ml-2 p-1 rounded hover:bg-red-50 transition-colors"
-                        onClick={() => onRemovePiece(piece.id)}
-                      >
-                        Remove
-                      </button>
+                      <div className="flex shrink-0 ml-2">
+                        {/* Splash pieces follow their countertop, so only countertops can be edited */}
+                        {!piece.splash && onUpdatePiece && (
+                          <button
+                            className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50 transition-colors"
+                            onClick={() => handleEditPiece(piece)}
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {!piece.splash && onGenerateSplashes && (
+                          <button
+                            className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50 transition-colors"
+                            onClick={() => setSplashPieceId(splashPieceId === piece.id ? null : piece.id)}
+                          >
+                            Splashes
+                          </button>
+                        )}
+                        <button
+                          className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors"
+                          onClick={() => onRemovePiece(piece.id)}
+                        >
+                          Remove
+                        </button>
+                      </div>
                     </div>
+                    {splashPieceId === piece.id && (
+                      <SplashesInput
+                        piece={piece}
+                        savedPieces={savedPieces}
+                        onGenerate={(edges, height) => handleGenerateSplashes(piece.id, edges, height)}
+                        onCancel={() => setSplashPieceId(null)}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -419,20 +718,65 @@ export function StoneGenerator({ onSavePiece, onRemovePiece, savedPieces }: Ston
       <div className="lg:col-span-8 bg-white p-6 rounded-lg shadow-lg border border-gray-100">
         <h2 className="text-xl font-semibold mb-4 text-gray-800">Preview</h2>
         <div className="border-2 border-gray-200 rounded-lg p-4 flex items-center justify-center bg-gray-50">
-          <canvas 
-            ref={canvasRef} 
-            width={800} 
-            height={600} 
-            className="max-w-full h-auto shadow-sm"
+          <MockupCanvas
+            canvasRef={canvasRef}
+            specs={specs}
+            options={previewOptions}
+            view={view}
+            onViewChange={setView}
+            onWidthChange={handleWidthChange}
+            onHeightChange={handleHeightChange}
+            onEdgeProfilesChange={handleEdgeProfilesChange}
           />
         </div>
+        <SeamSectionsPreview specs={specs} options={options} />
+        <GcodeExport
+          specs={specs}
+          settings={gcodeSettings}
+          onSettingsChange={setGcodeSettings}
+          showToolpath={showToolpath}
+          onShowToolpathChange={setShowToolpath}
+        />
         <div className="mt-4 flex justify-end space-x-4">
+          <div className="flex items-center space-x-2">
+            <label htmlFor="template-paper" className="text-sm text-gray-600">Template paper</label>
+            <select
+              id="template-paper"
+              className="rounded-md border-gray-300 py-2 pl-3 pr-8 text-sm text-gray-800 focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+              value={templatePaper}
+              onChange={(e) => setTemplatePaper(e.target.value as PaperSize)}
+            >
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                <option key={size} value={size}>{PAPER_SIZES[size].label}</option>
+              ))}
+            </select>
+            <button 
+              className="px-6 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 disabled:opacity-70 disabled:transform-none disabled:shadow-none"
+              onClick={handleDownloadTemplate}
+              disabled={isGeneratingTemplate}
+              title="Full-size template tiled across pages, to tape together on site"
+            >
+              {isGeneratingTemplate ? 'Generating Template...' : 'Print Template (1:1)'}
+            </button>
+          </div>
           <button 
             className="px-6 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
             onClick={handleDownloadPNG}
           >
             Download PNG
           </button>
+          <button 
+            className="px-6 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
+            onClick={handleDownloadSVG}
+          >
+            Download SVG
+          </button>
+          <button 
+            className="px-6 py-2 bg-gradient-to-r from-gray-200 to-gray-100 text-gray-800 rounded-md hover:from-gray-300 hover:to-gray-200 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
+            onClick={handleDownloadDXF}
+          >
+            Download DXF
+          </button>
           <button 
             className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-md hover:from-blue-700 hover:to-blue-600 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 disabled:opacity-70 disabled:transform-none disabled:shadow-none"
             onClick={handleDownloadPDF}
@@ -0,0 +1,173 @@
+"use client"
+
+import React, { useState } from 'react'
+import { CompanySettings, JobInfo } from '@/types/stone'
+import { createRevision } from '@/lib/title-block-utils'
+
+export interface TitleBlockEditorProps {
+  companySettings: CompanySettings;
+  onCompanySettingsChange: (settings: CompanySettings) => void;
+  jobInfo: JobInfo;
+  onJobInfoChange: (jobInfo: JobInfo) => void;
+}
+
+const inputClassName = "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-gray-800";
+
+// Logos are stored with the settings in localStorage, so they are kept small
+const MAX_LOGO_BYTES = 500 * 1024;
+
+// Labeled text input bound to one field of a settings object
+function TextField({ id, label, value, onChange }: { id: string; label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input type="text" id={id} className={inputClassName} value={value} onChange={(e) => onChange(e.target.value)} />
+    </div>
+  );
+}
+
+export function TitleBlockEditor({ companySettings, onCompanySettingsChange, jobInfo, onJobInfoChange }: TitleBlockEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisionDescription, setRevisionDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCompany = (changes: Partial<CompanySettings>) => {
+    onCompanySettingsChange({ ...companySettings, ...changes });
+  };
+
+  const updateJob = (changes: Partial<JobInfo>) => {
+    onJobInfoChange({ ...jobInfo, ...changes });
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Choose a PNG or JPEG image for the logo.');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('The logo must be 500 KB or smaller.');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      updateCompany({ logo: reader.result as string });
+      setError(null);
+    };
+    reader.onerror = () => setError('The logo could not be read.');
+    reader.readAsDataURL(file);
+  };
+
+  const addRevision = () => {
+    if (!revisionDescription.trim()) {
+      setError('Describe the revision.');
+      return;
+    }
+
+    const revision = createRevision(jobInfo.revisions, revisionDescription.trim(), companySettings.drawnBy);
+    updateJob({ revisions: [...jobInfo.revisions, revision] });
+    setRevisionDescription('');
+    setError(null);
+  };
+
+  const removeRevision = (id: string) => {
+    updateJob({ revisions: jobInfo.revisions.filter(revision => revision.id !== id) });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mt-6 border border-gray-100">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-800">Title Block</h2>
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-6">
+          <div className="space-y-3">
+            <h3 className="font-medium text-gray-700">Company</h3>
+            <p className="text-sm text-gray-500">Saved as a setting and printed on every drawing and PDF sheet.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <TextField id="company-name" label="Company Name" value={companySettings.companyName} onChange={(companyName) => updateCompany({ companyName })} />
+              <TextField id="company-drawn-by" label="Drawn By" value={companySettings.drawnBy} onChange={(drawnBy) => updateCompany({ drawnBy })} />
+              <TextField id="company-address" label="Address" value={companySettings.address} onChange={(address) => updateCompany({ address })} />
+              <TextField id="company-phone" label="Phone" value={companySettings.phone} onChange={(phone) => updateCompany({ phone })} />
+            </div>
+            <div>
+              <label htmlFor="company-logo" className="block text-sm font-medium text-gray-700 mb-1">Logo</label>
+              <div className="flex items-center gap-3">
+                {companySettings.logo && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={companySettings.logo} alt="Company logo" className="h-12 w-12 object-contain border rounded" />
+                )}
+                <input type="file" id="company-logo" accept="image/png,image/jpeg" className="text-sm text-gray-700" onChange={handleLogoChange} />
+                {companySettings.logo && (
+                  <button
+                    className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors text-sm"
+                    onClick={() => updateCompany({ logo: undefined })}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-medium text-gray-700">Job</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <TextField id="job-name" label="Job Name" value={jobInfo.jobName} onChange={(jobName) => updateJob({ jobName })} />
+              <TextField id="job-number" label="Job Number" value={jobInfo.jobNumber} onChange={(jobNumber) => updateJob({ jobNumber })} />
+              <TextField id="job-customer" label="Customer" value={jobInfo.customer} onChange={(customer) => updateJob({ customer })} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-medium text-gray-700">Revisions</h3>
+            {jobInfo.revisions.length > 0 ? (
+              <ul className="border rounded-md divide-y">
+                {jobInfo.revisions.map(revision => (
+                  <li key={revision.id} className="p-2 text-sm text-gray-700 flex items-center justify-between">
+                    <span>
+                      <span className="font-medium">{revision.revision}</span> {revision.date}: {revision.description}
+                      {revision.by && ` (${revision.by})`}
+                    </span>
+                    <button
+                      className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors"
+                      onClick={() => removeRevision(revision.id)}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No revisions yet. The title block shows the latest four.</p>
+            )}
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <TextField id="revision-description" label="Revision Description" value={revisionDescription} onChange={setRevisionDescription} />
+              </div>
+              <button
+                className="px-3 py-2 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors text-sm"
+                onClick={addRevision}
+              >
+                + Add Revision
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
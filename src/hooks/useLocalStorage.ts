@@ -51,9 +51,18 @@ export function clearAllStoredData() {
     // Clear all keys related to the application
     const keysToRemove = [
       'stone-mockup-generator:savedPieces',
+      'stone-mockup-generator:remnants',
       'stone-mockup-generator:currentSpecs',
       'stone-mockup-generator:currentNotes',
-      'stone-mockup-generator:displayOptions'
+      'stone-mockup-generator:displayOptions',
+      'stone-mockup-generator:slabSizes',
+      'stone-mockup-generator:materialCatalog',
+      'stone-mockup-generator:nestingOptions',
+      'stone-mockup-generator:priceList',
+      'stone-mockup-generator:companySettings',
+      'stone-mockup-generator:jobInfo',
+      'stone-mockup-generator:gcodeSettings',
+      'stone-mockup-generator:templatePaper'
     ]
     
     keysToRemove.forEach(key => {
@@ -0,0 +1,170 @@
+"use client"
+
+import { MockupOptions, StonePiece } from '@/types/stone';
+import { DEFAULT_MOCKUP_OPTIONS, MockupDrawingOptions } from '@/lib/mockup-scene-utils';
+import { drawStoneMockup, renderStoneMockupSVG } from '@/lib/drawing-utils.optimized';
+import { createPiecePDF } from '@/lib/export-utils.optimized';
+import { pieceToDXF } from '@/lib/dxf-utils';
+import { getMaterialName } from '@/lib/material-catalog-utils';
+import { DEFAULT_TITLE_BLOCK_DETAILS, TitleBlockDetails, createTitleBlock } from '@/lib/title-block-utils';
+import { ZipEntry, createZip } from '@/lib/zip-utils';
+
+/**
+ * Utility functions for exporting every saved piece as its own drawing files, zipped together with a
+ * manifest listing the pieces and their files, for viewers that open one drawing at a time
+ */
+
+export type BundleFormat = 'png' | 'pdf' | 'svg' | 'dxf';
+
+export const BUNDLE_FORMATS: Record<BundleFormat, { label: string }> = {
+  png: { label: 'PNG' },
+  pdf: { label: 'PDF' },
+  svg: { label: 'SVG' },
+  dxf: { label: 'DXF' },
+};
+
+export interface BundleManifest {
+  project: string;
+  createdAt: string; // ISO 8601
+  formats: BundleFormat[];
+  pieces: {
+    label: string;
+    width: number;
+    height: number;
+    material: string;
+    thickness: string;
+    quantity: number;
+    notes: string;
+    files: string[]; // Names inside the ZIP, one per format
+  }[];
+}
+
+// Size drawings are laid out at, matching the multi-piece export's canvases
+const DRAWING_WIDTH = 800;
+const DRAWING_HEIGHT = 600;
+
+/**
+ * Returns the name of a file in the bundle, e.g. `smith-kitchen-piece-1.png`
+ */
+export function getBundleFileName(projectName: string, label: string, format: BundleFormat): string {
+  return `${getProjectSlug(projectName)}-${toSlug(label)}.${format}`;
+}
+
+/**
+ * Returns the name of the bundle itself, e.g. `smith-kitchen-drawings.zip`
+ */
+export function getBundleZipName(projectName: string): string {
+  return `${getProjectSlug(projectName)}-drawings.zip`;
+}
+
+/**
+ * Returns the manifest of a bundle, listing each piece with the files drawn for it
+ */
+export function getBundleManifest(pieces: StonePiece[], projectName: string, formats: BundleFormat[]): BundleManifest {
+  return {
+    project: projectName,
+    createdAt: new Date().toISOString(),
+    formats,
+    pieces: pieces.map((piece, index) => {
+      const label = `Piece ${index + 1}`;
+      return {
+        label,
+        width: piece.specs.width,
+        height: piece.specs.height,
+        material: getMaterialName(piece.specs),
+        thickness: piece.specs.thickness,
+        quantity: piece.specs.quantity,
+        notes: piece.notes,
+        files: formats.map(format => getBundleFileName(projectName, label, format)),
+      };
+    }),
+  };
+}
+
+/**
+ * Draws every piece in each format and zips the files with a manifest.json
+ * @param displayOptions The editor's display options, so the files match the preview. PNG and SVG
+ * drawings carry a title block when it is shown; PDFs add their own to every sheet
+ * @param onProgress Called after each file with the number drawn and the number to draw
+ */
+export async function createDrawingBundle(
+  pieces: StonePiece[],
+  projectName: string,
+  formats: BundleFormat[],
+  displayOptions: MockupOptions = DEFAULT_MOCKUP_OPTIONS,
+  titleBlock: TitleBlockDetails = DEFAULT_TITLE_BLOCK_DETAILS,
+  onProgress?: (done: number, total: number) => void
+): Promise<Uint8Array> {
+  if (pieces.length === 0) throw new Error('There are no saved pieces to export');
+  if (formats.length === 0) throw new Error('Choose at least one format to export');
+
+  const manifest = getBundleManifest(pieces, projectName, formats);
+  const entries: ZipEntry[] = [];
+  const total = pieces.length * formats.length;
+
+  for (let index = 0; index < pieces.length; index++) {
+    const { specs, notes } = pieces[index];
+    const options: MockupDrawingOptions = displayOptions.showTitleBlock
+      ? { ...displayOptions, titleBlock: createTitleBlock(titleBlock, index + 1, pieces.length) }
+      : displayOptions;
+
+    for (let f = 0; f < formats.length; f++) {
+      const format = formats[f];
+      let data: string | Uint8Array;
+      if (format === 'png') {
+        data = await renderPNG(pieces[index], options);
+      } else if (format === 'pdf') {
+        data = new Uint8Array(createPiecePDF(specs, notes, displayOptions, DRAWING_WIDTH, DRAWING_HEIGHT, titleBlock));
+      } else if (format === 'svg') {
+        data = renderStoneMockupSVG(specs, options, DRAWING_WIDTH, DRAWING_HEIGHT);
+      } else {
+        data = pieceToDXF(specs);
+      }
+      entries.push({ name: manifest.pieces[index].files[f], data });
+
+      onProgress?.(entries.length, total);
+      // Yield to the browser between files so the progress bar repaints
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  return createZip([{ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) }, ...entries]);
+}
+
+/**
+ * Triggers a browser download of a bundle
+ */
+export function downloadBundle(zip: Uint8Array, filename: string) {
+  const url = URL.createObjectURL(new Blob([new Uint8Array(zip)], { type: 'application/zip' }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Draws a piece on an offscreen canvas and encodes it as PNG
+ */
+async function renderPNG(piece: StonePiece, options: MockupDrawingOptions): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = DRAWING_WIDTH;
+  canvas.height = DRAWING_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  drawStoneMockup(ctx, piece.specs, options);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not encode the drawing as PNG');
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function getProjectSlug(projectName: string): string {
+  return toSlug(projectName) || 'stone-project';
+}
+
+function toSlug(text: string): string {
+  return text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
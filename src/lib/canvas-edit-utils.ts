@@ -0,0 +1,119 @@
+"use client"
+
+import { OutlineSegment, Point, StoneSpecifications } from '@/types/stone';
+import { getArcAngles, getPieceOutline, getSegmentLength, resolveShape } from '@/lib/shape-utils';
+import { StoneLayout } from '@/lib/mockup-scene-utils';
+
+/**
+ * Utility functions for editing a piece directly on the preview canvas: finding the edge under the pointer
+ * and resizing the piece by dragging its right or bottom edge
+ */
+
+export type ResizeAxis = 'width' | 'height';
+
+// What the pointer is over
+export interface MockupHit {
+  edge?: OutlineSegment; // Nearest edge within reach, if any
+  resize?: ResizeAxis; // Set when that edge is the right or bottom side, which can be dragged to resize
+  inside: boolean; // Over the piece itself
+}
+
+// Dragged sizes snap to sixteenths of an inch
+export const SNAP_INCREMENT = 1 / 16;
+
+// Smallest size a piece can be dragged to, in inches
+const MIN_DRAG_SIZE = 1;
+
+/**
+ * Finds the edge of a piece nearest a drawing point and whether the point is over the piece
+ * @param layout Where the piece is drawn, from getStoneLayout
+ * @param point Drawing position, e.g. canvas pixels
+ * @param reach Largest distance from an edge that still counts as on it, in drawing units
+ */
+export function hitTestMockup(specs: StoneSpecifications, layout: StoneLayout, point: Point, reach: number = 6): MockupHit {
+  const outline = getPieceOutline(specs);
+  const inches = { x: (point.x - layout.x) / layout.scale, y: (point.y - layout.y) / layout.scale };
+  const tolerance = reach / layout.scale;
+
+  let edge: OutlineSegment | undefined;
+  let nearest = tolerance;
+  outline.forEach(segment => {
+    // Seam edges are cut, never finished
+    if (segment.id.startsWith('seam-')) return;
+
+    const distance = getDistanceToSegment(segment, inches);
+    if (distance <= nearest) {
+      nearest = distance;
+      edge = segment;
+    }
+  });
+
+  return { edge, resize: edge ? getResizeAxis(specs, edge) : undefined, inside: isInsideOutline(outline, inches) };
+}
+
+/**
+ * Returns the size of a piece after dragging one of its sides, snapped to SNAP_INCREMENT
+ * @param startSize Size along the axis when the drag started, in inches
+ * @param distance Distance dragged outward, in drawing units
+ * @param scale Drawing units per inch when the drag started
+ */
+export function getDraggedSize(startSize: number, distance: number, scale: number): number {
+  const size = Math.round((startSize + distance / scale) / SNAP_INCREMENT) * SNAP_INCREMENT;
+  return Math.max(MIN_DRAG_SIZE, size);
+}
+
+/**
+ * Returns the axis a piece is resized along by dragging an edge. Only the straight right and bottom
+ * sides of preset shapes resize; custom outlines keep their size
+ */
+function getResizeAxis(specs: StoneSpecifications, edge: OutlineSegment): ResizeAxis | undefined {
+  if (edge.arc || resolveShape(specs).type === 'custom') return undefined;
+
+  const near = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+  if (near(edge.start.x, specs.width) && near(edge.end.x, specs.width)) return 'width';
+  if (near(edge.start.y, specs.height) && near(edge.end.y, specs.height)) return 'height';
+  return undefined;
+}
+
+/**
+ * Returns the distance from a point to a straight or arc segment
+ */
+function getDistanceToSegment(segment: OutlineSegment, point: Point): number {
+  const endDistance = Math.min(
+    Math.hypot(point.x - segment.start.x, point.y - segment.start.y),
+    Math.hypot(point.x - segment.end.x, point.y - segment.end.y)
+  );
+
+  if (segment.arc) {
+    // Clockwise on screen is increasing angle, since y points down
+    const { center, radius } = segment.arc;
+    const { startAngle, endAngle } = getArcAngles(segment);
+    const turn = Math.PI * 2;
+    const sweep = (((endAngle - startAngle) % turn) + turn) % turn;
+    const along = (((Math.atan2(point.y - center.y, point.x - center.x) - startAngle) % turn) + turn) % turn;
+    return along <= sweep ? Math.abs(Math.hypot(point.x - center.x, point.y - center.y) - radius) : endDistance;
+  }
+
+  const length = getSegmentLength(segment);
+  if (length === 0) return endDistance;
+
+  const dx = (segment.end.x - segment.start.x) / length;
+  const dy = (segment.end.y - segment.start.y) / length;
+  const along = (point.x - segment.start.x) * dx + (point.y - segment.start.y) * dy;
+  if (along < 0 || along > length) return endDistance;
+  return Math.abs((point.x - segment.start.x) * dy - (point.y - segment.start.y) * dx);
+}
+
+/**
+ * Tests whether a point falls inside an outline, treating its arcs as straight
+ */
+function isInsideOutline(outline: OutlineSegment[], point: Point): boolean {
+  let inside = false;
+  outline.forEach(({ start, end }) => {
+    if ((start.y > point.y) !== (end.y > point.y)) {
+      const crossing = start.x + ((point.y - start.y) / (end.y - start.y)) * (end.x - start.x);
+      if (point.x < crossing) inside = !inside;
+    }
+  });
+  return inside;
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { Point, StoneSpecifications } from '@/types/stone';
+import { getPieceOutline } from '@/lib/shape-utils';
+import { StoneLayout } from '@/lib/mockup-scene-utils';
+import { SNAP_INCREMENT } from '@/lib/canvas-edit-utils';
+
+/**
+ * Utility functions for zooming and panning the preview canvas and measuring between points on a piece
+ */
+
+// Zoom and pan applied on top of the fitted drawing: a drawing point p shows at p * zoom + (x, y)
+export interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// The drawing as laid out, fitted to the canvas
+export const FIT_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 40;
+
+// Distance between two points on a piece, in inches
+export interface Measurement {
+  distance: number;
+  dx: number; // Horizontal and vertical runs, always positive
+  dy: number;
+}
+
+/**
+ * Zooms a view by a factor, keeping the given canvas point still
+ */
+export function zoomView(view: ViewTransform, factor: number, anchor: Point): ViewTransform {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+  const applied = zoom / view.zoom;
+  return { zoom, x: anchor.x - (anchor.x - view.x) * applied, y: anchor.y - (anchor.y - view.y) * applied };
+}
+
+/**
+ * Moves a view by a distance in canvas pixels
+ */
+export function panView(view: ViewTransform, dx: number, dy: number): ViewTransform {
+  return { ...view, x: view.x + dx, y: view.y + dy };
+}
+
+/**
+ * Converts a canvas point to the drawing point shown there
+ */
+export function toDrawingPoint(view: ViewTransform, point: Point): Point {
+  return { x: (point.x - view.x) / view.zoom, y: (point.y - view.y) / view.zoom };
+}
+
+/**
+ * Converts a drawing point to where it shows on the canvas
+ */
+export function toViewPoint(view: ViewTransform, point: Point): Point {
+  return { x: point.x * view.zoom + view.x, y: point.y * view.zoom + view.y };
+}
+
+/**
+ * Converts a drawing point to inches from the top-left corner of the piece's bounding box, the
+ * coordinate system of the piece outline
+ */
+export function toPiecePoint(layout: StoneLayout, point: Point): Point {
+  return { x: (point.x - layout.x) / layout.scale, y: (point.y - layout.y) / layout.scale };
+}
+
+/**
+ * Converts a point on the piece, in inches, to its drawing position
+ */
+export function fromPiecePoint(layout: StoneLayout, point: Point): Point {
+  return { x: layout.x + point.x * layout.scale, y: layout.y + point.y * layout.scale };
+}
+
+/**
+ * Snaps a measuring point to the nearest corner of the piece outline within reach, or otherwise
+ * to the nearest sixteenth of an inch
+ * @param point Point on the piece, in inches
+ * @param reach Largest distance to snap to a corner from, in inches
+ */
+export function snapMeasurePoint(specs: StoneSpecifications, point: Point, reach: number): Point {
+  let snapped: Point | null = null;
+  let nearest = reach;
+  getPieceOutline(specs).forEach(segment => {
+    const distance = Math.hypot(point.x - segment.start.x, point.y - segment.start.y);
+    if (distance <= nearest) {
+      nearest = distance;
+      snapped = segment.start;
+    }
+  });
+
+  const round = (value: number) => Math.round(value / SNAP_INCREMENT) * SNAP_INCREMENT;
+  return snapped ?? { x: round(point.x), y: round(point.y) };
+}
+
+/**
+ * Measures between two points on a piece
+ */
+export function measureBetween(start: Point, end: Point): Measurement {
+  const dx = Math.abs(end.x - start.x);
+  const dy = Math.abs(end.y - start.y);
+  return { distance: Math.hypot(dx, dy), dx, dy };
+}
@@ -0,0 +1,222 @@
+"use client"
+
+import { CornerPosition, CornerTreatment, CornerTreatmentType, OutlineSegment, Point, StoneSpecifications } from '@/types/stone';
+import { decimalToFraction } from '@/lib/fraction-utils';
+
+/**
+ * Utility functions for radius, clip and notch corner treatments
+ */
+
+export const CORNER_POSITIONS: CornerPosition[] = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+const CORNER_LABELS: Record<CornerPosition, string> = {
+  'top-left': 'Top Left',
+  'top-right': 'Top Right',
+  'bottom-right': 'Bottom Right',
+  'bottom-left': 'Bottom Left',
+};
+
+const TREATMENT_LABELS: Record<CornerTreatmentType, string> = {
+  'square': 'Square',
+  'radius': 'Radius',
+  'clip': 'Clip',
+  'notch': 'Notch',
+};
+
+/**
+ * Returns the display name of a corner
+ */
+export function getCornerLabel(position: CornerPosition): string {
+  return CORNER_LABELS[position];
+}
+
+/**
+ * Returns the display name of a corner treatment type
+ */
+export function getTreatmentLabel(type: CornerTreatmentType): string {
+  return TREATMENT_LABELS[type];
+}
+
+/**
+ * Creates a treatment with typical shop defaults: 1/4" eased radius, 1" clip, 4" × 2" notch
+ */
+export function createCornerTreatment(type: CornerTreatmentType): CornerTreatment {
+  switch (type) {
+    case 'radius':
+      return { type, radius: 0.25 };
+    case 'clip':
+      return { type, clip: 1 };
+    case 'notch':
+      return { type, notchWidth: 4, notchDepth: 2 };
+    default:
+      return { type: 'square' };
+  }
+}
+
+/**
+ * Returns true when any corner of the piece has a non-square treatment
+ */
+export function hasCornerTreatments(specs: StoneSpecifications): boolean {
+  return getTreatedCorners(specs).length > 0;
+}
+
+/**
+ * Returns the corners of a piece that have a non-square treatment
+ */
+export function getTreatedCorners(specs: StoneSpecifications): [CornerPosition, CornerTreatment][] {
+  const corners = specs.corners || {};
+  return CORNER_POSITIONS
+    .filter(position => corners[position] && corners[position]!.type !== 'square')
+    .map(position => [position, corners[position]!]);
+}
+
+/**
+ * Returns the treated corners at the sizes drawn on the outline, which are smaller than asked for
+ * where the piece's edges are too short for them
+ */
+export function getDrawnCornerTreatments(
+  specs: StoneSpecifications,
+  outline: OutlineSegment[]
+): [CornerPosition, CornerTreatment][] {
+  const length = (id: string) => {
+    const segment = outline.find(candidate => candidate.id === id);
+    return segment && distance(segment.start, segment.end);
+  };
+
+  return getTreatedCorners(specs).map(([position, treatment]) => {
+    if (treatment.type === 'radius') {
+      const arc = outline.find(segment => segment.id === `${position}-radius`)?.arc;
+      return [position, arc ? { ...treatment, radius: arc.radius } : treatment];
+    }
+    if (treatment.type === 'clip') {
+      const clip = length(`${position}-clip`);
+      return [position, clip !== undefined ? { ...treatment, clip: clip / Math.SQRT2 } : treatment];
+    }
+
+    const notchWidth = length(`${position}-notch-h`);
+    const notchDepth = length(`${position}-notch-v`);
+    return [position, notchWidth !== undefined && notchDepth !== undefined ? { ...treatment, notchWidth, notchDepth } : treatment];
+  });
+}
+
+/**
+ * Describes a corner treatment, e.g. `R3"`, `1" × 45° clip` or `4" × 2" notch`
+ */
+export function describeCornerTreatment(treatment: CornerTreatment): string {
+  switch (treatment.type) {
+    case 'radius':
+      return `R${decimalToFraction(treatment.radius || 0)}"`;
+    case 'clip':
+      return `${decimalToFraction(treatment.clip || 0)}" × 45° clip`;
+    case 'notch':
+      return `${decimalToFraction(treatment.notchWidth || 0)}" × ${decimalToFraction(treatment.notchDepth || 0)}" notch`;
+    default:
+      return 'Square';
+  }
+}
+
+/**
+ * Returns the label of an outline segment created by a corner treatment, or null for other segments
+ */
+export function getCornerEdgeLabel(edgeId: string): string | null {
+  const match = edgeId.match(/^(top-left|top-right|bottom-right|bottom-left)-(radius|clip|notch-h|notch-v)$/);
+  if (!match) return null;
+
+  const corner = getCornerLabel(match[1] as CornerPosition);
+  switch (match[2]) {
+    case 'radius':
+      return `${corner} Radius`;
+    case 'clip':
+      return `${corner} Clip`;
+    case 'notch-h':
+      return `${corner} Notch (Horizontal)`;
+    default:
+      return `${corner} Notch (Vertical)`;
+  }
+}
+
+/**
+ * Returns the location of a corner of the piece's bounding box
+ */
+export function getCornerPoint(position: CornerPosition, width: number, height: number): Point {
+  return {
+    x: position.endsWith('right') ? width : 0,
+    y: position.startsWith('bottom') ? height : 0,
+  };
+}
+
+/**
+ * Replaces the square corners of an outline with the piece's corner treatments.
+ * Corners that aren't vertices of the outline (e.g. the open corner of an L-shape) are skipped
+ */
+export function applyCornerTreatments(
+  outline: OutlineSegment[],
+  specs: StoneSpecifications
+): OutlineSegment[] {
+  let result = outline;
+
+  getTreatedCorners(specs).forEach(([position, treatment]) => {
+    const corner = getCornerPoint(position, specs.width, specs.height);
+    const index = result.findIndex(segment => !segment.arc && samePoint(segment.end, corner));
+    if (index < 0) return;
+
+    const nextIndex = (index + 1) % result.length;
+    const incoming = result[index];
+    const outgoing = result[nextIndex];
+    if (outgoing.arc) return;
+
+    const inLength = distance(incoming.start, incoming.end);
+    const outLength = distance(outgoing.start, outgoing.end);
+    if (inLength === 0 || outLength === 0) return;
+
+    const inDir = { x: (incoming.end.x - incoming.start.x) / inLength, y: (incoming.end.y - incoming.start.y) / inLength };
+    const outDir = { x: (outgoing.end.x - outgoing.start.x) / outLength, y: (outgoing.end.y - outgoing.start.y) / outLength };
+    const incomingIsHorizontal = Math.abs(inDir.x) > Math.abs(inDir.y);
+
+    // How far the treatment cuts back along each edge, limited so that neighboring corners never overlap.
+    // Radii and clips cut both edges back equally, so they stay round and at 45°
+    let inTrim: number;
+    let outTrim: number;
+    if (treatment.type === 'radius' || treatment.type === 'clip') {
+      const size = (treatment.type === 'radius' ? treatment.radius : treatment.clip) || 0;
+      inTrim = outTrim = Math.min(size, inLength / 2, outLength / 2);
+    } else {
+      inTrim = Math.min((incomingIsHorizontal ? treatment.notchWidth : treatment.notchDepth) || 0, inLength / 2);
+      outTrim = Math.min((incomingIsHorizontal ? treatment.notchDepth : treatment.notchWidth) || 0, outLength / 2);
+    }
+    if (inTrim <= 0 || outTrim <= 0) return;
+
+    const trimmedEnd = { x: corner.x - inDir.x * inTrim, y: corner.y - inDir.y * inTrim };
+    const trimmedStart = { x: corner.x + outDir.x * outTrim, y: corner.y + outDir.y * outTrim };
+
+    let inserted: OutlineSegment[];
+    if (treatment.type === 'radius') {
+      const center = { x: trimmedEnd.x + outDir.x * inTrim, y: trimmedEnd.y + outDir.y * inTrim };
+      inserted = [{ id: `${position}-radius`, start: trimmedEnd, end: trimmedStart, arc: { center, radius: inTrim } }];
+    } else if (treatment.type === 'clip') {
+      inserted = [{ id: `${position}-clip`, start: trimmedEnd, end: trimmedStart }];
+    } else {
+      const innerCorner = { x: trimmedEnd.x + outDir.x * outTrim, y: trimmedEnd.y + outDir.y * outTrim };
+      inserted = [
+        { id: `${position}-notch-${incomingIsHorizontal ? 'v' : 'h'}`, start: trimmedEnd, end: innerCorner },
+        { id: `${position}-notch-${incomingIsHorizontal ? 'h' : 'v'}`, start: innerCorner, end: trimmedStart },
+      ];
+    }
+
+    const next = [...result];
+    next[index] = { ...incoming, end: trimmedEnd };
+    next[nextIndex] = { ...outgoing, start: trimmedStart };
+    next.splice(index + 1, 0, ...inserted);
+    result = next;
+  });
+
+  return result;
+}
+
+function samePoint(a: Point, b: Point): boolean {
+  return Math.abs(a.x - b.x) < 1e-9 && Math.abs(a.y - b.y) < 1e-9;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
@@ -0,0 +1,307 @@
+"use client"
+
+import { StonePiece } from '@/types/stone';
+import { getPieceAreaSqFt, getPieceOutline, getSegmentLength } from '@/lib/shape-utils';
+import { getEdgeProfiles } from '@/lib/edge-profile-utils';
+import { getMaterialName } from '@/lib/material-catalog-utils';
+import { decimalToFraction } from '@/lib/fraction-utils';
+import { createZip } from '@/lib/zip-utils';
+
+/**
+ * Utility functions for exporting the saved pieces as a tabular cut list for the shop, as CSV or as an
+ * XLSX workbook with a totals row and a summary per material. Areas and edge lengths count every copy
+ */
+
+export interface CutListEntry {
+  label: string;
+  width: number;
+  depth: number;
+  sqFt: number;
+  material: string;
+  thickness: string;
+  quantity: number;
+  polishedLinearFt: number;
+  notes: string;
+}
+
+export interface CutListMaterialSummary {
+  material: string;
+  thickness: string;
+  quantity: number;
+  sqFt: number;
+  polishedLinearFt: number;
+}
+
+const HEADINGS = [
+  'Label', 'Width', 'Width (in)', 'Depth', 'Depth (in)', 'Area (sq ft)', 'Material', 'Thickness', 'Qty', 'Polished Edge (lin ft)', 'Notes',
+];
+
+const SUMMARY_HEADINGS = ['Material', 'Thickness', 'Pieces', 'Area (sq ft)', 'Polished Edge (lin ft)'];
+
+// A spreadsheet cell; totals are formulas saved with their value so viewers that don't calculate still show it
+type Cell = string | number | { formula: string; value: number };
+
+interface Sheet {
+  name: string;
+  widths: number[]; // Column widths in characters
+  rows: { cells: Cell[]; bold?: boolean }[];
+}
+
+/**
+ * Returns a row of the cut list for each saved piece, labelled by its place in the list
+ */
+export function getCutListEntries(pieces: StonePiece[]): CutListEntry[] {
+  return pieces.map((piece, index) => {
+    const { specs } = piece;
+    const quantity = Math.max(1, specs.quantity || 1);
+    const edgeProfiles = getEdgeProfiles(specs);
+    const polishedInches = getPieceOutline(specs)
+      .filter(segment => edgeProfiles[segment.id])
+      .reduce((length, segment) => length + getSegmentLength(segment), 0);
+
+    return {
+      label: `Piece ${index + 1}`,
+      width: specs.width,
+      depth: specs.height,
+      sqFt: getPieceAreaSqFt(specs) * quantity,
+      material: getMaterialName(specs),
+      thickness: specs.thickness,
+      quantity,
+      polishedLinearFt: (polishedInches / 12) * quantity,
+      notes: piece.notes,
+    };
+  });
+}
+
+/**
+ * Totals the cut list per material and thickness, in the order materials first appear
+ */
+export function getCutListSummary(entries: CutListEntry[]): CutListMaterialSummary[] {
+  const summaries = new Map<string, CutListMaterialSummary>();
+  entries.forEach(entry => {
+    const key = `${entry.material}|${entry.thickness}`;
+    const summary = summaries.get(key) || { material: entry.material, thickness: entry.thickness, quantity: 0, sqFt: 0, polishedLinearFt: 0 };
+    summaries.set(key, {
+      ...summary,
+      quantity: summary.quantity + entry.quantity,
+      sqFt: summary.sqFt + entry.sqFt,
+      polishedLinearFt: summary.polishedLinearFt + entry.polishedLinearFt,
+    });
+  });
+  return Array.from(summaries.values());
+}
+
+/**
+ * Writes the cut list as CSV with a heading row, sizes both as fractions and decimal inches
+ */
+export function cutListToCSV(pieces: StonePiece[]): string {
+  const rows = [HEADINGS, ...getCutListEntries(pieces).map(entry => [
+    entry.label,
+    `${decimalToFraction(entry.width)}"`,
+    round(entry.width, 4),
+    `${decimalToFraction(entry.depth)}"`,
+    round(entry.depth, 4),
+    round(entry.sqFt),
+    entry.material,
+    entry.thickness,
+    entry.quantity,
+    round(entry.polishedLinearFt),
+    entry.notes,
+  ])];
+
+  return rows.map(row => row.map(value => typeof value === 'number' ? String(value) : escapeCSV(value)).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Writes the cut list as an XLSX workbook: a Cut List sheet ending in a totals row, and a Materials sheet
+ */
+export function cutListToXLSX(pieces: StonePiece[]): Uint8Array {
+  const entries = getCutListEntries(pieces);
+  const summary = getCutListSummary(entries);
+  const lastRow = entries.length + 1;
+  const total = (column: string, value: number): Cell =>
+    ({ formula: entries.length > 0 ? `SUM(${column}2:${column}${lastRow})` : '0', value });
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+  const cutList: Sheet = {
+    name: 'Cut List',
+    widths: [12, 10, 10, 10, 10, 12, 24, 10, 6, 20, 40],
+    rows: [
+      { cells: HEADINGS, bold: true },
+      ...entries.map(entry => ({
+        cells: [
+          entry.label,
+          `${decimalToFraction(entry.width)}"`,
+          entry.width,
+          `${decimalToFraction(entry.depth)}"`,
+          entry.depth,
+          entry.sqFt,
+          entry.material,
+          entry.thickness,
+          entry.quantity,
+          entry.polishedLinearFt,
+          entry.notes,
+        ],
+      })),
+      {
+        cells: [
+          'Total', '', '', '', '',
+          total('F', sum(entries.map(entry => entry.sqFt))),
+          '', '',
+          total('I', sum(entries.map(entry => entry.quantity))),
+          total('J', sum(entries.map(entry => entry.polishedLinearFt))),
+          '',
+        ],
+        bold: true,
+      },
+    ],
+  };
+
+  const materials: Sheet = {
+    name: 'Materials',
+    widths: [24, 10, 8, 12, 20],
+    rows: [
+      { cells: SUMMARY_HEADINGS, bold: true },
+      ...summary.map(material => ({
+        cells: [material.material, material.thickness, material.quantity, material.sqFt, material.polishedLinearFt],
+      })),
+    ],
+  };
+
+  return createWorkbook([cutList, materials]);
+}
+
+/**
+ * Triggers a browser download of a CSV cut list
+ */
+export function downloadCutListCSV(csv: string, filename: string) {
+  download(new Blob([csv], { type: 'text/csv' }), filename);
+}
+
+/**
+ * Triggers a browser download of an XLSX cut list
+ */
+export function downloadCutListXLSX(xlsx: Uint8Array, filename: string) {
+  download(new Blob([new Uint8Array(xlsx)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), filename);
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Packs sheets into the parts of an Office Open XML workbook. Text is written inline, and numbers
+ * show two decimals through the second cell style
+ */
+function createWorkbook(sheets: Sheet[]): Uint8Array {
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const main = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relationships = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const packageRelationships = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: `${xml}<Relationships xmlns="${packageRelationships}">` +
+        `<Relationship Id="rId1" Type="${relationships}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `${xml}<workbook xmlns="${main}" xmlns:r="${relationships}"><sheets>` +
+        sheets.map((sheet, index) => `<sheet name="${escapeXML(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+        '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `${xml}<Relationships xmlns="${packageRelationships}">` +
+        sheets.map((_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="${relationships}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${relationships}/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/styles.xml',
+      // Cell styles: 0 plain, 1 two decimals, 2 bold, 3 bold with two decimals
+      data: `${xml}<styleSheet xmlns="${main}">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="4">' +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="2" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+        '</cellXfs></styleSheet>',
+    },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: xml + sheetToXML(sheet, main) })),
+  ]);
+}
+
+function sheetToXML(sheet: Sheet, namespace: string): string {
+  const columns = sheet.widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('');
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.cells.map((cell, columnIndex) => {
+      const ref = `${getColumnName(columnIndex)}${rowIndex + 1}`;
+      if (typeof cell === 'string') {
+        if (cell === '') return '';
+        return `<c r="${ref}" t="inlineStr"${row.bold ? ' s="2"' : ''}><is><t xml:space="preserve">${escapeXML(cell)}</t></is></c>`;
+      }
+      const style = Number.isInteger(typeof cell === 'number' ? cell : cell.value) ? (row.bold ? 2 : 0) : (row.bold ? 3 : 1);
+      return typeof cell === 'number'
+        ? `<c r="${ref}" s="${style}"><v>${cell}</v></c>`
+        : `<c r="${ref}" s="${style}"><f>${cell.formula}</f><v>${cell.value}</v></c>`;
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return `<worksheet xmlns="${namespace}"><cols>${columns}</cols><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+// Spreadsheet column letters: A to Z, then AA, AB and so on
+function getColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks aren't allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function escapeCSV(value: string): string {
+  // Text a spreadsheet would run as a formula is marked as text so opening the file can't run it
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function round(value: number, places: number = 2): number {
+  return Number(value.toFixed(places));
+}
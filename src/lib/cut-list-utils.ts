@@ -0,0 +1,291 @@
+"use client"
+
+import { CatalogMaterial, EdgeProfile, StonePiece, StoneSpecifications } from '@/types/stone';
+import { fractionToDecimal } from '@/lib/fraction-utils';
+import { DEFAULT_EDGE_PROFILE, EDGE_PROFILES, getEdgeProfileLabel } from '@/lib/edge-profile-utils';
+import { getMaterialTypes, getThicknessOptions, toMaterialReference } from '@/lib/material-catalog-utils';
+
+/**
+ * Utility functions for importing cut lists from spreadsheets: CSV or TSV rows with a piece per row,
+ * read through a mapping from columns to piece fields
+ */
+
+export type CutListField = 'label' | 'width' | 'depth' | 'material' | 'thickness' | 'quantity' | 'polishedEdges' | 'notes';
+
+export const CUT_LIST_FIELDS: Record<CutListField, { label: string; required: boolean }> = {
+  label: { label: 'Label', required: false },
+  width: { label: 'Width', required: true },
+  depth: { label: 'Depth', required: true },
+  material: { label: 'Material', required: false },
+  thickness: { label: 'Thickness', required: false },
+  quantity: { label: 'Qty', required: false },
+  polishedEdges: { label: 'Polished Edges', required: false },
+  notes: { label: 'Notes', required: false },
+};
+
+// Column of each field, counting from 0; fields not in the file are left out
+export type CutListMapping = Partial<Record<CutListField, number>>;
+
+// Used for rows that leave the material or thickness blank
+export interface CutListDefaults {
+  materialType: string;
+  thickness: string;
+}
+
+export interface CutListRow {
+  row: number; // Line of the file, counting from 1
+  piece?: StonePiece; // Set when the row is valid
+  errors: string[];
+}
+
+// Column headings recognized for each field, lowercase with punctuation removed
+const FIELD_HEADINGS: Record<CutListField, string[]> = {
+  label: ['label', 'name', 'piece', 'description', 'item', 'mark'],
+  width: ['width', 'length', 'w', 'len', 'l'],
+  depth: ['depth', 'height', 'd', 'h'],
+  material: ['material', 'color', 'colour', 'stone'],
+  thickness: ['thickness', 'thk', 'thick'],
+  quantity: ['qty', 'quantity', 'count', 'pcs'],
+  polishedEdges: ['polished edges', 'polished', 'edges', 'edge', 'finished edges', 'edge profile'],
+  notes: ['notes', 'note', 'comments', 'remarks'],
+};
+
+// Words naming the edges of a rectangle, and words ignored in polished edge lists
+const EDGE_WORDS: Record<string, string[]> = {
+  top: ['top'], t: ['top'],
+  bottom: ['bottom'], b: ['bottom'],
+  left: ['left'], l: ['left'],
+  right: ['right'], r: ['right'],
+  all: ['top', 'right', 'bottom', 'left'],
+};
+const FILLER_WORDS = ['and', 'edge', 'edges', 'polished', 'none', 'no'];
+
+/**
+ * Splits CSV or TSV text into rows of cells. The delimiter is whichever of tab, comma or semicolon
+ * appears most in the first line; quoted cells may hold delimiters, quotes ("") and line breaks
+ */
+export function parseCutList(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') ?? '';
+  const delimiter = ['\t', ',', ';']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .reduce((best, next) => next.count > best.count ? next : best).candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+
+  return rows;
+}
+
+/**
+ * Matches column headings to the fields they name
+ */
+export function guessCutListMapping(headings: string[]): CutListMapping {
+  const mapping: CutListMapping = {};
+  const normalized = headings.map(normalize);
+
+  (Object.keys(FIELD_HEADINGS) as CutListField[]).forEach(field => {
+    const column = normalized.findIndex((heading, index) =>
+      FIELD_HEADINGS[field].includes(heading) && !Object.values(mapping).includes(index));
+    if (column >= 0) mapping[field] = column;
+  });
+  return mapping;
+}
+
+/**
+ * Reads rows of a cut list as pieces, checking each row. Blank rows are skipped
+ * @param rows Rows below the column headings
+ * @param firstLine Line of the file the first row is on
+ */
+export function readCutListRows(
+  rows: string[][],
+  mapping: CutListMapping,
+  catalog: CatalogMaterial[],
+  defaults: CutListDefaults,
+  firstLine: number = 1
+): CutListRow[] {
+  const results: CutListRow[] = [];
+
+  rows.forEach((cells, index) => {
+    if (cells.every(cell => cell.trim() === '')) return;
+
+    const get = (field: CutListField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const width = readLength('Width', get('width'), errors);
+    const height = readLength('Depth', get('depth'), errors);
+
+    const quantityText = get('quantity');
+    const quantity = quantityText === '' ? 1 : Number(quantityText);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      errors.push(`Qty "${quantityText}" isn't a whole number of pieces`);
+    }
+
+    const material = readMaterial(get('material'), catalog, defaults, errors);
+    const thickness = readThickness(get('thickness'), catalog, material, defaults, errors);
+    const edgeProfiles = readPolishedEdges(get('polishedEdges'), errors);
+
+    const line = firstLine + index;
+    if (errors.length > 0 || width === null || height === null) {
+      results.push({ row: line, errors });
+      return;
+    }
+
+    const specs: StoneSpecifications = {
+      width,
+      height,
+      edgeProfiles,
+      materialType: material.materialType,
+      ...(material.entry ? { material: toMaterialReference(material.entry) } : {}),
+      thickness,
+      quantity,
+      shape: { type: 'rectangle' },
+    };
+    const notes = [get('label'), get('notes')].filter(Boolean).join(' - ');
+    results.push({ row: line, piece: { id: `${Date.now()}-${index}`, specs, notes }, errors });
+  });
+
+  return results;
+}
+
+/**
+ * Reads a length in inches, such as `25-1/2`, `25.5"` or `8' 2"`
+ */
+function readLength(name: string, text: string, errors: string[]): number | null {
+  if (text === '') {
+    errors.push(`${name} is missing`);
+    return null;
+  }
+
+  const value = fractionToDecimal(text);
+  if (value === null || value <= 0) {
+    errors.push(`${name} "${text}" isn't a length`);
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Finds a material by catalog color, optionally with its brand, or by material type alone
+ */
+function readMaterial(
+  text: string,
+  catalog: CatalogMaterial[],
+  defaults: CutListDefaults,
+  errors: string[]
+): { materialType: string; entry?: CatalogMaterial } {
+  if (text === '') return { materialType: defaults.materialType };
+
+  const value = normalize(text);
+  const matches = catalog
+    .filter(entry => ` ${value} `.includes(` ${normalize(entry.color)} `))
+    .sort((a, b) => score(b) - score(a));
+  if (matches.length > 0) return { materialType: matches[0].materialType, entry: matches[0] };
+
+  const materialType = getMaterialTypes(catalog).find(type => normalize(type) === value);
+  if (materialType) return { materialType };
+
+  errors.push(`Material "${text}" isn't in the catalog`);
+  return { materialType: defaults.materialType };
+
+  // Longer color names, and entries whose brand and type are given too, are the closer matches
+  function score(entry: CatalogMaterial): number {
+    const named = (part: string) => ` ${value} `.includes(` ${normalize(part)} `) ? 1 : 0;
+    return normalize(entry.color).length * 4 + named(entry.brand) * 2 + named(entry.materialType);
+  }
+}
+
+/**
+ * Reads a slab thickness such as `3cm`, `20 mm` or `3`, in centimeters when no unit is given
+ */
+function readThickness(
+  text: string,
+  catalog: CatalogMaterial[],
+  material: { materialType: string; entry?: CatalogMaterial },
+  defaults: CutListDefaults,
+  errors: string[]
+): string {
+  const options = getThicknessOptions(catalog, material.materialType, material.entry?.id);
+  if (text === '') {
+    return options.includes(defaults.thickness) ? defaults.thickness : options[0];
+  }
+
+  const match = text.trim().match(/^(\d*\.?\d+)\s*(cm|mm)?$/i);
+  if (!match) {
+    errors.push(`Thickness "${text}" isn't in cm or mm`);
+    return defaults.thickness;
+  }
+
+  const thickness = `${Number(match[1])}${(match[2] ?? 'cm').toLowerCase()}`;
+  if (material.entry && !options.includes(thickness)) {
+    errors.push(`${material.entry.color} doesn't come in ${thickness}`);
+  }
+  return thickness;
+}
+
+/**
+ * Reads a list of polished edges, e.g. `Top, Left` or `T L ogee`, naming at most one profile for them all
+ */
+function readPolishedEdges(text: string, errors: string[]): Record<string, EdgeProfile> {
+  let value = normalize(text);
+  if (value === '') return {};
+
+  // Longest profile names first, so `full bullnose` isn't read as another profile
+  const profiles = [...EDGE_PROFILES].sort((a, b) => getEdgeProfileLabel(b).length - getEdgeProfileLabel(a).length);
+  let profile: EdgeProfile = DEFAULT_EDGE_PROFILE;
+  for (const candidate of profiles) {
+    const name = [normalize(getEdgeProfileLabel(candidate)), normalize(candidate)].find(name => ` ${value} `.includes(` ${name} `));
+    if (name) {
+      profile = candidate;
+      value = ` ${value} `.replace(` ${name} `, ' ').trim();
+      break;
+    }
+  }
+
+  const edges = new Set<string>();
+  value.split(' ').filter(Boolean).forEach(word => {
+    if (EDGE_WORDS[word]) {
+      EDGE_WORDS[word].forEach(edge => edges.add(edge));
+    } else if (!FILLER_WORDS.includes(word)) {
+      errors.push(`Polished edge "${word}" isn't top, bottom, left, right or all`);
+    }
+  });
+
+  return Object.fromEntries(Array.from(edges).map(edge => [edge, profile]));
+}
+
+// Lowercase words separated by single spaces
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
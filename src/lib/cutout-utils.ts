@@ -0,0 +1,135 @@
+"use client"
+
+import { Cutout, CutoutType, Point, StoneSpecifications } from '@/types/stone';
+import { decimalToFraction } from '@/lib/fraction-utils';
+
+/**
+ * Utility functions for sink, cooktop and faucet-hole cutouts
+ */
+
+export type CutoutPreset = 'sink' | 'vanity-sink' | 'cooktop' | 'faucet-hole';
+
+const CUTOUT_TYPE_LABELS: Record<CutoutType, string> = {
+  'rectangle': 'Rectangle',
+  'oval': 'Oval',
+  'hole': 'Drilled Hole',
+};
+
+// Typical template sizes; the fabricator adjusts them to the actual fixture
+const CUTOUT_PRESETS: Record<CutoutPreset, Omit<Cutout, 'id' | 'xOffset' | 'yOffset'>> = {
+  'sink': {
+    type: 'rectangle',
+    label: 'Sink',
+    width: 30,
+    height: 16,
+    cornerRadius: 1,
+    xReference: 'left',
+    yReference: 'bottom',
+  },
+  'vanity-sink': {
+    type: 'oval',
+    label: 'Vanity Sink',
+    width: 17,
+    height: 14,
+    xReference: 'left',
+    yReference: 'bottom',
+  },
+  'cooktop': {
+    type: 'rectangle',
+    label: 'Cooktop',
+    width: 29,
+    height: 19,
+    cornerRadius: 0,
+    xReference: 'left',
+    yReference: 'bottom',
+  },
+  'faucet-hole': {
+    type: 'hole',
+    label: 'Faucet',
+    width: 1.375,
+    height: 1.375,
+    xReference: 'left',
+    yReference: 'top',
+  },
+};
+
+/**
+ * Returns the display name of a cutout type
+ */
+export function getCutoutTypeLabel(type: CutoutType): string {
+  return CUTOUT_TYPE_LABELS[type];
+}
+
+/**
+ * Creates a cutout from a preset, centered left to right on the piece
+ */
+export function createCutout(preset: CutoutPreset, specs: StoneSpecifications): Cutout {
+  const template = CUTOUT_PRESETS[preset];
+
+  // Faucet holes sit just behind a sink; everything else is centered front to back
+  const yOffset = template.type === 'hole'
+    ? Math.min(2, specs.height / 2)
+    : specs.height / 2;
+
+  return {
+    ...template,
+    id: `${Date.now()}-${(specs.cutouts || []).length}`,
+    xOffset: specs.width / 2,
+    yOffset,
+  };
+}
+
+/**
+ * Returns the size of a cutout in inches; drilled holes are round
+ */
+export function getCutoutSize(cutout: Cutout): { width: number; height: number } {
+  if (cutout.type === 'hole') {
+    return { width: cutout.width, height: cutout.width };
+  }
+  return { width: cutout.width, height: cutout.height };
+}
+
+/**
+ * Returns the center of a cutout in piece coordinates (inches from the top-left corner)
+ */
+export function getCutoutCenter(specs: StoneSpecifications, cutout: Cutout): Point {
+  return {
+    x: cutout.xReference === 'left' ? cutout.xOffset : specs.width - cutout.xOffset,
+    y: cutout.yReference === 'top' ? cutout.yOffset : specs.height - cutout.yOffset,
+  };
+}
+
+/**
+ * Returns the area removed by a cutout in square inches
+ */
+export function getCutoutArea(cutout: Cutout): number {
+  const { width, height } = getCutoutSize(cutout);
+
+  if (cutout.type === 'rectangle') {
+    // Rounded corners give back a little of each corner square
+    const radius = Math.min(cutout.cornerRadius || 0, width / 2, height / 2);
+    return width * height - (4 - Math.PI) * radius * radius;
+  }
+
+  return Math.PI * (width / 2) * (height / 2);
+}
+
+/**
+ * Describes a cutout for spec sheets, e.g. `Sink: 30" × 16" rectangle, R1", center 18" from left, 8" from bottom`
+ */
+export function describeCutout(cutout: Cutout): string {
+  const { width, height } = getCutoutSize(cutout);
+  const position = `center ${decimalToFraction(cutout.xOffset)}" from ${cutout.xReference}, ` +
+    `${decimalToFraction(cutout.yOffset)}" from ${cutout.yReference}`;
+
+  if (cutout.type === 'hole') {
+    return `${cutout.label}: ${decimalToFraction(width)}" dia. hole, ${position}`;
+  }
+
+  const radius = cutout.type === 'rectangle' && cutout.cornerRadius
+    ? `, R${decimalToFraction(cutout.cornerRadius)}"`
+    : '';
+
+  return `${cutout.label}: ${decimalToFraction(width)}" × ${decimalToFraction(height)}" ` +
+    `${getCutoutTypeLabel(cutout.type).toLowerCase()}${radius}, ${position}`;
+}
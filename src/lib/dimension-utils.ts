@@ -0,0 +1,146 @@
+"use client"
+
+import { Point } from '@/types/stone';
+import { SceneDimension, formatDimension, getDimensionGeometry } from '@/lib/scene-utils';
+
+/**
+ * Utility functions for laying out chained, baseline and staggered dimension lines
+ */
+
+export type DimensionStyle = Pick<SceneDimension, 'color' | 'font' | 'lineWidth' | 'tickSize' | 'terminator'>;
+
+type Axis = 'horizontal' | 'vertical';
+
+/**
+ * Dimensions a row of points end to end along an axis, e.g. the sections of a seamed piece.
+ * Points run left to right or top to bottom, so positive offsets put horizontal chains below the points
+ * and vertical chains to their left
+ * @param points Measured points, in drawing units; points at the same position are dimensioned once
+ * @param offset Distance of the line past the farthest point
+ * @param scale Drawing units per inch, for the labels
+ */
+export function getChainDimensions(
+  points: Point[],
+  axis: Axis,
+  offset: number,
+  scale: number,
+  style: DimensionStyle
+): SceneDimension[] {
+  const sorted = sortAlong(points, axis);
+  const dimensions: SceneDimension[] = [];
+
+  sorted.forEach((point, i) => {
+    const previous = sorted[i - 1];
+    if (!previous) return;
+
+    const length = Math.abs(getPosition(point, axis) - getPosition(previous, axis));
+    if (length < 1e-6) return;
+    dimensions.push({ type: 'dimension', start: previous, end: point, axis, offset, label: formatDimension(length / scale), ...style });
+  });
+
+  return dimensions;
+}
+
+/**
+ * Dimensions every point from a common origin along an axis, nearest first, each a level farther out
+ * @param origin Point every dimension is measured from
+ * @param points Measured points, in drawing units
+ * @param offset Distance of the first line past the farthest point; the sign picks the side as for chains
+ * @param spacing Distance between levels
+ * @param scale Drawing units per inch, for the labels
+ */
+export function getBaselineDimensions(
+  origin: Point,
+  points: Point[],
+  axis: Axis,
+  offset: number,
+  spacing: number,
+  scale: number,
+  style: DimensionStyle
+): SceneDimension[] {
+  const distance = (point: Point) => Math.abs(getPosition(point, axis) - getPosition(origin, axis));
+
+  return points
+    .filter(point => distance(point) >= 1e-6)
+    .sort((a, b) => distance(a) - distance(b))
+    .map((point, level): SceneDimension => {
+      const [start, end] = sortAlong([origin, point], axis);
+      return {
+        type: 'dimension',
+        start,
+        end,
+        axis,
+        offset: offset + Math.sign(offset || 1) * level * spacing,
+        label: formatDimension(distance(point) / scale),
+        ...style,
+      };
+    });
+}
+
+/**
+ * Moves offset dimensions onto levels so their lines and labels don't collide. Dimensions keep the side
+ * they are offset to; on each side the shortest go nearest the drawing and the first level lines up at
+ * the smallest offset given, measured from the farthest point on that side
+ * @param spacing Distance between levels
+ */
+export function staggerDimensions(dimensions: SceneDimension[], spacing: number): SceneDimension[] {
+  const groups = new Map<string, { index: number; start: number; end: number; reference: number }[]>();
+
+  dimensions.forEach((dimension, index) => {
+    const geometry = getDimensionGeometry(dimension);
+    if (!geometry) return;
+
+    // Measured outward, toward the side the line is offset to, and along the line in a fixed direction
+    const { normal, lineStart, lineEnd, labelWidth, labelFits } = geometry;
+    const side = Math.sign(dimension.offset || 0) || 1;
+    const outward = { x: normal.x * side, y: normal.y * side };
+    const across = (point: Point) => point.x * outward.x + point.y * outward.y;
+    const along = (point: Point) => point.y * outward.x - point.x * outward.y;
+
+    // Extent along the line, widened to the label when it sits beside the line
+    let start = Math.min(along(lineStart), along(lineEnd));
+    let end = Math.max(along(lineStart), along(lineEnd));
+    if (!labelFits) {
+      const middle = (start + end) / 2;
+      start = Math.min(start, middle - labelWidth / 2);
+      end = Math.max(end, middle + labelWidth / 2);
+    }
+
+    const key = `${Math.round(outward.x * 1000)},${Math.round(outward.y * 1000)}`;
+    const reference = Math.max(across(dimension.start), across(dimension.end));
+    groups.set(key, [...(groups.get(key) || []), { index, start, end, reference }]);
+  });
+
+  const result = [...dimensions];
+  groups.forEach(entries => {
+    const reference = Math.max(...entries.map(entry => entry.reference));
+    const baseOffset = Math.min(...entries.map(entry => Math.abs(dimensions[entry.index].offset || 0)));
+    const levels: [number, number][][] = [];
+
+    [...entries]
+      .sort((a, b) => (a.end - a.start) - (b.end - b.start))
+      .forEach(entry => {
+        // Dimensions may share an end point, as chained ones do
+        let level = levels.findIndex(spans => spans.every(([start, end]) => entry.start >= end - 1e-6 || entry.end <= start + 1e-6));
+        if (level === -1) {
+          level = levels.length;
+          levels.push([]);
+        }
+        levels[level].push([entry.start, entry.end]);
+
+        const dimension = dimensions[entry.index];
+        const side = Math.sign(dimension.offset || 0) || 1;
+        result[entry.index] = { ...dimension, offset: side * (reference - entry.reference + baseOffset + level * spacing) };
+      });
+  });
+
+  return result;
+}
+
+function getPosition(point: Point, axis: Axis): number {
+  return axis === 'horizontal' ? point.x : point.y;
+}
+
+function sortAlong(points: Point[], axis: Axis): Point[] {
+  return [...points].sort((a, b) => getPosition(a, axis) - getPosition(b, axis));
+}
@@ -1,11 +1,21 @@
 "use client"
 
 import { StoneSpecifications } from '@/types/stone';
-import { decimalToFraction } from '@/lib/fraction-utils';
+import { NestedSlab } from '@/lib/nesting-utils';
+import { Scene, SceneBackend, SceneGrid, SceneImage, ScenePath, ScenePathCommand, SceneText, fitImage, getGridPath, renderScene } from '@/lib/scene-utils';
+import { MockupDrawingOptions, buildSlabScene, buildStoneScene } from '@/lib/mockup-scene-utils';
+import { sceneToSVG } from '@/lib/svg-utils';
+import { ViewTransform } from '@/lib/canvas-view-utils';
 
 // Cache for grid patterns
 const gridPatternCache = new Map<string, CanvasPattern>();
 
+// Decoded images by data URL
+const imageCache = new Map<string, HTMLImageElement>();
+
+// Last scene drawn on each canvas and the view it was drawn at, drawn again once its images have loaded
+const canvasScenes = new WeakMap<CanvasRenderingContext2D, { scene: Scene; view?: ViewTransform }>();
+
 /**
  * Utility functions for drawing stone mockups on a canvas
  */
@@ -13,26 +23,26 @@ const gridPatternCache = new Map<string, CanvasPattern>();
 /**
  * Creates a cached grid pattern for better performance
  */
-function getGridPattern(ctx: CanvasRenderingContext2D, scale: number): CanvasPattern | null {
-  const cacheKey = `grid-${scale}`;
-  
+function getGridPattern(ctx: CanvasRenderingContext2D, grid: SceneGrid): CanvasPattern | null {
+  const cacheKey = `grid-${grid.spacing}-${grid.color}-${grid.lineWidth}`;
+
   if (gridPatternCache.has(cacheKey)) {
     return gridPatternCache.get(cacheKey)!;
   }
-  
+
   // Create pattern canvas
   const patternCanvas = document.createElement('canvas');
-  const patternSize = Math.round(scale); // Grid size in pixels
+  const patternSize = Math.round(grid.spacing); // Grid size in pixels
   patternCanvas.width = patternSize;
   patternCanvas.height = patternSize;
-  
+
   const patternCtx = patternCanvas.getContext('2d');
   if (!patternCtx) return null;
-  
+
   // Draw grid pattern
-  patternCtx.strokeStyle = '#c0c0c0';
-  patternCtx.lineWidth = 0.5;
-  
+  patternCtx.strokeStyle = grid.color;
+  patternCtx.lineWidth = grid.lineWidth;
+
   // Draw grid lines
   patternCtx.beginPath();
   patternCtx.moveTo(0, 0);
@@ -40,335 +50,219 @@ function getGridPattern(ctx: CanvasRenderingContext2D, scale: number): CanvasPat
   patternCtx.moveTo(0, 0);
   patternCtx.lineTo(0, patternSize);
   patternCtx.stroke();
-  
+
   // Create pattern
   const pattern = ctx.createPattern(patternCanvas, 'repeat');
   if (pattern) {
     gridPatternCache.set(cacheKey, pattern);
   }
-  
+
   return pattern;
 }
 
 /**
- * Draws a stone piece with specified dimensions and polished edges on a canvas
- * @param ctx Canvas rendering context
- * @param specs Stone specifications
- * @param options Drawing options
+ * Returns a decoded image, or null while it is still loading, in which case onLoad is called once it has
  */
-export function drawStoneMockup(
-  ctx: CanvasRenderingContext2D,
-  specs: StoneSpecifications,
-  options: {
-    showGrid?: boolean;
-    showPolishedEdges?: boolean;
-    useXMarks?: boolean;
-    scale?: number;
-    padding?: number;
-  } = {}
-) {
-  const {
-    width,
-    height,
-    polishedEdges,
-    materialType,
-    thickness,
-  } = specs;
-
-  const {
-    showGrid = true,
-    showPolishedEdges = true,
-    useXMarks = true,
-    scale = 1,
-    padding = 40,
-  } = options;
-
-  // Clear canvas
-  const canvasWidth = ctx.canvas.width;
-  const canvasHeight = ctx.canvas.height;
-  
-  // Set background color (light gray for graph paper look)
-  ctx.fillStyle = '#f5f5f5';
-  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-
-  // Calculate scale to fit the stone piece on the canvas
-  const maxWidth = canvasWidth - padding * 2;
-  const maxHeight = canvasHeight - padding * 2;
-  
-  const widthScale = maxWidth / width;
-  const heightScale = maxHeight / height;
-  const finalScale = Math.min(widthScale, heightScale) * scale;
-
-  // Calculate dimensions and position
-  const scaledWidth = width * finalScale;
-  const scaledHeight = height * finalScale;
-  const x = (canvasWidth - scaledWidth) / 2;
-  const y = (canvasHeight - scaledHeight) / 2;
-
-  // Draw grid if enabled (optimized version)
-  if (showGrid) {
-    drawGridOptimized(ctx, x, y, scaledWidth, scaledHeight, finalScale);
+function getImage(href: string, onLoad: () => void): HTMLImageElement | null {
+  let image = imageCache.get(href);
+  if (!image) {
+    image = new Image();
+    image.src = href;
+    imageCache.set(href, image);
   }
 
-  // Draw stone piece
-  drawStoneRectangle(ctx, x, y, scaledWidth, scaledHeight);
-
-  // Draw polished edges if enabled
-  if (showPolishedEdges) {
-    drawPolishedEdgesOptimized(ctx, x, y, scaledWidth, scaledHeight, polishedEdges, useXMarks);
+  if (image.complete && image.naturalWidth > 0) {
+    return image;
   }
-
-  // Draw dimensions
-  drawDimensions(ctx, x, y, scaledWidth, scaledHeight, width, height);
-
-  // Draw material info
-  drawMaterialInfo(ctx, x, y, scaledWidth, scaledHeight, materialType, thickness);
+  image.addEventListener('load', onLoad, { once: true });
+  return null;
 }
 
 /**
- * Optimized grid drawing using patterns
+ * Draws a stone piece with specified dimensions and polished edges on a canvas
+ * @param ctx Canvas rendering context
+ * @param specs Stone specifications
+ * @param options Drawing options
+ * @param view Zoom and pan to draw at, fitted to the canvas when omitted
  */
-function drawGridOptimized(
+export function drawStoneMockup(
   ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  scale: number
+  specs: StoneSpecifications,
+  options: MockupDrawingOptions = {},
+  view?: ViewTransform
 ) {
-  // Save context state
-  ctx.save();
-  
-  // Clip to stone area
-  ctx.beginPath();
-  ctx.rect(x, y, width, height);
-  ctx.clip();
-  
-  // Draw minor grid using pattern (every 1/4 inch)
-  const minorGridPattern = getGridPattern(ctx, scale * 0.25);
-  if (minorGridPattern) {
-    ctx.fillStyle = minorGridPattern;
-    ctx.fillRect(x, y, width, height);
-  }
-  
-  // Draw major grid lines (every inch) - only draw what's visible
-  const majorGridSpacing = 1 * scale;
-  
-  ctx.strokeStyle = '#808080';
-  ctx.lineWidth = 0.8;
-  
-  // Calculate visible range
-  const startX = Math.floor(x / majorGridSpacing) * majorGridSpacing;
-  const endX = Math.ceil((x + width) / majorGridSpacing) * majorGridSpacing;
-  const startY = Math.floor(y / majorGridSpacing) * majorGridSpacing;
-  const endY = Math.ceil((y + height) / majorGridSpacing) * majorGridSpacing;
-  
-  // Batch path operations
-  ctx.beginPath();
-  
-  // Vertical lines
-  for (let i = startX; i <= endX; i += majorGridSpacing) {
-    if (i >= x && i <= x + width) {
-      ctx.moveTo(i, y);
-      ctx.lineTo(i, y + height);
-    }
-  }
-  
-  // Horizontal lines
-  for (let i = startY; i <= endY; i += majorGridSpacing) {
-    if (i >= y && i <= y + height) {
-      ctx.moveTo(x, i);
-      ctx.lineTo(x + width, i);
-    }
-  }
-  
-  ctx.stroke();
-  
-  // Restore context state
-  ctx.restore();
+  drawScene(ctx, buildStoneScene(specs, options, ctx.canvas.width, ctx.canvas.height, (text, font) => {
+    ctx.font = font;
+    return ctx.measureText(text).width;
+  }), view);
 }
 
 /**
- * Draws the stone rectangle
+ * Draws a stone piece as an SVG document, matching drawStoneMockup on a canvas of the same size
+ * @param specs Stone specifications
+ * @param options Drawing options
+ * @param width SVG width, in pixels
+ * @param height SVG height, in pixels
  */
-function drawStoneRectangle(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number
-) {
-  // Draw white rectangle with black border
-  ctx.fillStyle = 'white';
-  ctx.fillRect(x, y, width, height);
-  
-  ctx.strokeStyle = 'black';
-  ctx.lineWidth = 2;
-  ctx.strokeRect(x, y, width, height);
+export function renderStoneMockupSVG(
+  specs: StoneSpecifications,
+  options: MockupDrawingOptions = {},
+  width: number = 800,
+  height: number = 600
+): string {
+  return sceneToSVG(buildStoneScene(specs, options, width, height));
 }
 
 /**
- * Optimized polished edges drawing
+ * Draws a slab with the parts nested on it, each labeled with its piece and size
+ * @param ctx Canvas rendering context
+ * @param slab Nested slab from nestPieces
+ * @param padding Space left around the slab, in pixels
  */
-function drawPolishedEdgesOptimized(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  polishedEdges: string[],
-  useXMarks: boolean
-) {
-  if (polishedEdges.length === 0) return;
-  
-  ctx.strokeStyle = 'red';
-  ctx.lineWidth = 4;
-  
-  // Batch edge drawing
-  ctx.beginPath();
-  
-  // Draw polished edges
-  if (polishedEdges.includes('top')) {
-    ctx.moveTo(x, y);
-    ctx.lineTo(x + width, y);
-  }
-  
-  if (polishedEdges.includes('bottom')) {
-    ctx.moveTo(x, y + height);
-    ctx.lineTo(x + width, y + height);
-  }
-  
-  if (polishedEdges.includes('left')) {
-    ctx.moveTo(x, y);
-    ctx.lineTo(x, y + height);
-  }
-  
-  if (polishedEdges.includes('right')) {
-    ctx.moveTo(x + width, y);
-    ctx.lineTo(x + width, y + height);
-  }
-  
-  ctx.stroke();
-  
-  // Draw X marks if enabled
-  if (useXMarks) {
-    ctx.lineWidth = 2;
-    
-    if (polishedEdges.includes('top')) {
-      drawXMarksOptimized(ctx, x, y, width, 0, 'horizontal');
-    }
-    
-    if (polishedEdges.includes('bottom')) {
-      drawXMarksOptimized(ctx, x, y + height, width, 0, 'horizontal');
-    }
-    
-    if (polishedEdges.includes('left')) {
-      drawXMarksOptimized(ctx, x, y, 0, height, 'vertical');
-    }
-    
-    if (polishedEdges.includes('right')) {
-      drawXMarksOptimized(ctx, x + width, y, 0, height, 'vertical');
-    }
-  }
+export function drawSlabLayout(ctx: CanvasRenderingContext2D, slab: NestedSlab, padding: number = 40) {
+  drawScene(ctx, buildSlabScene(slab, ctx.canvas.width, ctx.canvas.height, padding));
 }
 
 /**
- * Optimized X marks drawing using batched path operations
+ * Draws a scene on a canvas, optionally zoomed and panned. A zoomed view clears the whole canvas
+ * first, since the scene's background may no longer cover it
  */
-function drawXMarksOptimized(
-  ctx: CanvasRenderingContext2D,
-  startX: number,
-  startY: number,
-  width: number,
-  height: number,
-  direction: 'horizontal' | 'vertical'
-) {
-  const markSize = 6;
-  const spacing = 20;
-  
-  ctx.strokeStyle = 'red';
-  ctx.lineWidth = 2;
-  
-  // Batch all X marks in a single path
-  ctx.beginPath();
-  
-  if (direction === 'horizontal') {
-    // Draw X marks along horizontal edge
-    for (let i = spacing; i < width; i += spacing) {
-      // First line of X
-      ctx.moveTo(startX + i - markSize, startY - markSize);
-      ctx.lineTo(startX + i + markSize, startY + markSize);
-      
-      // Second line of X
-      ctx.moveTo(startX + i - markSize, startY + markSize);
-      ctx.lineTo(startX + i + markSize, startY - markSize);
-    }
-  } else {
-    // Draw X marks along vertical edge
-    for (let i = spacing; i < height; i += spacing) {
-      // First line of X
-      ctx.moveTo(startX - markSize, startY + i - markSize);
-      ctx.lineTo(startX + markSize, startY + i + markSize);
-      
-      // Second line of X
-      ctx.moveTo(startX - markSize, startY + i + markSize);
-      ctx.lineTo(startX + markSize, startY + i - markSize);
-    }
+export function drawScene(ctx: CanvasRenderingContext2D, scene: Scene, view?: ViewTransform) {
+  canvasScenes.set(ctx, { scene, view });
+  if (!view) {
+    renderScene(scene, createCanvasBackend(ctx));
+    return;
   }
-  
-  ctx.stroke();
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.setTransform(view.zoom, 0, 0, view.zoom, view.x, view.y);
+  renderScene(scene, createCanvasBackend(ctx));
+  ctx.restore();
 }
 
 /**
- * Draws dimensions on the mockup
+ * Scene backend issuing canvas calls. Single rectangles use the canvas rect shortcuts and
+ * dense grids are filled with a cached pattern
  */
-function drawDimensions(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  actualWidth: number,
-  actualHeight: number
-) {
-  ctx.fillStyle = 'black';
-  ctx.font = '14px Arial';
-  ctx.textAlign = 'center';
-  
-  // Convert decimal dimensions to fraction strings
-  const widthFraction = decimalToFraction(actualWidth);
-  const heightFraction = decimalToFraction(actualHeight);
-  
-  // Width dimension
-  ctx.fillText(`${widthFraction}"`, x + width / 2, y + height + 25);
-  
-  // Height dimension
-  ctx.save();
-  ctx.translate(x - 25, y + height / 2);
-  ctx.rotate(-Math.PI / 2);
-  ctx.fillText(`${heightFraction}"`, 0, 0);
-  ctx.restore();
+function createCanvasBackend(ctx: CanvasRenderingContext2D): SceneBackend {
+  return {
+    drawPath(path: ScenePath) {
+      if (path.clip) {
+        ctx.save();
+        ctx.beginPath();
+        tracePath(ctx, path.clip);
+        ctx.clip();
+      }
+
+      const [first] = path.commands;
+      if (path.commands.length === 1 && first.type === 'rect' && !path.dash) {
+        if (path.fill) {
+          ctx.fillStyle = path.fill;
+          ctx.fillRect(first.x, first.y, first.width, first.height);
+        }
+        if (path.stroke) {
+          ctx.strokeStyle = path.stroke;
+          ctx.lineWidth = path.lineWidth ?? 1;
+          ctx.strokeRect(first.x, first.y, first.width, first.height);
+        }
+      } else {
+        ctx.beginPath();
+        tracePath(ctx, path.commands);
+        if (path.fill) {
+          ctx.fillStyle = path.fill;
+          ctx.fill();
+        }
+        if (path.stroke) {
+          ctx.strokeStyle = path.stroke;
+          ctx.lineWidth = path.lineWidth ?? 1;
+          ctx.setLineDash(path.dash || []);
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
+      }
+
+      if (path.clip) {
+        ctx.restore();
+      }
+    },
+
+    drawText(text: SceneText) {
+      ctx.fillStyle = text.color;
+      ctx.font = text.font;
+      ctx.textAlign = text.align;
+
+      if (text.rotation) {
+        ctx.save();
+        ctx.translate(text.x, text.y);
+        ctx.rotate(text.rotation);
+        ctx.fillText(text.text, 0, 0);
+        ctx.restore();
+      } else {
+        ctx.fillText(text.text, text.x, text.y);
+      }
+    },
+
+    drawImage(image: SceneImage) {
+      const element = getImage(image.href, () => {
+        const drawn = canvasScenes.get(ctx);
+        if (drawn) drawScene(ctx, drawn.scene, drawn.view);
+      });
+      if (!element) return;
+
+      const box = fitImage(image, element.naturalWidth, element.naturalHeight);
+      ctx.drawImage(element, box.x, box.y, box.width, box.height);
+    },
+
+    drawGrid(grid: SceneGrid) {
+      const pattern = grid.dense ? getGridPattern(ctx, grid) : null;
+      if (!pattern) {
+        this.drawPath(getGridPath(grid));
+        return;
+      }
+
+      ctx.save();
+      if (grid.clip) {
+        ctx.beginPath();
+        tracePath(ctx, grid.clip);
+        ctx.clip();
+      }
+      ctx.fillStyle = pattern;
+      ctx.fillRect(grid.x, grid.y, grid.width, grid.height);
+      ctx.restore();
+    },
+  };
 }
 
 /**
- * Draws material information on the mockup
+ * Adds path commands to the current canvas path
  */
-function drawMaterialInfo(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  materialType: string,
-  thickness: string
-) {
-  ctx.fillStyle = 'black';
-  ctx.font = '12px Arial';
-  ctx.textAlign = 'left';
-  
-  // Format material info
-  const materialInfo = `${materialType.charAt(0).toUpperCase() + materialType.slice(1)}, ${thickness}`;
-  
-  // Draw material info at the bottom right
-  ctx.fillText(materialInfo, x + width - ctx.measureText(materialInfo).width - 5, y + height - 5);
-}
\ No newline at end of file
+function tracePath(ctx: CanvasRenderingContext2D, commands: ScenePathCommand[]) {
+  commands.forEach(command => {
+    switch (command.type) {
+      case 'move':
+        ctx.moveTo(command.x, command.y);
+        break;
+      case 'line':
+        ctx.lineTo(command.x, command.y);
+        break;
+      case 'arc':
+        ctx.arc(command.x, command.y, command.radius, command.startAngle, command.endAngle);
+        break;
+      case 'arcTo':
+        ctx.arcTo(command.x1, command.y1, command.x2, command.y2, command.radius);
+        break;
+      case 'ellipse':
+        ctx.moveTo(command.x + command.radiusX, command.y);
+        ctx.ellipse(command.x, command.y, command.radiusX, command.radiusY, 0, 0, Math.PI * 2);
+        break;
+      case 'rect':
+        ctx.rect(command.x, command.y, command.width, command.height);
+        break;
+      case 'close':
+        ctx.closePath();
+        break;
+    }
+  });
+}
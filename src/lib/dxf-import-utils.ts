@@ -0,0 +1,542 @@
+"use client"
+
+import { Cutout, CutoutType, MaterialReference, OutlineSegment, Point, StonePiece, StoneSpecifications } from '@/types/stone';
+import { getCutoutTypeLabel } from '@/lib/cutout-utils';
+
+/**
+ * Utility functions for reading piece outlines and cutouts from DXF files, such as those from a
+ * digital templater. Closed loops of LINE, ARC, CIRCLE, LWPOLYLINE and POLYLINE entities become
+ * pieces, and loops inside a piece become its cutouts
+ */
+
+export type DxfUnit = 'in' | 'ft' | 'mm' | 'cm' | 'm';
+
+export const DXF_UNITS: Record<DxfUnit, { label: string; inches: number }> = {
+  'in': { label: 'Inches', inches: 1 },
+  'ft': { label: 'Feet', inches: 12 },
+  'mm': { label: 'Millimeters', inches: 1 / 25.4 },
+  'cm': { label: 'Centimeters', inches: 1 / 2.54 },
+  'm': { label: 'Meters', inches: 1 / 0.0254 },
+};
+
+// A straight or arc segment of a loop, in drawing units with Y up. The bulge is the tangent of a
+// quarter of the arc's sweep, positive counterclockwise and zero for straight segments
+export interface DxfSegment {
+  start: Point;
+  end: Point;
+  bulge: number;
+}
+
+// A closed outline found in a DXF file, with the loops inside it
+export interface DxfShape {
+  outline: DxfSegment[];
+  holes: DxfSegment[][];
+}
+
+export interface DxfImport {
+  unit?: DxfUnit; // From the file's $INSUNITS header, when it gives one
+  shapes: DxfShape[];
+  skipped: number; // Supported entities left out because they didn't join up into a closed loop
+}
+
+// Material given to every imported piece
+export type ImportMaterial = Pick<StoneSpecifications, 'materialType' | 'thickness'> & { material?: MaterialReference };
+
+// $INSUNITS codes of the units a piece is likely drawn in
+const INSUNITS: Record<string, DxfUnit> = { '1': 'in', '2': 'ft', '4': 'mm', '5': 'cm', '6': 'm' };
+
+// Round holes up to this diameter, in inches, are drilled holes; larger ones are round sinks
+const MAX_HOLE_DIAMETER = 2;
+
+// Counterclockwise arcs, which piece outlines can't hold, are split into straight runs of at most this angle
+const MAX_ARC_STEP = Math.PI / 36;
+
+// Largest gap between segment ends that still joins them, relative to the size of the drawing
+const JOIN_TOLERANCE = 1e-5;
+
+/**
+ * Reads the closed outlines of a DXF file and works out which are pieces and which are cutouts
+ * @throws When the file has no closed outlines
+ */
+export function readDXF(text: string): DxfImport {
+  const { unit, chains, loops } = parseEntities(text);
+
+  const extent = [...chains, ...loops].flat().reduce((largest, { start, end }) =>
+    Math.max(largest, Math.abs(start.x), Math.abs(start.y), Math.abs(end.x), Math.abs(end.y)), 1);
+  const joined = joinChains(chains, extent * JOIN_TOLERANCE);
+  const closed = removeDuplicateLoops([...loops, ...joined.loops], extent * JOIN_TOLERANCE);
+
+  if (closed.length === 0) {
+    throw new Error('No closed outlines found in the DXF file');
+  }
+
+  return { unit, shapes: nestLoops(closed), skipped: joined.open };
+}
+
+/**
+ * Turns the shapes read from a DXF file into pieces. Axis-aligned rectangles become plain rectangular
+ * pieces, and anything else a custom outline. Cutouts that aren't round, oval or rectangular are
+ * imported as the rectangle around them
+ * @param unit Unit the file is drawn in
+ */
+export function toStonePieces(dxf: DxfImport, unit: DxfUnit, material: ImportMaterial): { pieces: StonePiece[]; approximated: number } {
+  const scale = DXF_UNITS[unit].inches;
+  let approximated = 0;
+
+  const pieces = dxf.shapes.map((shape, index): StonePiece => {
+    const bounds = getBounds(shape.outline);
+    // Drawing units with Y up to inches down from the top-left corner of the piece's bounding box
+    const toPiece = (point: Point): Point => ({
+      x: round((point.x - bounds.minX) * scale),
+      y: round((bounds.maxY - point.y) * scale),
+    });
+
+    const outline = getOutlineSegments(shape.outline, toPiece, scale);
+    const width = round((bounds.maxX - bounds.minX) * scale);
+    const height = round((bounds.maxY - bounds.minY) * scale);
+
+    const cutouts = shape.holes.map((hole, holeIndex) => {
+      const cutout = getCutout(hole, toPiece, `${Date.now()}-${index}-${holeIndex}`);
+      if (!cutout.exact) approximated++;
+      return cutout.cutout;
+    });
+
+    const specs: StoneSpecifications = {
+      width,
+      height,
+      edgeProfiles: {},
+      ...material,
+      quantity: 1,
+      shape: isAxisAlignedRectangle(outline) ? { type: 'rectangle' } : { type: 'custom', outline },
+      cutouts,
+    };
+    return { id: `${Date.now()}-${index}`, specs, notes: '' };
+  });
+
+  return { pieces, approximated };
+}
+
+/**
+ * Reads the header unit and the supported entities of a DXF file, as closed loops and as open chains
+ * still to be joined end to end
+ */
+function parseEntities(text: string): { unit?: DxfUnit; chains: DxfSegment[][]; loops: DxfSegment[][] } {
+  const lines = text.split(/\r?\n/);
+  const groups: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    groups.push([parseInt(lines[i].trim(), 10), lines[i + 1].trim()]);
+  }
+
+  let unit: DxfUnit | undefined;
+  let section = '';
+  const entities: { type: string; groups: [number, string][] }[] = [];
+
+  groups.forEach(([code, value], i) => {
+    if (code === 0 && value === 'SECTION') {
+      section = groups[i + 1]?.[1] ?? '';
+      return;
+    }
+    if (code === 0 && value === 'ENDSEC') {
+      section = '';
+      return;
+    }
+    if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+      unit = INSUNITS[groups[i + 1]?.[1] ?? ''];
+      return;
+    }
+    if (section !== 'ENTITIES') return;
+
+    if (code === 0) {
+      entities.push({ type: value, groups: [] });
+    } else if (entities.length > 0) {
+      entities[entities.length - 1].groups.push([code, value]);
+    }
+  });
+
+  const chains: DxfSegment[][] = [];
+  const loops: DxfSegment[][] = [];
+
+  for (let i = 0; i < entities.length; i++) {
+    const { type, groups: entityGroups } = entities[i];
+    const number = (code: number) => parseFloat(entityGroups.find(([groupCode]) => groupCode === code)?.[1] ?? '0') || 0;
+    const at = (x: number, y: number) => ({ x: number(x), y: number(y) });
+    const closed = (number(70) & 1) === 1;
+
+    switch (type) {
+      case 'LINE':
+        chains.push([{ start: at(10, 20), end: at(11, 21), bulge: 0 }]);
+        break;
+      case 'ARC': {
+        const center = at(10, 20);
+        const radius = number(40);
+        const startAngle = (number(50) * Math.PI) / 180;
+        const endAngle = (number(51) * Math.PI) / 180;
+        const sweep = (((endAngle - startAngle) % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2) || Math.PI * 2;
+        const pointAt = (angle: number) => ({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+        chains.push(splitArc(pointAt(startAngle), pointAt(endAngle), center, radius, sweep));
+        break;
+      }
+      case 'CIRCLE': {
+        const center = at(10, 20);
+        const radius = number(40);
+        const left = { x: center.x - radius, y: center.y };
+        const right = { x: center.x + radius, y: center.y };
+        loops.push([{ start: right, end: left, bulge: 1 }, { start: left, end: right, bulge: 1 }]);
+        break;
+      }
+      case 'LWPOLYLINE': {
+        // Each vertex is a 10 and 20 group, followed by a 42 group when it starts an arc
+        const vertices: (Point & { bulge: number })[] = [];
+        entityGroups.forEach(([code, value]) => {
+          if (code === 10) vertices.push({ x: parseFloat(value) || 0, y: 0, bulge: 0 });
+          if (code === 20 && vertices.length > 0) vertices[vertices.length - 1].y = parseFloat(value) || 0;
+          if (code === 42 && vertices.length > 0) vertices[vertices.length - 1].bulge = parseFloat(value) || 0;
+        });
+        addPolyline(vertices, vertices.map(vertex => vertex.bulge), closed, chains, loops);
+        break;
+      }
+      case 'POLYLINE': {
+        // R12 polylines carry their vertices as the VERTEX entities that follow, up to a SEQEND
+        const vertices: Point[] = [];
+        const bulges: number[] = [];
+        while (entities[i + 1]?.type === 'VERTEX') {
+          i++;
+          const vertexGroups = entities[i].groups;
+          const value = (code: number) => parseFloat(vertexGroups.find(([groupCode]) => groupCode === code)?.[1] ?? '0') || 0;
+          vertices.push({ x: value(10), y: value(20) });
+          bulges.push(value(42));
+        }
+        // Meshes and polyface meshes aren't outlines
+        if ((number(70) & (16 | 64)) === 0) {
+          addPolyline(vertices, bulges, closed, chains, loops);
+        }
+        break;
+      }
+    }
+  }
+
+  return { unit, chains, loops };
+}
+
+/**
+ * Adds a polyline's segments as a closed loop, or as a chain to be joined with others
+ */
+function addPolyline(vertices: Point[], bulges: number[], closed: boolean, chains: DxfSegment[][], loops: DxfSegment[][]) {
+  if (vertices.length < 2) return;
+
+  const segments: DxfSegment[] = [];
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const start = vertices[i];
+    const end = vertices[(i + 1) % vertices.length];
+    if (start.x !== end.x || start.y !== end.y) {
+      segments.push({ start, end, bulge: bulges[i] ?? 0 });
+    }
+  }
+
+  if (segments.length === 0) return;
+  (closed ? loops : chains).push(segments);
+}
+
+/**
+ * Joins open chains end to end into closed loops
+ * @returns The loops found and the number of chains that were left open
+ */
+function joinChains(chains: DxfSegment[][], tolerance: number): { loops: DxfSegment[][]; open: number } {
+  const remaining = [...chains];
+  const loops: DxfSegment[][] = [];
+  let open = 0;
+  const near = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y) <= tolerance;
+
+  while (remaining.length > 0) {
+    let loop = remaining.shift()!;
+    let extended = true;
+
+    while (extended && !near(loop[loop.length - 1].end, loop[0].start)) {
+      extended = false;
+      const end = loop[loop.length - 1].end;
+      const index = remaining.findIndex(chain => near(chain[0].start, end) || near(chain[chain.length - 1].end, end));
+      if (index >= 0) {
+        const [chain] = remaining.splice(index, 1);
+        loop = [...loop, ...(near(chain[0].start, end) ? chain : reverseSegments(chain))];
+        extended = true;
+      }
+    }
+
+    if (near(loop[loop.length - 1].end, loop[0].start)) {
+      loops.push(loop);
+    } else {
+      open++;
+    }
+  }
+
+  return { loops, open };
+}
+
+/**
+ * Drops loops traced twice, e.g. an outline with its polished edges drawn over it on another layer
+ */
+function removeDuplicateLoops(loops: DxfSegment[][], tolerance: number): DxfSegment[][] {
+  const kept: { loop: DxfSegment[]; area: number; bounds: ReturnType<typeof getBounds> }[] = [];
+
+  loops.forEach(loop => {
+    const area = Math.abs(getSignedArea(loop));
+    const bounds = getBounds(loop);
+    const duplicate = kept.some(other =>
+      Math.abs(other.area - area) <= tolerance * Math.max(1, area) &&
+      Math.abs(other.bounds.minX - bounds.minX) <= tolerance && Math.abs(other.bounds.maxX - bounds.maxX) <= tolerance &&
+      Math.abs(other.bounds.minY - bounds.minY) <= tolerance && Math.abs(other.bounds.maxY - bounds.maxY) <= tolerance
+    );
+    if (!duplicate && area > 0) kept.push({ loop, area, bounds });
+  });
+
+  return kept.map(({ loop }) => loop);
+}
+
+/**
+ * Sorts loops into pieces and their cutouts. A loop inside a piece is a cutout; a loop inside a
+ * cutout, such as a piece set into a sink opening, is a piece again
+ */
+function nestLoops(loops: DxfSegment[][]): DxfShape[] {
+  const sorted = loops
+    .map(loop => ({ loop, area: Math.abs(getSignedArea(loop)), polygon: getPolygon(loop) }))
+    .sort((a, b) => b.area - a.area);
+  const placed: { polygon: Point[]; depth: number; shape?: DxfShape }[] = [];
+  const shapes: DxfShape[] = [];
+
+  sorted.forEach(({ loop, polygon }) => {
+    // Placed loops are larger, so the last one containing this loop is its immediate container
+    const container = [...placed].reverse().find(other => isInsidePolygon(other.polygon, polygon[0]));
+    const depth = container ? container.depth + 1 : 0;
+
+    if (depth % 2 === 1) {
+      container!.shape!.holes.push(loop);
+      placed.push({ polygon, depth });
+    } else {
+      const shape = { outline: loop, holes: [] };
+      shapes.push(shape);
+      placed.push({ polygon, depth, shape });
+    }
+  });
+
+  return shapes;
+}
+
+/**
+ * Converts a loop to a clockwise piece outline starting at its top-left corner. Clockwise arcs are kept;
+ * counterclockwise ones are split into short straight runs
+ */
+function getOutlineSegments(loop: DxfSegment[], toPiece: (point: Point) => Point, scale: number): OutlineSegment[] {
+  // Clockwise on screen is clockwise with Y up too, which has a negative area
+  const clockwise = getSignedArea(loop) < 0 ? loop : reverseSegments(loop);
+
+  const segments = clockwise.flatMap((segment): Omit<OutlineSegment, 'id'>[] => {
+    if (segment.bulge === 0) {
+      return [{ start: toPiece(segment.start), end: toPiece(segment.end) }];
+    }
+
+    const { center, radius, sweep } = getArc(segment);
+    if (segment.bulge < 0) {
+      return [{ start: toPiece(segment.start), end: toPiece(segment.end), arc: { center: toPiece(center), radius: round(radius * scale) } }];
+    }
+
+    const steps = Math.max(1, Math.ceil(sweep / MAX_ARC_STEP));
+    const startAngle = Math.atan2(segment.start.y - center.y, segment.start.x - center.x);
+    const points = Array.from({ length: steps + 1 }, (_, i) => i === 0 ? segment.start : i === steps ? segment.end : {
+      x: center.x + Math.cos(startAngle + (sweep * i) / steps) * radius,
+      y: center.y + Math.sin(startAngle + (sweep * i) / steps) * radius,
+    });
+    return points.slice(1).map((point, i) => ({ start: toPiece(points[i]), end: toPiece(point) }));
+  });
+
+  // Number the edges from the top-left corner, clockwise
+  const first = segments.reduce((best, segment, i) => {
+    const { x, y } = segment.start;
+    const current = segments[best].start;
+    return y < current.y - 1e-6 || (Math.abs(y - current.y) <= 1e-6 && x < current.x) ? i : best;
+  }, 0);
+
+  return [...segments.slice(first), ...segments.slice(0, first)].map((segment, i) => ({ id: `edge-${i + 1}`, ...segment }));
+}
+
+/**
+ * Works out the cutout a loop inside a piece stands for: a drilled hole or round sink, an oval, or a
+ * rectangle with square or equally rounded corners. Other shapes give the rectangle around them
+ */
+function getCutout(loop: DxfSegment[], toPiece: (point: Point) => Point, id: string): { cutout: Cutout; exact: boolean } {
+  const bounds = getBounds(loop);
+  const topLeft = toPiece({ x: bounds.minX, y: bounds.maxY });
+  const bottomRight = toPiece({ x: bounds.maxX, y: bounds.minY });
+  const width = round(bottomRight.x - topLeft.x);
+  const height = round(bottomRight.y - topLeft.y);
+  const center = { x: round((topLeft.x + bottomRight.x) / 2), y: round((topLeft.y + bottomRight.y) / 2) };
+  const scale = width / Math.max(bounds.maxX - bounds.minX, 1e-9);
+
+  const create = (type: CutoutType, cornerRadius?: number): Cutout => ({
+    id,
+    type,
+    label: getCutoutTypeLabel(type),
+    width,
+    height: type === 'hole' ? width : height,
+    ...(type === 'rectangle' ? { cornerRadius: round(cornerRadius ?? 0) } : {}),
+    xReference: 'left',
+    xOffset: center.x,
+    yReference: 'top',
+    yOffset: center.y,
+  });
+
+  const near = (a: number, b: number) => Math.abs(a - b) <= Math.max(width, height) * 1e-3;
+  const arcs = loop.filter(segment => segment.bulge !== 0).map(getArc);
+  const lines = loop.filter(segment => segment.bulge === 0);
+
+  // Circle: every segment an arc about the same center
+  if (lines.length === 0 && arcs.length > 0 && near(width, height)) {
+    return { cutout: create(width <= MAX_HOLE_DIAMETER ? 'hole' : 'oval'), exact: true };
+  }
+
+  // Rectangle: four axis-aligned sides, with four equal corner arcs or none
+  const axisAligned = lines.every(({ start, end }) => Math.abs(start.x - end.x) < 1e-9 || Math.abs(start.y - end.y) < 1e-9);
+  if (lines.length === 4 && axisAligned && (arcs.length === 0 || (arcs.length === 4 && arcs.every(arc => near(arc.radius, arcs[0].radius))))) {
+    return { cutout: create('rectangle', arcs.length > 0 ? arcs[0].radius * scale : 0), exact: true };
+  }
+
+  // Oval traced as a polygon: every vertex on the ellipse filling the bounding box
+  const cx = (bounds.minX + bounds.maxX) / 2;
+  const cy = (bounds.minY + bounds.maxY) / 2;
+  const rx = (bounds.maxX - bounds.minX) / 2;
+  const ry = (bounds.maxY - bounds.minY) / 2;
+  if (arcs.length === 0 && lines.length >= 8 && rx > 0 && ry > 0 &&
+    lines.every(({ start }) => Math.abs(((start.x - cx) / rx) ** 2 + ((start.y - cy) / ry) ** 2 - 1) < 0.01)) {
+    return { cutout: create('oval'), exact: true };
+  }
+
+  return { cutout: create('rectangle'), exact: false };
+}
+
+/**
+ * Tests whether an outline is a rectangle with its sides along the axes
+ */
+function isAxisAlignedRectangle(outline: OutlineSegment[]): boolean {
+  return outline.length === 4 && outline.every(({ start, end, arc }) =>
+    !arc && (Math.abs(start.x - end.x) < 1e-9 || Math.abs(start.y - end.y) < 1e-9));
+}
+
+/**
+ * Splits an arc into segments of at most a half turn, since a bulge can't describe a full circle
+ */
+function splitArc(start: Point, end: Point, center: Point, radius: number, sweep: number): DxfSegment[] {
+  if (sweep <= Math.PI) {
+    return [{ start, end, bulge: Math.tan(sweep / 4) }];
+  }
+
+  const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+  const middle = { x: center.x + Math.cos(startAngle + sweep / 2) * radius, y: center.y + Math.sin(startAngle + sweep / 2) * radius };
+  const half = Math.tan(sweep / 8);
+  return [{ start, end: middle, bulge: half }, { start: middle, end, bulge: half }];
+}
+
+/**
+ * Returns the center, radius and sweep of an arc segment
+ */
+function getArc({ start, end, bulge }: DxfSegment): { center: Point; radius: number; sweep: number } {
+  const chord = Math.hypot(end.x - start.x, end.y - start.y);
+  const sweep = 4 * Math.atan(Math.abs(bulge));
+  const radius = chord / (2 * Math.sin(sweep / 2));
+
+  // The center is off the middle of the chord, to the left for counterclockwise arcs
+  const distance = (radius * Math.cos(sweep / 2)) * Math.sign(bulge);
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  const normal = { x: -(end.y - start.y) / chord, y: (end.x - start.x) / chord };
+  return { center: { x: mid.x + normal.x * distance, y: mid.y + normal.y * distance }, radius, sweep };
+}
+
+/**
+ * Returns a loop traced the other way round
+ */
+function reverseSegments(segments: DxfSegment[]): DxfSegment[] {
+  return [...segments].reverse().map(({ start, end, bulge }) => ({ start: end, end: start, bulge: -bulge }));
+}
+
+/**
+ * Returns the area of a loop, positive when it runs counterclockwise, including the bulge of its arcs
+ */
+function getSignedArea(loop: DxfSegment[]): number {
+  return loop.reduce((area, segment) => {
+    const { start, end, bulge } = segment;
+    let next = area + (start.x * end.y - end.x * start.y) / 2;
+    if (bulge !== 0) {
+      const { radius, sweep } = getArc(segment);
+      next += Math.sign(bulge) * (radius * radius * (sweep - Math.sin(sweep))) / 2;
+    }
+    return next;
+  }, 0);
+}
+
+/**
+ * Returns a loop as a polygon, with its arcs split into short straight runs
+ */
+function getPolygon(loop: DxfSegment[]): Point[] {
+  return loop.flatMap(segment => {
+    if (segment.bulge === 0) return [segment.start];
+
+    const { center, radius, sweep } = getArc(segment);
+    const steps = Math.max(2, Math.ceil(sweep / MAX_ARC_STEP));
+    const startAngle = Math.atan2(segment.start.y - center.y, segment.start.x - center.x);
+    const direction = Math.sign(segment.bulge);
+    return Array.from({ length: steps }, (_, i) => ({
+      x: center.x + Math.cos(startAngle + (direction * sweep * i) / steps) * radius,
+      y: center.y + Math.sin(startAngle + (direction * sweep * i) / steps) * radius,
+    }));
+  });
+}
+
+/**
+ * Returns the bounding box of a loop, including the parts of its arcs that bulge past its vertices
+ */
+function getBounds(loop: DxfSegment[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  const points = getPolygon(loop);
+  loop.forEach(segment => {
+    if (segment.bulge === 0) return;
+
+    // Extreme points of the circle that fall on the arc
+    const { center, radius, sweep } = getArc(segment);
+    const startAngle = Math.atan2(segment.start.y - center.y, segment.start.x - center.x);
+    for (let k = 0; k < 4; k++) {
+      const angle = (k * Math.PI) / 2;
+      const turn = Math.PI * 2;
+      const along = segment.bulge > 0
+        ? (((angle - startAngle) % turn) + turn) % turn
+        : (((startAngle - angle) % turn) + turn) % turn;
+      if (along <= sweep) {
+        points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+      }
+    }
+  });
+
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+}
+
+/**
+ * Tests whether a point falls inside a polygon
+ */
+function isInsidePolygon(polygon: Point[], point: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Rounds away floating point noise from unit conversion
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
@@ -0,0 +1,410 @@
+"use client"
+
+import { DimensionTerminator, OutlineSegment, Point, Seam, StoneSpecifications } from '@/types/stone';
+import { SceneDimension, ScenePathCommand, getDimensionGeometry, getDimensionItems, getLayer, parseFont } from '@/lib/scene-utils';
+import { buildStoneScene } from '@/lib/mockup-scene-utils';
+import { getArcAngles, getPieceOutline, getPointAlongSegment, getSegmentLength } from '@/lib/shape-utils';
+import { getCutoutCenter, getCutoutSize } from '@/lib/cutout-utils';
+import { getValidSeams } from '@/lib/seam-utils';
+import { getEdgeProfileLabel, getEdgeProfiles } from '@/lib/edge-profile-utils';
+
+/**
+ * Utility functions for DXF output of pieces for CNC saws and CAD. Files are AutoCAD R12 ASCII DXF
+ * in inches, with Y up and each piece's bounding box resting on the X axis
+ */
+
+export type DxfLayerName = 'OUTLINE' | 'CUTOUTS' | 'SEAMS' | 'POLISHED_EDGES' | 'DIMENSIONS' | 'LABELS';
+
+// AutoCAD color number and line type of each layer
+export const DXF_LAYERS: Record<DxfLayerName, { color: number; lineType: 'CONTINUOUS' | 'DASHED' }> = {
+  OUTLINE: { color: 7, lineType: 'CONTINUOUS' },
+  CUTOUTS: { color: 1, lineType: 'CONTINUOUS' },
+  SEAMS: { color: 4, lineType: 'DASHED' },
+  POLISHED_EDGES: { color: 5, lineType: 'CONTINUOUS' },
+  DIMENSIONS: { color: 3, lineType: 'CONTINUOUS' },
+  LABELS: { color: 8, lineType: 'CONTINUOUS' },
+};
+
+// A piece placed in a DXF file, with an optional name written beneath it
+export interface DxfPiece {
+  specs: StoneSpecifications;
+  label?: string;
+}
+
+// Dimensions are laid out at a sixteenth of an inch to the drawing unit, so 14px labels come out 7/8" tall
+const DIMENSION_UNITS_PER_INCH = 16;
+
+// Gap between pieces in a project file, leaving room for their dimensions
+const PIECE_SPACING = 24;
+
+// Text heights, in inches
+const EDGE_LABEL_HEIGHT = 0.75;
+const PIECE_LABEL_HEIGHT = 1.5;
+
+// Ovals are written as closed polylines, since R12 has no ellipse entity
+const ELLIPSE_SEGMENTS = 72;
+
+// Entities and dimension blocks gathered while writing a file
+interface DxfDrawing {
+  entities: string[];
+  blocks: string[];
+  blockCount: number;
+}
+
+// Polyline vertex; the bulge is the tangent of a quarter of the arc's sweep to the next vertex, negative for clockwise
+interface DxfVertex extends Point {
+  bulge?: number;
+}
+
+/**
+ * Writes a single piece as a DXF file
+ * @param terminator End marks of the dimension lines
+ */
+export function pieceToDXF(specs: StoneSpecifications, terminator: DimensionTerminator = 'tick'): string {
+  return piecesToDXF([{ specs }], terminator);
+}
+
+/**
+ * Writes several pieces as a DXF file, laid out left to right with their names beneath them
+ * @param terminator End marks of the dimension lines
+ */
+export function piecesToDXF(pieces: DxfPiece[], terminator: DimensionTerminator = 'tick'): string {
+  const drawing: DxfDrawing = { entities: [], blocks: [], blockCount: 0 };
+
+  let x = 0;
+  pieces.forEach(piece => {
+    addPiece(drawing, piece.specs, x, terminator);
+    if (piece.label) {
+      addText(drawing.entities, 'LABELS', piece.label, { x, y: -PIECE_LABEL_HEIGHT * 2 }, PIECE_LABEL_HEIGHT);
+    }
+    x += piece.specs.width + PIECE_SPACING;
+  });
+
+  return [
+    ...getHeader(),
+    ...getTables(),
+    ...group(0, 'SECTION'), ...group(2, 'BLOCKS'), ...drawing.blocks, ...group(0, 'ENDSEC'),
+    ...group(0, 'SECTION'), ...group(2, 'ENTITIES'), ...drawing.entities, ...group(0, 'ENDSEC'),
+    ...group(0, 'EOF'),
+  ].join('\r\n');
+}
+
+/**
+ * Triggers a browser download of a DXF file
+ */
+export function downloadDXF(dxf: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([dxf], { type: 'application/dxf' }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Adds a piece's outline, cutouts, seams, polished edges and dimensions with its bounding box's
+ * bottom-left corner at (left, 0)
+ */
+function addPiece(drawing: DxfDrawing, specs: StoneSpecifications, left: number, terminator: DimensionTerminator) {
+  // Outline coordinates run down from the top-left corner
+  const toDxf = (point: Point): Point => ({ x: left + point.x, y: specs.height - point.y });
+  const outline = getPieceOutline(specs);
+  const { entities } = drawing;
+
+  addPolyline(entities, 'OUTLINE', outline.map(segment => ({ ...toDxf(segment.start), bulge: getBulge(segment) })), true);
+
+  (specs.cutouts ?? []).forEach(cutout => {
+    const center = toDxf(getCutoutCenter(specs, cutout));
+    const { width, height } = getCutoutSize(cutout);
+
+    if (cutout.type === 'rectangle') {
+      addPolyline(entities, 'CUTOUTS', getRoundedRectVertices(center, width, height, cutout.cornerRadius ?? 0), true);
+    } else if (cutout.type === 'hole' || width === height) {
+      entities.push(...group(0, 'CIRCLE'), ...group(8, 'CUTOUTS'), ...point(10, center), ...group(40, format(width / 2)));
+    } else {
+      const vertices = Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        return { x: center.x + Math.cos(angle) * width / 2, y: center.y + Math.sin(angle) * height / 2 };
+      });
+      addPolyline(entities, 'CUTOUTS', vertices, true);
+    }
+  });
+
+  getValidSeams(specs).forEach(seam => {
+    getSeamRuns(outline, seam).forEach(([start, end]) => addLine(entities, 'SEAMS', toDxf(start), toDxf(end)));
+  });
+
+  // Polished edges traced over the outline, each labeled with its profile just inside the piece
+  const edgeProfiles = getEdgeProfiles(specs);
+  outline.forEach(segment => {
+    const profile = edgeProfiles[segment.id];
+    if (!profile) return;
+
+    if (segment.arc) {
+      const { startAngle, endAngle } = getArcAngles(segment);
+      const center = toDxf(segment.arc.center);
+      entities.push(
+        ...group(0, 'ARC'), ...group(8, 'POLISHED_EDGES'), ...point(10, center), ...group(40, format(segment.arc.radius)),
+        // Clockwise from start to end on screen is counterclockwise from end to start with Y up
+        ...group(50, format(toDegrees(-endAngle))), ...group(51, format(toDegrees(-startAngle)))
+      );
+    } else {
+      addLine(entities, 'POLISHED_EDGES', toDxf(segment.start), toDxf(segment.end));
+    }
+
+    const length = getSegmentLength(segment);
+    if (length === 0) return;
+
+    // The inside of a clockwise outline is a quarter turn clockwise from each segment on screen
+    const mid = getPointAlongSegment(segment, length / 2);
+    const direction = { x: (segment.end.x - segment.start.x) / length, y: (segment.end.y - segment.start.y) / length };
+    const inside = { x: mid.x - direction.y * EDGE_LABEL_HEIGHT * 1.5, y: mid.y + direction.x * EDGE_LABEL_HEIGHT * 1.5 };
+    let rotation = -Math.atan2(direction.y, direction.x);
+    if (rotation > Math.PI / 2 + 1e-9) rotation -= Math.PI;
+    if (rotation <= -Math.PI / 2 + 1e-9) rotation += Math.PI;
+    addText(entities, 'POLISHED_EDGES', getEdgeProfileLabel(profile), toDxf(inside), EDGE_LABEL_HEIGHT, 'center', rotation);
+  });
+
+  addDimensions(drawing, specs, toDxf, terminator);
+}
+
+/**
+ * Adds the dimensions of the preview drawing as DIMENSION entities, each drawn by its own anonymous block
+ */
+function addDimensions(drawing: DxfDrawing, specs: StoneSpecifications, toDxf: (point: Point) => Point, terminator: DimensionTerminator) {
+  const padding = 40;
+  const scene = buildStoneScene(
+    specs,
+    { showGrid: false, showPolishedEdges: false, scale: 1, padding, dimensionTerminator: terminator },
+    specs.width * DIMENSION_UNITS_PER_INCH + padding * 2,
+    specs.height * DIMENSION_UNITS_PER_INCH + padding * 2
+  );
+  const fromScene = (p: Point) => toDxf({ x: (p.x - scene.origin.x) / scene.scale, y: (p.y - scene.origin.y) / scene.scale });
+
+  getLayer(scene, 'dimensions').items.forEach(item => {
+    if (item.type !== 'dimension') return;
+
+    const parts = getDimensionItems(item);
+    if (parts.length === 0) return;
+
+    drawing.blockCount++;
+    const name = `*D${drawing.blockCount}`;
+    const block: string[] = [];
+    let textPoint = fromScene({ x: (item.start.x + item.end.x) / 2, y: (item.start.y + item.end.y) / 2 });
+
+    parts.forEach(part => {
+      if (part.type === 'text') {
+        textPoint = fromScene(part);
+        addText(block, '0', part.text, textPoint, parseFont(part.font).size / scene.scale, part.align, -(part.rotation ?? 0));
+      } else {
+        getPolylines(part.commands).forEach(({ points, closed }) => addPolyline(block, '0', points.map(fromScene), closed));
+      }
+    });
+
+    drawing.blocks.push(
+      ...group(0, 'BLOCK'), ...group(8, '0'), ...group(2, name), ...group(70, '1'), ...point(10, { x: 0, y: 0 }), ...group(3, name),
+      ...block,
+      ...group(0, 'ENDBLK'), ...group(8, '0')
+    );
+    drawing.entities.push(...getDimensionEntity(item, name, fromScene, textPoint));
+  });
+}
+
+/**
+ * Returns a DIMENSION entity: linear along an axis, or aligned between its points
+ */
+function getDimensionEntity(dimension: SceneDimension, block: string, fromScene: (point: Point) => Point, textPoint: Point): string[] {
+  const geometry = getDimensionGeometry(dimension);
+  if (!geometry) return [];
+  const aligned = !dimension.axis;
+
+  // The definition point is the end of the dimension line beside the second point
+  return [
+    ...group(0, 'DIMENSION'), ...group(8, 'DIMENSIONS'), ...group(2, block),
+    ...point(10, fromScene(geometry.lineEnd)), ...point(11, textPoint),
+    ...group(70, aligned ? '1' : '0'),
+    ...group(1, encodeText(dimension.label)),
+    ...point(13, fromScene(dimension.start)), ...point(14, fromScene(dimension.end)),
+    ...(aligned ? [] : group(50, dimension.axis === 'vertical' ? '90' : '0')),
+  ];
+}
+
+/**
+ * Returns the parts of a seam line that fall inside an outline, treating its arcs as straight
+ */
+function getSeamRuns(outline: OutlineSegment[], seam: Seam): [Point, Point][] {
+  const vertical = seam.orientation === 'vertical';
+  const crossings: number[] = [];
+
+  outline.forEach(({ start, end }) => {
+    const a = vertical ? start.x : start.y;
+    const b = vertical ? end.x : end.y;
+    if ((a > seam.position) === (b > seam.position)) return;
+
+    const t = (seam.position - a) / (b - a);
+    crossings.push(vertical ? start.y + t * (end.y - start.y) : start.x + t * (end.x - start.x));
+  });
+  crossings.sort((a, b) => a - b);
+
+  const runs: [Point, Point][] = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    runs.push(vertical
+      ? [{ x: seam.position, y: crossings[i] }, { x: seam.position, y: crossings[i + 1] }]
+      : [{ x: crossings[i], y: seam.position }, { x: crossings[i + 1], y: seam.position }]);
+  }
+  return runs;
+}
+
+/**
+ * Returns the polyline bulge from an outline segment's start to its end
+ */
+function getBulge(segment: OutlineSegment): number | undefined {
+  if (!segment.arc) return undefined;
+
+  const { startAngle, endAngle } = getArcAngles(segment);
+  const turn = Math.PI * 2;
+  const sweep = (((endAngle - startAngle) % turn) + turn) % turn;
+  return -Math.tan(sweep / 4);
+}
+
+/**
+ * Returns the corners of a rectangle with rounded corners, clockwise from the top-left, in Y-up coordinates
+ */
+function getRoundedRectVertices(center: Point, width: number, height: number, cornerRadius: number): DxfVertex[] {
+  const radius = Math.min(cornerRadius, width / 2, height / 2);
+  const left = center.x - width / 2;
+  const right = center.x + width / 2;
+  const top = center.y + height / 2;
+  const bottom = center.y - height / 2;
+  if (radius <= 0) {
+    return [{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }];
+  }
+
+  // A quarter turn clockwise around each corner
+  const bulge = -Math.tan(Math.PI / 8);
+  return [
+    { x: left + radius, y: top }, { x: right - radius, y: top, bulge },
+    { x: right, y: top - radius }, { x: right, y: bottom + radius, bulge },
+    { x: right - radius, y: bottom }, { x: left + radius, y: bottom, bulge },
+    { x: left, y: bottom + radius }, { x: left, y: top - radius, bulge },
+  ];
+}
+
+/**
+ * Splits straight-line path commands into polylines. Dimension lines, ticks and arrowheads use only these
+ */
+function getPolylines(commands: ScenePathCommand[]): { points: Point[]; closed: boolean }[] {
+  const polylines: { points: Point[]; closed: boolean }[] = [];
+  let current: { points: Point[]; closed: boolean } | null = null;
+
+  commands.forEach(command => {
+    switch (command.type) {
+      case 'move':
+        current = { points: [{ x: command.x, y: command.y }], closed: false };
+        polylines.push(current);
+        break;
+      case 'line':
+        current?.points.push({ x: command.x, y: command.y });
+        break;
+      case 'rect': {
+        const { x, y, width, height } = command;
+        polylines.push({ points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], closed: true });
+        current = null;
+        break;
+      }
+      case 'close':
+        if (current) current.closed = true;
+        current = null;
+        break;
+    }
+  });
+
+  return polylines.filter(polyline => polyline.points.length > 1);
+}
+
+function addLine(entities: string[], layer: string, start: Point, end: Point) {
+  entities.push(...group(0, 'LINE'), ...group(8, layer), ...point(10, start), ...point(11, end));
+}
+
+function addPolyline(entities: string[], layer: string, vertices: DxfVertex[], closed: boolean) {
+  entities.push(...group(0, 'POLYLINE'), ...group(8, layer), ...group(66, '1'), ...point(10, { x: 0, y: 0 }), ...group(70, closed ? '1' : '0'));
+  vertices.forEach(vertex => {
+    entities.push(...group(0, 'VERTEX'), ...group(8, layer), ...point(10, vertex));
+    if (vertex.bulge) entities.push(...group(42, format(vertex.bulge)));
+  });
+  entities.push(...group(0, 'SEQEND'), ...group(8, layer));
+}
+
+/**
+ * Adds a line of text on its baseline
+ * @param rotation Counterclockwise, in radians
+ */
+function addText(
+  entities: string[],
+  layer: string,
+  text: string,
+  position: Point,
+  height: number,
+  align: 'left' | 'center' | 'right' = 'left',
+  rotation: number = 0
+) {
+  entities.push(...group(0, 'TEXT'), ...group(8, layer), ...point(10, position), ...group(40, format(height)), ...group(1, encodeText(text)));
+  if (Math.abs(rotation) > 1e-9) entities.push(...group(50, format(toDegrees(rotation))));
+  if (align !== 'left') entities.push(...group(72, align === 'center' ? '1' : '2'), ...point(11, position));
+}
+
+// R12 has no header variable for drawing units, so files are left unitless and read as inches
+function getHeader(): string[] {
+  return [
+    ...group(0, 'SECTION'), ...group(2, 'HEADER'),
+    ...group(9, '$ACADVER'), ...group(1, 'AC1009'),
+    ...group(0, 'ENDSEC'),
+  ];
+}
+
+function getTables(): string[] {
+  const layers = Object.entries(DXF_LAYERS) as [DxfLayerName, (typeof DXF_LAYERS)[DxfLayerName]][];
+
+  return [
+    ...group(0, 'SECTION'), ...group(2, 'TABLES'),
+    ...group(0, 'TABLE'), ...group(2, 'LTYPE'), ...group(70, '2'),
+    ...group(0, 'LTYPE'), ...group(2, 'CONTINUOUS'), ...group(70, '0'), ...group(3, 'Solid line'),
+    ...group(72, '65'), ...group(73, '0'), ...group(40, '0'),
+    ...group(0, 'LTYPE'), ...group(2, 'DASHED'), ...group(70, '0'), ...group(3, 'Dashed __ __ __'),
+    ...group(72, '65'), ...group(73, '2'), ...group(40, '1.5'), ...group(49, '1'), ...group(49, '-0.5'),
+    ...group(0, 'ENDTAB'),
+    ...group(0, 'TABLE'), ...group(2, 'LAYER'), ...group(70, String(layers.length + 1)),
+    ...group(0, 'LAYER'), ...group(2, '0'), ...group(70, '0'), ...group(62, '7'), ...group(6, 'CONTINUOUS'),
+    ...layers.flatMap(([name, { color, lineType }]) => [
+      ...group(0, 'LAYER'), ...group(2, name), ...group(70, '0'), ...group(62, String(color)), ...group(6, lineType),
+    ]),
+    ...group(0, 'ENDTAB'),
+    ...group(0, 'ENDSEC'),
+  ];
+}
+
+// A group code line followed by its value line
+function group(code: number, value: string): string[] {
+  return [String(code).padStart(3, ' '), value];
+}
+
+// X, Y and Z of a point under a group code and the codes 10 and 20 above it
+function point(code: number, { x, y }: Point): string[] {
+  return [...group(code, format(x)), ...group(code + 10, format(y)), ...group(code + 20, '0')];
+}
+
+function format(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+function toDegrees(radians: number): number {
+  return (((radians * 180) / Math.PI) % 360 + 360) % 360;
+}
+
+// Characters outside ASCII as AutoCAD unicode escapes, since R12 files are read in the drawing's code page
+function encodeText(value: string): string {
+  return value.replace(/[^\x20-\x7e]/g, char => `\\U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`);
+}
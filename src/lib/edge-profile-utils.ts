@@ -0,0 +1,96 @@
+"use client"
+
+import { EdgeProfile, StoneSpecifications } from '@/types/stone';
+import { getPieceOutline } from '@/lib/shape-utils';
+
+/**
+ * Utility functions for the profiles of finished edges
+ */
+
+export const EDGE_PROFILES: EdgeProfile[] = ['eased', 'half-bullnose', 'full-bullnose', 'ogee', 'bevel', 'mitered'];
+
+// The profile given to an edge when it is first marked as finished
+export const DEFAULT_EDGE_PROFILE: EdgeProfile = 'eased';
+
+const PROFILE_LABELS: Record<EdgeProfile, string> = {
+  'eased': 'Eased',
+  'half-bullnose': 'Half Bullnose',
+  'full-bullnose': 'Full Bullnose',
+  'ogee': 'Ogee',
+  'bevel': 'Bevel',
+  'mitered': 'Mitered Apron',
+};
+
+export interface EdgeProfileStyle {
+  color: string;
+  lineWidth: number;
+  dash: number[];
+}
+
+// Eased edges keep the solid red line used for polished edges before profiles existed
+const PROFILE_STYLES: Record<EdgeProfile, EdgeProfileStyle> = {
+  'eased': { color: 'red', lineWidth: 4, dash: [] },
+  'half-bullnose': { color: '#ea580c', lineWidth: 4, dash: [12, 4] },
+  'full-bullnose': { color: '#7c3aed', lineWidth: 6, dash: [] },
+  'ogee': { color: '#16a34a', lineWidth: 4, dash: [2, 4] },
+  'bevel': { color: '#0891b2', lineWidth: 4, dash: [12, 4, 2, 4] },
+  'mitered': { color: '#be185d', lineWidth: 4, dash: [6, 6] },
+};
+
+/**
+ * Returns the display name of an edge profile
+ */
+export function getEdgeProfileLabel(profile: EdgeProfile): string {
+  return PROFILE_LABELS[profile] || profile;
+}
+
+/**
+ * Returns the line style used to draw an edge profile on the mockup
+ */
+export function getEdgeProfileStyle(profile: EdgeProfile): EdgeProfileStyle {
+  return PROFILE_STYLES[profile] || PROFILE_STYLES[DEFAULT_EDGE_PROFILE];
+}
+
+/**
+ * Returns the profile of each finished edge of a piece.
+ * Pieces saved before profiles were introduced only list their polished edges, which are read as eased
+ */
+export function getEdgeProfiles(specs: StoneSpecifications): Record<string, EdgeProfile> {
+  if (specs.edgeProfiles) {
+    return specs.edgeProfiles;
+  }
+
+  const legacyEdges = Array.isArray(specs.polishedEdges) ? specs.polishedEdges : [];
+  return Object.fromEntries(legacyEdges.map(edge => [edge, DEFAULT_EDGE_PROFILE]));
+}
+
+/**
+ * Returns the finished edges of a piece with their profiles, in outline order
+ */
+export function getProfiledEdges(specs: StoneSpecifications): [string, EdgeProfile][] {
+  const edgeProfiles = getEdgeProfiles(specs);
+  return getPieceOutline(specs)
+    .filter(segment => edgeProfiles[segment.id])
+    .map(segment => [segment.id, edgeProfiles[segment.id]]);
+}
+
+/**
+ * Returns the distinct profiles used on a piece, in the order of EDGE_PROFILES
+ */
+export function getUsedEdgeProfiles(specs: StoneSpecifications): EdgeProfile[] {
+  const used = getProfiledEdges(specs).map(([, profile]) => profile);
+  return EDGE_PROFILES.filter(profile => used.includes(profile));
+}
+
+/**
+ * Moves an edge on to its next finish: unpolished, then each profile in the order of EDGE_PROFILES, then unpolished again
+ */
+export function cycleEdgeProfile(edgeProfiles: Record<string, EdgeProfile>, edge: string): Record<string, EdgeProfile> {
+  const current = edgeProfiles[edge];
+  const next = current ? EDGE_PROFILES[EDGE_PROFILES.indexOf(current) + 1] : EDGE_PROFILES[0];
+
+  if (!next) {
+    return Object.fromEntries(Object.entries(edgeProfiles).filter(([id]) => id !== edge));
+  }
+  return { ...edgeProfiles, [edge]: next };
+}
@@ -0,0 +1,236 @@
+"use client"
+
+import { CatalogMaterial, CutoutType, EdgeProfile, StonePiece } from '@/types/stone';
+import { getPieceAreaSqFt, getPieceOutline, getSegmentLength } from '@/lib/shape-utils';
+import { EDGE_PROFILES, getEdgeProfileLabel, getEdgeProfiles } from '@/lib/edge-profile-utils';
+import { getCutoutTypeLabel } from '@/lib/cutout-utils';
+import { DEFAULT_MATERIAL_CATALOG, getCatalogMaterial, getMaterialKey, getMaterialName } from '@/lib/material-catalog-utils';
+import { NestingResult } from '@/lib/nesting-utils';
+
+/**
+ * Utility functions for pricing a job from its saved pieces
+ */
+
+export interface PriceList {
+  defaultMaterialPricePerSqFt: number; // For pieces without a catalog color
+  fabricationPerSqFt: number;
+  edgeProfilePerLinearFt: Record<EdgeProfile, number>;
+  cutoutPrices: Record<CutoutType, number>;
+  wasteFactor: number; // Extra material charged when the slab layout isn't known, e.g. 0.15 for 15%
+  taxRate: number;
+  depositRate: number;
+}
+
+// Quantities measured from the saved pieces, before any prices are applied
+export interface JobTakeoff {
+  materials: {
+    key: string; // Material key and thickness, e.g. `quartz-msi-calacatta-laza|3cm`
+    name: string;
+    thickness: string;
+    sqFt: number;
+    remnantSqFt: number; // Part of sqFt cut from reserved remnants, which doesn't waste a slab
+    pricePerSqFt?: number;
+  }[];
+  totalSqFt: number;
+  edgeLinearFt: Partial<Record<EdgeProfile, number>>;
+  cutoutCounts: Partial<Record<CutoutType, number>>;
+}
+
+export interface EstimateLine {
+  description: string;
+  quantity: number;
+  unit: 'sq ft' | 'lin ft' | 'ea';
+  unitPrice: number;
+  amount: number;
+}
+
+export interface Estimate {
+  lines: EstimateLine[];
+  subtotal: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  depositRate: number;
+  deposit: number;
+  balance: number;
+}
+
+export const DEFAULT_PRICE_LIST: PriceList = {
+  defaultMaterialPricePerSqFt: 60,
+  fabricationPerSqFt: 25,
+  edgeProfilePerLinearFt: {
+    'eased': 0,
+    'half-bullnose': 12,
+    'full-bullnose': 18,
+    'ogee': 28,
+    'bevel': 10,
+    'mitered': 45,
+  },
+  cutoutPrices: {
+    rectangle: 250,
+    oval: 300,
+    hole: 35,
+  },
+  wasteFactor: 0.15,
+  taxRate: 0.0825,
+  depositRate: 0.5,
+};
+
+/**
+ * Measures the square footage per material, linear feet of each edge profile and cutout counts of a job.
+ * Every figure counts each copy of a piece
+ */
+export function getJobTakeoff(pieces: StonePiece[], catalog: CatalogMaterial[] = DEFAULT_MATERIAL_CATALOG): JobTakeoff {
+  const materials = new Map<string, JobTakeoff['materials'][number]>();
+  const edgeLinearFt: JobTakeoff['edgeLinearFt'] = {};
+  const cutoutCounts: JobTakeoff['cutoutCounts'] = {};
+  let totalSqFt = 0;
+
+  pieces.forEach(piece => {
+    const { specs } = piece;
+    const quantity = Math.max(1, specs.quantity || 1);
+    const sqFt = getPieceAreaSqFt(specs) * quantity;
+    totalSqFt += sqFt;
+
+    const key = `${getMaterialKey(specs)}|${specs.thickness}`;
+    const material = materials.get(key) || {
+      key,
+      name: getMaterialName(specs),
+      thickness: specs.thickness,
+      sqFt: 0,
+      remnantSqFt: 0,
+      pricePerSqFt: getCatalogMaterial(catalog, specs)?.pricePerSqFt,
+    };
+    materials.set(key, {
+      ...material,
+      sqFt: material.sqFt + sqFt,
+      remnantSqFt: material.remnantSqFt + (specs.remnant ? sqFt : 0),
+    });
+
+    const edgeProfiles = getEdgeProfiles(specs);
+    getPieceOutline(specs).forEach(segment => {
+      const profile = edgeProfiles[segment.id];
+      if (profile) {
+        edgeLinearFt[profile] = (edgeLinearFt[profile] || 0) + (getSegmentLength(segment) / 12) * quantity;
+      }
+    });
+
+    (specs.cutouts || []).forEach(cutout => {
+      cutoutCounts[cutout.type] = (cutoutCounts[cutout.type] || 0) + quantity;
+    });
+  });
+
+  return { materials: Array.from(materials.values()), totalSqFt, edgeLinearFt, cutoutCounts };
+}
+
+/**
+ * Returns the waste factor for a material and thickness: the slab area bought beyond the stone used when
+ * the job has been nested, otherwise the price list's waste factor
+ */
+export function getWasteFactor(key: string, priceList: PriceList, nesting?: NestingResult): number {
+  const slabs = (nesting?.slabs || []).filter(slab => `${slab.materialKey}|${slab.thickness}` === key);
+  const slabArea = slabs.reduce((sum, slab) => sum + slab.size.width * slab.size.height, 0);
+  const usedArea = slabs.reduce(
+    (sum, slab) => sum + slab.placements.reduce((slabSum, placement) => slabSum + placement.part.area, 0),
+    0
+  );
+
+  return usedArea > 0 ? slabArea / usedArea - 1 : priceList.wasteFactor;
+}
+
+/**
+ * Prices a job into itemized lines with subtotal, tax, deposit and balance due
+ */
+export function createEstimate(
+  pieces: StonePiece[],
+  priceList: PriceList = DEFAULT_PRICE_LIST,
+  catalog: CatalogMaterial[] = DEFAULT_MATERIAL_CATALOG,
+  nesting?: NestingResult
+): Estimate {
+  const takeoff = getJobTakeoff(pieces, catalog);
+  const lines: EstimateLine[] = [];
+
+  // Waste is only charged on stone cut from slabs
+  takeoff.materials.forEach(material => {
+    const waste = getWasteFactor(material.key, priceList, nesting);
+    lines.push(createLine(
+      `${material.name}, ${material.thickness} (${material.sqFt.toFixed(2)} sq ft + ${Math.round(waste * 100)}% waste)`,
+      material.sqFt + (material.sqFt - material.remnantSqFt) * waste,
+      'sq ft',
+      material.pricePerSqFt ?? priceList.defaultMaterialPricePerSqFt
+    ));
+  });
+
+  if (takeoff.totalSqFt > 0) {
+    lines.push(createLine('Fabrication and installation', takeoff.totalSqFt, 'sq ft', priceList.fabricationPerSqFt));
+  }
+
+  EDGE_PROFILES.forEach(profile => {
+    const linearFt = takeoff.edgeLinearFt[profile];
+    if (linearFt) {
+      lines.push(createLine(`Edge: ${getEdgeProfileLabel(profile)}`, linearFt, 'lin ft', priceList.edgeProfilePerLinearFt[profile]));
+    }
+  });
+
+  (Object.keys(priceList.cutoutPrices) as CutoutType[]).forEach(type => {
+    const count = takeoff.cutoutCounts[type];
+    if (count) {
+      lines.push(createLine(`Cutout: ${getCutoutTypeLabel(type)}`, count, 'ea', priceList.cutoutPrices[type]));
+    }
+  });
+
+  const subtotal = roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+  const tax = roundCents(subtotal * priceList.taxRate);
+  const total = roundCents(subtotal + tax);
+  const deposit = roundCents(total * priceList.depositRate);
+
+  return {
+    lines,
+    subtotal,
+    taxRate: priceList.taxRate,
+    tax,
+    total,
+    depositRate: priceList.depositRate,
+    deposit,
+    balance: roundCents(total - deposit),
+  };
+}
+
+/**
+ * Returns the summary lines printed under the itemized lines, e.g. `['Subtotal', '$1,234.50']`
+ */
+export function getEstimateTotals(estimate: Estimate): [string, string][] {
+  return [
+    ['Subtotal', formatCurrency(estimate.subtotal)],
+    [`Tax (${formatPercent(estimate.taxRate)})`, formatCurrency(estimate.tax)],
+    ['Total', formatCurrency(estimate.total)],
+    [`Deposit Due (${formatPercent(estimate.depositRate)})`, formatCurrency(estimate.deposit)],
+    ['Balance on Completion', formatCurrency(estimate.balance)],
+  ];
+}
+
+/**
+ * Formats an amount as US dollars, e.g. `$1,234.50`
+ */
+export function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
+
+function createLine(description: string, quantity: number, unit: EstimateLine['unit'], unitPrice: number): EstimateLine {
+  const roundedQuantity = unit === 'ea' ? quantity : Math.round(quantity * 100) / 100;
+  return {
+    description,
+    quantity: roundedQuantity,
+    unit,
+    unitPrice,
+    amount: roundCents(roundedQuantity * unitPrice),
+  };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
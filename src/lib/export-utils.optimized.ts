@@ -1,6 +1,14 @@
 "use client"
 
 import jsPDF from 'jspdf';
+import { StoneSpecifications } from '@/types/stone';
+import { getSpecificationLines } from '@/lib/spec-summary-utils';
+import { addPieceDrawing, addQuotePage, addSeamSectionPages, addSlabLayoutPages, addTitleBlocks, addTemplatePages } from '@/lib/pdf-page-utils';
+import { MockupDrawingOptions, buildTemplateScene } from '@/lib/mockup-scene-utils';
+import { PaperSize, getTemplateLayout } from '@/lib/template-utils';
+import { NestingResult } from '@/lib/nesting-utils';
+import { Estimate } from '@/lib/estimate-utils';
+import { DEFAULT_TITLE_BLOCK_DETAILS, TitleBlockDetails } from '@/lib/title-block-utils';
 
 // Constants for PDF generation
 const PDF_MARGINS = { left: 14, top: 20 };
@@ -9,54 +17,14 @@ const PDF_CONFIG = {
   unit: 'mm' as const,
   format: 'a4' as const
 };
-const IMAGE_SIZE = { width: 180, height: 120 };
 const MAX_TEXT_WIDTH = 180;
 
-// Web Worker for image processing (if available)
-let imageWorker: Worker | null = null;
-
-/**
- * Initialize image processing worker
- */
-function initImageWorker() {
-  if (typeof Worker !== 'undefined' && !imageWorker) {
-    try {
-      const workerCode = `
-        self.onmessage = function(e) {
-          const { imageData, width, height, quality } = e.data;
-          
-          // Process image data
-          const canvas = new OffscreenCanvas(width, height);
-          const ctx = canvas.getContext('2d');
-          
-          if (ctx) {
-            ctx.putImageData(imageData, 0, 0);
-            
-            canvas.convertToBlob({ type: 'image/png', quality })
-              .then(blob => blob.arrayBuffer())
-              .then(buffer => {
-                self.postMessage({ success: true, buffer }, [buffer]);
-              })
-              .catch(error => {
-                self.postMessage({ success: false, error: error.message });
-              });
-          } else {
-            self.postMessage({ success: false, error: 'Failed to get context' });
-          }
-        };
-      `;
-      
-      const blob = new Blob([workerCode], { type: 'application/javascript' });
-      const workerUrl = URL.createObjectURL(blob);
-      imageWorker = new Worker(workerUrl);
-      
-      // Clean up URL after worker is created
-      URL.revokeObjectURL(workerUrl);
-    } catch (error) {
-      console.warn('Failed to create image worker:', error);
-      imageWorker = null;
-    }
-  }
+// Sizes a downloaded PDF is named after; pieces exported with fractions carry them as text
+interface PDFFileSizes {
+  width?: number;
+  height?: number;
+  displayWidth?: string;
+  displayHeight?: string;
 }
 
 /**
@@ -67,65 +35,20 @@ export function isMobileDevice(): boolean {
 }
 
 /**
- * Optimized canvas to data URL conversion
- */
-async function canvasToDataURL(canvas: HTMLCanvasElement, quality: number = 0.95): Promise<string> {
-  return new Promise((resolve, reject) => {
-    // Try to use OffscreenCanvas for better performance
-    if (typeof OffscreenCanvas !== 'undefined' && canvas.transferToImageBitmap) {
-      try {
-        const bitmap = canvas.transferToImageBitmap();
-        const offscreen = new OffscreenCanvas(canvas.width, canvas.height);
-        const ctx = offscreen.getContext('2d');
-        
-        if (ctx) {
-          ctx.drawImage(bitmap, 0, 0);
-          
-          offscreen.convertToBlob({ type: 'image/png', quality })
-            .then(blob => {
-              const reader = new FileReader();
-              reader.onloadend = () => resolve(reader.result as string);
-              reader.onerror = reject;
-              reader.readAsDataURL(blob);
-            })
-            .catch(reject);
-          
-          return;
-        }
-      } catch (error) {
-        // Fall back to standard method
-      }
-    }
-    
-    // Standard method
-    try {
-      const dataUrl = canvas.toDataURL('image/png', quality);
-      resolve(dataUrl);
-    } catch (error) {
-      reject(error);
-    }
-  });
-}
-
-/**
- * Creates a PDF document with stone mockup
- * Optimized for better performance
+ * Creates a PDF document with stone mockup, drawn with vector paths and text
+ * @param canvas Preview canvas; the piece is laid out at its size
  */
 export async function exportToPDF(
   canvas: HTMLCanvasElement, 
   specs: any, 
   notes?: string, 
-  isMobile: boolean = false
+  isMobile: boolean = false,
+  options: MockupDrawingOptions = {},
+  titleBlock: TitleBlockDetails = DEFAULT_TITLE_BLOCK_DETAILS
 ): Promise<void> {
-  // Initialize worker if needed
-  initImageWorker();
-  
   try {
-    // Get image data asynchronously
-    const imgData = await canvasToDataURL(canvas, 0.85); // Reduced quality for faster processing
-    
     // Create PDF document
-    const pdf = createSinglePiecePDF(imgData, specs, notes);
+    const pdf = createSinglePiecePDF(specs, notes, options, canvas.width, canvas.height, titleBlock);
     
     // Handle download
     await handlePDFDownload(pdf, specs, isMobile);
@@ -135,10 +58,33 @@ export async function exportToPDF(
   }
 }
 
+/**
+ * Creates the PDF of a single piece that exportToPDF downloads, as bytes for bundling with other files
+ * @param width Width of the canvas the piece is laid out for, in pixels
+ * @param height Height of the canvas the piece is laid out for, in pixels
+ */
+export function createPiecePDF(
+  specs: StoneSpecifications,
+  notes?: string,
+  options: MockupDrawingOptions = {},
+  width: number = 800,
+  height: number = 600,
+  titleBlock: TitleBlockDetails = DEFAULT_TITLE_BLOCK_DETAILS
+): ArrayBuffer {
+  return createSinglePiecePDF(specs, notes, options, width, height, titleBlock).output('arraybuffer');
+}
+
 /**
  * Creates a PDF document for a single stone piece
  */
-function createSinglePiecePDF(imgData: string, specs: any, notes?: string): jsPDF {
+function createSinglePiecePDF(
+  specs: any,
+  notes: string | undefined,
+  options: MockupDrawingOptions,
+  width: number,
+  height: number,
+  titleBlock: TitleBlockDetails
+): jsPDF {
   // Create a new PDF document
   const pdf = new jsPDF(PDF_CONFIG);
 
@@ -152,31 +98,40 @@ function createSinglePiecePDF(imgData: string, specs: any, notes?: string): jsPD
 
   // Add specifications
   pdf.setFontSize(12);
-  pdf.text(`Material: ${specs.materialType}`, PDF_MARGINS.left, PDF_MARGINS.top + 10);
-  pdf.text(`Thickness: ${specs.thickness}`, PDF_MARGINS.left, PDF_MARGINS.top + 17);
-  pdf.text(`Quantity: ${specs.quantity || 1}`, PDF_MARGINS.left, PDF_MARGINS.top + 24);
-
-  // Add polished edges information - with safety check for undefined
-  const polishedEdgesText = specs.polishedEdges && Array.isArray(specs.polishedEdges)
-    ? `Polished Edges: ${specs.polishedEdges.join(', ')}`
-    : 'Polished Edges: None';
-  pdf.text(polishedEdgesText, PDF_MARGINS.left, PDF_MARGINS.top + 31);
+  const specLines = getSpecificationLines(specs);
+  specLines.forEach((line, i) => {
+    pdf.text(line, PDF_MARGINS.left, PDF_MARGINS.top + 10 + i * 7);
+  });
+  const notesY = PDF_MARGINS.top + 10 + specLines.length * 7;
 
   // Add notes if provided
-  let yPosition = PDF_MARGINS.top + 45;
+  let yPosition = notesY + 7;
   if (notes && notes.trim() !== '') {
-    pdf.text('Notes:', PDF_MARGINS.left, PDF_MARGINS.top + 38);
+    pdf.text('Notes:', PDF_MARGINS.left, notesY);
 
     // Split notes into lines to avoid text overflow
     const textLines = pdf.splitTextToSize(notes, MAX_TEXT_WIDTH);
-    pdf.text(textLines, PDF_MARGINS.left, PDF_MARGINS.top + 45);
+    pdf.text(textLines, PDF_MARGINS.left, notesY + 7);
 
     // Adjust position based on text height (approximate)
-    yPosition += Math.min(textLines.length * 5, 60); // Cap maximum shift to avoid image going off-page
+    yPosition += Math.min(textLines.length * 5, 60); // Cap maximum shift to avoid the drawing going off-page
+  }
+
+  // Add the mockup drawing
+  try {
+    addPieceDrawing(pdf, specs, yPosition, options, width, height);
+  } catch (error) {
+    console.error('Error drawing piece:', error);
+    pdf.setTextColor(255, 0, 0);
+    pdf.text('Error: Could not draw piece', PDF_MARGINS.left, yPosition + 60);
+    pdf.setTextColor(0, 0, 0);
   }
 
-  // Add the mockup image
-  pdf.addImage(imgData, 'PNG', PDF_MARGINS.left, yPosition, IMAGE_SIZE.width, IMAGE_SIZE.height);
+  // Add a page for each section of a seamed piece
+  addSeamSectionPages(pdf, specs, 'Stone Mockup');
+
+  // Title blocks go on last, once the number of sheets is known
+  addTitleBlocks(pdf, titleBlock);
 
   return pdf;
 }
@@ -184,11 +139,11 @@ function createSinglePiecePDF(imgData: string, specs: any, notes?: string): jsPD
 /**
  * Handles PDF download based on platform
  */
-async function handlePDFDownload(pdf: jsPDF, specs: any, isMobile: boolean): Promise<void> {
+async function handlePDFDownload(pdf: jsPDF, specs: PDFFileSizes, isMobile: boolean, filePrefix: string = 'stone-mockup'): Promise<void> {
   // Generate filename
   const displayWidth = specs.displayWidth || specs.width;
   const displayHeight = specs.displayHeight || specs.height;
-  const filename = `stone-mockup-${displayWidth}x${displayHeight}.pdf`;
+  const filename = `${filePrefix}-${displayWidth}x${displayHeight}.pdf`;
 
   // Handle mobile devices differently
   if (isMobile) {
@@ -226,14 +181,43 @@ async function handlePDFDownload(pdf: jsPDF, specs: any, isMobile: boolean): Pro
 }
 
 /**
- * Exports multiple stone pieces to a single PDF
+ * Exports a piece at full size, tiled across Letter or A4 pages with overlaps, crosshairs and page labels,
+ * after a cover page with calibration rulers and a page map
+ * @param paperSize Printer paper; the pages are turned whichever way needs fewer of them
+ */
+export async function exportTemplatePDF(
+  specs: StoneSpecifications,
+  paperSize: PaperSize,
+  isMobile: boolean = false,
+  options: MockupDrawingOptions = {}
+): Promise<void> {
+  try {
+    const scene = buildTemplateScene(specs, options);
+    const mmPerUnit = 25.4 / scene.scale;
+    const layout = getTemplateLayout(scene.width * mmPerUnit, scene.height * mmPerUnit, paperSize);
+
+    const pdf = new jsPDF({ orientation: layout.orientation, unit: 'mm', format: paperSize });
+    addTemplatePages(pdf, specs, scene, layout);
+
+    await handlePDFDownload(pdf, specs, isMobile, 'stone-template');
+  } catch (error) {
+    console.error('Error generating template PDF:', error);
+    throw error;
+  }
+}
+
+/**
+ * Exports multiple stone pieces to a single PDF, followed by the slab layouts and quote when they are given
  * Optimized with true async processing
  */
 export async function exportMultipleToPDF(
   canvases: HTMLCanvasElement[],
   specsArray: any[],
   projectName: string,
-  isMobile: boolean = false
+  isMobile: boolean = false,
+  nesting?: NestingResult,
+  estimate?: Estimate,
+  titleBlock: TitleBlockDetails = DEFAULT_TITLE_BLOCK_DETAILS
 ): Promise<void> {
   // Validate inputs
   if (!canvases || !Array.isArray(canvases) || canvases.length === 0) {
@@ -247,9 +231,6 @@ export async function exportMultipleToPDF(
   // Use default name if none provided
   const finalProjectName = projectName || 'Stone Project';
 
-  // Initialize worker if needed
-  initImageWorker();
-
   // Create PDF document
   const pdf = new jsPDF(PDF_CONFIG);
 
@@ -265,11 +246,8 @@ export async function exportMultipleToPDF(
     }
     
     try {
-      // Process canvas to image data
-      const imgData = await canvasToDataURL(canvases[i], 0.85);
-      
-      // Add piece to PDF
-      await addPieceToPDFOptimized(pdf, imgData, specsArray[i], i, i === 0);
+      // Add piece to PDF, laid out at the size of its canvas
+      addPieceToPDFOptimized(pdf, canvases[i], specsArray[i], i, i === 0);
       
       // Yield to browser to prevent UI freeze
       await new Promise(resolve => setTimeout(resolve, 0));
@@ -279,6 +257,14 @@ export async function exportMultipleToPDF(
     }
   }
 
+  if (nesting) {
+    addSlabLayoutPages(pdf, nesting);
+  }
+  if (estimate) {
+    addQuotePage(pdf, estimate, finalProjectName);
+  }
+  addTitleBlocks(pdf, titleBlock);
+
   // Finalize and download
   await finalizePDF(pdf, finalProjectName, isMobile);
 }
@@ -302,13 +288,13 @@ function addProjectInfoToPDF(pdf: jsPDF, projectName: string, totalPieces: numbe
 /**
  * Optimized version of addPieceToPDF
  */
-async function addPieceToPDFOptimized(
+function addPieceToPDFOptimized(
   pdf: jsPDF,
-  imgData: string,
+  canvas: HTMLCanvasElement,
   item: any,
   index: number,
   isFirstPage: boolean
-): Promise<void> {
+): void {
   // Handle both direct specs objects and {id, specs} format
   const specs = item.specs || item;
 
@@ -324,41 +310,40 @@ async function addPieceToPDFOptimized(
   // Add specifications - offset for first page
   const yStart = isFirstPage ? titleY + 10 : PDF_MARGINS.top + 10;
   pdf.setFontSize(12);
-  pdf.text(`Material: ${specs.materialType}`, PDF_MARGINS.left, yStart);
-  pdf.text(`Thickness: ${specs.thickness}`, PDF_MARGINS.left, yStart + 7);
-  pdf.text(`Quantity: ${specs.quantity || 1}`, PDF_MARGINS.left, yStart + 14);
-
-  // Add polished edges information - with safety check for undefined
-  const polishedEdgesText = specs.polishedEdges && Array.isArray(specs.polishedEdges)
-    ? `Polished Edges: ${specs.polishedEdges.join(', ')}`
-    : 'Polished Edges: None';
-  pdf.text(polishedEdgesText, PDF_MARGINS.left, yStart + 21);
+  const specLines = getSpecificationLines(specs);
+  specLines.forEach((line, i) => {
+    pdf.text(line, PDF_MARGINS.left, yStart + i * 7);
+  });
+  const notesY = yStart + specLines.length * 7;
 
   // Add notes if available
-  let imgYPosition = yStart + 35;
+  let drawingY = notesY + 7;
   const itemNotes = item.notes || specs.notes;
   if (itemNotes && itemNotes.trim() !== '') {
-    pdf.text('Notes:', PDF_MARGINS.left, yStart + 28);
+    pdf.text('Notes:', PDF_MARGINS.left, notesY);
 
     // Split notes into lines to avoid text overflow
     const textLines = pdf.splitTextToSize(itemNotes, MAX_TEXT_WIDTH);
-    pdf.text(textLines, PDF_MARGINS.left, yStart + 35);
+    pdf.text(textLines, PDF_MARGINS.left, notesY + 7);
 
-    // Adjust image position based on notes length (with maximum to avoid going off page)
+    // Adjust drawing position based on notes length (with maximum to avoid going off page)
     const notesHeight = Math.min(textLines.length * 5, 60);
-    imgYPosition = yStart + 35 + notesHeight;
+    drawingY = notesY + 7 + notesHeight;
   }
 
-  // Add the mockup image
+  // Add the mockup drawing
   try {
-    pdf.addImage(imgData, 'PNG', PDF_MARGINS.left, imgYPosition, IMAGE_SIZE.width, IMAGE_SIZE.height);
+    addPieceDrawing(pdf, specs, drawingY, {}, canvas.width, canvas.height);
   } catch (error) {
-    console.error(`Error adding image for piece ${index + 1}:`, error);
+    console.error(`Error drawing piece ${index + 1}:`, error);
     // Add error message in the PDF instead of failing completely
     pdf.setTextColor(255, 0, 0);
-    pdf.text('Error: Could not render preview image', PDF_MARGINS.left, imgYPosition + 60);
+    pdf.text('Error: Could not draw piece', PDF_MARGINS.left, drawingY + 60);
     pdf.setTextColor(0, 0, 0);
   }
+
+  // Add a page for each section of a seamed piece
+  addSeamSectionPages(pdf, specs, `Piece ${index + 1}`);
 }
 
 /**
@@ -372,13 +357,3 @@ async function finalizePDF(pdf: jsPDF, projectName: string, isMobile: boolean):
   // Handle download
   await handlePDFDownload({ ...pdf, output: pdf.output.bind(pdf), save: pdf.save.bind(pdf) } as any, { displayWidth: 'multi', displayHeight: 'piece' }, isMobile);
 }
-
-// Clean up worker on module unload
-if (typeof window !== 'undefined') {
-  window.addEventListener('unload', () => {
-    if (imageWorker) {
-      imageWorker.terminate();
-      imageWorker = null;
-    }
-  });
-}
\ No newline at end of file
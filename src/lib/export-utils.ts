@@ -1,6 +1,12 @@
 "use client"
 
 import jsPDF from 'jspdf';
+import { getSpecificationLines } from '@/lib/spec-summary-utils';
+import { addPieceDrawing, addQuotePage, addSeamSectionPages, addSlabLayoutPages, addTitleBlocks } from '@/lib/pdf-page-utils';
+import { MockupDrawingOptions } from '@/lib/mockup-scene-utils';
+import { NestingResult } from '@/lib/nesting-utils';
+import { Estimate } from '@/lib/estimate-utils';
+import { DEFAULT_TITLE_BLOCK_DETAILS, TitleBlockDetails } from '@/lib/title-block-utils';
 
 // Constants for PDF generation
 const PDF_MARGINS = { left: 14, top: 20 };
@@ -9,7 +15,6 @@ const PDF_CONFIG = {
   unit: 'mm',
   format: 'a4'
 };
-const IMAGE_SIZE = { width: 180, height: 120 };
 const MAX_TEXT_WIDTH = 180;
 
 /**
@@ -20,20 +25,23 @@ export function isMobileDevice(): boolean {
 }
 
 /**
- * Creates a PDF document with stone mockup
- * Uses Web Worker when available for better performance
+ * Creates a PDF document with stone mockup, drawn with vector paths and text
+ * @param canvas Preview canvas; the piece is laid out at its size
  */
-export async function exportToPDF(canvas: HTMLCanvasElement, specs: any, notes?: string, isMobile: boolean = false) {
+export async function exportToPDF(
+  canvas: HTMLCanvasElement,
+  specs: any,
+  notes?: string,
+  isMobile: boolean = false,
+  options: MockupDrawingOptions = {},
+  titleBlock: TitleBlockDetails = DEFAULT_TITLE_BLOCK_DETAILS
+) {
   return new Promise<void>((resolve, reject) => {
     try {
-      // Offload image processing to a separate task
+      // Build the PDF in a separate task so the UI can update first
       setTimeout(async () => {
         try {
-          // Get image data from canvas (this is CPU intensive)
-          const imgData = canvas.toDataURL('image/png', 0.95); // Added compression quality
-
-          // Create PDF in main thread (could be moved to worker in future)
-          const pdf = createSinglePiecePDF(imgData, specs, notes);
+          const pdf = createSinglePiecePDF(specs, notes, options, canvas.width, canvas.height, titleBlock);
 
           // Handle download based on platform
           await handlePDFDownload(pdf, specs, isMobile);
@@ -53,7 +61,14 @@ export async function exportToPDF(canvas: HTMLCanvasElement, specs: any, notes?:
 /**
  * Creates a PDF document for a single stone piece
  */
-function createSinglePiecePDF(imgData: string, specs: any, notes?: string): jsPDF {
+function createSinglePiecePDF(
+  specs: any,
+  notes: string | undefined,
+  options: MockupDrawingOptions,
+  width: number,
+  height: number,
+  titleBlock: TitleBlockDetails
+): jsPDF {
   // Create a new PDF document
   const pdf = new jsPDF(PDF_CONFIG);
 
@@ -67,31 +82,38 @@ function createSinglePiecePDF(imgData: string, specs: any, notes?: string): jsPD
 
   // Add specifications
   pdf.setFontSize(12);
-  pdf.text(`Material: ${specs.materialType}`, PDF_MARGINS.left, PDF_MARGINS.top + 10);
-  pdf.text(`Thickness: ${specs.thickness}`, PDF_MARGINS.left, PDF_MARGINS.top + 17);
-  pdf.text(`Quantity: ${specs.quantity || 1}`, PDF_MARGINS.left, PDF_MARGINS.top + 24);
-
-  // Add polished edges information - with safety check for undefined
-  const polishedEdgesText = specs.polishedEdges && Array.isArray(specs.polishedEdges)
-    ? `Polished Edges: ${specs.polishedEdges.join(', ')}`
-    : 'Polished Edges: None';
-  pdf.text(polishedEdgesText, PDF_MARGINS.left, PDF_MARGINS.top + 31);
+  const specLines = getSpecificationLines(specs);
+  specLines.forEach((line, i) => {
+    pdf.text(line, PDF_MARGINS.left, PDF_MARGINS.top + 10 + i * 7);
+  });
+  const notesY = PDF_MARGINS.top + 10 + specLines.length * 7;
 
   // Add notes if provided
-  let yPosition = PDF_MARGINS.top + 45;
+  let yPosition = notesY + 7;
   if (notes && notes.trim() !== '') {
-    pdf.text('Notes:', PDF_MARGINS.left, PDF_MARGINS.top + 38);
+    pdf.text('Notes:', PDF_MARGINS.left, notesY);
 
     // Split notes into lines to avoid text overflow
     const textLines = pdf.splitTextToSize(notes, MAX_TEXT_WIDTH);
-    pdf.text(textLines, PDF_MARGINS.left, PDF_MARGINS.top + 45);
+    pdf.text(textLines, PDF_MARGINS.left, notesY + 7);
 
     // Adjust position based on text height (approximate)
     yPosition += Math.min(textLines.length * 5, 60); // Cap maximum shift to avoid image going off-page
   }
 
-  // Add the mockup image
-  pdf.addImage(imgData, 'PNG', PDF_MARGINS.left, yPosition, IMAGE_SIZE.width, IMAGE_SIZE.height);
+  // Add the mockup drawing
+  try {
+    addPieceDrawing(pdf, specs, yPosition, options, width, height);
+  } catch (error) {
+    console.error('Error drawing piece:', error);
+    pdf.text('Could not draw piece', PDF_MARGINS.left, yPosition + 10);
+  }
+
+  // Add a page for each section of a seamed piece
+  addSeamSectionPages(pdf, specs, 'Stone Mockup');
+
+  // Title blocks go on last, once the number of sheets is known
+  addTitleBlocks(pdf, titleBlock);
 
   return pdf;
 }
@@ -151,14 +173,17 @@ async function handlePDFDownload(pdf: jsPDF, specs: any, isMobile: boolean): Pro
 }
 
 /**
- * Exports multiple stone pieces to a single PDF
+ * Exports multiple stone pieces to a single PDF, followed by the slab layouts and quote when they are given
  * Uses batched processing to avoid UI freezes
  */
 export async function exportMultipleToPDF(
   canvases: HTMLCanvasElement[],
   specsArray: any[],
   projectName: string,
-  isMobile: boolean = false
+  isMobile: boolean = false,
+  nesting?: NestingResult,
+  estimate?: Estimate,
+  titleBlock: TitleBlockDetails = DEFAULT_TITLE_BLOCK_DETAILS
 ): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     try {
@@ -175,7 +200,7 @@ export async function exportMultipleToPDF(
       const finalProjectName = projectName || 'Stone Project';
 
       // Process canvas data in batches to avoid UI freeze
-      processCanvasesInBatches(canvases, specsArray, finalProjectName, isMobile)
+      processCanvasesInBatches(canvases, specsArray, finalProjectName, isMobile, nesting, estimate, titleBlock)
         .then(resolve)
         .catch(reject);
     } catch (error) {
@@ -192,7 +217,10 @@ async function processCanvasesInBatches(
   canvases: HTMLCanvasElement[],
   specsArray: any[],
   projectName: string,
-  isMobile: boolean
+  isMobile: boolean,
+  nesting: NestingResult | undefined,
+  estimate: Estimate | undefined,
+  titleBlock: TitleBlockDetails
 ): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     try {
@@ -209,7 +237,14 @@ async function processCanvasesInBatches(
 
       const processBatch = () => {
         if (currentIndex >= totalPieces) {
-          // All pieces processed, finish up
+          // All pieces processed, add the slab layouts and quote and finish up
+          if (nesting) {
+            addSlabLayoutPages(pdf, nesting);
+          }
+          if (estimate) {
+            addQuotePage(pdf, estimate, projectName);
+          }
+          addTitleBlocks(pdf, titleBlock);
           finalizePDF(pdf, projectName, isMobile)
             .then(resolve)
             .catch(reject);
@@ -294,51 +329,41 @@ async function addPieceToPDF(
       // Add specifications - offset for first page
       const yStart = isFirstPage ? titleY + 10 : PDF_MARGINS.top + 10;
       pdf.setFontSize(12);
-      pdf.text(`Material: ${specs.materialType}`, PDF_MARGINS.left, yStart);
-      pdf.text(`Thickness: ${specs.thickness}`, PDF_MARGINS.left, yStart + 7);
-      pdf.text(`Quantity: ${specs.quantity || 1}`, PDF_MARGINS.left, yStart + 14);
-
-      // Add polished edges information - with safety check for undefined
-      const polishedEdgesText = specs.polishedEdges && Array.isArray(specs.polishedEdges)
-        ? `Polished Edges: ${specs.polishedEdges.join(', ')}`
-        : 'Polished Edges: None';
-      pdf.text(polishedEdgesText, PDF_MARGINS.left, yStart + 21);
+      const specLines = getSpecificationLines(specs);
+      specLines.forEach((line, i) => {
+        pdf.text(line, PDF_MARGINS.left, yStart + i * 7);
+      });
+      const notesY = yStart + specLines.length * 7;
 
       // Add notes if available
-      let imgYPosition = yStart + 35;
+      let drawingY = notesY + 7;
       const itemNotes = item.notes || specs.notes;
       if (itemNotes && itemNotes.trim() !== '') {
-        pdf.text('Notes:', PDF_MARGINS.left, yStart + 28);
+        pdf.text('Notes:', PDF_MARGINS.left, notesY);
 
         // Split notes into lines to avoid text overflow
         const textLines = pdf.splitTextToSize(itemNotes, MAX_TEXT_WIDTH);
-        pdf.text(textLines, PDF_MARGINS.left, yStart + 35);
+        pdf.text(textLines, PDF_MARGINS.left, notesY + 7);
 
-        // Adjust image position based on notes length (with maximum to avoid going off page)
+        // Adjust drawing position based on notes length (with maximum to avoid going off page)
         const notesHeight = Math.min(textLines.length * 5, 60);
-        imgYPosition = yStart + 35 + notesHeight;
+        drawingY = notesY + 7 + notesHeight;
       }
 
-      // Add the mockup image
-      if (canvas) {
-        try {
-          // Compress the image slightly to improve performance
-          const imgData = canvas.toDataURL('image/png', 0.95);
-          pdf.addImage(imgData, 'PNG', PDF_MARGINS.left, imgYPosition, IMAGE_SIZE.width, IMAGE_SIZE.height);
-        } catch (error) {
-          console.error(`Error adding image for piece ${index + 1}:`, error);
-          // Add error message in the PDF instead of failing completely
-          pdf.setTextColor(255, 0, 0);
-          pdf.text('Error: Could not render preview image', PDF_MARGINS.left, imgYPosition + 60);
-          pdf.setTextColor(0, 0, 0);
-        }
-      } else {
-        // Handle missing canvas
+      // Add the mockup drawing, laid out at the preview canvas size when there is one
+      try {
+        addPieceDrawing(pdf, specs, drawingY, {}, canvas?.width, canvas?.height);
+      } catch (error) {
+        console.error(`Error drawing piece ${index + 1}:`, error);
+        // Add error message in the PDF instead of failing completely
         pdf.setTextColor(255, 0, 0);
-        pdf.text('Error: Preview image not available', PDF_MARGINS.left, imgYPosition + 60);
+        pdf.text('Error: Could not draw piece', PDF_MARGINS.left, drawingY + 60);
         pdf.setTextColor(0, 0, 0);
       }
 
+      // Add a page for each section of a seamed piece
+      addSeamSectionPages(pdf, specs, `Piece ${index + 1}`);
+
       // Signal completion
       resolve();
     } catch (error) {
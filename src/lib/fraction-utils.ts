@@ -6,22 +6,48 @@
 
 /**
  * Converts a fraction string to a decimal number
- * Supports formats: "1/2", "3/4", "2-1/2", "3-3/4", "2", "3"
+ * Supports formats: "1/2", "3/4", "2-1/2", "2 1/2", "3-3/4", "2", "3", "25.5",
+ * with an optional inch mark ("2-1/2\"") and feet in front ("8'", "8' 2-1/2\"", "8'-2\"")
  * 
  * @param fractionStr The fraction string to convert
  * @returns The decimal value or null if invalid
  */
 export function fractionToDecimal(fractionStr: string): number | null {
-  // Remove any spaces
-  const cleanStr = fractionStr.trim().replace(/\s+/g, '');
+  // A space between a whole number and a fraction separates a mixed number; other spaces are dropped
+  const cleanStr = fractionStr.trim().replace(/(\d)\s+(?=\d+\/)/g, '$1-').replace(/\s+/g, '');
   
   if (cleanStr === '') return null;
   
+  // Check if it's feet, optionally followed by inches (e.g., "8'2-1/2\"")
+  const feetMatch = cleanStr.match(/^(\d+(?:\.\d+)?)'-?(.*)$/);
+  if (feetMatch) {
+    const feet = parseFloat(feetMatch[1]);
+    const inches = feetMatch[2] === '' ? 0 : inchesToDecimal(feetMatch[2]);
+    return inches === null ? null : feet * 12 + inches;
+  }
+  
+  return inchesToDecimal(cleanStr);
+}
+
+/**
+ * Converts an inch value without spaces or feet to a decimal number
+ * 
+ * @param inchStr The inch value, with or without a trailing inch mark
+ * @returns The decimal value or null if invalid
+ */
+function inchesToDecimal(inchStr: string): number | null {
+  const cleanStr = inchStr.replace(/"$/, '');
+  
   // Check if it's a whole number
   if (/^\d+$/.test(cleanStr)) {
     return parseInt(cleanStr, 10);
   }
   
+  // Check if it's a decimal number (e.g., "25.5")
+  if (/^\d*\.\d+$/.test(cleanStr)) {
+    return parseFloat(cleanStr);
+  }
+  
   // Check if it's a simple fraction (e.g., "1/2")
   if (/^\d+\/\d+$/.test(cleanStr)) {
     const [numerator, denominator] = cleanStr.split('/').map(Number);
@@ -124,31 +150,7 @@ function findGCD(a: number, b: number): number {
  * @returns True if valid, false otherwise
  */
 export function isValidFractionString(fractionStr: string): boolean {
-  // Remove any spaces
-  const cleanStr = fractionStr.trim().replace(/\s+/g, '');
-  
-  if (cleanStr === '') return false;
-  
-  // Check if it's a whole number
-  if (/^\d+$/.test(cleanStr)) {
-    return true;
-  }
-  
-  // Check if it's a simple fraction (e.g., "1/2")
-  if (/^\d+\/\d+$/.test(cleanStr)) {
-    const [_, denominator] = cleanStr.split('/').map(Number);
-    return denominator !== 0; // Denominator can't be zero
-  }
-  
-  // Check if it's a mixed number (e.g., "2-1/2")
-  if (/^\d+-\d+\/\d+$/.test(cleanStr)) {
-    const [_, fraction] = cleanStr.split('-');
-    const [__, denominator] = fraction.split('/').map(Number);
-    return denominator !== 0; // Denominator can't be zero
-  }
-  
-  // Invalid format
-  return false;
+  return fractionToDecimal(fractionStr) !== null;
 }
 
 /**
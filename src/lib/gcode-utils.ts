@@ -0,0 +1,488 @@
+"use client"
+
+import { Cutout, OutlineSegment, Point, StoneSpecifications } from '@/types/stone';
+import { getArcAngles, getPieceOutline, getSegmentLength } from '@/lib/shape-utils';
+import { getCutoutCenter, getCutoutSize } from '@/lib/cutout-utils';
+import { decimalToFraction } from '@/lib/fraction-utils';
+
+/**
+ * Utility functions for cutting pieces on a CNC router: tool-center toolpaths around the outline and
+ * inside each cutout, and G-code programs in inches with the origin at the bottom-left corner of the
+ * piece's bounding box, Y up and Z zero on top of the slab
+ */
+
+export type GcodeDialect = 'grbl' | 'linuxcnc' | 'mach3' | 'fanuc';
+
+// How a controller expects a program to start and end
+export interface GcodeDialectPreset {
+  label: string;
+  setup: string[]; // Modal codes at the top of the program
+  toolChange: string[]; // Empty for controllers without a tool changer
+  programEnd: string;
+  lineNumbers: boolean;
+  percent: boolean; // Program wrapped in % lines, with an O number
+  upperCase: boolean; // Comments in capitals
+}
+
+export const GCODE_DIALECTS: Record<GcodeDialect, GcodeDialectPreset> = {
+  grbl: {
+    label: 'GRBL',
+    setup: ['G20', 'G90', 'G17', 'G94'],
+    toolChange: [],
+    programEnd: 'M30',
+    lineNumbers: false,
+    percent: false,
+    upperCase: false,
+  },
+  linuxcnc: {
+    label: 'LinuxCNC',
+    setup: ['G20', 'G90', 'G17', 'G40', 'G49', 'G64 P0.001'],
+    toolChange: ['T1 M6', 'G43 H1'],
+    programEnd: 'M2',
+    lineNumbers: false,
+    percent: false,
+    upperCase: false,
+  },
+  mach3: {
+    label: 'Mach3 / Mach4',
+    setup: ['G20', 'G90', 'G17', 'G40', 'G49', 'G80'],
+    toolChange: ['T1 M6'],
+    programEnd: 'M30',
+    lineNumbers: false,
+    percent: false,
+    upperCase: false,
+  },
+  fanuc: {
+    label: 'Fanuc',
+    setup: ['G20', 'G90', 'G17', 'G40', 'G49', 'G80'],
+    toolChange: ['T1 M06', 'G43 H01'],
+    programEnd: 'M30',
+    lineNumbers: true,
+    percent: true,
+    upperCase: true,
+  },
+};
+
+// Tool, cutting and machine settings, in inches, inches per minute and RPM
+export interface GcodeSettings {
+  dialect: GcodeDialect;
+  toolDiameter: number;
+  feedRate: number;
+  plungeRate: number;
+  spindleSpeed: number;
+  depthPerPass: number;
+  extraDepth: number; // Cut below the slab into the spoilboard, so pieces break free
+  safeHeight: number; // Above the slab, for rapid moves
+  leadLength: number; // Approach to and departure from each toolpath, on its waste side
+  coolant: boolean; // Water feed (M8)
+}
+
+export const DEFAULT_GCODE_SETTINGS: GcodeSettings = {
+  dialect: 'grbl',
+  toolDiameter: 0.5,
+  feedRate: 40,
+  plungeRate: 10,
+  spindleSpeed: 8000,
+  depthPerPass: 0.25,
+  extraDepth: 0.0625,
+  safeHeight: 0.5,
+  leadLength: 0.5,
+  coolant: true,
+};
+
+// The path of the tool's center around an outline or inside a cutout, in inches from the top-left corner
+// of the piece's bounding box
+export interface Toolpath {
+  label: string;
+  loop: OutlineSegment[]; // Clockwise on screen, starting and ending where the leads meet it
+  leadIn: Point;
+  leadOut: Point;
+  reversed: boolean; // Cut against the loop's direction; perimeters are, so every cut is conventional milling
+}
+
+export interface ToolpathPlan {
+  toolpaths: Toolpath[]; // Cutouts first, while the piece is still held by the slab, then the perimeter
+  toolDiameter: number;
+  warnings: string[];
+}
+
+// Sides of polygons standing in for ovals, as in the DXF output
+const ELLIPSE_SEGMENTS = 72;
+
+const EPSILON = 1e-6;
+
+/**
+ * Works out the toolpaths for a piece: outside its outline, and inside each cutout the tool fits in
+ */
+export function getToolpathPlan(specs: StoneSpecifications, settings: GcodeSettings): ToolpathPlan {
+  const radius = settings.toolDiameter / 2;
+  const toolpaths: Toolpath[] = [];
+  const warnings: string[] = [];
+
+  (specs.cutouts ?? []).forEach(cutout => {
+    const { width, height } = getCutoutSize(cutout);
+    if (Math.min(width, height) <= settings.toolDiameter + EPSILON) {
+      warnings.push(`${cutout.label} is too small for a ${decimalToFraction(settings.toolDiameter)}" tool and was left out`);
+      return;
+    }
+
+    const loop = offsetLoop(getCutoutLoop(specs, cutout), -radius);
+    const bounds = getBounds(loop);
+    const maxLead = Math.min(bounds.width, bounds.height) / 2;
+    toolpaths.push(createToolpath(cutout.label, loop, Math.min(settings.leadLength, maxLead), true));
+  });
+
+  const outline = getPieceOutline(specs).filter(segment => getSegmentLength(segment) > EPSILON);
+  toolpaths.push(createToolpath('Perimeter', offsetLoop(outline, radius), settings.leadLength, false));
+
+  return { toolpaths, toolDiameter: settings.toolDiameter, warnings };
+}
+
+/**
+ * Writes a G-code program cutting a piece's cutouts and then its perimeter, in depth passes
+ * @param title Comment at the top of the program; the piece's size when not given
+ */
+export function pieceToGcode(specs: StoneSpecifications, settings: GcodeSettings, title?: string): string {
+  if (!(settings.toolDiameter > 0)) throw new Error('Tool diameter must be greater than zero');
+  if (!(settings.depthPerPass > 0)) throw new Error('Depth per pass must be greater than zero');
+  if (!(settings.feedRate > 0) || !(settings.plungeRate > 0)) throw new Error('Feed rates must be greater than zero');
+
+  const dialect = GCODE_DIALECTS[settings.dialect];
+  const depth = getSlabThickness(specs.thickness) + settings.extraDepth;
+  const passes = Math.ceil(depth / settings.depthPerPass - EPSILON);
+  const { toolpaths } = getToolpathPlan(specs, settings);
+
+  // Machine coordinates have Y up from the bottom of the piece
+  const xy = (point: Point) => `X${format(point.x)} Y${format(specs.height - point.y)}`;
+  const comment = (text: string) => {
+    const clean = text.replace(/[()]/g, '').replace(/[^\x20-\x7e]/g, '');
+    return `(${dialect.upperCase ? clean.toUpperCase() : clean})`;
+  };
+
+  const lines: string[] = [
+    comment(title ?? `Stone piece ${decimalToFraction(specs.width)} x ${decimalToFraction(specs.height)} in, ${specs.thickness}`),
+    comment(`Tool ${decimalToFraction(settings.toolDiameter)} in dia., ${passes} passes to ${format(depth)} in deep`),
+    ...dialect.setup,
+    ...dialect.toolChange,
+    `S${Math.round(settings.spindleSpeed)} M3`,
+    ...(settings.coolant ? ['M8'] : []),
+    `G0 Z${format(settings.safeHeight)}`,
+  ];
+
+  toolpaths.forEach(toolpath => {
+    lines.push(comment(toolpath.label));
+    const moves = toolpath.reversed ? reverseLoop(toolpath.loop) : toolpath.loop;
+
+    for (let pass = 1; pass <= passes; pass++) {
+      lines.push(
+        `G0 ${xy(toolpath.leadIn)}`,
+        `G1 Z${format(-depth * pass / passes)} F${format(settings.plungeRate, 1)}`,
+        `G1 ${xy(moves[0].start)} F${format(settings.feedRate, 1)}`
+      );
+      moves.forEach(move => {
+        if (!move.arc) {
+          lines.push(`G1 ${xy(move.end)}`);
+          return;
+        }
+
+        // Y is flipped but the drawing isn't mirrored, so arcs clockwise on screen are clockwise on the table
+        const clockwise = !toolpath.reversed;
+        const i = move.arc.center.x - move.start.x;
+        const j = move.start.y - move.arc.center.y;
+        lines.push(`${clockwise ? 'G2' : 'G3'} ${xy(move.end)} I${format(i)} J${format(j)}`);
+      });
+      lines.push(`G1 ${xy(toolpath.leadOut)}`, `G0 Z${format(settings.safeHeight)}`);
+    }
+  });
+
+  lines.push(...(settings.coolant ? ['M9'] : []), 'M5', dialect.programEnd);
+
+  const numbered = dialect.lineNumbers ? lines.map((line, index) => `N${(index + 1) * 10} ${line}`) : lines;
+  return [...(dialect.percent ? ['%', 'O0001'] : []), ...numbered, ...(dialect.percent ? ['%'] : [])].join('\n') + '\n';
+}
+
+/**
+ * Triggers a browser download of a G-code program
+ */
+export function downloadGcode(gcode: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([gcode], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Returns a slab thickness such as `3cm` or `1.25in` in inches
+ */
+function getSlabThickness(thickness: string): number {
+  const match = thickness.trim().match(/^(\d*\.?\d+)\s*(cm|mm|in|")?$/i);
+  if (!match) throw new Error(`Unknown slab thickness: ${thickness}`);
+
+  const value = parseFloat(match[1]);
+  switch ((match[2] ?? 'cm').toLowerCase()) {
+    case 'mm':
+      return value / 25.4;
+    case 'in':
+    case '"':
+      return value;
+    default:
+      return value / 2.54;
+  }
+}
+
+/**
+ * Returns the edge of a cutout as a loop running clockwise on screen
+ */
+function getCutoutLoop(specs: StoneSpecifications, cutout: Cutout): OutlineSegment[] {
+  const center = getCutoutCenter(specs, cutout);
+  const { width, height } = getCutoutSize(cutout);
+  const left = center.x - width / 2;
+  const right = center.x + width / 2;
+  const top = center.y - height / 2;
+  const bottom = center.y + height / 2;
+
+  if (cutout.type === 'rectangle') {
+    const radius = Math.min(cutout.cornerRadius ?? 0, width / 2, height / 2);
+    const corners: [Point, Point, Point][] = [
+      [{ x: right - radius, y: top }, { x: right, y: top + radius }, { x: right - radius, y: top + radius }],
+      [{ x: right, y: bottom - radius }, { x: right - radius, y: bottom }, { x: right - radius, y: bottom - radius }],
+      [{ x: left + radius, y: bottom }, { x: left, y: bottom - radius }, { x: left + radius, y: bottom - radius }],
+      [{ x: left, y: top + radius }, { x: left + radius, y: top }, { x: left + radius, y: top + radius }],
+    ];
+
+    return corners.flatMap(([start, end, arcCenter], index) => {
+      const previous = corners[(index + 3) % 4][1];
+      const side: OutlineSegment[] = [{ id: 'side', start: previous, end: start }];
+      return radius > EPSILON ? [...side, { id: 'corner', start, end, arc: { center: arcCenter, radius } }] : side;
+    }).filter(segment => getSegmentLength(segment) > EPSILON);
+  }
+
+  if (width === height) {
+    // Two half circles, since an arc can't start and end at the same point
+    const radius = width / 2;
+    const west = { x: left, y: center.y };
+    const east = { x: right, y: center.y };
+    return [
+      { id: 'arc', start: west, end: east, arc: { center, radius } },
+      { id: 'arc', start: east, end: west, arc: { center, radius } },
+    ];
+  }
+
+  const points = Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+    const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+    return { x: center.x + Math.cos(angle) * width / 2, y: center.y + Math.sin(angle) * height / 2 };
+  });
+  return points.map((start, i) => ({ id: 'side', start, end: points[(i + 1) % points.length] }));
+}
+
+/**
+ * Offsets a clockwise loop outward by a distance, or inward when it is negative. Straight runs move along
+ * their normals and arcs change radius; outside corners are rounded around the original corner and inside
+ * corners trimmed where the offset runs meet. Arcs smaller than an inward offset disappear
+ */
+function offsetLoop(loop: OutlineSegment[], offset: number): OutlineSegment[] {
+  if (Math.abs(offset) < EPSILON) return loop;
+
+  const offsets: { segment: OutlineSegment; corner: Point }[] = [];
+  loop.forEach(segment => {
+    if (segment.arc) {
+      const { center, radius } = segment.arc;
+      const offsetRadius = radius + offset;
+      if (offsetRadius <= EPSILON) return;
+
+      const scale = offsetRadius / radius;
+      const scalePoint = (point: Point) => ({ x: center.x + (point.x - center.x) * scale, y: center.y + (point.y - center.y) * scale });
+      offsets.push({
+        segment: { id: segment.id, start: scalePoint(segment.start), end: scalePoint(segment.end), arc: { center, radius: offsetRadius } },
+        corner: segment.end,
+      });
+      return;
+    }
+
+    const normal = getOutsideNormal(getTangent(segment, segment.start));
+    const move = (point: Point) => ({ x: point.x + normal.x * offset, y: point.y + normal.y * offset });
+    offsets.push({ segment: { id: segment.id, start: move(segment.start), end: move(segment.end) }, corner: segment.end });
+  });
+
+  const result: OutlineSegment[] = [];
+  offsets.forEach(({ segment, corner }, index) => {
+    const next = offsets[(index + 1) % offsets.length].segment;
+    result.push(segment);
+    if (distance(segment.end, next.start) < EPSILON) return;
+
+    const before = getTangent(segment, segment.end);
+    const after = getTangent(next, next.start);
+    const turn = before.x * after.y - before.y * after.x;
+
+    // Clockwise turns open a gap outside the loop, counterclockwise turns open one inside
+    if ((turn > 0) === (offset > 0)) {
+      result.push(offset > 0
+        ? { id: 'corner', start: segment.end, end: next.start, arc: { center: corner, radius: offset } }
+        : { id: 'corner', start: segment.end, end: next.start });
+      return;
+    }
+
+    const meeting = getIntersections(segment, next)
+      .sort((a, b) => distance(a, corner) - distance(b, corner))[0];
+    if (meeting) {
+      segment.end = meeting;
+      next.start = meeting;
+    } else {
+      result.push({ id: 'corner', start: segment.end, end: next.start });
+    }
+  });
+
+  // The last run may have been trimmed where it meets the first
+  result[0].start = result[result.length - 1].end;
+  return result.filter(segment => getSegmentLength(segment) > EPSILON);
+}
+
+/**
+ * Starts a loop halfway along its longest straight run, with leads on its waste side: outside the piece,
+ * or inside a cutout. Leads come in and go out at 45°, so the tool doesn't stop on the cut edge. With a
+ * clockwise spindle, conventional milling runs counterclockwise around a piece and clockwise inside a cutout
+ */
+function createToolpath(label: string, loop: OutlineSegment[], leadLength: number, inside: boolean): Toolpath {
+  let longest = -1;
+  loop.forEach((segment, index) => {
+    if (!segment.arc && (longest < 0 || getSegmentLength(segment) > getSegmentLength(loop[longest]))) longest = index;
+  });
+
+  let ordered = loop;
+  let length = leadLength;
+  if (longest >= 0) {
+    const segment = loop[longest];
+    const middle = { x: (segment.start.x + segment.end.x) / 2, y: (segment.start.y + segment.end.y) / 2 };
+    ordered = [
+      { ...segment, start: middle },
+      ...loop.slice(longest + 1),
+      ...loop.slice(0, longest),
+      { ...segment, end: middle },
+    ];
+    length = Math.min(leadLength, getSegmentLength(segment) / 2);
+  }
+
+  const start = ordered[0].start;
+  const tangent = getTangent(ordered[0], start);
+  const outside = getOutsideNormal(tangent);
+  const waste = inside ? { x: -outside.x, y: -outside.y } : outside;
+  const travel = inside ? 1 : -1;
+  const lead = (along: number) => ({
+    x: start.x + (waste.x + tangent.x * along * travel) * length * Math.SQRT1_2,
+    y: start.y + (waste.y + tangent.y * along * travel) * length * Math.SQRT1_2,
+  });
+
+  return { label, loop: ordered, leadIn: lead(-1), leadOut: lead(1), reversed: !inside };
+}
+
+/**
+ * Returns a loop run backward, with its arcs turning the other way
+ */
+function reverseLoop(loop: OutlineSegment[]): OutlineSegment[] {
+  return [...loop].reverse().map(segment => ({ ...segment, start: segment.end, end: segment.start }));
+}
+
+/**
+ * Returns the direction of travel at a point on a segment; arcs run clockwise on screen
+ */
+function getTangent(segment: OutlineSegment, point: Point): Point {
+  if (segment.arc) {
+    const { center } = segment.arc;
+    const length = Math.hypot(point.x - center.x, point.y - center.y);
+    return { x: -(point.y - center.y) / length, y: (point.x - center.x) / length };
+  }
+
+  const length = Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+  return { x: (segment.end.x - segment.start.x) / length, y: (segment.end.y - segment.start.y) / length };
+}
+
+// The outside of a clockwise loop is a quarter turn counterclockwise on screen from its direction
+function getOutsideNormal(tangent: Point): Point {
+  return { x: tangent.y, y: -tangent.x };
+}
+
+/**
+ * Returns where the lines or circles two segments lie on cross
+ */
+function getIntersections(a: OutlineSegment, b: OutlineSegment): Point[] {
+  if (a.arc && b.arc) {
+    const dx = b.arc.center.x - a.arc.center.x;
+    const dy = b.arc.center.y - a.arc.center.y;
+    const gap = Math.hypot(dx, dy);
+    if (gap < EPSILON) return [];
+
+    const along = (gap * gap + a.arc.radius * a.arc.radius - b.arc.radius * b.arc.radius) / (2 * gap);
+    const across = a.arc.radius * a.arc.radius - along * along;
+    if (across < -EPSILON) return [];
+
+    const height = Math.sqrt(Math.max(across, 0));
+    const base = { x: a.arc.center.x + (dx * along) / gap, y: a.arc.center.y + (dy * along) / gap };
+    return [
+      { x: base.x - (dy * height) / gap, y: base.y + (dx * height) / gap },
+      { x: base.x + (dy * height) / gap, y: base.y - (dx * height) / gap },
+    ];
+  }
+
+  if (a.arc || b.arc) {
+    const line = a.arc ? b : a;
+    const { center, radius } = (a.arc ?? b.arc)!;
+    const direction = getTangent(line, line.start);
+    const fx = line.start.x - center.x;
+    const fy = line.start.y - center.y;
+    const along = fx * direction.x + fy * direction.y;
+    const across = along * along - (fx * fx + fy * fy - radius * radius);
+    if (across < -EPSILON) return [];
+
+    const root = Math.sqrt(Math.max(across, 0));
+    return [-along - root, -along + root].map(t => ({ x: line.start.x + direction.x * t, y: line.start.y + direction.y * t }));
+  }
+
+  const d1 = getTangent(a, a.start);
+  const d2 = getTangent(b, b.start);
+  const cross = d1.x * d2.y - d1.y * d2.x;
+  if (Math.abs(cross) < EPSILON) return [];
+
+  const t = ((b.start.x - a.start.x) * d2.y - (b.start.y - a.start.y) * d2.x) / cross;
+  return [{ x: a.start.x + d1.x * t, y: a.start.y + d1.y * t }];
+}
+
+/**
+ * Returns the size of the box around a loop's points and arcs
+ */
+function getBounds(loop: OutlineSegment[]): { width: number; height: number } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  loop.forEach(segment => {
+    xs.push(segment.start.x);
+    ys.push(segment.start.y);
+    if (segment.arc) {
+      const { center, radius } = segment.arc;
+      const { startAngle } = getArcAngles(segment);
+      const sweep = getSegmentLength(segment) / radius;
+
+      // Quarter-turn points the arc passes through
+      for (let quarter = Math.ceil(startAngle / (Math.PI / 2)); quarter * (Math.PI / 2) <= startAngle + sweep; quarter++) {
+        xs.push(center.x + Math.cos(quarter * Math.PI / 2) * radius);
+        ys.push(center.y + Math.sin(quarter * Math.PI / 2) * radius);
+      }
+    }
+  });
+
+  return {
+    width: xs.reduce((max, x) => Math.max(max, x), -Infinity) - xs.reduce((min, x) => Math.min(min, x), Infinity),
+    height: ys.reduce((max, y) => Math.max(max, y), -Infinity) - ys.reduce((min, y) => Math.min(min, y), Infinity),
+  };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function format(value: number, digits: number = 4): string {
+  const rounded = value.toFixed(digits);
+  return Number(rounded) === 0 ? (0).toFixed(digits) : rounded;
+}
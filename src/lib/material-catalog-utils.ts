@@ -0,0 +1,181 @@
+"use client"
+
+import { CatalogMaterial, MaterialReference, SlabSize, StonePiece, StoneSpecifications } from '@/types/stone';
+import { getSlabSize } from '@/lib/slab-utils';
+
+/**
+ * Utility functions for the material catalog that drives the material dropdowns, slab sizes and prices
+ */
+
+export const DEFAULT_THICKNESSES = ['2cm', '3cm', '1.2cm', '2.5cm'];
+
+// Starter catalog with one or two common colors per material; prices are per square foot installed
+export const DEFAULT_MATERIAL_CATALOG: CatalogMaterial[] = [
+  {
+    id: 'quartz-msi-calacatta-laza',
+    materialType: 'quartz', brand: 'MSI', color: 'Calacatta Laza',
+    thicknesses: ['2cm', '3cm'], slabSize: { width: 126, height: 63 }, density: 150, pricePerSqFt: 75,
+  },
+  {
+    id: 'quartz-caesarstone-pure-white',
+    materialType: 'quartz', brand: 'Caesarstone', color: 'Pure White',
+    thicknesses: ['2cm', '3cm'], slabSize: { width: 120, height: 56.5 }, density: 150, pricePerSqFt: 85,
+  },
+  {
+    id: 'marble-generic-carrara',
+    materialType: 'marble', brand: 'Generic', color: 'Carrara',
+    thicknesses: ['2cm', '3cm'], slabSize: { width: 120, height: 70 }, density: 168, pricePerSqFt: 70,
+  },
+  {
+    id: 'granite-generic-absolute-black',
+    materialType: 'granite', brand: 'Generic', color: 'Absolute Black',
+    thicknesses: ['2cm', '3cm'], slabSize: { width: 120, height: 72 }, density: 168, pricePerSqFt: 60,
+  },
+  {
+    id: 'granite-generic-uba-tuba',
+    materialType: 'granite', brand: 'Generic', color: 'Uba Tuba',
+    thicknesses: ['2cm', '3cm'], slabSize: { width: 118, height: 70 }, density: 168, pricePerSqFt: 45,
+  },
+  {
+    id: 'quartzite-generic-taj-mahal',
+    materialType: 'quartzite', brand: 'Generic', color: 'Taj Mahal',
+    thicknesses: ['2cm', '3cm'], slabSize: { width: 126, height: 72 }, density: 165, pricePerSqFt: 95,
+  },
+  {
+    id: 'soapstone-generic-barroca',
+    materialType: 'soapstone', brand: 'Generic', color: 'Barroca',
+    thicknesses: ['2cm', '3cm'], slabSize: { width: 84, height: 48 }, density: 180, pricePerSqFt: 80,
+  },
+  {
+    id: 'porcelain-neolith-calacatta',
+    materialType: 'porcelain', brand: 'Neolith', color: 'Calacatta',
+    thicknesses: ['1.2cm', '2cm'], slabSize: { width: 126, height: 63 }, density: 150, pricePerSqFt: 90,
+  },
+];
+
+/**
+ * Builds the catalog id for a material type, brand and color, e.g. `quartz-msi-calacatta-laza`
+ */
+export function getCatalogId(materialType: string, brand: string, color: string): string {
+  return [materialType, brand, color]
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Creates a catalog entry keyed by its material type, brand and color. Entries keep their id when
+ * renamed, so a number is added when an entry in the catalog already has it
+ */
+export function createCatalogMaterial(fields: Omit<CatalogMaterial, 'id'>, catalog: CatalogMaterial[] = []): CatalogMaterial {
+  const baseId = getCatalogId(fields.materialType, fields.brand, fields.color);
+  let id = baseId;
+  for (let n = 2; catalog.some(entry => entry.id === id); n++) {
+    id = `${baseId}-${n}`;
+  }
+  return { ...fields, id };
+}
+
+/**
+ * Returns whether the catalog has an entry with the same material type, brand and color, going by
+ * the entries' current names rather than the ids they were created with
+ */
+export function hasCatalogMaterial(catalog: CatalogMaterial[], fields: Omit<CatalogMaterial, 'id'>): boolean {
+  const id = getCatalogId(fields.materialType, fields.brand, fields.color);
+  return catalog.some(entry => getCatalogId(entry.materialType, entry.brand, entry.color) === id);
+}
+
+/**
+ * Returns the material types in the catalog, in catalog order
+ */
+export function getMaterialTypes(catalog: CatalogMaterial[]): string[] {
+  return Array.from(new Set(catalog.map(entry => entry.materialType)));
+}
+
+/**
+ * Returns the catalog entries for a material type
+ */
+export function getCatalogColors(catalog: CatalogMaterial[], materialType: string): CatalogMaterial[] {
+  return catalog.filter(entry => entry.materialType === materialType);
+}
+
+/**
+ * Returns the catalog entry a piece is made from, if it's still in the catalog
+ */
+export function getCatalogMaterial(catalog: CatalogMaterial[], specs: StoneSpecifications): CatalogMaterial | undefined {
+  const { material } = specs;
+  return material ? catalog.find(entry => entry.id === material.id) : undefined;
+}
+
+/**
+ * Returns the thicknesses to offer: those of the chosen entry, or of every entry of the material type
+ */
+export function getThicknessOptions(catalog: CatalogMaterial[], materialType: string, materialId?: string): string[] {
+  const colors = getCatalogColors(catalog, materialType);
+  const entry = colors.find(color => color.id === materialId);
+  if (entry) return entry.thicknesses;
+
+  const thicknesses = colors.flatMap(color => color.thicknesses);
+  return thicknesses.length > 0 ? Array.from(new Set(thicknesses)) : DEFAULT_THICKNESSES;
+}
+
+/**
+ * Records a catalog entry as the material of a piece
+ */
+export function toMaterialReference(entry: CatalogMaterial): MaterialReference {
+  return { id: entry.id, brand: entry.brand, color: entry.color };
+}
+
+/**
+ * Returns the name to show for a piece's material, e.g. `Calacatta Laza`, or `Quartz` without a catalog entry
+ */
+export function getMaterialName(specs: StoneSpecifications): string {
+  if (specs.material) return specs.material.color;
+  return specs.materialType.charAt(0).toUpperCase() + specs.materialType.slice(1);
+}
+
+/**
+ * Returns the key pieces that can share a slab have in common: the catalog entry, or the material type
+ */
+export function getMaterialKey(specs: StoneSpecifications): string {
+  return specs.material ? specs.material.id : specs.materialType;
+}
+
+/**
+ * Returns the slab size for a piece: the catalog entry's, or the material type's when it has none
+ */
+export function getPieceSlabSize(
+  specs: StoneSpecifications,
+  catalog: CatalogMaterial[],
+  slabSizes: Record<string, SlabSize> = {}
+): SlabSize {
+  const entry = getCatalogMaterial(catalog, specs);
+  return entry ? entry.slabSize : getSlabSize(specs.materialType, slabSizes);
+}
+
+/**
+ * Brings saved pieces in line with the catalog after an entry is edited: its name and material type,
+ * and a thickness it still offers
+ */
+export function syncMaterialReferences(pieces: StonePiece[], catalog: CatalogMaterial[]): StonePiece[] {
+  return pieces.map(piece => {
+    const { material, materialType, thickness } = piece.specs;
+    const entry = getCatalogMaterial(catalog, piece.specs);
+    if (!material || !entry) return piece;
+
+    const syncedThickness = entry.thicknesses.includes(thickness) ? thickness : entry.thicknesses[0];
+    if (
+      entry.brand === material.brand &&
+      entry.color === material.color &&
+      entry.materialType === materialType &&
+      syncedThickness === thickness
+    ) {
+      return piece;
+    }
+    return {
+      ...piece,
+      specs: { ...piece.specs, materialType: entry.materialType, material: toMaterialReference(entry), thickness: syncedThickness },
+    };
+  });
+}
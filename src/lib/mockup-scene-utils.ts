@@ -0,0 +1,702 @@
+"use client"
+
+import { Cutout, DimensionTerminator, EdgeProfile, MockupOptions, OutlineSegment, Point, Seam, StoneSpecifications } from '@/types/stone';
+import { decimalToFraction } from '@/lib/fraction-utils';
+import { getMaterialName } from '@/lib/material-catalog-utils';
+import { getArcAngles, getBaseOutline, getLabelAnchor, getPieceOutline, getPointAlongSegment, getSegmentLength, isRectangular } from '@/lib/shape-utils';
+import { getCutoutCenter, getCutoutSize } from '@/lib/cutout-utils';
+import { EDGE_PROFILES, getEdgeProfileLabel, getEdgeProfileStyle, getEdgeProfiles } from '@/lib/edge-profile-utils';
+import { getSeamSections, getValidSeams } from '@/lib/seam-utils';
+import { describeCornerTreatment, getCornerPoint, getDrawnCornerTreatments, hasCornerTreatments } from '@/lib/corner-utils';
+import { NestedSlab, getPlacedOutline } from '@/lib/nesting-utils';
+import { MeasureText, Scene, SceneDimension, ScenePathCommand, createScene, formatDimension, getLayer, measureTextWidth } from '@/lib/scene-utils';
+import { DimensionStyle, getChainDimensions, staggerDimensions } from '@/lib/dimension-utils';
+import { TITLE_BLOCK_HEIGHT, TitleBlock, addTitleBlock } from '@/lib/title-block-utils';
+import { ToolpathPlan } from '@/lib/gcode-utils';
+
+/**
+ * Utility functions for laying out stone mockups and slab layouts as scenes
+ */
+
+// Display options used until the user changes them
+export const DEFAULT_MOCKUP_OPTIONS: MockupOptions = {
+  showGrid: true,
+  showPolishedEdges: true,
+  useXMarks: true,
+  scale: 1,
+};
+
+export type MockupDrawingOptions = Partial<MockupOptions> & {
+  padding?: number; // Space left around the piece, in drawing units
+  titleBlock?: TitleBlock; // Drawn along the bottom, with the piece fitted above it
+  toolpaths?: ToolpathPlan; // CNC toolpaths plotted over the piece
+};
+
+// Seam lines, section sizes and seam markers
+const SEAM_COLOR = '#0f766e';
+
+// Dimension and callout color
+const ANNOTATION_COLOR = '#2563eb';
+
+// Toolpath centerlines and leads, and the width the tool cuts along them
+const TOOLPATH_COLOR = '#ea580c';
+const KERF_COLOR = 'rgba(234, 88, 12, 0.25)';
+
+const BACKGROUND_COLOR = '#f5f5f5';
+
+// Space around a title block drawn with the piece
+const TITLE_BLOCK_MARGIN = 10;
+
+// Distance from the piece to the first dimension line, and between staggered dimension lines
+const DIMENSION_OFFSET = 16;
+const DIMENSION_SPACING = 16;
+
+// Where a piece is placed in a drawing
+export interface StoneLayout {
+  x: number; // Drawing position of the top-left corner of the piece's bounding box
+  y: number;
+  scale: number; // Drawing units per inch
+}
+
+/**
+ * Works out where buildStoneScene places a piece, scaled to fit above the title block if there is one
+ * @param width Drawing width, e.g. the canvas width in pixels
+ * @param height Drawing height
+ */
+export function getStoneLayout(
+  specs: StoneSpecifications,
+  options: MockupDrawingOptions = {},
+  width: number = 800,
+  height: number = 600
+): StoneLayout {
+  const { scale = 1, padding = 40, titleBlock } = options;
+
+  // The piece and its legend go above the title block
+  const drawingHeight = getDrawingHeight(height, titleBlock);
+
+  // Scale to fit the stone piece in the drawing
+  const finalScale = Math.min((width - padding * 2) / specs.width, (drawingHeight - padding * 2) / specs.height) * scale;
+  return {
+    x: (width - specs.width * finalScale) / 2,
+    y: (drawingHeight - specs.height * finalScale) / 2,
+    scale: finalScale,
+  };
+}
+
+/**
+ * Lays out a stone piece with its grid, outline, polished edges, cutouts, seams, dimensions and material label,
+ * and a title block when one is given
+ * @param specs Stone specifications
+ * @param options Drawing options
+ * @param width Drawing width, e.g. the canvas width in pixels
+ * @param height Drawing height
+ * @param measureText Text measurement for labels placed after other labels
+ */
+export function buildStoneScene(
+  specs: StoneSpecifications,
+  options: MockupDrawingOptions = {},
+  width: number = 800,
+  height: number = 600,
+  measureText: MeasureText = measureTextWidth
+): Scene {
+  const {
+    showGrid = true,
+    showPolishedEdges = true,
+    useXMarks = true,
+    dimensionTerminator = 'tick',
+    titleBlock,
+    toolpaths,
+  } = options;
+
+  const drawingHeight = getDrawingHeight(height, titleBlock);
+  const { x, y, scale: finalScale } = getStoneLayout(specs, options, width, height);
+  const scaledWidth = specs.width * finalScale;
+  const scaledHeight = specs.height * finalScale;
+
+  const scene = createScene(width, height, { x, y }, finalScale);
+  getLayer(scene, 'background').items.push({
+    type: 'path',
+    commands: [{ type: 'rect', x: 0, y: 0, width, height }],
+    fill: BACKGROUND_COLOR,
+  });
+
+  // Map the piece outline from inches to drawing coordinates
+  const outline = scaleOutline(getPieceOutline(specs), x, y, finalScale);
+  const outlinePath = getOutlinePath(outline);
+  const rectangular = isRectangular(specs);
+  const treatedCorners = hasCornerTreatments(specs);
+
+  // Graph paper grid inside the piece: quarter inch minor lines and inch major lines
+  if (showGrid) {
+    const grid = { x, y, width: scaledWidth, height: scaledHeight, clip: outlinePath };
+    getLayer(scene, 'grid').items.push(
+      { type: 'grid', ...grid, spacing: finalScale * 0.25, color: '#c0c0c0', lineWidth: 0.5, dense: true },
+      { type: 'grid', ...grid, spacing: finalScale, color: '#808080', lineWidth: 0.8 }
+    );
+  }
+
+  getLayer(scene, 'stone').items.push({
+    type: 'path',
+    commands: rectangular && !treatedCorners
+      ? [{ type: 'rect', x, y, width: scaledWidth, height: scaledHeight }]
+      : outlinePath,
+    fill: 'white',
+    stroke: 'black',
+    lineWidth: 2,
+  });
+
+  if (showPolishedEdges) {
+    addPolishedEdges(scene, outline, getEdgeProfiles(specs), useXMarks, drawingHeight - 12, measureText);
+  }
+
+  if (specs.cutouts && specs.cutouts.length > 0) {
+    addCutouts(scene, specs, specs.cutouts, x, y, finalScale, dimensionTerminator);
+  }
+
+  // Seam lines with each section's size, and seam markers on the cut edges of a section
+  const seams = getValidSeams(specs);
+  if (seams.length > 0) {
+    addSeams(scene, specs, seams, outlinePath, x, y, finalScale);
+  }
+  if (outline.some(segment => segment.id.startsWith('seam-'))) {
+    addSeamMarkers(scene, outline);
+  }
+
+  // Non-rectangular pieces are dimensioned edge by edge with square corners
+  if (rectangular) {
+    addDimensions(scene, seams, x, y, scaledWidth, scaledHeight, finalScale, dimensionTerminator);
+  } else {
+    addOutlineDimensions(scene, scaleOutline(getBaseOutline(specs), x, y, finalScale), finalScale, dimensionTerminator);
+  }
+
+  if (treatedCorners) {
+    addCornerTreatments(scene, specs, x, y, finalScale);
+  }
+
+  // Material and thickness at the bottom right of the label area
+  const labelAnchor = getLabelAnchor(specs);
+  getLayer(scene, 'annotations').items.push({
+    type: 'text',
+    text: `${getMaterialName(specs)}, ${specs.thickness}`,
+    x: x + labelAnchor.x * finalScale - 5,
+    y: y + labelAnchor.y * finalScale - 5,
+    font: '12px Arial',
+    color: 'black',
+    align: 'right',
+  });
+
+  if (toolpaths) {
+    addToolpaths(scene, toolpaths, x, y, finalScale);
+  }
+
+  if (titleBlock) {
+    addTitleBlock(scene, titleBlock, TITLE_BLOCK_MARGIN, height - TITLE_BLOCK_HEIGHT - TITLE_BLOCK_MARGIN, width - TITLE_BLOCK_MARGIN * 2, measureText);
+  }
+
+  return scene;
+}
+
+// Full-size templates are laid out a point (1/72 inch) to the drawing unit, so label sizes read as points
+const TEMPLATE_UNITS_PER_INCH = 72;
+
+/**
+ * Lays out a stone piece at full size for a printed template, without the background or grid.
+ * The scene's scale gives its drawing units per inch
+ * @param specs Stone specifications
+ * @param options Drawing options; the grid and zoom are ignored
+ */
+export function buildTemplateScene(specs: StoneSpecifications, options: MockupDrawingOptions = {}): Scene {
+  const padding = options.padding ?? 40;
+  const scene = buildStoneScene(
+    specs,
+    { ...options, showGrid: false, scale: 1, padding },
+    specs.width * TEMPLATE_UNITS_PER_INCH + padding * 2,
+    specs.height * TEMPLATE_UNITS_PER_INCH + padding * 2
+  );
+  getLayer(scene, 'background').items = [];
+  return scene;
+}
+
+/**
+ * Lays out a slab with the parts nested on it, each labeled with its piece and size
+ * @param slab Nested slab from nestPieces
+ * @param width Drawing width
+ * @param height Drawing height
+ * @param padding Space left around the slab
+ */
+export function buildSlabScene(slab: NestedSlab, width: number = 800, height: number = 600, padding: number = 40): Scene {
+  const scale = Math.min((width - padding * 2) / slab.size.width, (height - padding * 2) / slab.size.height);
+  const slabWidth = slab.size.width * scale;
+  const slabHeight = slab.size.height * scale;
+  const x = (width - slabWidth) / 2;
+  const y = (height - slabHeight) / 2;
+
+  const scene = createScene(width, height, { x, y }, scale);
+  getLayer(scene, 'background').items.push({
+    type: 'path',
+    commands: [{ type: 'rect', x: 0, y: 0, width, height }],
+    fill: BACKGROUND_COLOR,
+  });
+
+  // Slab, shaded so the offcut areas stand out from the white parts
+  const stone = getLayer(scene, 'stone').items;
+  const labels = getLayer(scene, 'annotations').items;
+  stone.push({
+    type: 'path',
+    commands: [{ type: 'rect', x, y, width: slabWidth, height: slabHeight }],
+    fill: '#d1d5db',
+    stroke: '#4b5563',
+    lineWidth: 2,
+  });
+
+  slab.placements.forEach(placement => {
+    stone.push({
+      type: 'path',
+      commands: getOutlinePath(scaleOutline(getPlacedOutline(placement), x, y, scale)),
+      fill: 'white',
+      stroke: 'black',
+      lineWidth: 2,
+    });
+
+    const { part, rotated } = placement;
+    const partWidth = (rotated ? part.height : part.width) * scale;
+    const partHeight = (rotated ? part.width : part.height) * scale;
+    const centerX = x + placement.x * scale + partWidth / 2;
+    const centerY = y + placement.y * scale + partHeight / 2;
+    const size = `${decimalToFraction(part.width)}" × ${decimalToFraction(part.height)}"`;
+
+    labels.push(
+      { type: 'text', text: part.label, x: centerX, y: centerY - 4, font: 'bold 12px Arial', color: 'black', align: 'center' },
+      { type: 'text', text: rotated ? `${size} (rotated)` : size, x: centerX, y: centerY + 10, font: '11px Arial', color: 'black', align: 'center' }
+    );
+  });
+
+  // Slab size along the top
+  labels.push({
+    type: 'text',
+    text: `${decimalToFraction(slab.size.width)}" × ${decimalToFraction(slab.size.height)}" slab - ${Math.round(slab.yield * 100)}% yield`,
+    x: width / 2,
+    y: y - 12,
+    font: '14px Arial',
+    color: 'black',
+    align: 'center',
+  });
+
+  return scene;
+}
+
+/**
+ * Converts an outline in inches to drawing coordinates
+ */
+function scaleOutline(
+  outline: OutlineSegment[],
+  x: number,
+  y: number,
+  scale: number
+): OutlineSegment[] {
+  return outline.map(segment => ({
+    id: segment.id,
+    start: { x: x + segment.start.x * scale, y: y + segment.start.y * scale },
+    end: { x: x + segment.end.x * scale, y: y + segment.end.y * scale },
+    arc: segment.arc && {
+      center: { x: x + segment.arc.center.x * scale, y: y + segment.arc.center.y * scale },
+      radius: segment.arc.radius * scale,
+    },
+  }));
+}
+
+/**
+ * Returns a closed outline as path commands
+ */
+function getOutlinePath(outline: OutlineSegment[]): ScenePathCommand[] {
+  if (outline.length === 0) return [];
+
+  return [
+    { type: 'move', x: outline[0].start.x, y: outline[0].start.y },
+    ...outline.map(getSegmentCommand),
+  ];
+}
+
+/**
+ * Returns the command continuing a path along an outline segment from its start point
+ */
+function getSegmentCommand(segment: OutlineSegment): ScenePathCommand {
+  if (segment.arc) {
+    const { startAngle, endAngle } = getArcAngles(segment);
+    return { type: 'arc', x: segment.arc.center.x, y: segment.arc.center.y, radius: segment.arc.radius, startAngle, endAngle };
+  }
+  return { type: 'line', x: segment.end.x, y: segment.end.y };
+}
+
+/**
+ * Adds CNC toolpaths: the band the tool cuts, its centerline and dashed leads in and out
+ */
+function addToolpaths(scene: Scene, plan: ToolpathPlan, x: number, y: number, scale: number) {
+  const items = getLayer(scene, 'toolpaths').items;
+  const toDrawing = (point: Point): Point => ({ x: x + point.x * scale, y: y + point.y * scale });
+
+  plan.toolpaths.forEach(toolpath => {
+    const commands: ScenePathCommand[] = [...getOutlinePath(scaleOutline(toolpath.loop, x, y, scale)), { type: 'close' }];
+    const start = toDrawing(toolpath.loop[0].start);
+    const leadIn = toDrawing(toolpath.leadIn);
+    const leadOut = toDrawing(toolpath.leadOut);
+
+    items.push(
+      { type: 'path', commands, stroke: KERF_COLOR, lineWidth: plan.toolDiameter * scale },
+      { type: 'path', commands, stroke: TOOLPATH_COLOR, lineWidth: 1 },
+      {
+        type: 'path',
+        commands: [
+          { type: 'move', x: leadIn.x, y: leadIn.y },
+          { type: 'line', x: start.x, y: start.y },
+          { type: 'line', x: leadOut.x, y: leadOut.y },
+        ],
+        stroke: TOOLPATH_COLOR,
+        lineWidth: 1,
+        dash: [4, 3],
+      }
+    );
+  });
+}
+
+/**
+ * Returns the height of a drawing left above its title block
+ */
+function getDrawingHeight(height: number, titleBlock?: TitleBlock): number {
+  return titleBlock ? height - TITLE_BLOCK_HEIGHT - TITLE_BLOCK_MARGIN * 2 : height;
+}
+
+/**
+ * Adds the polished edges, one path per edge profile with its own line style, and a legend of the profiles used
+ * @param y Drawing position of the legend, along the bottom of the drawing
+ */
+function addPolishedEdges(
+  scene: Scene,
+  outline: OutlineSegment[],
+  edgeProfiles: Record<string, EdgeProfile>,
+  useXMarks: boolean,
+  y: number,
+  measureText: MeasureText
+) {
+  const profiles = EDGE_PROFILES.filter(profile => outline.some(segment => edgeProfiles[segment.id] === profile));
+  if (profiles.length === 0) return;
+
+  const edges = getLayer(scene, 'edges').items;
+  profiles.forEach(profile => {
+    const segments = outline.filter(segment => edgeProfiles[segment.id] === profile);
+    const style = getEdgeProfileStyle(profile);
+
+    edges.push({
+      type: 'path',
+      commands: segments.flatMap(segment => [
+        { type: 'move' as const, x: segment.start.x, y: segment.start.y },
+        getSegmentCommand(segment),
+      ]),
+      stroke: style.color,
+      lineWidth: style.lineWidth,
+      dash: style.dash,
+    });
+
+    if (useXMarks) {
+      edges.push({ type: 'path', commands: getXMarks(segments), stroke: style.color, lineWidth: 2 });
+    }
+  });
+
+  const legend = getLayer(scene, 'annotations').items;
+  const swatchWidth = 24;
+  const font = '11px Arial';
+  let x = 10;
+
+  profiles.forEach(profile => {
+    const style = getEdgeProfileStyle(profile);
+    const label = getEdgeProfileLabel(profile);
+
+    legend.push(
+      {
+        type: 'path',
+        commands: [{ type: 'move', x, y }, { type: 'line', x: x + swatchWidth, y }],
+        stroke: style.color,
+        lineWidth: style.lineWidth,
+        dash: style.dash,
+      },
+      { type: 'text', text: label, x: x + swatchWidth + 4, y: y + 4, font, color: 'black', align: 'left' }
+    );
+    x += swatchWidth + 4 + measureText(label, font) + 16;
+  });
+}
+
+/**
+ * Returns X marks spaced along the given edges
+ */
+function getXMarks(segments: OutlineSegment[]): ScenePathCommand[] {
+  const markSize = 6;
+  const spacing = 20;
+  const commands: ScenePathCommand[] = [];
+
+  segments.forEach(segment => {
+    const length = getSegmentLength(segment);
+
+    for (let i = spacing; i < length; i += spacing) {
+      const { x: cx, y: cy } = getPointAlongSegment(segment, i);
+      commands.push(
+        { type: 'move', x: cx - markSize, y: cy - markSize },
+        { type: 'line', x: cx + markSize, y: cy + markSize },
+        { type: 'move', x: cx - markSize, y: cy + markSize },
+        { type: 'line', x: cx + markSize, y: cy - markSize }
+      );
+    }
+  });
+
+  return commands;
+}
+
+/**
+ * Adds the overall width along the top and height down the left of a rectangular piece, with the
+ * sections between seams chained inside them
+ */
+function addDimensions(
+  scene: Scene,
+  seams: Seam[],
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  scale: number,
+  terminator: DimensionTerminator
+) {
+  const style: DimensionStyle = { color: 'black', font: '14px Arial', lineWidth: 0.75, tickSize: 5, terminator };
+  const top = [{ x, y }, { x: x + width, y }];
+  const left = [{ x, y }, { x, y: y + height }];
+  const seamsX = seams.filter(seam => seam.orientation === 'vertical').map(seam => ({ x: x + seam.position * scale, y }));
+  const seamsY = seams.filter(seam => seam.orientation === 'horizontal').map(seam => ({ x, y: y + seam.position * scale }));
+
+  // Lines above the piece have negative offsets, lines to its left positive ones
+  const dimensions = [
+    ...getChainDimensions([...top, ...seamsX], 'horizontal', -DIMENSION_OFFSET, scale, style),
+    ...getChainDimensions([...left, ...seamsY], 'vertical', DIMENSION_OFFSET, scale, style),
+    ...(seamsX.length > 0 ? getChainDimensions(top, 'horizontal', -DIMENSION_OFFSET, scale, style) : []),
+    ...(seamsY.length > 0 ? getChainDimensions(left, 'vertical', DIMENSION_OFFSET, scale, style) : []),
+  ];
+  getLayer(scene, 'dimensions').items.push(...staggerDimensions(dimensions, DIMENSION_SPACING));
+}
+
+/**
+ * Adds dashed seam lines across the piece and labels each section with its size
+ */
+function addSeams(
+  scene: Scene,
+  specs: StoneSpecifications,
+  seams: Seam[],
+  outlinePath: ScenePathCommand[],
+  x: number,
+  y: number,
+  scale: number
+) {
+  const width = specs.width * scale;
+  const height = specs.height * scale;
+  const items = getLayer(scene, 'seams').items;
+
+  // Seam lines stop at the outline, e.g. where a seam crosses only the run of an L-shape
+  items.push({
+    type: 'path',
+    commands: seams.flatMap((seam): ScenePathCommand[] => seam.orientation === 'vertical'
+      ? [{ type: 'move', x: x + seam.position * scale, y }, { type: 'line', x: x + seam.position * scale, y: y + height }]
+      : [{ type: 'move', x, y: y + seam.position * scale }, { type: 'line', x: x + width, y: y + seam.position * scale }]
+    ),
+    stroke: SEAM_COLOR,
+    lineWidth: 2,
+    dash: [10, 5],
+    clip: outlinePath,
+  });
+
+  getSeamSections(specs).forEach(section => {
+    const centerX = x + (section.offset.x + section.specs.width / 2) * scale;
+    const centerY = y + (section.offset.y + section.specs.height / 2) * scale;
+    const size = `${decimalToFraction(section.specs.width)}" × ${decimalToFraction(section.specs.height)}"`;
+    const font = 'bold 12px Arial';
+
+    items.push(
+      { type: 'text', text: `Section ${section.index + 1}`, x: centerX, y: centerY - 4, font, color: SEAM_COLOR, align: 'center' },
+      { type: 'text', text: size, x: centerX, y: centerY + 12, font, color: SEAM_COLOR, align: 'center' }
+    );
+  });
+}
+
+/**
+ * Marks the seam edges of a section so the cut side can't be mistaken for a finished edge
+ */
+function addSeamMarkers(scene: Scene, outline: OutlineSegment[]) {
+  const seamEdges = outline.filter(segment => segment.id.startsWith('seam-'));
+  const items = getLayer(scene, 'seams').items;
+
+  items.push({
+    type: 'path',
+    commands: seamEdges.flatMap((segment): ScenePathCommand[] => [
+      { type: 'move', x: segment.start.x, y: segment.start.y },
+      { type: 'line', x: segment.end.x, y: segment.end.y },
+    ]),
+    stroke: SEAM_COLOR,
+    lineWidth: 4,
+    dash: [10, 5],
+  });
+
+  seamEdges.forEach(segment => {
+    const length = getSegmentLength(segment);
+    if (length === 0) return;
+
+    // Inward normal of a clockwise outline in screen coordinates
+    const normalX = -(segment.end.y - segment.start.y) / length;
+    const normalY = (segment.end.x - segment.start.x) / length;
+    const midX = (segment.start.x + segment.end.x) / 2 + normalX * 14;
+    const midY = (segment.start.y + segment.end.y) / 2 + normalY * 14;
+
+    // Labels on vertical seams read from the bottom, set 4 units below their baseline either way
+    const vertical = Math.abs(normalX) > Math.abs(normalY);
+    items.push({
+      type: 'text',
+      text: 'SEAM',
+      x: vertical ? midX + 4 : midX,
+      y: vertical ? midY : midY + 4,
+      font: 'bold 12px Arial',
+      color: SEAM_COLOR,
+      align: 'center',
+      rotation: vertical ? -Math.PI / 2 : undefined,
+    });
+  });
+}
+
+/**
+ * Labels each treated corner with its radius, clip or notch size
+ */
+function addCornerTreatments(
+  scene: Scene,
+  specs: StoneSpecifications,
+  x: number,
+  y: number,
+  scale: number
+) {
+  const offset = 16;
+
+  getDrawnCornerTreatments(specs, getPieceOutline(specs)).forEach(([position, treatment]) => {
+    const corner = getCornerPoint(position, specs.width, specs.height);
+    const isRight = position.endsWith('right');
+    const isBottom = position.startsWith('bottom');
+
+    getLayer(scene, 'annotations').items.push({
+      type: 'text',
+      text: describeCornerTreatment(treatment),
+      x: x + corner.x * scale + (isRight ? offset : -offset),
+      y: y + corner.y * scale + (isBottom ? offset : -offset / 2),
+      font: '11px Arial',
+      color: ANNOTATION_COLOR,
+      align: isRight ? 'left' : 'right',
+    });
+  });
+}
+
+/**
+ * Adds sink, cooktop and faucet-hole cutouts with their centerlines, offset dimensions and labels
+ */
+function addCutouts(
+  scene: Scene,
+  specs: StoneSpecifications,
+  cutouts: Cutout[],
+  x: number,
+  y: number,
+  scale: number,
+  terminator: DimensionTerminator
+) {
+  const items = getLayer(scene, 'cutouts').items;
+  const dimensions = getLayer(scene, 'dimensions').items;
+
+  cutouts.forEach(cutout => {
+    const center = getCutoutCenter(specs, cutout);
+    const size = getCutoutSize(cutout);
+
+    const cx = x + center.x * scale;
+    const cy = y + center.y * scale;
+    const width = size.width * scale;
+    const height = size.height * scale;
+
+    // Cutout opening, filled with the background color so it reads as a hole in the stone
+    const radius = Math.min((cutout.cornerRadius || 0) * scale, width / 2, height / 2);
+    items.push({
+      type: 'path',
+      commands: cutout.type === 'rectangle'
+        ? getRoundedRectPath(cx - width / 2, cy - height / 2, width, height, radius)
+        : [{ type: 'ellipse', x: cx, y: cy, radiusX: width / 2, radiusY: height / 2 }],
+      fill: BACKGROUND_COLOR,
+      stroke: 'black',
+      lineWidth: 1.5,
+    });
+
+    // Centerlines, extended past the opening
+    const overshoot = 8;
+    items.push({
+      type: 'path',
+      commands: [
+        { type: 'move', x: cx - width / 2 - overshoot, y: cy },
+        { type: 'line', x: cx + width / 2 + overshoot, y: cy },
+        { type: 'move', x: cx, y: cy - height / 2 - overshoot },
+        { type: 'line', x: cx, y: cy + height / 2 + overshoot },
+      ],
+      stroke: '#555555',
+      lineWidth: 0.75,
+      dash: [8, 3, 2, 3],
+    });
+
+    // Offset dimensions from the reference edges to the centerlines
+    const edgeX = cutout.xReference === 'left' ? x : x + specs.width * scale;
+    const edgeY = cutout.yReference === 'top' ? y : y + specs.height * scale;
+    const dimension = { color: ANNOTATION_COLOR, font: '11px Arial', lineWidth: 0.75, tickSize: 4, terminator };
+    dimensions.push(
+      { type: 'dimension', start: { x: edgeX, y: cy }, end: { x: cx, y: cy }, label: formatDimension(cutout.xOffset), ...dimension },
+      { type: 'dimension', start: { x: cx, y: edgeY }, end: { x: cx, y: cy }, label: formatDimension(cutout.yOffset), ...dimension }
+    );
+
+    // Hole labels sit above the hole, other labels inside the opening
+    items.push({
+      type: 'text',
+      text: cutout.label,
+      x: cx,
+      y: cutout.type === 'hole' ? cy - height / 2 - overshoot - 4 : cy + height / 4,
+      font: '11px Arial',
+      color: 'black',
+      align: 'center',
+    });
+  });
+}
+
+/**
+ * Returns a rectangle with rounded corners as path commands
+ */
+function getRoundedRectPath(x: number, y: number, width: number, height: number, radius: number): ScenePathCommand[] {
+  return [
+    { type: 'move', x: x + radius, y },
+    { type: 'arcTo', x1: x + width, y1: y, x2: x + width, y2: y + height, radius },
+    { type: 'arcTo', x1: x + width, y1: y + height, x2: x, y2: y + height, radius },
+    { type: 'arcTo', x1: x, y1: y + height, x2: x, y2: y, radius },
+    { type: 'arcTo', x1: x, y1: y, x2: x + width, y2: y, radius },
+  ];
+}
+
+/**
+ * Dimensions every straight outline segment just outside the piece
+ */
+function addOutlineDimensions(scene: Scene, outline: OutlineSegment[], scale: number, terminator: DimensionTerminator) {
+  const style: DimensionStyle = { color: 'black', font: '14px Arial', lineWidth: 0.75, tickSize: 5, terminator };
+
+  getLayer(scene, 'dimensions').items.push(
+    ...outline
+      .filter(segment => !segment.arc && getSegmentLength(segment) > 0)
+      .map((segment): SceneDimension => ({
+        type: 'dimension',
+        start: segment.start,
+        end: segment.end,
+        // The outside of a clockwise outline is a quarter turn counterclockwise from each segment
+        offset: -DIMENSION_OFFSET,
+        label: formatDimension(getSegmentLength(segment) / scale),
+        ...style,
+      }))
+  );
+}
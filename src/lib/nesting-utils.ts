@@ -0,0 +1,296 @@
+"use client"
+
+import { CatalogMaterial, OutlineSegment, SlabSize, StonePiece } from '@/types/stone';
+import { getPieceArea, getPieceOutline } from '@/lib/shape-utils';
+import { getSeamSections } from '@/lib/seam-utils';
+import { DEFAULT_MATERIAL_CATALOG, getMaterialKey, getMaterialName, getPieceSlabSize } from '@/lib/material-catalog-utils';
+
+/**
+ * Utility functions for nesting saved pieces onto slabs
+ */
+
+export interface NestingOptions {
+  kerf: number; // Width of the saw cut left between neighboring parts, in inches
+  lockGrain: boolean; // Keep every part in its drawn orientation so veining runs the same way
+}
+
+// A single part to cut: one copy of a piece, or one section of a seamed piece
+export interface NestPart {
+  pieceId: string;
+  label: string;
+  width: number;
+  height: number;
+  area: number; // Actual stone area of the part, excluding the waste around shaped outlines
+  outline: OutlineSegment[];
+  materialKey: string; // Parts share slabs only with the same catalog entry, or material type without one
+  materialName: string;
+  materialType: string;
+  thickness: string;
+}
+
+export interface NestPlacement {
+  part: NestPart;
+  x: number;
+  y: number;
+  rotated: boolean; // Turned a quarter turn clockwise to fit
+}
+
+export interface NestedSlab {
+  index: number;
+  materialKey: string;
+  materialName: string;
+  materialType: string;
+  thickness: string;
+  size: SlabSize;
+  placements: NestPlacement[];
+  yield: number; // Fraction of the slab area used by parts
+}
+
+export interface NestingResult {
+  slabs: NestedSlab[];
+  unplaced: NestPart[]; // Parts larger than their slab
+  yield: number;
+}
+
+export const DEFAULT_NESTING_OPTIONS: NestingOptions = {
+  kerf: 0.125,
+  lockGrain: false,
+};
+
+interface FreeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Expands saved pieces into the parts to cut: one per copy, and one per section of seamed pieces.
+ * Pieces cut from a reserved remnant don't need a slab
+ */
+export function getNestParts(pieces: StonePiece[]): NestPart[] {
+  return pieces.flatMap((piece, pieceIndex) => {
+    if (piece.specs.remnant) return [];
+
+    const quantity = Math.max(1, piece.specs.quantity || 1);
+    const sections = getSeamSections(piece.specs);
+    const shapes = sections.length > 0
+      ? sections.map(section => ({ specs: section.specs, suffix: `-S${section.index + 1}` }))
+      : [{ specs: piece.specs, suffix: '' }];
+
+    return Array.from({ length: quantity }, (_, copy) => shapes.map(({ specs, suffix }) => ({
+      pieceId: piece.id,
+      label: `P${pieceIndex + 1}${suffix}${quantity > 1 ? ` #${copy + 1}` : ''}`,
+      width: specs.width,
+      height: specs.height,
+      area: getPieceArea(specs),
+      outline: getPieceOutline(specs),
+      materialKey: getMaterialKey(piece.specs),
+      materialName: getMaterialName(piece.specs),
+      materialType: specs.materialType,
+      thickness: specs.thickness,
+    }))).flat();
+  });
+}
+
+/**
+ * Packs the parts of all saved pieces onto as few slabs as possible, one run per material and thickness.
+ * Slab sizes come from the catalog entry of each material, or the per-material slab sizes without one.
+ * Parts are packed by their bounding boxes with MaxRects, largest first, keeping the best of several placement rules
+ */
+export function nestPieces(
+  pieces: StonePiece[],
+  slabSizes: Record<string, SlabSize> = {},
+  options: NestingOptions = DEFAULT_NESTING_OPTIONS,
+  catalog: CatalogMaterial[] = DEFAULT_MATERIAL_CATALOG
+): NestingResult {
+  const groups = new Map<string, NestPart[]>();
+  getNestParts(pieces).forEach(part => {
+    const key = `${part.materialKey}|${part.thickness}`;
+    groups.set(key, [...(groups.get(key) || []), part]);
+  });
+
+  const groupSlabSizes = new Map(pieces.map(piece => [
+    getMaterialKey(piece.specs),
+    getPieceSlabSize(piece.specs, catalog, slabSizes),
+  ]));
+
+  const slabs: NestedSlab[] = [];
+  const unplaced: NestPart[] = [];
+
+  groups.forEach(parts => {
+    const size = groupSlabSizes.get(parts[0].materialKey)!;
+    const sorted = [...parts].sort((a, b) => Math.max(b.width, b.height) - Math.max(a.width, a.height) || b.area - a.area);
+
+    // No single rule packs every job well, so keep the one that needs the fewest slabs
+    const best = PLACEMENT_RULES
+      .map(rule => packGroup(sorted, size, options, rule))
+      .reduce((a, b) => b.slabs.length < a.slabs.length ? b : a);
+
+    best.slabs.forEach(slab => {
+      slabs.push({ ...slab, index: slabs.length });
+    });
+    unplaced.push(...best.unplaced);
+  });
+
+  const totalSlabArea = slabs.reduce((sum, slab) => sum + slab.size.width * slab.size.height, 0);
+  const totalUsedArea = slabs.reduce((sum, slab) => sum + getUsedArea(slab), 0);
+
+  return {
+    slabs,
+    unplaced,
+    yield: totalSlabArea > 0 ? totalUsedArea / totalSlabArea : 0,
+  };
+}
+
+/**
+ * Returns the outline of a placed part in slab coordinates (inches from the slab's top-left corner)
+ */
+export function getPlacedOutline(placement: NestPlacement): OutlineSegment[] {
+  const { part, x, y, rotated } = placement;
+
+  // A quarter turn clockwise on screen maps (px, py) to (height - py, px) and keeps the outline clockwise
+  const place = (point: { x: number; y: number }) => rotated
+    ? { x: x + part.height - point.y, y: y + point.x }
+    : { x: x + point.x, y: y + point.y };
+
+  return part.outline.map(segment => ({
+    id: segment.id,
+    start: place(segment.start),
+    end: place(segment.end),
+    ...(segment.arc && { arc: { center: place(segment.arc.center), radius: segment.arc.radius } }),
+  }));
+}
+
+// Scores a part placed in a free rectangle, lower is better
+type PlacementRule = (rect: FreeRect, width: number, height: number) => number;
+
+const PLACEMENT_RULES: PlacementRule[] = [
+  // Best short side fit
+  (rect, width, height) => Math.min(rect.width - width, rect.height - height),
+  // Best long side fit
+  (rect, width, height) => Math.max(rect.width - width, rect.height - height),
+  // Best area fit
+  (rect, width, height) => rect.width * rect.height - width * height,
+  // Top-left first
+  (rect) => rect.y * 1e6 + rect.x,
+];
+
+function packGroup(
+  parts: NestPart[],
+  size: SlabSize,
+  options: NestingOptions,
+  rule: PlacementRule
+): { slabs: NestedSlab[]; unplaced: NestPart[] } {
+  const open: { slab: NestedSlab; free: FreeRect[] }[] = [];
+  const unplaced: NestPart[] = [];
+
+  // The kerf is added to every part and to the slab, which leaves exactly one kerf between neighbors
+  const usable: FreeRect = { x: 0, y: 0, width: size.width + options.kerf, height: size.height + options.kerf };
+
+  parts.forEach(part => {
+    const width = part.width + options.kerf;
+    const height = part.height + options.kerf;
+
+    // Only start a new slab when the part doesn't fit on any slab already started
+    let target = open.find(candidate => findPosition(candidate.free, width, height, !options.lockGrain, rule));
+    if (!target) {
+      if (!findPosition([usable], width, height, !options.lockGrain, rule)) {
+        unplaced.push(part);
+        return;
+      }
+      target = {
+        slab: {
+          index: open.length,
+          materialKey: part.materialKey,
+          materialName: part.materialName,
+          materialType: part.materialType,
+          thickness: part.thickness,
+          size,
+          placements: [],
+          yield: 0,
+        },
+        free: [usable],
+      };
+      open.push(target);
+    }
+
+    const fit = findPosition(target.free, width, height, !options.lockGrain, rule)!;
+    target.slab.placements.push({ part, x: fit.rect.x, y: fit.rect.y, rotated: fit.rotated });
+    target.free = splitFreeRects(target.free, {
+      x: fit.rect.x,
+      y: fit.rect.y,
+      width: fit.rotated ? height : width,
+      height: fit.rotated ? width : height,
+    });
+  });
+
+  return {
+    slabs: open.map(({ slab }) => ({ ...slab, yield: getUsedArea(slab) / (size.width * size.height) })),
+    unplaced,
+  };
+}
+
+function getUsedArea(slab: NestedSlab): number {
+  return slab.placements.reduce((sum, placement) => sum + placement.part.area, 0);
+}
+
+function findPosition(
+  free: FreeRect[],
+  width: number,
+  height: number,
+  allowRotation: boolean,
+  rule: PlacementRule
+): { rect: FreeRect; rotated: boolean } | null {
+  let best: { rect: FreeRect; rotated: boolean; score: number } | null = null;
+
+  free.forEach(rect => {
+    const orientations = allowRotation ? [false, true] : [false];
+    orientations.forEach(rotated => {
+      const w = rotated ? height : width;
+      const h = rotated ? width : height;
+      if (w > rect.width + 1e-9 || h > rect.height + 1e-9) return;
+
+      const score = rule(rect, w, h);
+      if (!best || score < best.score) {
+        best = { rect, rotated, score };
+      }
+    });
+  });
+
+  return best;
+}
+
+function splitFreeRects(free: FreeRect[], used: FreeRect): FreeRect[] {
+  const next: FreeRect[] = [];
+
+  free.forEach(rect => {
+    const overlaps = used.x < rect.x + rect.width && used.x + used.width > rect.x
+      && used.y < rect.y + rect.height && used.y + used.height > rect.y;
+    if (!overlaps) {
+      next.push(rect);
+      return;
+    }
+
+    // Keep the parts of the free rectangle on each side of the used area
+    if (used.x > rect.x) {
+      next.push({ x: rect.x, y: rect.y, width: used.x - rect.x, height: rect.height });
+    }
+    if (used.x + used.width < rect.x + rect.width) {
+      next.push({ x: used.x + used.width, y: rect.y, width: rect.x + rect.width - used.x - used.width, height: rect.height });
+    }
+    if (used.y > rect.y) {
+      next.push({ x: rect.x, y: rect.y, width: rect.width, height: used.y - rect.y });
+    }
+    if (used.y + used.height < rect.y + rect.height) {
+      next.push({ x: rect.x, y: used.y + used.height, width: rect.width, height: rect.y + rect.height - used.y - used.height });
+    }
+  });
+
+  // Drop free rectangles contained in another
+  return next.filter((rect, i) => !next.some((other, j) => j !== i
+    && rect.x >= other.x && rect.y >= other.y
+    && rect.x + rect.width <= other.x + other.width
+    && rect.y + rect.height <= other.y + other.height
+    && (j < i || rect.x !== other.x || rect.y !== other.y || rect.width !== other.width || rect.height !== other.height)));
+}
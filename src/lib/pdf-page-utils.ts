@@ -0,0 +1,426 @@
+"use client"
+
+import jsPDF from 'jspdf';
+import { StoneSpecifications } from '@/types/stone';
+import { getSeamSections } from '@/lib/seam-utils';
+import { MockupDrawingOptions, buildSlabScene, buildStoneScene } from '@/lib/mockup-scene-utils';
+import { drawSceneToPDF, drawSceneToPDFAtScale } from '@/lib/pdf-vector-utils';
+import { Scene, createScene } from '@/lib/scene-utils';
+import { TITLE_BLOCK_HEIGHT, TitleBlockDetails, addTitleBlock, createTitleBlock, formatScale } from '@/lib/title-block-utils';
+import { PAPER_SIZES, TEMPLATE_MARGIN, TEMPLATE_OVERLAP, TemplateLayout, TemplateTile, getNeighborTile } from '@/lib/template-utils';
+import { getMaterialName } from '@/lib/material-catalog-utils';
+import { NestingResult } from '@/lib/nesting-utils';
+import { Estimate, formatCurrency, getEstimateTotals } from '@/lib/estimate-utils';
+import { getSpecificationLines } from '@/lib/spec-summary-utils';
+import { decimalToFraction } from '@/lib/fraction-utils';
+
+/**
+ * Extra pages added to PDF exports for seam sections, slab layouts and the quote, shared by the PDF exporters,
+ * and the pages of full-size templates
+ */
+
+// Same page layout as the piece pages: landscape A4 with a title block along the bottom
+const PDF_MARGINS = { left: 14, top: 20 };
+const PAGE_SIZE = { width: 297, height: 210 };
+const DRAWING_SIZE = { width: 180, height: 120 };
+const TITLE_BLOCK_SIZE = { width: PAGE_SIZE.width - PDF_MARGINS.left * 2, height: 24 };
+const TITLE_BLOCK_TOP = PAGE_SIZE.height - 8 - TITLE_BLOCK_SIZE.height;
+
+// Drawings end a little above the title block, and move to a new page rather than drawing smaller than this
+const DRAWING_BOTTOM = TITLE_BLOCK_TOP - 4;
+const MIN_DRAWING_HEIGHT = 60;
+
+// Scale of the drawing on each page, by page number, for the title blocks
+const pageScales = new WeakMap<jsPDF, Map<number, string>>();
+
+/**
+ * Draws a piece with vector paths and text in the drawing area of a page, below the given height
+ * and above the title block, continuing on a new page when too little of the page is left
+ * @param width Drawing width the piece is laid out at, e.g. the preview canvas width
+ * @param height Drawing height
+ */
+export function addPieceDrawing(
+  pdf: jsPDF,
+  specs: StoneSpecifications,
+  y: number,
+  options: MockupDrawingOptions = {},
+  width: number = 800,
+  height: number = 600
+): void {
+  addDrawing(pdf, buildStoneScene(specs, options, width, height), y);
+}
+
+/**
+ * Adds a title block along the bottom of every page, numbering the pages as sheets of the set and
+ * giving the scale of each page's drawing. Call once every page has been added
+ */
+export function addTitleBlocks(pdf: jsPDF, details: TitleBlockDetails): void {
+  // Laid out at the block's usual proportions, then scaled to the page
+  const mmPerUnit = TITLE_BLOCK_SIZE.height / TITLE_BLOCK_HEIGHT;
+  const width = TITLE_BLOCK_SIZE.width / mmPerUnit;
+
+  try {
+    const sheetCount = pdf.getNumberOfPages();
+    const scales = pageScales.get(pdf);
+
+    for (let sheet = 1; sheet <= sheetCount; sheet++) {
+      pdf.setPage(sheet);
+      const scene = createScene(width, TITLE_BLOCK_HEIGHT, { x: 0, y: 0 }, 1);
+      addTitleBlock(scene, createTitleBlock(details, sheet, sheetCount, scales?.get(sheet) ?? 'N/A'), 0, 0, width);
+      drawSceneToPDFAtScale(pdf, scene, PDF_MARGINS.left, TITLE_BLOCK_TOP, mmPerUnit);
+    }
+  } catch (error) {
+    // The document is still usable without its title blocks
+    console.error('Error adding title blocks:', error);
+  }
+}
+
+/**
+ * Draws a scene in the drawing area of a page and records its scale for the page's title block
+ */
+function addDrawing(pdf: jsPDF, scene: Scene, y: number): void {
+  let top = y;
+  if (DRAWING_BOTTOM - top < MIN_DRAWING_HEIGHT) {
+    pdf.addPage();
+    top = PDF_MARGINS.top;
+  }
+
+  const mmPerUnit = drawSceneToPDF(pdf, scene, PDF_MARGINS.left, top, DRAWING_SIZE.width, Math.min(DRAWING_SIZE.height, DRAWING_BOTTOM - top));
+
+  // Inches of stone per inch of paper
+  const scales = pageScales.get(pdf) || new Map<number, string>();
+  scales.set(pdf.getCurrentPageInfo().pageNumber, formatScale(25.4 / (scene.scale * mmPerUnit)));
+  pageScales.set(pdf, scales);
+}
+
+/**
+ * Adds a page for each section of a seamed piece, drawn on its own with its seam edges marked.
+ * Does nothing for pieces without seams
+ */
+export function addSeamSectionPages(pdf: jsPDF, specs: StoneSpecifications, pieceTitle: string): void {
+  const sections = getSeamSections(specs);
+
+  sections.forEach(section => {
+    pdf.addPage();
+
+    const size = `${decimalToFraction(section.specs.width)}" × ${decimalToFraction(section.specs.height)}"`;
+    pdf.setFontSize(16);
+    pdf.text(`${pieceTitle} - Section ${section.index + 1} of ${sections.length}: ${size}`, PDF_MARGINS.left, PDF_MARGINS.top);
+
+    pdf.setFontSize(12);
+    const specLines = getSpecificationLines(section.specs);
+    specLines.forEach((line, i) => {
+      pdf.text(line, PDF_MARGINS.left, PDF_MARGINS.top + 10 + i * 7);
+    });
+    const drawingY = PDF_MARGINS.top + 10 + specLines.length * 7;
+
+    try {
+      addPieceDrawing(pdf, section.specs, drawingY);
+    } catch (error) {
+      console.error(`Error drawing section ${section.index + 1}:`, error);
+      pdf.setTextColor(255, 0, 0);
+      pdf.text('Error: Could not draw section', PDF_MARGINS.left, drawingY + 60);
+      pdf.setTextColor(0, 0, 0);
+    }
+  });
+}
+
+/**
+ * Adds a page for each nested slab showing where every part is cut from, after a summary of the slab count and yield
+ */
+export function addSlabLayoutPages(pdf: jsPDF, nesting: NestingResult): void {
+  if (nesting.slabs.length === 0 && nesting.unplaced.length === 0) return;
+
+  nesting.slabs.forEach(slab => {
+    pdf.addPage();
+
+    pdf.setFontSize(16);
+    pdf.text(`Slab ${slab.index + 1} of ${nesting.slabs.length}: ${slab.materialName}, ${slab.thickness}`, PDF_MARGINS.left, PDF_MARGINS.top);
+
+    pdf.setFontSize(12);
+    const summaryLines = [
+      `Slab Size: ${decimalToFraction(slab.size.width)}" × ${decimalToFraction(slab.size.height)}"`,
+      `Parts: ${slab.placements.map(placement => placement.part.label).join(', ')}`,
+      `Slab Yield: ${Math.round(slab.yield * 100)}%`,
+      `Job: ${nesting.slabs.length} slab${nesting.slabs.length === 1 ? '' : 's'}, ${Math.round(nesting.yield * 100)}% yield`,
+    ];
+    summaryLines.forEach((line, i) => {
+      pdf.text(line, PDF_MARGINS.left, PDF_MARGINS.top + 10 + i * 7);
+    });
+    const drawingY = PDF_MARGINS.top + 10 + summaryLines.length * 7;
+
+    try {
+      addDrawing(pdf, buildSlabScene(slab), drawingY);
+    } catch (error) {
+      console.error(`Error drawing slab ${slab.index + 1}:`, error);
+      pdf.setTextColor(255, 0, 0);
+      pdf.text('Error: Could not draw slab layout', PDF_MARGINS.left, drawingY + 60);
+      pdf.setTextColor(0, 0, 0);
+    }
+  });
+
+  // The list of parts that didn't fit runs onto more pages above the title block when it's long
+  let y = DRAWING_BOTTOM;
+  nesting.unplaced.forEach((part, i) => {
+    if (y + 7 > DRAWING_BOTTOM) {
+      pdf.addPage();
+      pdf.setFontSize(16);
+      pdf.text(`Parts Too Large for Their Slab${i > 0 ? ' (continued)' : ''}`, PDF_MARGINS.left, PDF_MARGINS.top);
+      pdf.setFontSize(12);
+      y = PDF_MARGINS.top + 10;
+    }
+
+    const size = `${decimalToFraction(part.width)}" × ${decimalToFraction(part.height)}"`;
+    pdf.text(`${part.label}: ${size}, ${part.materialName}, ${part.thickness}`, PDF_MARGINS.left, y);
+    y += 7;
+  });
+}
+
+// Right edges of the quantity, unit price and amount columns on the quote page
+const QUOTE_COLUMNS = { quantity: 200, unitPrice: 240, amount: 280 };
+
+/**
+ * Adds a quote page with the itemized estimate, subtotal, tax, deposit and balance due
+ */
+export function addQuotePage(pdf: jsPDF, estimate: Estimate, projectName: string): void {
+  pdf.addPage();
+
+  pdf.setFontSize(16);
+  pdf.text(`Quote: ${projectName}`, PDF_MARGINS.left, PDF_MARGINS.top);
+  pdf.setFontSize(10);
+  pdf.text(`Prepared: ${new Date().toLocaleDateString()}`, PDF_MARGINS.left, PDF_MARGINS.top + 7);
+
+  let y = PDF_MARGINS.top + 20;
+  pdf.setFontSize(11);
+  pdf.text('Item', PDF_MARGINS.left, y);
+  pdf.text('Qty', QUOTE_COLUMNS.quantity, y, { align: 'right' });
+  pdf.text('Unit Price', QUOTE_COLUMNS.unitPrice, y, { align: 'right' });
+  pdf.text('Amount', QUOTE_COLUMNS.amount, y, { align: 'right' });
+  pdf.line(PDF_MARGINS.left, y + 2, QUOTE_COLUMNS.amount, y + 2);
+  y += 8;
+
+  pdf.setFontSize(10);
+  estimate.lines.forEach(line => {
+    const description = pdf.splitTextToSize(line.description, 150);
+    pdf.text(description, PDF_MARGINS.left, y);
+    pdf.text(`${line.quantity} ${line.unit}`, QUOTE_COLUMNS.quantity, y, { align: 'right' });
+    pdf.text(formatCurrency(line.unitPrice), QUOTE_COLUMNS.unitPrice, y, { align: 'right' });
+    pdf.text(formatCurrency(line.amount), QUOTE_COLUMNS.amount, y, { align: 'right' });
+    y += Math.max(1, description.length) * 5 + 2;
+  });
+
+  pdf.line(PDF_MARGINS.left, y - 3, QUOTE_COLUMNS.amount, y - 3);
+  y += 3;
+  pdf.setFontSize(11);
+  getEstimateTotals(estimate).forEach(([label, amount]) => {
+    pdf.text(label, QUOTE_COLUMNS.unitPrice, y, { align: 'right' });
+    pdf.text(amount, QUOTE_COLUMNS.amount, y, { align: 'right' });
+    y += 7;
+  });
+}
+
+// Alignment crosshair arm length and the size of the page labels in the margins
+const CROSSHAIR_SIZE = 5;
+const TEMPLATE_LABEL_FONT_SIZE = 9;
+
+/**
+ * Fills a new template document: a cover page with printing instructions, calibration rulers and a map
+ * of the pages, then one page per tile of the full-size template
+ * @param pdf Template document, in millimeters with the layout's paper size and orientation
+ * @param scene Full-size template scene from buildTemplateScene
+ * @param layout Page layout of the template
+ */
+export function addTemplatePages(pdf: jsPDF, specs: StoneSpecifications, scene: Scene, layout: TemplateLayout): void {
+  const mmPerUnit = 25.4 / scene.scale;
+  const paper = PAPER_SIZES[layout.paperSize];
+  const pageCount = layout.tiles.length;
+  const left = TEMPLATE_MARGIN;
+
+  // Cover page
+  pdf.setFontSize(16);
+  pdf.text(`Full-Size Template: ${decimalToFraction(specs.width)}" × ${decimalToFraction(specs.height)}"`, left, PDF_MARGINS.top);
+
+  pdf.setFontSize(10);
+  const instructions = [
+    `${getMaterialName(specs)}, ${specs.thickness}`,
+    `${paper.label} paper, ${layout.orientation}: ${pageCount} page${pageCount === 1 ? '' : 's'} in ${layout.rows} row${layout.rows === 1 ? '' : 's'} of ${layout.columns}`,
+    'Print at 100% (actual size) with page scaling off, then check both rulers below.',
+    `Pages overlap by ${TEMPLATE_OVERLAP} mm: trim one page along its dashed line, lay it over`,
+    'its neighbor with the crosshairs lined up and tape, following the page map.',
+  ];
+  instructions.forEach((line, i) => {
+    pdf.text(line, left, PDF_MARGINS.top + 10 + i * 6);
+  });
+
+  const rulerY = PDF_MARGINS.top + 10 + instructions.length * 6 + 8;
+  addCalibrationRuler(pdf, left, rulerY, 100, 1, 5, 10, value => `${value / 10}`, '100 mm');
+  addCalibrationRuler(pdf, left, rulerY + 20, 4 * 25.4, 25.4 / 8, 25.4 / 2, 25.4, value => `${Math.round(value / 25.4)}`, '4 in');
+
+  // Page map: the template with every page outlined and labeled, scaled to fit the rest of the cover
+  const mapY = rulerY + 40;
+  const mapWidth = layout.printWidth;
+  const mapHeight = layout.pageHeight - TEMPLATE_MARGIN - mapY;
+  const coverWidth = Math.max(...layout.tiles.map(tile => tile.x)) + layout.printWidth;
+  const coverHeight = Math.max(...layout.tiles.map(tile => tile.y)) + layout.printHeight;
+  const mapScale = Math.min(mapWidth / coverWidth, mapHeight / coverHeight);
+  const mapLeft = left + (mapWidth - coverWidth * mapScale) / 2;
+
+  pdf.setFontSize(11);
+  pdf.text('Page Map', left, mapY - 4);
+  try {
+    drawSceneToPDFAtScale(pdf, scene, mapLeft, mapY, mmPerUnit * mapScale);
+  } catch (error) {
+    console.error('Error drawing template map:', error);
+  }
+
+  pdf.setDrawColor(37, 99, 235);
+  pdf.setTextColor(37, 99, 235);
+  pdf.setFontSize(TEMPLATE_LABEL_FONT_SIZE);
+  layout.tiles.forEach((tile, i) => {
+    const x = mapLeft + tile.x * mapScale;
+    const y = mapY + tile.y * mapScale;
+    pdf.rect(x, y, layout.printWidth * mapScale, layout.printHeight * mapScale);
+    pdf.text(`${tile.label} (p. ${i + 2})`, x + 1.5, y + 4);
+  });
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setTextColor(0, 0, 0);
+
+  // A page per tile, with the template clipped to the printed area
+  layout.tiles.forEach((tile, i) => {
+    pdf.addPage(layout.paperSize, layout.orientation);
+
+    try {
+      pdf.saveGraphicsState();
+      pdf.rect(TEMPLATE_MARGIN, TEMPLATE_MARGIN, layout.printWidth, layout.printHeight, null);
+      pdf.clip();
+      pdf.discardPath();
+      drawSceneToPDFAtScale(pdf, scene, TEMPLATE_MARGIN - tile.x, TEMPLATE_MARGIN - tile.y, mmPerUnit);
+      pdf.restoreGraphicsState();
+    } catch (error) {
+      console.error(`Error drawing template page ${tile.label}:`, error);
+      pdf.setTextColor(255, 0, 0);
+      pdf.text('Error: Could not draw template page', TEMPLATE_MARGIN, TEMPLATE_MARGIN + 10);
+      pdf.setTextColor(0, 0, 0);
+    }
+
+    addTemplatePageMarks(pdf, layout, tile);
+
+    pdf.setFontSize(TEMPLATE_LABEL_FONT_SIZE);
+    pdf.text(
+      `Page ${tile.label} (row ${tile.row + 1}, column ${tile.column + 1}) - sheet ${i + 2} of ${pageCount + 1}`,
+      TEMPLATE_MARGIN,
+      TEMPLATE_MARGIN - 4
+    );
+    pdf.text(
+      `${decimalToFraction(specs.width)}" × ${decimalToFraction(specs.height)}" template, print at 100%`,
+      layout.pageWidth - TEMPLATE_MARGIN,
+      TEMPLATE_MARGIN - 4,
+      { align: 'right' }
+    );
+  });
+}
+
+/**
+ * Draws the overlap lines, crosshairs and neighboring page labels in the margins of a template page
+ */
+function addTemplatePageMarks(pdf: jsPDF, layout: TemplateLayout, tile: TemplateTile): void {
+  const { printWidth, printHeight, pageWidth, pageHeight } = layout;
+  const right = TEMPLATE_MARGIN + printWidth;
+  const bottom = TEMPLATE_MARGIN + printHeight;
+
+  // Dashed lines where the neighboring pages' printed areas start
+  pdf.setLineWidth(0.2);
+  pdf.setDrawColor(120, 120, 120);
+  pdf.setLineDashPattern([2, 1.5], 0);
+  const neighbors = {
+    above: getNeighborTile(layout, tile, -1, 0),
+    below: getNeighborTile(layout, tile, 1, 0),
+    before: getNeighborTile(layout, tile, 0, -1),
+    after: getNeighborTile(layout, tile, 0, 1),
+  };
+  if (neighbors.before) {
+    pdf.line(TEMPLATE_MARGIN + TEMPLATE_OVERLAP, TEMPLATE_MARGIN, TEMPLATE_MARGIN + TEMPLATE_OVERLAP, bottom);
+  }
+  if (neighbors.after) {
+    pdf.line(right - TEMPLATE_OVERLAP, TEMPLATE_MARGIN, right - TEMPLATE_OVERLAP, bottom);
+  }
+  if (neighbors.above) {
+    pdf.line(TEMPLATE_MARGIN, TEMPLATE_MARGIN + TEMPLATE_OVERLAP, right, TEMPLATE_MARGIN + TEMPLATE_OVERLAP);
+  }
+  if (neighbors.below) {
+    pdf.line(TEMPLATE_MARGIN, bottom - TEMPLATE_OVERLAP, right, bottom - TEMPLATE_OVERLAP);
+  }
+  pdf.setLineDashPattern([], 0);
+
+  // Printed area border
+  pdf.setDrawColor(200, 200, 200);
+  pdf.rect(TEMPLATE_MARGIN, TEMPLATE_MARGIN, printWidth, printHeight);
+
+  // Crosshairs falling on this page
+  pdf.setDrawColor(0, 0, 0);
+  layout.crosshairs.forEach(point => {
+    const x = TEMPLATE_MARGIN + point.x - tile.x;
+    const y = TEMPLATE_MARGIN + point.y - tile.y;
+    if (x < TEMPLATE_MARGIN || x > right || y < TEMPLATE_MARGIN || y > bottom) return;
+
+    pdf.line(x - CROSSHAIR_SIZE, y, x + CROSSHAIR_SIZE, y);
+    pdf.line(x, y - CROSSHAIR_SIZE, x, y + CROSSHAIR_SIZE);
+    pdf.circle(x, y, CROSSHAIR_SIZE / 2, 'S');
+  });
+
+  // Neighboring page labels in the margins
+  pdf.setFontSize(TEMPLATE_LABEL_FONT_SIZE);
+  if (neighbors.below) {
+    pdf.text(`Page ${neighbors.below.label} below`, pageWidth / 2, bottom + 6, { align: 'center' });
+  }
+  // Side labels read along the edge, centered by hand since they are rotated
+  if (neighbors.before) {
+    const text = `Page ${neighbors.before.label}`;
+    pdf.text(text, TEMPLATE_MARGIN - 4, pageHeight / 2 + pdf.getTextWidth(text) / 2, { angle: 90 });
+  }
+  if (neighbors.after) {
+    const text = `Page ${neighbors.after.label}`;
+    pdf.text(text, right + 4, pageHeight / 2 - pdf.getTextWidth(text) / 2, { angle: -90 });
+  }
+}
+
+/**
+ * Draws a ruler for checking that a page printed at actual size
+ * @param length Ruler length, in millimeters
+ * @param minorTick Spacing of the short ticks
+ * @param middleTick Spacing of the medium ticks
+ * @param majorTick Spacing of the numbered ticks
+ * @param formatTick Label of a numbered tick at a distance along the ruler
+ * @param label Ruler length, printed after the ruler
+ */
+function addCalibrationRuler(
+  pdf: jsPDF,
+  x: number,
+  y: number,
+  length: number,
+  minorTick: number,
+  middleTick: number,
+  majorTick: number,
+  formatTick: (value: number) => string,
+  label: string
+): void {
+  const isMultiple = (value: number, step: number) => Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+  pdf.setLineWidth(0.2);
+  pdf.setDrawColor(0, 0, 0);
+  pdf.line(x, y, x + length, y);
+
+  pdf.setFontSize(7);
+  const count = Math.round(length / minorTick);
+  for (let i = 0; i <= count; i++) {
+    const value = i * minorTick;
+    const tickLength = isMultiple(value, majorTick) ? 6 : isMultiple(value, middleTick) ? 4 : 2;
+    pdf.line(x + value, y, x + value, y + tickLength);
+    if (isMultiple(value, majorTick)) {
+      pdf.text(formatTick(value), x + value, y + 9, { align: 'center' });
+    }
+  }
+
+  pdf.setFontSize(10);
+  pdf.text(label, x + length + 4, y + 5);
+}
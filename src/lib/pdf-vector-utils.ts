@@ -0,0 +1,262 @@
+"use client"
+
+import jsPDF from 'jspdf';
+import { Point } from '@/types/stone';
+import { Scene, SceneImage, ScenePath, ScenePathCommand, SceneText, fitImage, parseFont, renderScene } from '@/lib/scene-utils';
+
+/**
+ * Utility functions for drawing scenes into a PDF with vector paths and text
+ */
+
+// Millimeters per point, for converting font sizes
+const MM_PER_POINT = 25.4 / 72;
+
+// Named colors used by the scenes; everything else is a hex color
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+};
+
+/**
+ * Draws a scene on the current page of a PDF measured in millimeters, scaled to fit and centered in a box
+ * @param pdf PDF document
+ * @param scene Scene to draw
+ * @param x Left of the box
+ * @param y Top of the box
+ * @param width Box width
+ * @param height Box height
+ * @returns Millimeters per scene unit
+ */
+export function drawSceneToPDF(pdf: jsPDF, scene: Scene, x: number, y: number, width: number, height: number): number {
+  const scale = Math.min(width / scene.width, height / scene.height);
+  drawSceneToPDFAtScale(pdf, scene, x + (width - scene.width * scale) / 2, y + (height - scene.height * scale) / 2, scale);
+  return scale;
+}
+
+/**
+ * Draws a scene on the current page of a PDF measured in millimeters, at a fixed scale.
+ * Parts of the scene off the page are simply not shown
+ * @param left Page position of the scene's left edge
+ * @param top Page position of the scene's top edge
+ * @param scale Millimeters per scene unit
+ */
+export function drawSceneToPDFAtScale(pdf: jsPDF, scene: Scene, left: number, top: number, scale: number): void {
+  const toPage = (point: Point): Point => ({ x: left + point.x * scale, y: top + point.y * scale });
+
+  renderScene(scene, {
+    drawPath(path: ScenePath) {
+      if (path.clip) {
+        pdf.saveGraphicsState();
+        tracePath(pdf, path.clip, toPage);
+        pdf.clip();
+        pdf.discardPath();
+      }
+
+      tracePath(pdf, path.commands, toPage);
+      if (path.fill) {
+        pdf.setFillColor(toPdfColor(path.fill));
+      }
+      if (path.stroke) {
+        pdf.setDrawColor(toPdfColor(path.stroke));
+        pdf.setLineWidth((path.lineWidth ?? 1) * scale);
+        pdf.setLineDashPattern((path.dash || []).map(length => length * scale), 0);
+      }
+
+      if (path.fill && path.stroke) {
+        pdf.fillStroke();
+      } else if (path.fill) {
+        pdf.fill();
+      } else if (path.stroke) {
+        pdf.stroke();
+      } else {
+        pdf.discardPath();
+      }
+      pdf.setLineDashPattern([], 0);
+
+      if (path.clip) {
+        pdf.restoreGraphicsState();
+      }
+    },
+
+    drawText(text: SceneText) {
+      const { size, bold } = parseFont(text.font);
+      pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+      pdf.setFontSize((size * scale) / MM_PER_POINT);
+      pdf.setTextColor(toPdfColor(text.color));
+
+      // Aligned by hand along the text direction, so rotated labels stay centered on their anchor
+      const rotation = text.rotation || 0;
+      const shift = text.align === 'center' ? 0.5 : text.align === 'right' ? 1 : 0;
+      const offset = pdf.getTextWidth(text.text) * shift;
+      const anchor = toPage(text);
+
+      pdf.text(
+        text.text,
+        anchor.x - Math.cos(rotation) * offset,
+        anchor.y - Math.sin(rotation) * offset,
+        rotation ? { angle: (-rotation * 180) / Math.PI } : undefined
+      );
+    },
+
+    drawImage(image: SceneImage) {
+      // Images jsPDF can't read are left out rather than failing the page
+      try {
+        const properties = pdf.getImageProperties(image.href);
+        const box = fitImage(image, properties.width, properties.height);
+        const topLeft = toPage(box);
+        pdf.addImage(image.href, properties.fileType, topLeft.x, topLeft.y, box.width * scale, box.height * scale);
+      } catch (error) {
+        console.error('Error adding image to PDF:', error);
+      }
+    },
+  });
+
+  // Leave the page text settings as the exporters expect them
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(0, 0, 0);
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(0.2);
+}
+
+function toPdfColor(color: string): string {
+  return NAMED_COLORS[color] || color;
+}
+
+/**
+ * Builds a path on the page, with arcs and ellipses converted to Bézier curves
+ */
+function tracePath(pdf: jsPDF, commands: ScenePathCommand[], toPage: (point: Point) => Point) {
+  let current: Point | null = null;
+  let subpathStart: Point | null = null;
+
+  const moveTo = (point: Point) => {
+    const page = toPage(point);
+    pdf.moveTo(page.x, page.y);
+    current = point;
+    subpathStart = point;
+  };
+  const lineTo = (point: Point) => {
+    if (!current) {
+      moveTo(point);
+      return;
+    }
+    const page = toPage(point);
+    pdf.lineTo(page.x, page.y);
+    current = point;
+  };
+  const arc = (center: Point, radiusX: number, radiusY: number, startAngle: number, sweep: number) => {
+    lineTo({ x: center.x + radiusX * Math.cos(startAngle), y: center.y + radiusY * Math.sin(startAngle) });
+    getArcCurves(center, radiusX, radiusY, startAngle, sweep).forEach(([control1, control2, end]) => {
+      const [c1, c2, e] = [toPage(control1), toPage(control2), toPage(end)];
+      pdf.curveTo(c1.x, c1.y, c2.x, c2.y, e.x, e.y);
+      current = end;
+    });
+  };
+
+  commands.forEach(command => {
+    switch (command.type) {
+      case 'move':
+        moveTo(command);
+        break;
+      case 'line':
+        lineTo(command);
+        break;
+      case 'arc': {
+        // Clockwise on screen, at most a full turn
+        const sweep = command.endAngle - command.startAngle;
+        arc(
+          command,
+          command.radius,
+          command.radius,
+          command.startAngle,
+          sweep >= Math.PI * 2 ? Math.PI * 2 : ((sweep % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
+        );
+        break;
+      }
+      case 'arcTo': {
+        const p1 = { x: command.x1, y: command.y1 };
+        const p2 = { x: command.x2, y: command.y2 };
+        if (!current) {
+          moveTo(p1);
+        }
+        const p0: Point = current!;
+
+        const v1 = { x: p0.x - p1.x, y: p0.y - p1.y };
+        const v2 = { x: p2.x - p1.x, y: p2.y - p1.y };
+        const length1 = Math.hypot(v1.x, v1.y);
+        const length2 = Math.hypot(v2.x, v2.y);
+        const cross = v1.x * v2.y - v1.y * v2.x;
+
+        // Square or degenerate corners are drawn as a line to the corner point
+        if (command.radius === 0 || length1 === 0 || length2 === 0 || Math.abs(cross) < 1e-9) {
+          lineTo(p1);
+          break;
+        }
+
+        // The arc's center lies on the bisector of the corner
+        const u1 = { x: v1.x / length1, y: v1.y / length1 };
+        const u2 = { x: v2.x / length2, y: v2.y / length2 };
+        const angle = Math.acos(Math.max(-1, Math.min(1, u1.x * u2.x + u1.y * u2.y)));
+        const distance = command.radius / Math.tan(angle / 2);
+        const bisector = { x: u1.x + u2.x, y: u1.y + u2.y };
+        const bisectorLength = Math.hypot(bisector.x, bisector.y);
+        const centerDistance = command.radius / Math.sin(angle / 2);
+        const center = {
+          x: p1.x + (bisector.x / bisectorLength) * centerDistance,
+          y: p1.y + (bisector.y / bisectorLength) * centerDistance,
+        };
+        const t1 = { x: p1.x + u1.x * distance, y: p1.y + u1.y * distance };
+        const t2 = { x: p1.x + u2.x * distance, y: p1.y + u2.y * distance };
+        const startAngle = Math.atan2(t1.y - center.y, t1.x - center.x);
+        const turn = Math.PI - angle;
+
+        arc(center, command.radius, command.radius, startAngle, cross < 0 ? turn : -turn);
+        current = t2;
+        break;
+      }
+      case 'ellipse':
+        moveTo({ x: command.x + command.radiusX, y: command.y });
+        arc(command, command.radiusX, command.radiusY, 0, Math.PI * 2);
+        pdf.close();
+        break;
+      case 'rect':
+        moveTo(command);
+        lineTo({ x: command.x + command.width, y: command.y });
+        lineTo({ x: command.x + command.width, y: command.y + command.height });
+        lineTo({ x: command.x, y: command.y + command.height });
+        pdf.close();
+        current = subpathStart;
+        break;
+      case 'close':
+        if (subpathStart) {
+          pdf.close();
+          current = subpathStart;
+        }
+        break;
+    }
+  });
+}
+
+/**
+ * Approximates an elliptical arc with cubic Bézier curves of at most a quarter turn each.
+ * Positive sweeps run clockwise on screen
+ * @returns Control points and end point of each curve
+ */
+function getArcCurves(center: Point, radiusX: number, radiusY: number, startAngle: number, sweep: number): [Point, Point, Point][] {
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+  const step = sweep / steps;
+  const handle = (4 / 3) * Math.tan(step / 4);
+  const curves: [Point, Point, Point][] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const a1 = startAngle + step * i;
+    const a2 = a1 + step;
+    curves.push([
+      { x: center.x + radiusX * (Math.cos(a1) - handle * Math.sin(a1)), y: center.y + radiusY * (Math.sin(a1) + handle * Math.cos(a1)) },
+      { x: center.x + radiusX * (Math.cos(a2) + handle * Math.sin(a2)), y: center.y + radiusY * (Math.sin(a2) - handle * Math.cos(a2)) },
+      { x: center.x + radiusX * Math.cos(a2), y: center.y + radiusY * Math.sin(a2) },
+    ]);
+  }
+
+  return curves;
+}
@@ -0,0 +1,334 @@
+"use client"
+
+import { z } from 'zod';
+import { CatalogMaterial, CompanySettings, JobInfo, MockupOptions, Remnant, SlabSize, StonePiece, StoneProject, StoneSpecifications } from '@/types/stone';
+import { getEdgeProfiles } from '@/lib/edge-profile-utils';
+import { NestingOptions } from '@/lib/nesting-utils';
+import { PriceList } from '@/lib/estimate-utils';
+import { GcodeSettings } from '@/lib/gcode-utils';
+import { PaperSize } from '@/lib/template-utils';
+
+/**
+ * Utility functions for project files: a job's pieces, the piece being edited, display options and
+ * settings saved as versioned JSON, so projects can be emailed, archived or opened on another computer
+ */
+
+export const PROJECT_FILE_FORMAT = 'stone-mockup-project';
+
+// Bumped whenever the file layout changes, with a migration from the previous version
+export const PROJECT_FILE_VERSION = 1;
+
+// Settings saved with a project. Those only some screens keep are left out until they've been set
+export interface ProjectSettings {
+  slabSizes: Record<string, SlabSize>;
+  materialCatalog: CatalogMaterial[];
+  remnants: Remnant[];
+  companySettings: CompanySettings;
+  jobInfo: JobInfo;
+  nestingOptions?: NestingOptions;
+  priceList?: PriceList;
+  gcodeSettings?: GcodeSettings;
+  templatePaper?: PaperSize;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string; // ISO 8601
+  project: StoneProject;
+  currentPiece?: { specs: StoneSpecifications; notes: string }; // In the editor when the file was saved
+  displayOptions?: MockupOptions;
+  settings: ProjectSettings;
+}
+
+// Where each part of a project file is kept in localStorage
+const STORAGE_KEYS = {
+  pieces: 'stone-mockup-generator:savedPieces',
+  currentSpecs: 'stone-mockup-generator:currentSpecs',
+  currentNotes: 'stone-mockup-generator:currentNotes',
+  displayOptions: 'stone-mockup-generator:displayOptions',
+  slabSizes: 'stone-mockup-generator:slabSizes',
+  materialCatalog: 'stone-mockup-generator:materialCatalog',
+  remnants: 'stone-mockup-generator:remnants',
+  companySettings: 'stone-mockup-generator:companySettings',
+  jobInfo: 'stone-mockup-generator:jobInfo',
+  nestingOptions: 'stone-mockup-generator:nestingOptions',
+  priceList: 'stone-mockup-generator:priceList',
+  gcodeSettings: 'stone-mockup-generator:gcodeSettings',
+  templatePaper: 'stone-mockup-generator:templatePaper',
+};
+
+const SETTINGS: (keyof ProjectSettings)[] = [
+  'slabSizes', 'materialCatalog', 'remnants', 'companySettings', 'jobInfo', 'nestingOptions', 'priceList', 'gcodeSettings', 'templatePaper',
+];
+
+// Upgrades a parsed file from the version it is keyed by to the next one. Files saved by earlier
+// releases are brought up to date one version at a time before they are validated
+type ProjectFileMigration = (file: Record<string, unknown>) => Record<string, unknown>;
+const MIGRATIONS: Record<number, ProjectFileMigration> = {};
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const outlineSegmentSchema = z.object({
+  id: z.string(),
+  start: pointSchema,
+  end: pointSchema,
+  arc: z.object({ center: pointSchema, radius: z.number() }).optional(),
+});
+
+const edgeProfileSchema = z.enum(['eased', 'half-bullnose', 'full-bullnose', 'ogee', 'bevel', 'mitered']);
+const cutoutTypeSchema = z.enum(['rectangle', 'oval', 'hole']);
+
+const cornerTreatmentSchema = z.object({
+  type: z.enum(['square', 'radius', 'clip', 'notch']),
+  radius: z.number().optional(),
+  clip: z.number().optional(),
+  notchWidth: z.number().optional(),
+  notchDepth: z.number().optional(),
+});
+
+const remnantSchema = z.object({
+  id: z.string(),
+  materialType: z.string(),
+  color: z.string(),
+  thickness: z.string(),
+  width: z.number(),
+  height: z.number(),
+  location: z.string(),
+});
+
+const specsSchema = z.object({
+  width: z.number().positive(),
+  height: z.number().positive(),
+  edgeProfiles: z.record(edgeProfileSchema),
+  polishedEdges: z.array(z.string()).optional(),
+  materialType: z.string(),
+  material: z.object({ id: z.string(), brand: z.string(), color: z.string() }).optional(),
+  thickness: z.string(),
+  quantity: z.number().int().positive(),
+  shape: z.object({
+    type: z.enum(['rectangle', 'l-shape', 'u-shape', 'custom']),
+    runDepth: z.number().optional(),
+    leftLegWidth: z.number().optional(),
+    rightLegWidth: z.number().optional(),
+    outline: z.array(outlineSegmentSchema).optional(),
+  }).optional(),
+  cutouts: z.array(z.object({
+    id: z.string(),
+    type: cutoutTypeSchema,
+    label: z.string(),
+    width: z.number(),
+    height: z.number(),
+    cornerRadius: z.number().optional(),
+    xReference: z.enum(['left', 'right']),
+    xOffset: z.number(),
+    yReference: z.enum(['top', 'bottom']),
+    yOffset: z.number(),
+  })).optional(),
+  corners: z.object({
+    'top-left': cornerTreatmentSchema.optional(),
+    'top-right': cornerTreatmentSchema.optional(),
+    'bottom-right': cornerTreatmentSchema.optional(),
+    'bottom-left': cornerTreatmentSchema.optional(),
+  }).optional(),
+  seams: z.array(z.object({ id: z.string(), orientation: z.enum(['vertical', 'horizontal']), position: z.number() })).optional(),
+  remnant: remnantSchema.optional(),
+});
+
+const pieceSchema = z.object({
+  id: z.string(),
+  specs: specsSchema,
+  notes: z.string(),
+  splash: z.object({ parentId: z.string(), edge: z.string(), height: z.number() }).optional(),
+});
+
+const settingsSchema = z.object({
+  slabSizes: z.record(z.object({ width: z.number(), height: z.number() })),
+  materialCatalog: z.array(z.object({
+    id: z.string(),
+    materialType: z.string(),
+    brand: z.string(),
+    color: z.string(),
+    thicknesses: z.array(z.string()),
+    slabSize: z.object({ width: z.number(), height: z.number() }),
+    density: z.number(),
+    pricePerSqFt: z.number(),
+  })),
+  remnants: z.array(remnantSchema),
+  companySettings: z.object({
+    companyName: z.string(),
+    address: z.string(),
+    phone: z.string(),
+    logo: z.string().optional(),
+    drawnBy: z.string(),
+  }),
+  jobInfo: z.object({
+    jobName: z.string(),
+    jobNumber: z.string(),
+    customer: z.string(),
+    revisions: z.array(z.object({ id: z.string(), revision: z.string(), date: z.string(), description: z.string(), by: z.string() })),
+  }),
+  nestingOptions: z.object({ kerf: z.number(), lockGrain: z.boolean() }).optional(),
+  priceList: z.object({
+    defaultMaterialPricePerSqFt: z.number(),
+    fabricationPerSqFt: z.number(),
+    edgeProfilePerLinearFt: z.record(edgeProfileSchema, z.number()),
+    cutoutPrices: z.record(cutoutTypeSchema, z.number()),
+    wasteFactor: z.number(),
+    taxRate: z.number(),
+    depositRate: z.number(),
+  }).optional(),
+  gcodeSettings: z.object({
+    dialect: z.enum(['grbl', 'linuxcnc', 'mach3', 'fanuc']),
+    toolDiameter: z.number(),
+    feedRate: z.number(),
+    plungeRate: z.number(),
+    spindleSpeed: z.number(),
+    depthPerPass: z.number(),
+    extraDepth: z.number(),
+    safeHeight: z.number(),
+    leadLength: z.number(),
+    coolant: z.boolean(),
+  }).optional(),
+  templatePaper: z.enum(['letter', 'a4']).optional(),
+});
+
+const projectFileSchema = z.object({
+  format: z.literal(PROJECT_FILE_FORMAT),
+  version: z.literal(PROJECT_FILE_VERSION),
+  savedAt: z.string(),
+  project: z.object({ name: z.string(), pieces: z.array(pieceSchema) }),
+  currentPiece: z.object({ specs: specsSchema, notes: z.string() }).optional(),
+  displayOptions: z.object({
+    showGrid: z.boolean(),
+    showPolishedEdges: z.boolean(),
+    useXMarks: z.boolean(),
+    scale: z.number(),
+    dimensionTerminator: z.enum(['tick', 'arrow']).optional(),
+    showTitleBlock: z.boolean().optional(),
+  }).optional(),
+  settings: settingsSchema,
+});
+
+/**
+ * Gathers the project kept in localStorage into a project file, named after the job
+ * @param defaults Settings used where nothing has been stored yet
+ */
+export function createProjectFile(
+  defaults: Pick<ProjectSettings, 'materialCatalog' | 'companySettings' | 'jobInfo'>,
+  storage: Storage = window.localStorage
+): ProjectFile {
+  const read = <T>(key: string): T | undefined => {
+    const item = storage.getItem(key);
+    return item === null ? undefined : JSON.parse(item) as T;
+  };
+
+  const settings: ProjectSettings = { slabSizes: {}, remnants: [], ...defaults };
+  SETTINGS.forEach(key => {
+    const value = read(STORAGE_KEYS[key]);
+    if (value !== undefined) Object.assign(settings, { [key]: value });
+  });
+  const specs = read<StoneSpecifications>(STORAGE_KEYS.currentSpecs);
+  const pieces = read<StonePiece[]>(STORAGE_KEYS.pieces) ?? [];
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project: { name: settings.jobInfo.jobName, pieces: pieces.map(piece => ({ ...piece, specs: withEdgeProfiles(piece.specs) })) },
+    currentPiece: specs && { specs: withEdgeProfiles(specs), notes: read<string>(STORAGE_KEYS.currentNotes) ?? '' },
+    displayOptions: read(STORAGE_KEYS.displayOptions),
+    settings,
+  };
+}
+
+/**
+ * Reads a project file, upgrading files saved by earlier releases
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not a project file');
+  }
+
+  if (!isRecord(data) || data.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('The file is not a project file');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('The project file has no valid version');
+  }
+  if (data.version > PROJECT_FILE_VERSION) {
+    throw new Error('The project file was saved by a newer version of the app. Update the app to open it');
+  }
+
+  let file = data;
+  for (let version = data.version; version < PROJECT_FILE_VERSION; version++) {
+    file = { ...MIGRATIONS[version](file), version: version + 1 };
+  }
+
+  const result = projectFileSchema.safeParse(upgradeEdgeProfiles(file));
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new Error(`The project file is damaged: ${issue.path.join('.') || 'file'} ${issue.message.toLowerCase()}`);
+  }
+  return result.data as ProjectFile;
+}
+
+/**
+ * Writes an opened project over the one in localStorage. Optional parts missing from the file are
+ * cleared, so they go back to their defaults
+ */
+export function restoreProjectFile(file: ProjectFile, storage: Storage = window.localStorage) {
+  const write = (key: string, value: unknown) => {
+    if (value === undefined) {
+      storage.removeItem(key);
+    } else {
+      storage.setItem(key, JSON.stringify(value));
+    }
+  };
+
+  write(STORAGE_KEYS.pieces, file.project.pieces);
+  write(STORAGE_KEYS.currentSpecs, file.currentPiece?.specs);
+  write(STORAGE_KEYS.currentNotes, file.currentPiece?.notes);
+  write(STORAGE_KEYS.displayOptions, file.displayOptions);
+  SETTINGS.forEach(key => write(STORAGE_KEYS[key], file.settings[key]));
+}
+
+/**
+ * Triggers a browser download of a project file
+ */
+export function downloadProjectFile(file: ProjectFile) {
+  const name = file.project.name.trim().replace(/\s+/g, '-').toLowerCase() || 'stone-project';
+  const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.download = `${name}.json`;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Pieces kept since before edge profiles were introduced only list their polished edges. They're
+// given the profiles the editor reads them as, both when a file is saved and when one is opened
+function upgradeEdgeProfiles(file: Record<string, unknown>): Record<string, unknown> {
+  const { project, currentPiece } = file;
+  return {
+    ...file,
+    project: isRecord(project) && Array.isArray(project.pieces)
+      ? { ...project, pieces: project.pieces.map(piece => isRecord(piece) ? { ...piece, specs: withEdgeProfiles(piece.specs) } : piece) }
+      : project,
+    currentPiece: isRecord(currentPiece) ? { ...currentPiece, specs: withEdgeProfiles(currentPiece.specs) } : currentPiece,
+  };
+}
+
+function withEdgeProfiles<T>(specs: T): T {
+  if (!isRecord(specs) || specs.edgeProfiles !== undefined) return specs;
+  return { ...specs, edgeProfiles: getEdgeProfiles(specs as unknown as StoneSpecifications) };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { Remnant, StonePiece, StoneSpecifications } from '@/types/stone';
+import { decimalToFraction } from '@/lib/fraction-utils';
+import { fitsOnSlab } from '@/lib/slab-utils';
+
+/**
+ * Utility functions for the remnant inventory and matching remnants to pieces
+ */
+
+/**
+ * Creates a remnant with a unique id
+ */
+export function createRemnant(fields: Omit<Remnant, 'id'>): Remnant {
+  return {
+    ...fields,
+    id: `${Date.now()}-${Math.round(fields.width * 1000)}x${Math.round(fields.height * 1000)}`,
+  };
+}
+
+/**
+ * Describes a remnant, e.g. `Calacatta quartz, 3cm, 60" × 30" (Rack B3)`
+ */
+export function describeRemnant(remnant: Remnant): string {
+  const material = remnant.color ? `${remnant.color} ${remnant.materialType}` : remnant.materialType;
+  const size = `${decimalToFraction(remnant.width)}" × ${decimalToFraction(remnant.height)}"`;
+  return `${material}, ${remnant.thickness}, ${size}${remnant.location ? ` (${remnant.location})` : ''}`;
+}
+
+/**
+ * Returns the ids of remnants reserved by saved pieces
+ */
+export function getReservedRemnantIds(pieces: StonePiece[]): Set<string> {
+  return new Set(pieces.flatMap(piece => piece.specs.remnant ? [piece.specs.remnant.id] : []));
+}
+
+/**
+ * Checks whether a piece can be cut from a remnant: same material, color (when the piece has a catalog
+ * color) and thickness, and its bounding box fits either way round. Every copy of the piece has to fit side by side
+ */
+export function fitsRemnant(specs: StoneSpecifications, remnant: Remnant): boolean {
+  if (remnant.materialType !== specs.materialType || remnant.thickness !== specs.thickness) {
+    return false;
+  }
+  if (specs.material && remnant.color.trim().toLowerCase() !== specs.material.color.toLowerCase()) {
+    return false;
+  }
+
+  const quantity = Math.max(1, specs.quantity || 1);
+  const slab = {
+    width: Math.max(remnant.width, remnant.height),
+    height: Math.min(remnant.width, remnant.height),
+  };
+
+  return fitsOnSlab(specs.width * quantity, specs.height, slab) || fitsOnSlab(specs.width, specs.height * quantity, slab);
+}
+
+/**
+ * Suggests remnants a saved piece can be cut from, smallest first so larger remnants stay free.
+ * Remnants reserved by other pieces are left out
+ */
+export function findRemnantMatches(piece: StonePiece, remnants: Remnant[], pieces: StonePiece[]): Remnant[] {
+  const reserved = getReservedRemnantIds(pieces.filter(other => other.id !== piece.id));
+
+  return remnants
+    .filter(remnant => !reserved.has(remnant.id) && fitsRemnant(piece.specs, remnant))
+    .sort((a, b) => a.width * a.height - b.width * b.height);
+}
+
+/**
+ * Reserves a remnant for a saved piece, or releases the piece's remnant when none is given
+ */
+export function reserveRemnant(pieces: StonePiece[], pieceId: string, remnant: Remnant | null): StonePiece[] {
+  return pieces.map(piece => {
+    if (piece.id !== pieceId) return piece;
+
+    const specs = { ...piece.specs };
+    if (remnant) {
+      specs.remnant = remnant;
+    } else {
+      delete specs.remnant;
+    }
+    return { ...piece, specs };
+  });
+}
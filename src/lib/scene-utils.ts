@@ -0,0 +1,426 @@
+"use client"
+
+import { DimensionTerminator, Point } from '@/types/stone';
+import { decimalToFraction } from '@/lib/fraction-utils';
+
+/**
+ * Renderer-independent drawing model. Drawings are laid out once as a scene of paths, text,
+ * grids and dimension lines, and backends emit the scene to a canvas, SVG or PDF
+ */
+
+// Path commands in drawing units (pixels for the preview canvas). Arcs run clockwise on screen
+export type ScenePathCommand =
+  | { type: 'move'; x: number; y: number }
+  | { type: 'line'; x: number; y: number }
+  | { type: 'arc'; x: number; y: number; radius: number; startAngle: number; endAngle: number }
+  | { type: 'arcTo'; x1: number; y1: number; x2: number; y2: number; radius: number }
+  | { type: 'ellipse'; x: number; y: number; radiusX: number; radiusY: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'close' };
+
+export interface ScenePath {
+  type: 'path';
+  commands: ScenePathCommand[];
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+  dash?: number[];
+  clip?: ScenePathCommand[]; // Drawn only inside this outline
+}
+
+export interface SceneText {
+  type: 'text';
+  text: string;
+  x: number;
+  y: number; // Baseline
+  font: string; // CSS font shorthand, e.g. `bold 12px Arial`
+  color: string;
+  align: 'left' | 'center' | 'right';
+  rotation?: number; // Radians about (x, y)
+}
+
+// Raster image, such as a company logo, scaled to fit and centered in its box
+export interface SceneImage {
+  type: 'image';
+  href: string; // Data URL
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Evenly spaced lines filling a rectangle, aligned to the drawing origin
+export interface SceneGrid {
+  type: 'grid';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  spacing: number;
+  color: string;
+  lineWidth: number;
+  dense?: boolean; // Closely spaced, so backends may draw it as a repeating pattern
+  clip?: ScenePathCommand[];
+}
+
+// Dimension line measuring between two points, drawn CAD style: extension lines out from the points when
+// the line is offset from them, ticks or arrowheads at its ends and the length centered in a break in the line
+export interface SceneDimension {
+  type: 'dimension';
+  start: Point;
+  end: Point;
+  axis?: 'horizontal' | 'vertical'; // Measure along an axis rather than straight between the points
+  offset?: number; // Distance of the line past the farther point, along the normal a quarter turn clockwise from start to end
+  label: string;
+  color: string;
+  font: string;
+  lineWidth: number;
+  tickSize: number; // Size of the end ticks, or the width of arrowheads
+  terminator?: DimensionTerminator; // Architectural ticks by default
+}
+
+// Where a dimension line falls, in drawing units
+export interface DimensionGeometry {
+  direction: Point; // Unit vector from start to end
+  normal: Point; // Unit vector a quarter turn clockwise from the direction
+  lineStart: Point;
+  lineEnd: Point;
+  length: number;
+  labelWidth: number;
+  labelFits: boolean; // Room for the label in a break in the line, otherwise it sits beside the line
+}
+
+export type SceneItem = ScenePath | SceneText | SceneImage | SceneGrid | SceneDimension;
+
+export type SceneLayerName =
+  | 'background'
+  | 'grid'
+  | 'stone'
+  | 'edges'
+  | 'cutouts'
+  | 'seams'
+  | 'dimensions'
+  | 'annotations'
+  | 'toolpaths'
+  | 'titleBlock';
+
+export interface SceneLayer {
+  name: SceneLayerName;
+  items: SceneItem[];
+}
+
+export interface Scene {
+  width: number;
+  height: number;
+  origin: Point; // Drawing position of the piece's (or slab's) top-left corner
+  scale: number; // Drawing units per inch
+  layers: SceneLayer[];
+}
+
+// Draws the primitive items of a scene. Grids and dimension lines are broken into paths and
+// text for backends that don't draw them directly
+export interface SceneBackend {
+  beginLayer?(layer: SceneLayer): void;
+  endLayer?(layer: SceneLayer): void;
+  drawPath(path: ScenePath): void;
+  drawText(text: SceneText): void;
+  drawImage?(image: SceneImage): void; // Images are left out by backends that can't draw them
+  drawGrid?(grid: SceneGrid): void;
+}
+
+export type MeasureText = (text: string, font: string) => number;
+
+// Extension lines stop short of the measured points and run past the dimension line
+const EXTENSION_GAP = 3;
+const EXTENSION_OVERSHOOT = 4;
+
+// Space between a dimension label and its line
+const DIMENSION_LABEL_PADDING = 4;
+
+// Arrowhead length relative to its width
+const ARROW_LENGTH = 2.5;
+
+// Width of an average character relative to the font size, used when text can't be measured
+const AVERAGE_CHAR_WIDTH = 0.55;
+
+// Shared canvas for text metrics, so labels are placed the same way for every backend
+let measuringContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Creates an empty scene with its layers in drawing order
+ */
+export function createScene(width: number, height: number, origin: Point, scale: number): Scene {
+  const names: SceneLayerName[] = ['background', 'grid', 'stone', 'edges', 'cutouts', 'seams', 'dimensions', 'annotations', 'toolpaths', 'titleBlock'];
+  return { width, height, origin, scale, layers: names.map(name => ({ name, items: [] })) };
+}
+
+/**
+ * Returns a layer of a scene
+ */
+export function getLayer(scene: Scene, name: SceneLayerName): SceneLayer {
+  return scene.layers.find(layer => layer.name === name)!;
+}
+
+/**
+ * Emits every layer of a scene to a backend, in order
+ */
+export function renderScene(scene: Scene, backend: SceneBackend) {
+  scene.layers.forEach(layer => {
+    if (layer.items.length === 0) return;
+
+    backend.beginLayer?.(layer);
+    layer.items.forEach(item => {
+      switch (item.type) {
+        case 'path':
+          backend.drawPath(item);
+          break;
+        case 'text':
+          backend.drawText(item);
+          break;
+        case 'image':
+          backend.drawImage?.(item);
+          break;
+        case 'grid':
+          if (backend.drawGrid) {
+            backend.drawGrid(item);
+          } else {
+            backend.drawPath(getGridPath(item));
+          }
+          break;
+        case 'dimension':
+          getDimensionItems(item).forEach(part => {
+            if (part.type === 'path') {
+              backend.drawPath(part);
+            } else {
+              backend.drawText(part);
+            }
+          });
+          break;
+      }
+    });
+    backend.endLayer?.(layer);
+  });
+}
+
+/**
+ * Returns the lines of a grid as a single stroked path
+ */
+export function getGridPath(grid: SceneGrid): ScenePath {
+  const { x, y, width, height, spacing } = grid;
+  const commands: ScenePathCommand[] = [];
+
+  // Lines fall on multiples of the spacing from the drawing origin
+  const startX = Math.floor(x / spacing) * spacing;
+  const endX = Math.ceil((x + width) / spacing) * spacing;
+  const startY = Math.floor(y / spacing) * spacing;
+  const endY = Math.ceil((y + height) / spacing) * spacing;
+
+  for (let i = startX; i <= endX; i += spacing) {
+    if (i >= x && i <= x + width) {
+      commands.push({ type: 'move', x: i, y }, { type: 'line', x: i, y: y + height });
+    }
+  }
+  for (let i = startY; i <= endY; i += spacing) {
+    if (i >= y && i <= y + height) {
+      commands.push({ type: 'move', x, y: i }, { type: 'line', x: x + width, y: i });
+    }
+  }
+
+  return { type: 'path', commands, stroke: grid.color, lineWidth: grid.lineWidth, clip: grid.clip };
+}
+
+/**
+ * Works out where a dimension line falls between its points and whether its label fits on the line
+ */
+export function getDimensionGeometry(dimension: SceneDimension): DimensionGeometry | null {
+  const { start, end, axis, offset = 0 } = dimension;
+  const dx = axis === 'vertical' ? 0 : end.x - start.x;
+  const dy = axis === 'horizontal' ? 0 : end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return null;
+
+  const direction = { x: dx / length, y: dy / length };
+  const normal = { x: -direction.y, y: direction.x };
+
+  // The line clears both points on the side it is offset to
+  const along = (point: Point) => point.x * normal.x + point.y * normal.y;
+  const position = (offset < 0 ? Math.min(along(start), along(end)) : Math.max(along(start), along(end))) + offset;
+  const project = (point: Point) => ({
+    x: point.x + normal.x * (position - along(point)),
+    y: point.y + normal.y * (position - along(point)),
+  });
+
+  const labelWidth = measureTextWidth(dimension.label, dimension.font);
+  const terminatorLength = dimension.terminator === 'arrow' ? dimension.tickSize * ARROW_LENGTH : dimension.tickSize;
+
+  return {
+    direction,
+    normal,
+    lineStart: project(start),
+    lineEnd: project(end),
+    length,
+    labelWidth,
+    labelFits: length >= labelWidth + DIMENSION_LABEL_PADDING * 2 + terminatorLength * 2,
+  };
+}
+
+/**
+ * Breaks a dimension into its extension lines, dimension line, end marks and label.
+ * Labels read along the line, from the bottom on vertical lines
+ */
+export function getDimensionItems(dimension: SceneDimension): (ScenePath | SceneText)[] {
+  const geometry = getDimensionGeometry(dimension);
+  if (!geometry) return [];
+
+  const { direction, normal, lineStart, lineEnd, length, labelWidth, labelFits } = geometry;
+  const { color, lineWidth, tickSize, offset = 0 } = dimension;
+  const { size } = parseFont(dimension.font);
+  const at = (point: Point, along: number, across: number = 0): Point => ({
+    x: point.x + direction.x * along + normal.x * across,
+    y: point.y + direction.y * along + normal.y * across,
+  });
+  const commands: ScenePathCommand[] = [];
+
+  // Extension lines start just off each point and run a little past the dimension line
+  ([[dimension.start, lineStart], [dimension.end, lineEnd]] as const).forEach(([point, foot]) => {
+    const distance = (foot.x - point.x) * normal.x + (foot.y - point.y) * normal.y;
+    if (Math.abs(distance) <= EXTENSION_GAP) return;
+
+    const side = Math.sign(distance);
+    commands.push(
+      { type: 'move', x: point.x + normal.x * side * EXTENSION_GAP, y: point.y + normal.y * side * EXTENSION_GAP },
+      { type: 'line', x: foot.x + normal.x * side * EXTENSION_OVERSHOOT, y: foot.y + normal.y * side * EXTENSION_OVERSHOOT }
+    );
+  });
+
+  // Arrowheads go outside the line when they don't fit between its ends
+  const arrows = dimension.terminator === 'arrow';
+  const arrowLength = tickSize * ARROW_LENGTH;
+  const arrowsOutside = arrows && length < arrowLength * 2 + DIMENSION_LABEL_PADDING;
+  const extension = arrowsOutside ? arrowLength * 2 : 0;
+  const mid = at(lineStart, length / 2);
+  const gap = (labelWidth + DIMENSION_LABEL_PADDING * 2) / 2;
+
+  if (labelFits) {
+    const before = at(mid, -gap);
+    const after = at(mid, gap);
+    commands.push(
+      { type: 'move', x: lineStart.x, y: lineStart.y },
+      { type: 'line', x: before.x, y: before.y },
+      { type: 'move', x: after.x, y: after.y },
+      { type: 'line', x: lineEnd.x, y: lineEnd.y }
+    );
+  } else {
+    const from = at(lineStart, -extension);
+    const to = at(lineEnd, extension);
+    commands.push({ type: 'move', x: from.x, y: from.y }, { type: 'line', x: to.x, y: to.y });
+  }
+
+  const items: (ScenePath | SceneText)[] = [{ type: 'path', commands, stroke: color, lineWidth }];
+
+  if (arrows) {
+    const pointing = arrowsOutside ? -1 : 1;
+    const halfWidth = tickSize / 2;
+    items.push({
+      type: 'path',
+      commands: ([[lineStart, 1], [lineEnd, -1]] as const).flatMap(([tip, inward]): ScenePathCommand[] => {
+        const back = at(tip, inward * pointing * arrowLength, halfWidth);
+        const front = at(tip, inward * pointing * arrowLength, -halfWidth);
+        return [
+          { type: 'move', x: tip.x, y: tip.y },
+          { type: 'line', x: back.x, y: back.y },
+          { type: 'line', x: front.x, y: front.y },
+          { type: 'close' },
+        ];
+      }),
+      fill: color,
+    });
+  } else {
+    // Architectural ticks: short slashes at 45 degrees through the ends of the line
+    const half = tickSize / Math.SQRT2;
+    items.push({
+      type: 'path',
+      commands: [lineStart, lineEnd].flatMap((point): ScenePathCommand[] => {
+        const from = at(point, -half, half);
+        const to = at(point, half, -half);
+        return [{ type: 'move', x: from.x, y: from.y }, { type: 'line', x: to.x, y: to.y }];
+      }),
+      stroke: color,
+      lineWidth: lineWidth * 2,
+    });
+  }
+
+  // Text turned to read left to right, or bottom to top
+  let rotation = Math.atan2(direction.y, direction.x);
+  if (rotation >= Math.PI / 2 - 1e-9) rotation -= Math.PI;
+  if (rotation < -Math.PI / 2 - 1e-9) rotation += Math.PI;
+  const down = { x: -Math.sin(rotation), y: Math.cos(rotation) };
+
+  // Centered in the break, or beside the line on the side away from the measured points
+  let shift = size * 0.35;
+  if (!labelFits) {
+    const outward = offset === 0 ? -1 : Math.sign(offset) * (normal.x * down.x + normal.y * down.y);
+    shift = outward > 0 ? DIMENSION_LABEL_PADDING + size * 0.75 : -DIMENSION_LABEL_PADDING;
+  }
+
+  items.push({
+    type: 'text',
+    text: dimension.label,
+    x: mid.x + down.x * shift,
+    y: mid.y + down.y * shift,
+    font: dimension.font,
+    color,
+    align: 'center',
+    rotation: Math.abs(rotation) > 1e-9 ? rotation : undefined,
+  });
+
+  return items;
+}
+
+/**
+ * Fits an image of a given size inside an image item's box, keeping its proportions
+ * @returns Position and size of the drawn image
+ */
+export function fitImage(image: SceneImage, naturalWidth: number, naturalHeight: number): { x: number; y: number; width: number; height: number } {
+  const scale = Math.min(image.width / naturalWidth, image.height / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return { x: image.x + (image.width - width) / 2, y: image.y + (image.height - height) / 2, width, height };
+}
+
+/**
+ * Formats a length in inches as a dimension label, e.g. `25-1/2"`
+ */
+export function formatDimension(inches: number): string {
+  return `${decimalToFraction(inches)}"`;
+}
+
+/**
+ * Measures text in a CSS font, estimating from the font size where no canvas is available
+ */
+export function measureTextWidth(text: string, font: string): number {
+  if (measuringContext === undefined) {
+    try {
+      measuringContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+    } catch {
+      measuringContext = null;
+    }
+  }
+
+  if (measuringContext) {
+    measuringContext.font = font;
+    return measuringContext.measureText(text).width;
+  }
+  return text.length * parseFont(font).size * AVERAGE_CHAR_WIDTH;
+}
+
+/**
+ * Splits a CSS font shorthand such as `bold 12px Arial`
+ */
+export function parseFont(font: string): { size: number; bold: boolean; family: string } {
+  const match = font.match(/^(?:(bold|normal|\d{3})\s+)?(\d+(?:\.\d+)?)px\s+(.+)$/);
+  if (!match) {
+    return { size: 10, bold: false, family: 'sans-serif' };
+  }
+  return { bold: match[1] === 'bold' || Number(match[1]) >= 600, size: parseFloat(match[2]), family: match[3] };
+}
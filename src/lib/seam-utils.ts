@@ -0,0 +1,380 @@
+"use client"
+
+import { Cutout, EdgeProfile, OutlineSegment, Point, Seam, SeamOrientation, SlabSize, StoneSpecifications } from '@/types/stone';
+import { getPieceOutline } from '@/lib/shape-utils';
+import { getCutoutCenter } from '@/lib/cutout-utils';
+import { getEdgeProfiles } from '@/lib/edge-profile-utils';
+import { fitsOnSlab } from '@/lib/slab-utils';
+
+/**
+ * Utility functions for splitting oversize pieces into sections at seams
+ */
+
+// One section of a seamed piece, drawn and cut as a piece of its own
+export interface SeamSection {
+  index: number;
+  offset: Point; // Top-left corner of the section's bounding box in parent piece coordinates
+  specs: StoneSpecifications;
+}
+
+// A vertex of an outline being clipped; the segment leaving it carries its id and arc
+interface ClipVertex {
+  point: Point;
+  id: string;
+  arc?: { center: Point; radius: number };
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * Creates a seam at the given position
+ */
+export function createSeam(orientation: SeamOrientation, position: number): Seam {
+  return {
+    id: `${Date.now()}-${Math.round(position * 1000)}`,
+    orientation,
+    position,
+  };
+}
+
+/**
+ * Returns the seams of a piece that fall inside its bounding box, sorted by orientation and position
+ */
+export function getValidSeams(specs: StoneSpecifications): Seam[] {
+  return (specs.seams || [])
+    .filter(seam => {
+      const extent = seam.orientation === 'vertical' ? specs.width : specs.height;
+      return seam.position > EPSILON && seam.position < extent - EPSILON;
+    })
+    .sort((a, b) => a.orientation.localeCompare(b.orientation) || a.position - b.position);
+}
+
+/**
+ * Returns the seam edge id used on section outlines, numbered in seam order from 1
+ */
+export function getSeamEdgeId(index: number): string {
+  return `seam-${index + 1}`;
+}
+
+/**
+ * Splits a piece into sections along its seams, left to right and then top to bottom.
+ * Each section keeps the parent's edge profiles and cutouts that fall inside it;
+ * the seam edges are left unfinished
+ */
+export function getSeamSections(specs: StoneSpecifications): SeamSection[] {
+  const seams = getValidSeams(specs);
+  if (seams.length === 0) return [];
+
+  const boundary = (orientation: SeamOrientation, extent: number) => [
+    { position: 0, id: '' },
+    ...seams
+      .map((seam, index) => ({ seam, id: getSeamEdgeId(index) }))
+      .filter(({ seam }) => seam.orientation === orientation)
+      .map(({ seam, id }) => ({ position: seam.position, id })),
+    { position: extent, id: '' },
+  ];
+  const columns = boundary('vertical', specs.width);
+  const rows = boundary('horizontal', specs.height);
+
+  const outline = toVertices(getPieceOutline(specs));
+  const edgeProfiles = getEdgeProfiles(specs);
+  const sections: SeamSection[] = [];
+
+  for (let row = 0; row < rows.length - 1; row++) {
+    for (let column = 0; column < columns.length - 1; column++) {
+      const left = columns[column];
+      const right = columns[column + 1];
+      const top = rows[row];
+      const bottom = rows[row + 1];
+
+      // A concave outline can leave several separate parts in one cell. The outer boundaries are skipped,
+      // as the outline already lies inside them
+      let parts = [outline];
+      const clip = (axis: 'x' | 'y', boundary: { position: number; id: string }, keep: 'less' | 'greater') => {
+        if (boundary.id) parts = parts.flatMap(part => clipHalfPlane(part, axis, boundary.position, keep, boundary.id));
+      };
+      clip('x', left, 'greater');
+      clip('x', right, 'less');
+      clip('y', top, 'greater');
+      clip('y', bottom, 'less');
+
+      const cellSections = parts
+        .map(part => removeDegenerateSegments(toSegments(part)))
+        .filter(segments => segments.length >= 3)
+        .map(segments => {
+          const xs = segments.map(segment => segment.start.x);
+          const ys = segments.map(segment => segment.start.y);
+          return { segments, minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+        })
+        .filter(part => part.maxX - part.minX > EPSILON && part.maxY - part.minY > EPSILON)
+        .sort((a, b) => a.minX - b.minX || a.minY - b.minY);
+
+      const cell = { left: left.position, right: right.position, top: top.position, bottom: bottom.position };
+      cellSections.forEach(({ segments, minX, minY, maxX, maxY }) => {
+        const sectionOutline = segments.map(segment => translateSegment(segment, -minX, -minY));
+        const edgeIds = sectionOutline.map(segment => segment.id);
+
+        const cutouts = (specs.cutouts || [])
+          .filter(cutout => {
+            const center = getCutoutCenter(specs, cutout);
+            return isInCell(center, cell) && (cellSections.length === 1 || isInsideSegments(segments, center));
+          })
+          .map(cutout => moveCutout(specs, cutout, minX, minY));
+
+        sections.push({
+          index: sections.length,
+          offset: { x: minX, y: minY },
+          specs: {
+            ...specs,
+            width: maxX - minX,
+            height: maxY - minY,
+            shape: { type: 'custom', outline: sectionOutline },
+            edgeProfiles: Object.fromEntries(
+              Object.entries(edgeProfiles).filter(([edge]) => edgeIds.includes(edge))
+            ) as Record<string, EdgeProfile>,
+            polishedEdges: undefined,
+            corners: undefined,
+            cutouts,
+            seams: undefined,
+          },
+        });
+      });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Suggests evenly spaced seams that split a piece into the fewest sections that each fit on the slab,
+ * seaming across the long side of the piece first
+ */
+export function suggestSeams(specs: StoneSpecifications, slab: SlabSize): Seam[] {
+  if (fitsOnSlab(specs.width, specs.height, slab)) return [];
+
+  // Lay the piece along the slab's long side
+  const alongWidth = specs.width >= specs.height;
+  const verticalLimit = alongWidth ? slab.width : slab.height;
+  const horizontalLimit = alongWidth ? slab.height : slab.width;
+
+  const evenly = (orientation: SeamOrientation, extent: number, limit: number) => {
+    const count = Math.ceil(extent / limit);
+    return Array.from({ length: count - 1 }, (_, i) => createSeam(orientation, (extent * (i + 1)) / count));
+  };
+
+  return [
+    ...evenly('vertical', specs.width, verticalLimit),
+    ...evenly('horizontal', specs.height, horizontalLimit),
+  ];
+}
+
+function toVertices(outline: OutlineSegment[]): ClipVertex[] {
+  return outline.map(segment => ({ point: segment.start, id: segment.id, arc: segment.arc }));
+}
+
+function toSegments(vertices: ClipVertex[]): OutlineSegment[] {
+  return vertices.map((vertex, index) => ({
+    id: vertex.id,
+    start: vertex.point,
+    end: vertices[(index + 1) % vertices.length].point,
+    ...(vertex.arc && { arc: vertex.arc }),
+  }));
+}
+
+/**
+ * Clips a closed outline against one side of an axis-aligned line, returning each separate part left
+ * on that side. Parts of the outline that leave the kept side are replaced by segments along the cut,
+ * which take the given id except where an edge of the outline already runs along the line.
+ * Corner arcs are quarter circles, so an arc crosses a line at most once and the piece on either side
+ * is still an arc about the same center
+ */
+function clipHalfPlane(
+  vertices: ClipVertex[],
+  axis: 'x' | 'y',
+  value: number,
+  keep: 'less' | 'greater',
+  cutId: string
+): ClipVertex[][] {
+  const other = axis === 'x' ? 'y' : 'x';
+  // Points on the line count as outside, so edges along it are left to the cut and the kept parts
+  // never touch each other through them
+  const inside = (point: Point) => (keep === 'less' ? value - point[axis] : point[axis] - value) > EPSILON;
+  const next = (index: number) => vertices[(index + 1) % vertices.length];
+
+  // Start at an edge entering the kept side, so each run of kept vertices is collected whole
+  const start = vertices.findIndex((vertex, index) => !inside(vertex.point) && inside(next(index).point));
+  if (start < 0) return vertices.some(vertex => inside(vertex.point)) ? [vertices] : [];
+
+  // Runs of the outline on the kept side, each from the point it enters to the point it leaves
+  let runs: ClipVertex[][] = [];
+  let run: ClipVertex[] = [];
+  for (let k = 0; k < vertices.length; k++) {
+    const index = (start + k) % vertices.length;
+    const vertex = vertices[index];
+    const end = next(index).point;
+
+    if (inside(vertex.point)) {
+      run.push(vertex);
+      if (!inside(end)) {
+        run.push({ point: intersect(vertex, end, axis, value), id: cutId });
+        runs.push(run);
+        run = [];
+      }
+    } else if (inside(end)) {
+      run = [{ point: intersect(vertex, end, axis, value), id: vertex.id, arc: vertex.arc }];
+    }
+  }
+
+  // Runs that only touch the line at a point carry on into the next run
+  const closed: ClipVertex[][] = [];
+  for (let i = 0; i < runs.length;) {
+    const following = (i + 1) % runs.length;
+    if (!isSamePoint(runs[i][runs[i].length - 1].point, runs[following][0].point)) {
+      i++;
+    } else if (following === i) {
+      closed.push(runs[i].slice(0, -1));
+      runs.splice(i, 1);
+    } else {
+      const merged = [...runs[i].slice(0, -1), ...runs[following]];
+      runs = runs.map((existing, index) => index === i ? merged : existing).filter((_, index) => index !== following);
+      i = 0;
+    }
+  }
+
+  // Along the line, the crossings pair up into the spans where the outline encloses stone.
+  // Each span joins the point a run leaves to the point where a run enters
+  const crossings = runs.flatMap((crossingRun, index) => [
+    { index, leaving: false, at: crossingRun[0].point[other] },
+    { index, leaving: true, at: crossingRun[crossingRun.length - 1].point[other] },
+  ]).sort((a, b) => a.at - b.at);
+  const nextRun = new Map<number, number>();
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    const [a, b] = crossings[i].leaving ? [crossings[i], crossings[i + 1]] : [crossings[i + 1], crossings[i]];
+    nextRun.set(a.index, b.index);
+  }
+
+  const parts = [...closed];
+  const used = new Set<number>();
+  runs.forEach((_, first) => {
+    const part: ClipVertex[] = [];
+    for (let index: number | undefined = first; index !== undefined && !used.has(index); index = nextRun.get(index)) {
+      used.add(index);
+      part.push(...runs[index]);
+    }
+    if (part.length > 0) parts.push(part);
+  });
+
+  // Edges of the outline lying on the line name the stretches of cut they coincide with
+  const alongLine = vertices
+    .map((vertex, index) => ({ vertex, end: next(index).point }))
+    .filter(({ vertex, end }) => !vertex.arc && isOnLine(vertex.point, axis, value) && isOnLine(end, axis, value))
+    .map(({ vertex, end }) => ({ id: vertex.id, from: vertex.point[other], to: end[other] }));
+
+  return parts.map(part => part.flatMap((vertex, index) => {
+    if (vertex.id !== cutId) return [vertex];
+    const from = vertex.point[other];
+    const to = part[(index + 1) % part.length].point[other];
+    const direction = Math.sign(to - from);
+    const length = Math.abs(to - from);
+
+    // Stretches of this cut covered by outline edges running the same way, from the start of the cut
+    const covered = alongLine
+      .filter(edge => Math.sign(edge.to - edge.from) === direction)
+      .map(edge => ({
+        id: edge.id,
+        start: Math.max(0, (edge.from - from) * direction),
+        end: Math.min(length, (edge.to - from) * direction),
+      }))
+      .filter(stretch => stretch.end - stretch.start > EPSILON)
+      .sort((a, b) => a.start - b.start);
+
+    const pointAt = (distance: number): Point => {
+      const coordinate = from + distance * direction;
+      return axis === 'x' ? { x: value, y: coordinate } : { x: coordinate, y: value };
+    };
+    const split: ClipVertex[] = [];
+    let position = 0;
+    covered.forEach(stretch => {
+      if (stretch.start > position + EPSILON) split.push({ point: pointAt(position), id: cutId });
+      split.push({ point: pointAt(Math.max(position, stretch.start)), id: stretch.id });
+      position = Math.max(position, stretch.end);
+    });
+    if (position < length - EPSILON || split.length === 0) split.push({ point: pointAt(position), id: cutId });
+    return split;
+  }));
+}
+
+function intersect(vertex: ClipVertex, end: Point, axis: 'x' | 'y', value: number): Point {
+  const other = axis === 'x' ? 'y' : 'x';
+  const start = vertex.point;
+
+  if (vertex.arc) {
+    const { center, radius } = vertex.arc;
+    const offset = Math.sqrt(Math.max(0, radius * radius - (value - center[axis]) ** 2));
+    const low = Math.min(start[other], end[other]) - EPSILON;
+    const high = Math.max(start[other], end[other]) + EPSILON;
+    const candidate = center[other] + offset;
+    const coordinate = candidate >= low && candidate <= high ? candidate : center[other] - offset;
+    return axis === 'x' ? { x: value, y: coordinate } : { x: coordinate, y: value };
+  }
+
+  const t = (value - start[axis]) / (end[axis] - start[axis]);
+  const coordinate = start[other] + (end[other] - start[other]) * t;
+  return axis === 'x' ? { x: value, y: coordinate } : { x: coordinate, y: value };
+}
+
+/**
+ * Drops zero-length segments left where the outline touched a cut line
+ */
+function removeDegenerateSegments(segments: OutlineSegment[]): OutlineSegment[] {
+  const kept = segments.filter(segment =>
+    Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y) > EPSILON);
+
+  return kept.map((segment, index) => ({ ...segment, end: kept[(index + 1) % kept.length].start }));
+}
+
+function translateSegment(segment: OutlineSegment, dx: number, dy: number): OutlineSegment {
+  const move = (point: Point) => ({ x: point.x + dx, y: point.y + dy });
+  return {
+    id: segment.id,
+    start: move(segment.start),
+    end: move(segment.end),
+    ...(segment.arc && { arc: { center: move(segment.arc.center), radius: segment.arc.radius } }),
+  };
+}
+
+function isSamePoint(a: Point, b: Point): boolean {
+  return Math.abs(a.x - b.x) < EPSILON && Math.abs(a.y - b.y) < EPSILON;
+}
+
+function isOnLine(point: Point, axis: 'x' | 'y', value: number): boolean {
+  return Math.abs(point[axis] - value) < EPSILON;
+}
+
+// Whether a point is inside a section outline, taking its corners as straight
+function isInsideSegments(segments: OutlineSegment[], point: Point): boolean {
+  let inside = false;
+  segments.forEach(({ start, end }) => {
+    if ((start.y > point.y) !== (end.y > point.y)
+      && point.x < start.x + ((point.y - start.y) / (end.y - start.y)) * (end.x - start.x)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+function isInCell(point: Point, cell: { left: number; right: number; top: number; bottom: number }): boolean {
+  return point.x >= cell.left && point.x < cell.right && point.y >= cell.top && point.y < cell.bottom;
+}
+
+// Re-expresses a cutout's position from the top-left corner of its section
+function moveCutout(specs: StoneSpecifications, cutout: Cutout, dx: number, dy: number): Cutout {
+  const center = getCutoutCenter(specs, cutout);
+  return {
+    ...cutout,
+    xReference: 'left',
+    xOffset: center.x - dx,
+    yReference: 'top',
+    yOffset: center.y - dy,
+  };
+}
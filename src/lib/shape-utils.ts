@@ -0,0 +1,301 @@
+"use client"
+
+import { EdgeProfile, OutlineSegment, Point, ShapeType, StoneShape, StoneSpecifications } from '@/types/stone';
+import { applyCornerTreatments, getCornerEdgeLabel } from '@/lib/corner-utils';
+
+/**
+ * Utility functions for building piece outlines from shape presets
+ */
+
+// Standard countertop depth, used as the default run depth and leg width of new L and U shapes
+const STANDARD_DEPTH = 25.5;
+
+const SHAPE_LABELS: Record<ShapeType, string> = {
+  'rectangle': 'Rectangle',
+  'l-shape': 'L-Shape',
+  'u-shape': 'U-Shape',
+  'custom': 'Custom',
+};
+
+const EDGE_LABELS: Record<string, string> = {
+  'top': 'Top',
+  'right': 'Right',
+  'bottom': 'Bottom',
+  'left': 'Left',
+  'inner-bottom': 'Inside Run',
+  'inner-left': 'Inside Left Leg',
+  'inner-right': 'Inside Right Leg',
+  'bottom-left': 'Left Leg End',
+  'bottom-right': 'Right Leg End',
+};
+
+/**
+ * Returns the display name of a shape type
+ */
+export function getShapeLabel(type: ShapeType): string {
+  return SHAPE_LABELS[type];
+}
+
+/**
+ * Returns the display name of an outline edge
+ */
+export function getEdgeLabel(edgeId: string): string {
+  if (edgeId.startsWith('seam-')) {
+    return 'Seam';
+  }
+  // Edges of outlines imported from DXF files are numbered clockwise from the top-left corner
+  const imported = edgeId.match(/^edge-(\d+)$/);
+  if (imported) {
+    return `Edge ${imported[1]}`;
+  }
+  return EDGE_LABELS[edgeId] || getCornerEdgeLabel(edgeId) || edgeId;
+}
+
+/**
+ * Creates a shape preset with sensible defaults for the given overall size
+ */
+export function createShapePreset(type: ShapeType, width: number, height: number): StoneShape {
+  if (type === 'rectangle' || type === 'custom') {
+    return { type };
+  }
+
+  const runDepth = Math.min(STANDARD_DEPTH, height / 2);
+
+  if (type === 'l-shape') {
+    return {
+      type,
+      runDepth,
+      leftLegWidth: Math.min(STANDARD_DEPTH, width / 2),
+    };
+  }
+
+  const legWidth = Math.min(STANDARD_DEPTH, width / 3);
+  return {
+    type,
+    runDepth,
+    leftLegWidth: legWidth,
+    rightLegWidth: legWidth,
+  };
+}
+
+/**
+ * Resolves the shape of a piece, clamping preset parameters to the overall width and height
+ * so that an outline can always be built
+ */
+export function resolveShape(specs: StoneSpecifications): StoneShape {
+  const { width, height, shape } = specs;
+  if (!shape || shape.type === 'rectangle') {
+    return { type: 'rectangle' };
+  }
+
+  // Custom outlines are used as they are; without one the piece falls back to its bounding rectangle
+  if (shape.type === 'custom') {
+    return shape.outline && shape.outline.length >= 3 ? shape : { type: 'rectangle' };
+  }
+
+  const defaults = createShapePreset(shape.type, width, height);
+  const runDepth = clamp(shape.runDepth ?? defaults.runDepth!, 0, height);
+  const leftLegWidth = clamp(shape.leftLegWidth ?? defaults.leftLegWidth!, 0, width);
+
+  if (shape.type === 'l-shape') {
+    return { type: 'l-shape', runDepth, leftLegWidth };
+  }
+
+  const rightLegWidth = clamp(shape.rightLegWidth ?? defaults.rightLegWidth!, 0, width - leftLegWidth);
+  return { type: 'u-shape', runDepth, leftLegWidth, rightLegWidth };
+}
+
+/**
+ * Returns true when the piece is a plain rectangle
+ */
+export function isRectangular(specs: StoneSpecifications): boolean {
+  return resolveShape(specs).type === 'rectangle';
+}
+
+/**
+ * Builds the outline of a piece as a closed, clockwise list of segments
+ * (clockwise as seen on screen, with y pointing down), including corner treatments
+ */
+export function getPieceOutline(specs: StoneSpecifications): OutlineSegment[] {
+  return applyCornerTreatments(getBaseOutline(specs), specs);
+}
+
+/**
+ * Builds the outline of a piece from its shape preset alone, with every corner square.
+ * Nominal edge lengths are dimensioned from this outline
+ */
+export function getBaseOutline(specs: StoneSpecifications): OutlineSegment[] {
+  const { width: w, height: h } = specs;
+  const shape = resolveShape(specs);
+
+  if (shape.type === 'custom') {
+    return shape.outline!;
+  }
+
+  if (shape.type === 'l-shape') {
+    const d = shape.runDepth!;
+    const lw = shape.leftLegWidth!;
+    return toSegments([
+      ['top', { x: 0, y: 0 }],
+      ['right', { x: w, y: 0 }],
+      ['inner-bottom', { x: w, y: d }],
+      ['inner-left', { x: lw, y: d }],
+      ['bottom', { x: lw, y: h }],
+      ['left', { x: 0, y: h }],
+    ]);
+  }
+
+  if (shape.type === 'u-shape') {
+    const d = shape.runDepth!;
+    const lw = shape.leftLegWidth!;
+    const rw = shape.rightLegWidth!;
+    return toSegments([
+      ['top', { x: 0, y: 0 }],
+      ['right', { x: w, y: 0 }],
+      ['bottom-right', { x: w, y: h }],
+      ['inner-right', { x: w - rw, y: h }],
+      ['inner-bottom', { x: w - rw, y: d }],
+      ['inner-left', { x: lw, y: d }],
+      ['bottom-left', { x: lw, y: h }],
+      ['left', { x: 0, y: h }],
+    ]);
+  }
+
+  return toSegments([
+    ['top', { x: 0, y: 0 }],
+    ['right', { x: w, y: 0 }],
+    ['bottom', { x: w, y: h }],
+    ['left', { x: 0, y: h }],
+  ]);
+}
+
+/**
+ * Returns the edges of a piece in outline order, for edge pickers
+ */
+export function getPieceEdges(specs: StoneSpecifications): { id: string; label: string; length: number }[] {
+  return getPieceOutline(specs).map(segment => ({
+    id: segment.id,
+    label: getEdgeLabel(segment.id),
+    length: getSegmentLength(segment),
+  }));
+}
+
+/**
+ * Returns the length of an outline segment in inches
+ */
+export function getSegmentLength(segment: OutlineSegment): number {
+  if (segment.arc) {
+    return segment.arc.radius * getArcSweep(segment);
+  }
+  return Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+}
+
+/**
+ * Returns the start and end angles of an arc segment, in radians
+ */
+export function getArcAngles(segment: OutlineSegment): { startAngle: number; endAngle: number } {
+  const { center } = segment.arc!;
+  return {
+    startAngle: Math.atan2(segment.start.y - center.y, segment.start.x - center.x),
+    endAngle: Math.atan2(segment.end.y - center.y, segment.end.x - center.x),
+  };
+}
+
+/**
+ * Returns the point at the given distance along a segment, following the arc for radiused corners
+ */
+export function getPointAlongSegment(segment: OutlineSegment, distance: number): Point {
+  if (segment.arc) {
+    const { center, radius } = segment.arc;
+    const angle = getArcAngles(segment).startAngle + distance / radius;
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+  }
+
+  const length = getSegmentLength(segment);
+  const t = length === 0 ? 0 : distance / length;
+  return {
+    x: segment.start.x + (segment.end.x - segment.start.x) * t,
+    y: segment.start.y + (segment.end.y - segment.start.y) * t,
+  };
+}
+
+/**
+ * Returns the area enclosed by a piece outline in square inches
+ */
+export function getPieceArea(specs: StoneSpecifications): number {
+  const outline = getPieceOutline(specs);
+
+  // Shoelace formula over the outline vertices, plus the bulge of each radiused corner beyond its chord
+  let twiceArea = 0;
+  let arcArea = 0;
+  for (const segment of outline) {
+    const { start, end } = segment;
+    twiceArea += start.x * end.y - end.x * start.y;
+
+    if (segment.arc) {
+      const sweep = getArcSweep(segment);
+      arcArea += (segment.arc.radius * segment.arc.radius / 2) * (sweep - Math.sin(sweep));
+    }
+  }
+
+  return Math.abs(twiceArea) / 2 + arcArea;
+}
+
+/**
+ * Returns the area of a piece in square feet
+ */
+export function getPieceAreaSqFt(specs: StoneSpecifications): number {
+  return getPieceArea(specs) / 144;
+}
+
+/**
+ * Returns the point at which the material label should be anchored:
+ * the bottom-right corner of the top run, which is inside the piece for every shape
+ */
+export function getLabelAnchor(specs: StoneSpecifications): Point {
+  const shape = resolveShape(specs);
+
+  // Custom outlines anchor at the right end of their longest bottom-facing edge,
+  // which runs right to left along a clockwise outline with the piece above it
+  if (shape.type === 'custom') {
+    const bottomEdges = shape.outline!.filter(segment =>
+      !segment.arc && segment.start.y === segment.end.y && segment.end.x < segment.start.x);
+    const longest = bottomEdges.sort((a, b) => getSegmentLength(b) - getSegmentLength(a))[0];
+    return longest ? longest.start : { x: specs.width, y: specs.height };
+  }
+
+  return {
+    x: specs.width,
+    y: shape.type === 'rectangle' ? specs.height : shape.runDepth!,
+  };
+}
+
+/**
+ * Drops edge profiles for edges that don't exist on the current outline,
+ * e.g. after switching a piece from an L-shape back to a rectangle
+ */
+export function filterEdgesForShape(
+  specs: StoneSpecifications,
+  edgeProfiles: Record<string, EdgeProfile>
+): Record<string, EdgeProfile> {
+  const edgeIds = getPieceOutline(specs).map(segment => segment.id);
+  return Object.fromEntries(Object.entries(edgeProfiles).filter(([edge]) => edgeIds.includes(edge)));
+}
+
+function getArcSweep(segment: OutlineSegment): number {
+  const { startAngle, endAngle } = getArcAngles(segment);
+  const sweep = endAngle - startAngle;
+  return sweep < 0 ? sweep + Math.PI * 2 : sweep;
+}
+
+function toSegments(vertices: [string, Point][]): OutlineSegment[] {
+  return vertices.map(([id, start], index) => ({
+    id,
+    start,
+    end: vertices[(index + 1) % vertices.length][1],
+  }));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { SlabSize } from '@/types/stone';
+
+/**
+ * Utility functions for the slab sizes that limit how large a single piece can be cut
+ */
+
+// Typical full slab sizes in inches; jumbo slabs are entered as per-material overrides
+export const DEFAULT_SLAB_SIZES: Record<string, SlabSize> = {
+  quartz: { width: 126, height: 63 },
+  marble: { width: 120, height: 70 },
+  granite: { width: 120, height: 72 },
+  quartzite: { width: 126, height: 72 },
+  soapstone: { width: 84, height: 48 },
+  porcelain: { width: 126, height: 63 },
+};
+
+const FALLBACK_SLAB_SIZE: SlabSize = { width: 120, height: 60 };
+
+/**
+ * Returns the slab size for a material, preferring a user override
+ */
+export function getSlabSize(materialType: string, overrides: Record<string, SlabSize> = {}): SlabSize {
+  return overrides[materialType] || DEFAULT_SLAB_SIZES[materialType] || FALLBACK_SLAB_SIZE;
+}
+
+/**
+ * Returns true when a piece of the given size can be cut from the slab in either orientation
+ */
+export function fitsOnSlab(width: number, height: number, slab: SlabSize): boolean {
+  return (width <= slab.width && height <= slab.height) || (width <= slab.height && height <= slab.width);
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { StoneSpecifications } from '@/types/stone';
+import { decimalToFraction } from '@/lib/fraction-utils';
+import { getEdgeLabel, getPieceAreaSqFt, getPieceOutline, getShapeLabel, resolveShape } from '@/lib/shape-utils';
+import { describeCutout } from '@/lib/cutout-utils';
+import { getEdgeProfileLabel, getProfiledEdges } from '@/lib/edge-profile-utils';
+import { getSeamSections } from '@/lib/seam-utils';
+import { describeCornerTreatment, getCornerLabel, getDrawnCornerTreatments } from '@/lib/corner-utils';
+import { describeRemnant } from '@/lib/remnant-utils';
+
+/**
+ * Utility functions for describing a piece in text, shared by the PDF exporters
+ */
+
+/**
+ * Builds the specification lines printed under a piece title
+ */
+export function getSpecificationLines(specs: StoneSpecifications): string[] {
+  const lines = [
+    `Material: ${specs.material ? `${specs.material.color} (${specs.material.brand} ${specs.materialType})` : specs.materialType}`,
+    `Thickness: ${specs.thickness}`,
+    `Quantity: ${specs.quantity || 1}`,
+  ];
+
+  const shape = resolveShape(specs);
+  if (shape.type !== 'rectangle') {
+    lines.push(`Shape: ${getShapeDescription(specs)}`);
+  }
+
+  lines.push(`Area: ${getPieceAreaSqFt(specs).toFixed(2)} sq ft`);
+
+  const profiledEdges = getProfiledEdges(specs);
+  if (profiledEdges.length > 0) {
+    lines.push('Edge Profiles:');
+    profiledEdges.forEach(([edge, profile]) => lines.push(`  ${getEdgeLabel(edge)}: ${getEdgeProfileLabel(profile)}`));
+  } else {
+    lines.push('Edge Profiles: None');
+  }
+
+  const treatedCorners = getDrawnCornerTreatments(specs, getPieceOutline(specs));
+  if (treatedCorners.length > 0) {
+    const cornerText = treatedCorners
+      .map(([position, treatment]) => `${getCornerLabel(position)} ${describeCornerTreatment(treatment)}`)
+      .join(', ');
+    lines.push(`Corners: ${cornerText}`);
+  }
+
+  const sections = getSeamSections(specs);
+  if (sections.length > 0) {
+    const sizes = sections
+      .map(section => `${decimalToFraction(section.specs.width)}" × ${decimalToFraction(section.specs.height)}"`)
+      .join(', ');
+    lines.push(`Seams: ${sections.length} sections (${sizes})`);
+  }
+
+  const cutouts = specs.cutouts || [];
+  if (cutouts.length > 0) {
+    lines.push(`Cutouts (${cutouts.length}):`);
+    cutouts.forEach(cutout => lines.push(`  ${describeCutout(cutout)}`));
+  }
+
+  if (specs.remnant) {
+    lines.push(`Cut From Remnant: ${describeRemnant(specs.remnant)}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Describes a piece's shape and its preset parameters, e.g. `L-Shape (run 25-1/2", leg 25-1/2")`
+ */
+export function getShapeDescription(specs: StoneSpecifications): string {
+  const shape = resolveShape(specs);
+  const label = getShapeLabel(shape.type);
+
+  if (shape.type === 'l-shape') {
+    return `${label} (run ${decimalToFraction(shape.runDepth!)}", leg ${decimalToFraction(shape.leftLegWidth!)}")`;
+  }
+
+  if (shape.type === 'u-shape') {
+    return `${label} (run ${decimalToFraction(shape.runDepth!)}", legs ${decimalToFraction(shape.leftLegWidth!)}" / ${decimalToFraction(shape.rightLegWidth!)}")`;
+  }
+
+  return label;
+}
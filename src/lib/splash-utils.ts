@@ -0,0 +1,124 @@
+"use client"
+
+import { SplashKind, SplashLink, StonePiece, StoneSpecifications } from '@/types/stone';
+import { getBaseOutline, getEdgeLabel, getSegmentLength } from '@/lib/shape-utils';
+
+/**
+ * Utility functions for backsplash and side-splash pieces linked to a countertop
+ */
+
+// Standard backsplash height in inches
+export const DEFAULT_SPLASH_HEIGHT = 4;
+
+const SPLASH_LABELS: Record<SplashKind, string> = {
+  'backsplash': 'Backsplash',
+  'side-splash': 'Side Splash',
+};
+
+/**
+ * Returns whether a splash along the given edge is a backsplash or a side splash.
+ * The ends of the top run take side splashes; every other wall edge takes a backsplash
+ */
+export function getSplashKind(edge: string): SplashKind {
+  return edge === 'left' || edge === 'right' ? 'side-splash' : 'backsplash';
+}
+
+/**
+ * Returns the display name of a splash kind
+ */
+export function getSplashLabel(kind: SplashKind): string {
+  return SPLASH_LABELS[kind];
+}
+
+/**
+ * Describes a splash piece, e.g. `Backsplash, Top edge`
+ */
+export function describeSplash(link: SplashLink): string {
+  return `${getSplashLabel(getSplashKind(link.edge))}, ${getEdgeLabel(link.edge)} edge`;
+}
+
+/**
+ * Returns the nominal length of each edge of a piece that a splash can stand on
+ */
+export function getWallEdges(specs: StoneSpecifications): { id: string; label: string; length: number }[] {
+  return getBaseOutline(specs).map(segment => ({
+    id: segment.id,
+    label: getEdgeLabel(segment.id),
+    length: getSegmentLength(segment),
+  }));
+}
+
+/**
+ * Builds the specifications of a splash standing on an edge of the parent piece,
+ * or null when the parent no longer has that edge
+ */
+export function getSplashSpecs(parentSpecs: StoneSpecifications, link: SplashLink): StoneSpecifications | null {
+  const edge = getWallEdges(parentSpecs).find(wallEdge => wallEdge.id === link.edge);
+  if (!edge) return null;
+
+  return {
+    width: edge.length,
+    height: link.height,
+    edgeProfiles: { top: 'eased' },
+    materialType: parentSpecs.materialType,
+    material: parentSpecs.material,
+    thickness: parentSpecs.thickness,
+    quantity: parentSpecs.quantity,
+  };
+}
+
+/**
+ * Creates linked splash pieces for the chosen edges of a countertop
+ */
+export function createSplashPieces(parent: StonePiece, edges: string[], height: number): StonePiece[] {
+  return edges.flatMap(edge => {
+    const link: SplashLink = { parentId: parent.id, edge, height };
+    const specs = getSplashSpecs(parent.specs, link);
+    if (!specs) return [];
+
+    return [{
+      id: `${parent.id}-splash-${edge}`,
+      specs,
+      notes: describeSplash(link),
+      splash: link,
+    }];
+  });
+}
+
+/**
+ * Replaces the splashes of a countertop with new ones for the chosen edges,
+ * keeping them directly after the countertop in the list
+ */
+export function replaceSplashPieces(
+  pieces: StonePiece[],
+  parentId: string,
+  edges: string[],
+  height: number
+): StonePiece[] {
+  const parent = pieces.find(piece => piece.id === parentId);
+  if (!parent) return pieces;
+
+  const remaining = pieces.filter(piece => piece.splash?.parentId !== parentId);
+  const index = remaining.indexOf(parent);
+  return [
+    ...remaining.slice(0, index + 1),
+    ...createSplashPieces(parent, edges, height),
+    ...remaining.slice(index + 1),
+  ];
+}
+
+/**
+ * Brings every splash piece in line with its parent countertop.
+ * Splashes whose parent or edge no longer exists are removed along with it
+ */
+export function syncSplashPieces(pieces: StonePiece[]): StonePiece[] {
+  return pieces.flatMap(piece => {
+    if (!piece.splash) return [piece];
+
+    const parent = pieces.find(candidate => candidate.id === piece.splash!.parentId);
+    const specs = parent && getSplashSpecs(parent.specs, piece.splash);
+    if (!specs) return [];
+
+    return [{ ...piece, specs: { ...piece.specs, ...specs, edgeProfiles: piece.specs.edgeProfiles } }];
+  });
+}
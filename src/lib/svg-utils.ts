@@ -0,0 +1,207 @@
+"use client"
+
+import { Point } from '@/types/stone';
+import { Scene, SceneImage, ScenePath, ScenePathCommand, SceneText, parseFont, renderScene } from '@/lib/scene-utils';
+
+/**
+ * Utility functions for vector (SVG) output of scenes
+ */
+
+/**
+ * Emits a scene as an SVG document, with a group per layer
+ */
+export function sceneToSVG(scene: Scene): string {
+  const defs: string[] = [];
+  const elements: string[] = [];
+
+  // Clip outlines are shared between the items that use them, e.g. the grid lines and seam lines
+  const clipIds = new Map<string, string>();
+  const getClipAttribute = (clip?: ScenePathCommand[]) => {
+    if (!clip) return '';
+
+    const d = toPathData(clip);
+    if (!clipIds.has(d)) {
+      clipIds.set(d, `clip${clipIds.size + 1}`);
+      defs.push(`<clipPath id="${clipIds.get(d)}"><path d="${d}"/></clipPath>`);
+    }
+    return ` clip-path="url(#${clipIds.get(d)})"`;
+  };
+
+  renderScene(scene, {
+    beginLayer(layer) {
+      elements.push(`<g id="${layer.name}">`);
+    },
+
+    endLayer() {
+      elements.push('</g>');
+    },
+
+    drawPath(path: ScenePath) {
+      const d = toPathData(path.commands);
+      if (!d) return;
+
+      const stroke = path.stroke
+        ? ` stroke="${escapeXml(path.stroke)}" stroke-width="${format(path.lineWidth ?? 1)}"` +
+          (path.dash && path.dash.length > 0 ? ` stroke-dasharray="${path.dash.map(format).join(' ')}"` : '')
+        : '';
+      elements.push(`<path d="${d}" fill="${path.fill ? escapeXml(path.fill) : 'none'}"${stroke}${getClipAttribute(path.clip)}/>`);
+    },
+
+    drawText(text: SceneText) {
+      const { size, bold, family } = parseFont(text.font);
+      const anchor = text.align === 'center' ? 'middle' : text.align === 'right' ? 'end' : 'start';
+      const rotation = text.rotation
+        ? ` transform="rotate(${format((text.rotation * 180) / Math.PI)} ${format(text.x)} ${format(text.y)})"`
+        : '';
+
+      elements.push(
+        `<text x="${format(text.x)}" y="${format(text.y)}" font-family="${escapeXml(family)}" font-size="${size}"` +
+        `${bold ? ' font-weight="bold"' : ''} text-anchor="${anchor}" fill="${escapeXml(text.color)}"${rotation}>` +
+        `${escapeText(text.text)}</text>`
+      );
+    },
+
+    drawImage(image: SceneImage) {
+      elements.push(
+        `<image href="${escapeXml(image.href)}" x="${format(image.x)}" y="${format(image.y)}" width="${format(image.width)}"` +
+        ` height="${format(image.height)}" preserveAspectRatio="xMidYMid meet"/>`
+      );
+    },
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`,
+    ...(defs.length > 0 ? ['<defs>', ...defs, '</defs>'] : []),
+    ...elements,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Triggers a browser download of an SVG document
+ */
+export function downloadSVG(svg: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Converts path commands to SVG path data
+ */
+function toPathData(commands: ScenePathCommand[]): string {
+  let d = '';
+  let current: Point | null = null;
+  let subpathStart: Point | null = null;
+
+  // Continues the path to a point, starting a subpath if there is no current point
+  const lineTo = (point: Point) => {
+    d += `${current ? 'L' : 'M'}${format(point.x)} ${format(point.y)}`;
+    if (!current) {
+      subpathStart = point;
+    }
+    current = point;
+  };
+
+  commands.forEach(command => {
+    switch (command.type) {
+      case 'move':
+        d += `M${format(command.x)} ${format(command.y)}`;
+        current = { x: command.x, y: command.y };
+        subpathStart = current;
+        break;
+      case 'line':
+        lineTo({ x: command.x, y: command.y });
+        break;
+      case 'arc': {
+        const { x, y, radius, startAngle } = command;
+        const pointAt = (angle: number) => ({ x: x + radius * Math.cos(angle), y: y + radius * Math.sin(angle) });
+
+        // Clockwise sweep of at most a full turn, split in halves since SVG can't draw a full turn as one arc
+        let sweep = command.endAngle - startAngle;
+        sweep = sweep >= Math.PI * 2 ? Math.PI * 2 : ((sweep % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+        lineTo(pointAt(startAngle));
+
+        const steps = sweep > Math.PI ? 2 : 1;
+        for (let i = 1; i <= steps; i++) {
+          const end = pointAt(startAngle + (sweep * i) / steps);
+          d += `A${format(radius)} ${format(radius)} 0 0 1 ${format(end.x)} ${format(end.y)}`;
+          current = end;
+        }
+        break;
+      }
+      case 'arcTo': {
+        const p1 = { x: command.x1, y: command.y1 };
+        const p2 = { x: command.x2, y: command.y2 };
+        if (!current) {
+          lineTo(p1);
+        }
+        const p0: Point = current!;
+
+        const v1 = { x: p0.x - p1.x, y: p0.y - p1.y };
+        const v2 = { x: p2.x - p1.x, y: p2.y - p1.y };
+        const length1 = Math.hypot(v1.x, v1.y);
+        const length2 = Math.hypot(v2.x, v2.y);
+        const cross = v1.x * v2.y - v1.y * v2.x;
+
+        // Square or degenerate corners are drawn as a line to the corner point
+        if (command.radius === 0 || length1 === 0 || length2 === 0 || Math.abs(cross) < 1e-9) {
+          lineTo(p1);
+          break;
+        }
+
+        const angle = Math.acos(Math.max(-1, Math.min(1, (v1.x * v2.x + v1.y * v2.y) / (length1 * length2))));
+        const distance = command.radius / Math.tan(angle / 2);
+        const t2 = { x: p1.x + (v2.x / length2) * distance, y: p1.y + (v2.y / length2) * distance };
+
+        lineTo({ x: p1.x + (v1.x / length1) * distance, y: p1.y + (v1.y / length1) * distance });
+        d += `A${format(command.radius)} ${format(command.radius)} 0 0 ${cross < 0 ? 1 : 0} ${format(t2.x)} ${format(t2.y)}`;
+        current = t2;
+        break;
+      }
+      case 'ellipse': {
+        const { x, y, radiusX, radiusY } = command;
+        const arc = `A${format(radiusX)} ${format(radiusY)} 0 0 1`;
+        d += `M${format(x + radiusX)} ${format(y)}${arc} ${format(x - radiusX)} ${format(y)}${arc} ${format(x + radiusX)} ${format(y)}`;
+        current = { x: x + radiusX, y };
+        subpathStart = current;
+        break;
+      }
+      case 'rect': {
+        const { x, y, width, height } = command;
+        d += `M${format(x)} ${format(y)}H${format(x + width)}V${format(y + height)}H${format(x)}Z`;
+        current = { x, y };
+        subpathStart = current;
+        break;
+      }
+      case 'close':
+        if (subpathStart) {
+          d += 'Z';
+          current = subpathStart;
+        }
+        break;
+    }
+  });
+
+  return d;
+}
+
+function format(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function escapeXml(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
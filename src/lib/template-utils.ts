@@ -0,0 +1,112 @@
+"use client"
+
+import { Point } from '@/types/stone';
+
+/**
+ * Utility functions for tiling full-size templates across printer pages
+ */
+
+export type PaperSize = 'letter' | 'a4';
+
+// Portrait page size, in millimeters
+export interface PaperFormat {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const PAPER_SIZES: Record<PaperSize, PaperFormat> = {
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+  a4: { label: 'A4', width: 210, height: 297 },
+};
+
+// Unprinted border around every page, kept clear of the printer's margins and used for the page labels
+export const TEMPLATE_MARGIN = 12;
+
+// Width of the strip of the template repeated on neighboring pages, for lining them up
+export const TEMPLATE_OVERLAP = 15;
+
+export interface TemplateTile {
+  row: number;
+  column: number;
+  label: string; // Row letter and column number, e.g. `B3`
+  x: number; // Template position of the page's printed area, in millimeters
+  y: number;
+}
+
+export interface TemplateLayout {
+  paperSize: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  pageWidth: number;
+  pageHeight: number;
+  printWidth: number; // Printed area of each page, inside the margins
+  printHeight: number;
+  rows: number;
+  columns: number;
+  tiles: TemplateTile[]; // Row by row, from the top left
+  crosshairs: Point[]; // Template positions of alignment marks, each printed on every page it overlaps
+}
+
+/**
+ * Splits a full-size template into overlapping pages, turning the paper whichever way needs fewer pages
+ * @param width Template width, in millimeters
+ * @param height Template height, in millimeters
+ * @param paperSize Printer paper
+ */
+export function getTemplateLayout(width: number, height: number, paperSize: PaperSize): TemplateLayout {
+  const portrait = layoutTiles(width, height, paperSize, 'portrait');
+  const landscape = layoutTiles(width, height, paperSize, 'landscape');
+  return landscape.tiles.length < portrait.tiles.length ? landscape : portrait;
+}
+
+/**
+ * Names a page by its row letter and column number, continuing AA, AB... after Z
+ */
+export function getTileLabel(row: number, column: number): string {
+  let letters = '';
+  for (let n = row + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${letters}${column + 1}`;
+}
+
+/**
+ * Returns the tile a number of rows and columns away from a tile, if there is one
+ */
+export function getNeighborTile(layout: TemplateLayout, tile: TemplateTile, rowOffset: number, columnOffset: number): TemplateTile | undefined {
+  return layout.tiles.find(other => other.row === tile.row + rowOffset && other.column === tile.column + columnOffset);
+}
+
+function layoutTiles(width: number, height: number, paperSize: PaperSize, orientation: 'portrait' | 'landscape'): TemplateLayout {
+  const paper = PAPER_SIZES[paperSize];
+  const pageWidth = orientation === 'portrait' ? paper.width : paper.height;
+  const pageHeight = orientation === 'portrait' ? paper.height : paper.width;
+  const printWidth = pageWidth - TEMPLATE_MARGIN * 2;
+  const printHeight = pageHeight - TEMPLATE_MARGIN * 2;
+
+  // Each page after the first adds its printed area less the overlap
+  const stepX = printWidth - TEMPLATE_OVERLAP;
+  const stepY = printHeight - TEMPLATE_OVERLAP;
+  const columns = Math.max(1, Math.ceil((width - TEMPLATE_OVERLAP) / stepX - 1e-9));
+  const rows = Math.max(1, Math.ceil((height - TEMPLATE_OVERLAP) / stepY - 1e-9));
+
+  const tiles: TemplateTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      tiles.push({ row, column, label: getTileLabel(row, column), x: column * stepX, y: row * stepY });
+    }
+  }
+
+  // Marks run down the middle of each overlap strip, level with the page centers and the other strips
+  const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+  const stripsX = range(columns - 1).map(i => (i + 1) * stepX + TEMPLATE_OVERLAP / 2);
+  const stripsY = range(rows - 1).map(i => (i + 1) * stepY + TEMPLATE_OVERLAP / 2);
+  const centersX = range(columns).map(i => i * stepX + printWidth / 2);
+  const centersY = range(rows).map(i => i * stepY + printHeight / 2);
+  const crosshairs: Point[] = [
+    ...stripsX.flatMap(x => [...centersY, ...stripsY].map(y => ({ x, y }))),
+    ...stripsY.flatMap(y => centersX.map(x => ({ x, y }))),
+  ];
+
+  return { paperSize, orientation, pageWidth, pageHeight, printWidth, printHeight, rows, columns, tiles, crosshairs };
+}
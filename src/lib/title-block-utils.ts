@@ -0,0 +1,249 @@
+"use client"
+
+import { CompanySettings, JobInfo, Revision } from '@/types/stone';
+import { MeasureText, Scene, SceneItem, ScenePath, getLayer, measureTextWidth } from '@/lib/scene-utils';
+
+/**
+ * Utility functions for laying out drawing title blocks with company branding and a revision table
+ */
+
+// Company and job details shared by every sheet of a job
+export interface TitleBlockDetails {
+  company: CompanySettings;
+  job: JobInfo;
+}
+
+// Everything shown in one sheet's title block
+export interface TitleBlock extends TitleBlockDetails {
+  date: string;
+  sheet: number;
+  sheetCount: number;
+  scale: string; // e.g. `1:24`, or `NTS` for drawings not to scale
+}
+
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  companyName: '',
+  address: '',
+  phone: '',
+  drawnBy: '',
+};
+
+export const DEFAULT_JOB_INFO: JobInfo = {
+  jobName: 'Stone Project',
+  jobNumber: '',
+  customer: '',
+  revisions: [],
+};
+
+export const DEFAULT_TITLE_BLOCK_DETAILS: TitleBlockDetails = {
+  company: DEFAULT_COMPANY_SETTINGS,
+  job: DEFAULT_JOB_INFO,
+};
+
+// Height of a title block in layout units; the block is scaled as a whole to fit a drawing or page
+export const TITLE_BLOCK_HEIGHT = 64;
+
+// Share of the width for the company, job, revision table and sheet columns
+const COLUMN_WIDTHS = [0.28, 0.27, 0.3, 0.15];
+
+// Share of the revision table for its revision, date, description and by columns
+const REVISION_COLUMN_WIDTHS = [0.12, 0.24, 0.48, 0.16];
+
+// Rows of the revision table below its header; older revisions are left off
+const REVISION_ROWS = 4;
+
+const CELL_PADDING = 5;
+const CAPTION_FONT = 'bold 6.5px Arial';
+const CAPTION_COLOR = '#6b7280';
+const LINE_COLOR = '#000000';
+
+// Places text in a cell, shortened to fit
+type CellText = (value: string, left: number, baseline: number, maxWidth: number, font: string, color?: string) => SceneItem;
+
+/**
+ * Fills in a sheet's title block
+ * @param details Company and job details
+ * @param sheet Sheet number, from 1
+ * @param sheetCount Number of sheets in the set
+ * @param scale Drawing scale, e.g. from formatScale
+ */
+export function createTitleBlock(details: TitleBlockDetails, sheet: number = 1, sheetCount: number = 1, scale: string = 'NTS'): TitleBlock {
+  return { ...details, date: new Date().toLocaleDateString(), sheet, sheetCount, scale };
+}
+
+/**
+ * Formats a drawing scale from the real size per unit of paper, e.g. `1:24`
+ */
+export function formatScale(ratio: number): string {
+  return `1:${ratio >= 10 ? Math.round(ratio) : Math.round(ratio * 10) / 10}`;
+}
+
+/**
+ * Creates the next revision of a job, lettered A, B... Z, AA, AB...
+ */
+export function createRevision(revisions: Revision[], description: string, by: string): Revision {
+  let revision = '';
+  for (let n = revisions.length + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    revision = String.fromCharCode(65 + ((n - 1) % 26)) + revision;
+  }
+  return { id: `${Date.now()}-${revisions.length}`, revision, date: new Date().toLocaleDateString(), description, by };
+}
+
+/**
+ * Adds a title block to a scene's title block layer: company name and logo, job details,
+ * the latest revisions, and drawn by, date, scale and sheet number
+ * @param x Left of the block
+ * @param y Top of the block; the block is TITLE_BLOCK_HEIGHT tall
+ * @param width Block width
+ * @param measureText Text measurement, for shortening text to fit its cell
+ */
+export function addTitleBlock(
+  scene: Scene,
+  block: TitleBlock,
+  x: number,
+  y: number,
+  width: number,
+  measureText: MeasureText = measureTextWidth
+) {
+  const items = getLayer(scene, 'titleBlock').items;
+  const height = TITLE_BLOCK_HEIGHT;
+  const columns = getColumns(x, width, COLUMN_WIDTHS);
+  const [company, job, revisions, sheet] = columns;
+
+  items.push({ type: 'path', commands: [{ type: 'rect', x, y, width, height }], fill: 'white', stroke: LINE_COLOR, lineWidth: 1.5 });
+  items.push({
+    type: 'path',
+    commands: columns.slice(1).flatMap(column => [
+      { type: 'move' as const, x: column.x, y },
+      { type: 'line' as const, x: column.x, y: y + height },
+    ]),
+    stroke: LINE_COLOR,
+    lineWidth: 1,
+  });
+
+  const text: CellText = (value, left, baseline, maxWidth, font, color = 'black') => ({
+    type: 'text', text: fitText(value, font, maxWidth, measureText), x: left, y: baseline, font, color, align: 'left',
+  });
+
+  // Company: logo on the left when there is one, then name, address and phone
+  let textLeft = company.x + CELL_PADDING;
+  if (block.company.logo) {
+    const size = height - CELL_PADDING * 2;
+    items.push({ type: 'image', href: block.company.logo, x: textLeft, y: y + CELL_PADDING, width: size, height: size });
+    textLeft += size + CELL_PADDING;
+  }
+  const companyWidth = company.x + company.width - CELL_PADDING - textLeft;
+  items.push(
+    text(block.company.companyName, textLeft, y + 22, companyWidth, 'bold 12px Arial'),
+    text(block.company.address, textLeft, y + 37, companyWidth, '8.5px Arial'),
+    text(block.company.phone, textLeft, y + 50, companyWidth, '8.5px Arial')
+  );
+
+  // Job: caption over value in three rows
+  const jobWidth = job.width - CELL_PADDING * 2;
+  ([['JOB', block.job.jobName], ['JOB NO.', block.job.jobNumber], ['CUSTOMER', block.job.customer]] as const).forEach(([caption, value], i) => {
+    const top = y + i * 21;
+    items.push(
+      text(caption, job.x + CELL_PADDING, top + 8.5, jobWidth, CAPTION_FONT, CAPTION_COLOR),
+      text(value, job.x + CELL_PADDING, top + 18.5, jobWidth, '9.5px Arial')
+    );
+  });
+
+  addRevisionTable(items, block.job.revisions, revisions.x, y, revisions.width, text);
+
+  // Sheet: drawn by, date, scale and sheet number in ruled rows
+  const sheetRows: [string, string][] = [
+    ['DRAWN BY', block.company.drawnBy],
+    ['DATE', block.date],
+    ['SCALE', block.scale],
+    ['SHEET', `${block.sheet} of ${block.sheetCount}`],
+  ];
+  const rowHeight = height / sheetRows.length;
+  const sheetWidth = sheet.width - CELL_PADDING * 2;
+  sheetRows.forEach(([caption, value], i) => {
+    const top = y + i * rowHeight;
+    items.push(
+      text(caption, sheet.x + CELL_PADDING, top + 6.5, sheetWidth, CAPTION_FONT, CAPTION_COLOR),
+      text(value, sheet.x + CELL_PADDING, top + 14, sheetWidth, 'bold 8px Arial')
+    );
+  });
+  items.push(getRules(sheet.x, sheet.width, y, rowHeight, sheetRows.length));
+}
+
+/**
+ * Adds the revision table: a header row, then the latest revisions oldest first
+ */
+function addRevisionTable(
+  items: SceneItem[],
+  revisions: Revision[],
+  x: number,
+  y: number,
+  width: number,
+  text: CellText
+) {
+  const headerHeight = 12;
+  const rowHeight = (TITLE_BLOCK_HEIGHT - headerHeight) / REVISION_ROWS;
+  const columns = getColumns(x, width, REVISION_COLUMN_WIDTHS);
+  const cellWidth = (column: { width: number }) => column.width - CELL_PADDING;
+
+  ['REV', 'DATE', 'DESCRIPTION', 'BY'].forEach((caption, i) => {
+    items.push(text(caption, columns[i].x + CELL_PADDING / 2, y + 8.5, cellWidth(columns[i]), CAPTION_FONT, CAPTION_COLOR));
+  });
+
+  revisions.slice(-REVISION_ROWS).forEach((revision, row) => {
+    const baseline = y + headerHeight + row * rowHeight + rowHeight * 0.7;
+    [revision.revision, revision.date, revision.description, revision.by].forEach((value, i) => {
+      items.push(text(value, columns[i].x + CELL_PADDING / 2, baseline, cellWidth(columns[i]), '7.5px Arial'));
+    });
+  });
+
+  // Rules under the header and between rows, and between the columns
+  items.push({
+    type: 'path',
+    commands: [
+      ...getRules(x, width, y + headerHeight - rowHeight, rowHeight, REVISION_ROWS + 1).commands,
+      ...columns.slice(1).flatMap(column => [
+        { type: 'move' as const, x: column.x, y },
+        { type: 'line' as const, x: column.x, y: y + TITLE_BLOCK_HEIGHT },
+      ]),
+    ],
+    stroke: LINE_COLOR,
+    lineWidth: 0.5,
+  });
+}
+
+/**
+ * Returns horizontal rules between a number of equal rows
+ */
+function getRules(x: number, width: number, y: number, rowHeight: number, rows: number): ScenePath {
+  const commands = Array.from({ length: rows - 1 }, (_, i) => y + (i + 1) * rowHeight).flatMap(ruleY => [
+    { type: 'move' as const, x, y: ruleY },
+    { type: 'line' as const, x: x + width, y: ruleY },
+  ]);
+  return { type: 'path', commands, stroke: LINE_COLOR, lineWidth: 0.5 };
+}
+
+/**
+ * Splits a width into columns by share
+ */
+function getColumns(x: number, width: number, shares: number[]): { x: number; width: number }[] {
+  let left = x;
+  return shares.map(share => {
+    const column = { x: left, width: width * share };
+    left += column.width;
+    return column;
+  });
+}
+
+/**
+ * Shortens text with an ellipsis until it fits a width
+ */
+function fitText(text: string, font: string, maxWidth: number, measureText: MeasureText): string {
+  if (measureText(text, font) <= maxWidth) return text;
+
+  let length = text.length;
+  while (length > 0 && measureText(`${text.slice(0, length)}...`, font) > maxWidth) {
+    length--;
+  }
+  return length > 0 ? `${text.slice(0, length).trimEnd()}...` : '';
+}
@@ -1,23 +1,172 @@
+export type ShapeType = 'rectangle' | 'l-shape' | 'u-shape' | 'custom';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A straight run of a piece outline, in inches from the top-left corner of the piece's bounding box.
+// The id doubles as the edge name used by edgeProfiles ('top', 'inner-left', ...)
+export interface OutlineSegment {
+  id: string;
+  start: Point;
+  end: Point;
+  arc?: { center: Point; radius: number }; // Set for radiused corners; the arc runs clockwise from start to end
+}
+
+export interface StoneShape {
+  type: ShapeType;
+  runDepth?: number; // Depth of the run along the top of L- and U-shaped pieces
+  leftLegWidth?: number; // Width of the leg hanging down the left side (L and U shapes)
+  rightLegWidth?: number; // Width of the leg hanging down the right side (U shapes only)
+  outline?: OutlineSegment[]; // Custom shapes only: a prebuilt clockwise outline, e.g. one section of a seamed piece
+}
+
+export type CornerPosition = 'top-left' | 'top-right' | 'bottom-right' | 'bottom-left';
+
+export type CornerTreatmentType = 'square' | 'radius' | 'clip' | 'notch';
+
+export interface CornerTreatment {
+  type: CornerTreatmentType;
+  radius?: number;
+  clip?: number; // Leg length of a 45° clip
+  notchWidth?: number; // Along the top or bottom edge
+  notchDepth?: number; // Along the left or right edge
+}
+
+export type EdgeProfile = 'eased' | 'half-bullnose' | 'full-bullnose' | 'ogee' | 'bevel' | 'mitered';
+
+export type CutoutType = 'rectangle' | 'oval' | 'hole';
+
+// A sink, cooktop or faucet opening, positioned by its centerlines.
+// Offsets are measured from the chosen edges of the piece's bounding box to the cutout's center
+export interface Cutout {
+  id: string;
+  type: CutoutType;
+  label: string;
+  width: number; // Diameter for drilled holes
+  height: number; // Ignored for drilled holes
+  cornerRadius?: number; // Rectangles only
+  xReference: 'left' | 'right';
+  xOffset: number;
+  yReference: 'top' | 'bottom';
+  yOffset: number;
+}
+
+export type SeamOrientation = 'vertical' | 'horizontal';
+
+// A straight joint splitting an oversize piece into sections that each fit on a slab.
+// Vertical seams are positioned from the left of the piece's bounding box, horizontal seams from the top
+export interface Seam {
+  id: string;
+  orientation: SeamOrientation;
+  position: number;
+}
+
+export interface SlabSize {
+  width: number; // Long side
+  height: number; // Short side
+}
+
+// A stone product in the material catalog, identified by material type, brand and color
+export interface CatalogMaterial {
+  id: string;
+  materialType: string;
+  brand: string;
+  color: string;
+  thicknesses: string[];
+  slabSize: SlabSize;
+  density: number; // Pounds per cubic foot
+  pricePerSqFt: number;
+}
+
+// Catalog entry a piece is made from, with the names recorded so drawings don't need the catalog
+export interface MaterialReference {
+  id: string;
+  brand: string;
+  color: string;
+}
+
+// An offcut in the yard that small pieces can be cut from instead of a fresh slab
+export interface Remnant {
+  id: string;
+  materialType: string;
+  color: string;
+  thickness: string;
+  width: number;
+  height: number;
+  location: string; // Where the remnant is stored, e.g. a rack or bay
+}
+
 export interface StoneSpecifications {
   width: number;
   height: number;
-  polishedEdges: string[];
+  edgeProfiles: Record<string, EdgeProfile>; // Finished edges keyed by outline edge id; edges not listed are left unfinished
+  polishedEdges?: string[]; // Legacy: finished edges saved before profiles were introduced, read as eased
   materialType: string;
+  material?: MaterialReference; // Catalog entry, omitted when only the material type is known
   thickness: string;
   quantity: number;
+  shape?: StoneShape; // Omitted for plain rectangles saved before shapes were introduced
+  cutouts?: Cutout[];
+  corners?: Partial<Record<CornerPosition, CornerTreatment>>;
+  seams?: Seam[];
+  remnant?: Remnant; // Remnant reserved for this piece, as recorded when it was reserved
 }
 
+// End marks of dimension lines: architectural slashes or arrowheads
+export type DimensionTerminator = 'tick' | 'arrow';
+
 export interface MockupOptions {
   showGrid: boolean;
   showPolishedEdges: boolean;
   useXMarks: boolean;
   scale: number;
+  dimensionTerminator?: DimensionTerminator; // Architectural ticks when not set
+  showTitleBlock?: boolean;
+}
+
+// Company details printed in every title block, kept as a setting rather than entered per export
+export interface CompanySettings {
+  companyName: string;
+  address: string;
+  phone: string;
+  logo?: string; // Data URL of the logo image
+  drawnBy: string; // Drafter's name or initials
+}
+
+// A change to the job's drawings, listed in the title block's revision table
+export interface Revision {
+  id: string;
+  revision: string; // Revision letter, e.g. `B`
+  date: string;
+  description: string;
+  by: string;
+}
+
+// Job details shown in the title block
+export interface JobInfo {
+  jobName: string;
+  jobNumber: string;
+  customer: string;
+  revisions: Revision[]; // Oldest first
+}
+
+export type SplashKind = 'backsplash' | 'side-splash';
+
+// Links a generated splash piece to the countertop edge it stands on.
+// The splash's length follows that edge whenever the parent piece changes
+export interface SplashLink {
+  parentId: string;
+  edge: string;
+  height: number;
 }
 
 export interface StonePiece {
   id: string;
   specs: StoneSpecifications;
   notes: string; // Added notes field for storing additional information about the piece
+  splash?: SplashLink; // Set for backsplash and side-splash pieces generated from a countertop
 }
 
 export interface StoneProject {